@@ -7,9 +7,20 @@ import {
   type Memory,
   type State
 } from '@elizaos/core';
-import { Contract, JsonRpcProvider, parseEther, parseUnits, Wallet } from 'ethers';
+import { Contract, getAddress, isAddress, parseEther, parseUnits } from 'ethers';
 import { bridgeAssetsTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getBridgeTracker } from '../services/bridgeTracker';
+import { signBridgePermit } from '../utils/permit';
+import { getTokenMapping } from '../utils/tokenMapping';
+import { getKnownToken, resolveToken } from '../utils/tokenRegistry';
+import {
+  explainFailedTransaction,
+  formatRevert,
+  type ReplayableTransaction,
+} from '../utils/revertDecoder';
+import { withNetworkProfile } from '../networks';
 
 // Polygon zkEVM Bridge Contract ABI (simplified for deposit/withdraw)
 const BRIDGE_ABI = [
@@ -17,8 +28,6 @@ const BRIDGE_ABI = [
   'function bridgeAsset(uint32 destinationNetwork, address destinationAddress, uint256 amount, address token, bool forceUpdateGlobalExitRoot, bytes permitData) external payable',
   // Deposit ERC20
   'function bridgeAsset(uint32 destinationNetwork, address destinationAddress, uint256 amount, address token, bool forceUpdateGlobalExitRoot, bytes permitData) external',
-  // Claim assets
-  'function claimAsset(bytes32[32] smtProof, uint32 index, bytes32 mainnetExitRoot, bytes32 rollupExitRoot, uint32 originNetwork, address originTokenAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata) external',
   // Events
   'event BridgeEvent(uint8 leafType, uint32 originNetwork, address originAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata, uint32 depositCount)',
   'event ClaimEvent(uint32 index, uint32 originNetwork, address originAddress, address destinationAddress, uint256 amount)',
@@ -30,30 +39,20 @@ const ERC20_ABI = [
   'function allowance(address owner, address spender) external view returns (uint256)',
   'function balanceOf(address account) external view returns (uint256)',
   'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
 ];
 
-// Bridge contract addresses
-const BRIDGE_ADDRESSES = {
-  mainnet: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe', // Ethereum mainnet bridge
-  zkevm: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe', // zkEVM bridge (same address)
-};
-
-// Network IDs
-const NETWORK_IDS = {
-  ethereum: 0,
-  zkevm: 1,
-};
-
-export const bridgeAssetsAction: Action = {
+export const bridgeAssetsAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_BRIDGE_ASSETS',
   similes: ['BRIDGE_TOKENS', 'DEPOSIT_ASSETS', 'WITHDRAW_ASSETS', 'BRIDGE_ETH', 'BRIDGE_ERC20'].map(
     (s) => `POLYGON_ZKEVM_${s}`
   ),
-  description: 'Bridge assets (ETH or ERC20 tokens) to or from Polygon zkEVM.',
+  description:
+    'Bridge assets (ETH or ERC20 tokens) to or from Polygon zkEVM, to the sender or another recipient address.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -100,7 +99,7 @@ export const bridgeAssetsAction: Action = {
 
     const privateKey = runtime.getSetting('PRIVATE_KEY');
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!privateKey) {
       const errorMessage = 'PRIVATE_KEY is required for bridging assets.';
@@ -138,9 +137,11 @@ export const bridgeAssetsAction: Action = {
     // Extract bridge parameters using LLM
     try {
       bridgeParams = await callLLMWithTimeout<{
-        tokenAddress: string | null;
+        token?: string | null;
+        tokenAddress?: string | null;
         amount: string;
         direction: 'deposit' | 'withdraw';
+        destinationAddress?: string | null;
         gasLimit?: string | number;
         gasPrice?: string;
         maxFeePerGas?: string;
@@ -161,6 +162,13 @@ export const bridgeAssetsAction: Action = {
       if (!['deposit', 'withdraw'].includes(bridgeParams.direction)) {
         throw new Error('Invalid direction. Must be "deposit" or "withdraw".');
       }
+
+      if (bridgeParams.destinationAddress?.toLowerCase() === 'null') {
+        bridgeParams.destinationAddress = null;
+      }
+      if (bridgeParams.destinationAddress && !isAddress(bridgeParams.destinationAddress)) {
+        throw new Error(`Invalid destination address: ${bridgeParams.destinationAddress}`);
+      }
     } catch (error) {
       logger.debug(
         '[bridgeAssetsAction] LLM parameter extraction failed',
@@ -180,66 +188,67 @@ export const bridgeAssetsAction: Action = {
     }
 
     try {
-      // Setup providers and wallet
-      let sourceProvider: JsonRpcProvider;
-      let destinationProvider: JsonRpcProvider;
-
-      if (bridgeParams.direction === 'deposit') {
-        // Deposit: Ethereum -> zkEVM
-        if (alchemyApiKey) {
-          sourceProvider = new JsonRpcProvider(
-            `https://eth-mainnet.g.alchemy.com/v2/${alchemyApiKey}`
+      // Setup provider and wallet on the source layer
+      // Deposit: Ethereum -> zkEVM, Withdraw: zkEVM -> Ethereum
+      const zkevmService = getZkEvmProviderService(runtime);
+      const sourceLayer = bridgeParams.direction === 'deposit' ? 'l1' : 'l2';
+      const sourceProvider = zkevmService.getProvider(sourceLayer);
+      const wallet = await zkevmService.getSigner(sourceLayer);
+
+      // Bridge address and network IDs come from the active network profile
+      const network = zkevmService.getNetwork();
+      const source = bridgeParams.direction === 'deposit' ? network.l1 : network.l2;
+      const destination = bridgeParams.direction === 'deposit' ? network.l2 : network.l1;
+      const bridgeAddress = source.bridgeAddress;
+      const bridgeContract = new Contract(bridgeAddress, BRIDGE_ABI, wallet);
+      const sourceNetworkId = source.networkId;
+      const destinationNetworkId = destination.networkId;
+
+      // Recipient on the destination chain - defaults to the sender's own address
+      const destinationAddress = bridgeParams.destinationAddress
+        ? getAddress(bridgeParams.destinationAddress)
+        : wallet.address;
+      const warnings: string[] = [];
+
+      // A contract (e.g. a Safe) deployed only on the source chain cannot use funds sent to
+      // its address on the destination chain
+      if (destinationAddress.toLowerCase() !== wallet.address.toLowerCase()) {
+        try {
+          const destinationProvider = zkevmService.getProvider(
+            bridgeParams.direction === 'deposit' ? 'l2' : 'l1'
           );
-        } else {
-          sourceProvider = new JsonRpcProvider('https://ethereum.publicnode.com'); // Fallback
-        }
-
-        if (alchemyApiKey) {
-          const zkevmAlchemyUrl =
-            runtime.getSetting('ZKEVM_ALCHEMY_URL') ||
-            'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-          destinationProvider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        } else if (zkevmRpcUrl) {
-          destinationProvider = new JsonRpcProvider(zkevmRpcUrl);
-        } else {
-          destinationProvider = new JsonRpcProvider('https://zkevm-rpc.com'); // Fallback
-        }
-      } else {
-        // Withdraw: zkEVM -> Ethereum
-        if (alchemyApiKey) {
-          const zkevmAlchemyUrl =
-            runtime.getSetting('ZKEVM_ALCHEMY_URL') ||
-            'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-          sourceProvider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        } else if (zkevmRpcUrl) {
-          sourceProvider = new JsonRpcProvider(zkevmRpcUrl);
-        } else {
-          sourceProvider = new JsonRpcProvider('https://zkevm-rpc.com'); // Fallback
-        }
-
-        if (alchemyApiKey) {
-          destinationProvider = new JsonRpcProvider(
-            `https://eth-mainnet.g.alchemy.com/v2/${alchemyApiKey}`
+          const [sourceCode, destinationCode] = await Promise.all([
+            sourceProvider.getCode(destinationAddress),
+            destinationProvider.getCode(destinationAddress),
+          ]);
+          if (sourceCode !== '0x' && destinationCode === '0x') {
+            const warning = `${destinationAddress} is a contract on ${source.name} but has no code on ${destination.name}. Make sure it can access the bridged funds there.`;
+            logger.warn(`[bridgeAssetsAction] ${warning}`);
+            warnings.push(warning);
+          }
+        } catch (error) {
+          logger.warn(
+            `[bridgeAssetsAction] Could not check the destination address code: ${error instanceof Error ? error.message : String(error)}`
           );
-        } else {
-          destinationProvider = new JsonRpcProvider('https://ethereum.publicnode.com'); // Fallback
         }
       }
 
-      const wallet = new Wallet(privateKey, sourceProvider);
-      const bridgeAddress =
-        bridgeParams.direction === 'deposit' ? BRIDGE_ADDRESSES.mainnet : BRIDGE_ADDRESSES.zkevm;
-      const bridgeContract = new Contract(bridgeAddress, BRIDGE_ABI, wallet);
-
-      // Determine network IDs
-      const sourceNetworkId =
-        bridgeParams.direction === 'deposit' ? NETWORK_IDS.ethereum : NETWORK_IDS.zkevm;
-      const destinationNetworkId =
-        bridgeParams.direction === 'deposit' ? NETWORK_IDS.zkevm : NETWORK_IDS.ethereum;
-
       let txHash: string;
+      let bridgeTransaction: ReplayableTransaction;
       let amount: bigint;
-      let tokenAddress = bridgeParams.tokenAddress;
+      // How the bridge was allowed to pull ERC20 tokens
+      let approvalMethod: 'allowance' | 'permit' | 'approve' | null = null;
+
+      // The token is an address or a symbol resolved on the source chain, ETH when none is given
+      let tokenAddress = bridgeParams.token ?? bridgeParams.tokenAddress;
+      const token =
+        tokenAddress && tokenAddress.toLowerCase() !== 'null' && !isAddress(tokenAddress)
+          ? await resolveToken(runtime, tokenAddress, sourceLayer)
+          : null;
+      if (token) {
+        tokenAddress = token.address;
+      }
+      let tokenSymbol = 'ETH';
 
       // Handle ETH vs ERC20
       if (
@@ -252,7 +261,7 @@ export const bridgeAssetsAction: Action = {
         tokenAddress = '0x0000000000000000000000000000000000000000'; // ETH address
 
         logger.info(
-          `[bridgeAssetsAction] Bridging ${bridgeParams.amount} ETH from ${bridgeParams.direction === 'deposit' ? 'Ethereum' : 'zkEVM'} to ${bridgeParams.direction === 'deposit' ? 'zkEVM' : 'Ethereum'}`
+          `[bridgeAssetsAction] Bridging ${bridgeParams.amount} ETH from ${source.name} to ${destination.name}`
         );
 
         // Prepare transaction options
@@ -277,7 +286,7 @@ export const bridgeAssetsAction: Action = {
         // Execute bridge transaction
         const tx = await bridgeContract.bridgeAsset(
           destinationNetworkId,
-          wallet.address, // destination address (same as sender)
+          destinationAddress,
           amount,
           tokenAddress,
           true, // forceUpdateGlobalExitRoot
@@ -286,26 +295,63 @@ export const bridgeAssetsAction: Action = {
         );
 
         txHash = tx.hash;
+        bridgeTransaction = tx;
         logger.info(`[bridgeAssetsAction] ETH bridge transaction sent: ${txHash}`);
       } else {
         // Bridge ERC20 token
         const tokenContract = new Contract(tokenAddress, ERC20_ABI, wallet);
 
-        // Get token decimals
-        const decimals = await tokenContract.decimals();
+        // Decimals and symbol from the token registry, or else from the token contract
+        const known =
+          token ?? (await getKnownToken(runtime, tokenAddress, sourceLayer).catch(() => null));
+        const decimals = known ? known.decimals : await tokenContract.decimals();
         amount = parseUnits(bridgeParams.amount, decimals);
+        tokenSymbol = known?.symbol ?? 'tokens';
+        if (!known) {
+          try {
+            tokenSymbol = await tokenContract.symbol();
+          } catch (error) {
+            logger.debug(`[bridgeAssetsAction] Could not read the token symbol of ${tokenAddress}`);
+          }
+        }
 
         logger.info(
-          `[bridgeAssetsAction] Bridging ${bridgeParams.amount} tokens (${tokenAddress}) from ${bridgeParams.direction === 'deposit' ? 'Ethereum' : 'zkEVM'} to ${bridgeParams.direction === 'deposit' ? 'zkEVM' : 'Ethereum'}`
+          `[bridgeAssetsAction] Bridging ${bridgeParams.amount} ${tokenSymbol} (${tokenAddress}) from ${source.name} to ${destination.name}`
         );
 
-        // Check and approve if necessary
+        // Check the allowance and sign a permit (EIP-2612 or DAI-style) if the token supports one,
+        // otherwise approve in a separate transaction
+        let permitData = '0x';
         const allowance = await tokenContract.allowance(wallet.address, bridgeAddress);
-        if (allowance < amount) {
-          logger.info(`[bridgeAssetsAction] Approving token spend...`);
-          const approveTx = await tokenContract.approve(bridgeAddress, amount);
-          await approveTx.wait();
-          logger.info(`[bridgeAssetsAction] Token approval confirmed: ${approveTx.hash}`);
+        if (allowance >= amount) {
+          approvalMethod = 'allowance';
+        } else {
+          let permit = null;
+          try {
+            permit = await signBridgePermit(
+              wallet,
+              tokenAddress,
+              bridgeAddress,
+              amount,
+              source.chainId
+            );
+          } catch (error) {
+            logger.warn(
+              `[bridgeAssetsAction] Permit signing failed, falling back to approve: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+
+          if (permit) {
+            logger.info(`[bridgeAssetsAction] Using ${permit.kind} permit instead of approve`);
+            permitData = permit.permitData;
+            approvalMethod = 'permit';
+          } else {
+            logger.info(`[bridgeAssetsAction] Approving token spend...`);
+            const approveTx = await tokenContract.approve(bridgeAddress, amount);
+            await approveTx.wait();
+            logger.info(`[bridgeAssetsAction] Token approval confirmed: ${approveTx.hash}`);
+            approvalMethod = 'approve';
+          }
         }
 
         // Prepare transaction options
@@ -328,15 +374,16 @@ export const bridgeAssetsAction: Action = {
         // Execute bridge transaction
         const tx = await bridgeContract.bridgeAsset(
           destinationNetworkId,
-          wallet.address, // destination address (same as sender)
+          destinationAddress,
           amount,
           tokenAddress,
           true, // forceUpdateGlobalExitRoot
-          '0x', // permitData (empty)
+          permitData,
           txOptions
         );
 
         txHash = tx.hash;
+        bridgeTransaction = tx;
         logger.info(`[bridgeAssetsAction] ERC20 bridge transaction sent: ${txHash}`);
       }
 
@@ -359,7 +406,7 @@ export const bridgeAssetsAction: Action = {
           });
 
           if (parsedLog && parsedLog.name === 'BridgeEvent') {
-            depositCount = parsedLog.args.depositCount;
+            depositCount = Number(parsedLog.args.depositCount);
             bridgeTicketId = `${sourceNetworkId}-${depositCount}`;
             logger.info(`[bridgeAssetsAction] Bridge ticket ID: ${bridgeTicketId}`);
             break;
@@ -370,15 +417,85 @@ export const bridgeAssetsAction: Action = {
         }
       }
 
+      // Track the transfer until it is claimed on the destination chain
+      try {
+        await getBridgeTracker(runtime).record({
+          transactionHash: txHash,
+          bridgeTicketId,
+          depositCount,
+          networkProfile: network.name,
+          direction: bridgeParams.direction,
+          sourceNetworkId,
+          tokenAddress,
+          amount: amount.toString(),
+          status: receipt.status === 0 ? 'failed' : 'pending_inclusion',
+        });
+      } catch (error) {
+        logger.warn(
+          `[bridgeAssetsAction] Failed to track bridge transfer: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      // waitForTransaction does not throw on a revert, and the receipt has no revert data
+      if (receipt.status === 0) {
+        const revert = await explainFailedTransaction(
+          runtime,
+          bridgeTransaction,
+          receipt.blockNumber,
+          BRIDGE_ABI,
+          sourceLayer
+        );
+        const errorMessage = `Bridge transaction ${txHash} ${revert ? formatRevert(revert) : 'was reverted'}`;
+        logger.error(`[bridgeAssetsAction] ${errorMessage}`);
+
+        if (callback) {
+          await callback({
+            text: errorMessage,
+            content: { success: false, error: errorMessage, transactionHash: txHash },
+          });
+        }
+
+        return {
+          success: false,
+          text: `❌ ${errorMessage}`,
+          values: { bridgeSucceeded: false, error: true, errorMessage, transactionHash: txHash },
+          data: {
+            actionName: 'POLYGON_ZKEVM_BRIDGE_ASSETS',
+            error: errorMessage,
+            transactionHash: txHash,
+            revert,
+            bridgeParams,
+            blockNumber: receipt.blockNumber,
+            timestamp: Date.now(),
+          },
+          error: new Error(errorMessage),
+        };
+      }
+
+      // The token the recipient receives on the destination chain
+      let destinationTokenAddress: string | null = null;
+      if (tokenAddress !== '0x0000000000000000000000000000000000000000') {
+        try {
+          const mapping = await getTokenMapping(runtime, tokenAddress, sourceLayer);
+          destinationTokenAddress =
+            bridgeParams.direction === 'deposit' ? mapping.l2Address : mapping.l1Address;
+        } catch (error) {
+          logger.warn(
+            `[bridgeAssetsAction] Failed to look up the destination token: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+
       const successText = `✅ Assets bridged successfully!
 
 **Transaction Hash:** \`${txHash}\`
-**Amount:** ${bridgeParams.amount} ${tokenAddress === '0x0000000000000000000000000000000000000000' ? 'ETH' : 'tokens'}
-**From:** ${sourceNetworkId === NETWORK_IDS.ethereum ? 'Ethereum' : 'zkEVM'}
-**To:** ${destinationNetworkId === NETWORK_IDS.ethereum ? 'Ethereum' : 'zkEVM'}
-**Bridge Contract:** \`${bridgeAddress}\`
+**Amount:** ${bridgeParams.amount} ${tokenSymbol}${tokenAddress === '0x0000000000000000000000000000000000000000' ? '' : ` (\`${tokenAddress}\`)`}
+**From:** ${source.name}
+**To:** ${destination.name}
+**Recipient:** \`${destinationAddress}\`
+${tokenAddress === '0x0000000000000000000000000000000000000000' ? '' : `**Destination Token:** ${destinationTokenAddress ? `\`${destinationTokenAddress}\`` : 'new wrapped token, deployed on the first claim'}\n`}**Bridge Contract:** \`${bridgeAddress}\`
 
-Please wait for the transaction to be confirmed.`;
+Please wait for the transaction to be confirmed.${warnings.map((w) => `\n\n⚠️ ${w}`).join('')}`;
 
       if (callback) {
         await callback({ text: successText, content: { success: true, transactionHash: txHash } });
@@ -392,12 +509,17 @@ Please wait for the transaction to be confirmed.`;
           actionName: 'POLYGON_ZKEVM_BRIDGE_ASSETS',
           transactionHash: txHash,
           amount: bridgeParams.amount,
-          sourceNetwork: sourceNetworkId === NETWORK_IDS.ethereum ? 'Ethereum' : 'zkEVM',
-          destinationNetwork: destinationNetworkId === NETWORK_IDS.ethereum ? 'Ethereum' : 'zkEVM',
+          sourceNetwork: source.name,
+          destinationNetwork: destination.name,
           bridgeTicketId,
           depositCount,
           direction: bridgeParams.direction,
           tokenAddress,
+          tokenSymbol,
+          destinationTokenAddress,
+          destinationAddress,
+          approvalMethod,
+          warnings,
           gasUsed: receipt.gasUsed.toString(),
           blockNumber: receipt.blockNumber,
           status: receipt.status === 1 ? 'success' : 'failed',
@@ -442,7 +564,7 @@ Please wait for the transaction to be confirmed.`;
       {
         name: '{{user1}}',
         content: {
-          text: 'Withdraw 1000 USDC from Polygon zkEVM to Ethereum. Token address: 0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+          text: 'Withdraw 1000 USDT from Polygon zkEVM to Ethereum',
         },
       },
       {
@@ -453,5 +575,20 @@ Please wait for the transaction to be confirmed.`;
         },
       },
     ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Withdraw 2 ETH from Polygon zkEVM to our treasury Safe 0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '✅ Assets bridged successfully! Recipient: 0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+          action: 'BRIDGE_ASSETS_ZKEVM',
+        },
+      },
+    ],
   ],
-};
+});
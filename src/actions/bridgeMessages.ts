@@ -9,38 +9,136 @@ import {
 } from '@elizaos/core';
 import {
   Contract,
-  JsonRpcProvider,
+  isAddress,
   parseEther,
-  parseUnits,
-  Wallet
+  parseUnits
 } from 'ethers';
 import { bridgeMessagesTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { claimBridgeDeposit, LEAF_TYPE_MESSAGE } from '../utils/bridgeClaims';
+import { getZkEvmProviderService, type Layer } from '../services/zkevmProvider';
+import { parseBridgeTicket } from '../services/bridgeService';
+import { withNetworkProfile } from '../networks';
 
 // Polygon zkEVM Bridge Contract ABI for message passing
+// Claims go through claimMessage (see utils/bridgeClaims), which calls onMessageReceived on the
+// destination address
 const BRIDGE_ABI = [
-  // Bridge message function - uses the same bridgeAsset function with metadata
-  'function bridgeAsset(uint32 destinationNetwork, address destinationAddress, uint256 amount, address token, bool forceUpdateGlobalExitRoot, bytes permitData) external payable',
-  // Claim message function
-  'function claimAsset(bytes32[32] smtProof, uint32 index, bytes32 mainnetExitRoot, bytes32 rollupExitRoot, uint32 originNetwork, address originTokenAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata) external',
+  // Bridge message function - the ETH value sent is delivered with the message
+  'function bridgeMessage(uint32 destinationNetwork, address destinationAddress, bool forceUpdateGlobalExitRoot, bytes metadata) external payable',
   // Events
   'event BridgeEvent(uint8 leafType, uint32 originNetwork, address originAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata, uint32 depositCount)',
-  'event ClaimEvent(uint32 index, uint32 originNetwork, address originAddress, address destinationAddress, uint256 amount)',
 ];
 
-// Bridge contract addresses
-const BRIDGE_ADDRESSES = {
-  mainnet: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe', // Ethereum mainnet bridge
-  zkevm: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe', // zkEVM bridge (same address)
-};
+/**
+ * Execute a previously bridged message on its destination chain via claimMessage
+ */
+async function claimMessage(
+  runtime: IAgentRuntime,
+  messageParams: any,
+  callback?: HandlerCallback
+): Promise<ActionResult> {
+  const bridgeTicketId = String(messageParams.bridgeTicketId);
+
+  try {
+    // Prepare transaction options
+    const txOptions: any = {};
+    if (messageParams.gasLimit) {
+      txOptions.gasLimit = BigInt(messageParams.gasLimit);
+    }
+    if (messageParams.maxFeePerGas && messageParams.maxPriorityFeePerGas) {
+      txOptions.maxFeePerGas = parseUnits(messageParams.maxFeePerGas, 'gwei');
+      txOptions.maxPriorityFeePerGas = parseUnits(messageParams.maxPriorityFeePerGas, 'gwei');
+    } else if (messageParams.gasPrice) {
+      txOptions.gasPrice = parseUnits(messageParams.gasPrice, 'gwei');
+    }
+
+    const claim = await claimBridgeDeposit(runtime, bridgeTicketId, LEAF_TYPE_MESSAGE, txOptions);
+    const { deposit, destination } = claim;
+    const claimData = {
+      actionName: 'POLYGON_ZKEVM_BRIDGE_MESSAGES',
+      operation: 'claim',
+      bridgeTicketId: claim.bridgeTicketId,
+      status: claim.status,
+      transactionHash: claim.transactionHash,
+      originAddress: deposit.originTokenAddress,
+      destinationNetwork: destination.name,
+      destinationAddress: deposit.destinationAddress,
+      messageData: deposit.metadata,
+      blockNumber: claim.blockNumber,
+      gasUsed: claim.gasUsed,
+    };
+
+    if (claim.status === 'pending') {
+      const errorMessage = `Bridged message ${claim.bridgeTicketId} is not ready to be claimed yet. The exit root containing it has not been verified on ${destination.name}; messages to Ethereum usually take 30-60 minutes.`;
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { messageClaimed: false, error: true, errorMessage },
+        data: { ...claimData, error: errorMessage },
+        error: new Error(errorMessage),
+      };
+    }
+
+    const text =
+      claim.status === 'already_claimed'
+        ? `✅ Bridged message ${claim.bridgeTicketId} has already been claimed on ${destination.name}.` +
+          (claim.transactionHash ? `\n\n**Claim Transaction:** \`${claim.transactionHash}\`` : '')
+        : `✅ Message claimed successfully!
+
+**Transaction Details:**
+- Transaction Hash: \`${claim.transactionHash}\`
+- Bridge Ticket: \`${claim.bridgeTicketId}\`
+- Network: ${destination.name}
+- Recipient: \`${deposit.destinationAddress}\`
+- Block Number: ${claim.blockNumber}
+- Gas Used: ${claim.gasUsed}
+
+The bridge called \`onMessageReceived\` on the recipient with the message data.`;
 
-// Network IDs for Polygon zkEVM bridge
-const NETWORK_IDS = {
-  ethereum: 0,
-  zkevm: 1,
-};
+    if (callback) {
+      await callback({ text, content: { success: true, transactionHash: claim.transactionHash } });
+    }
+
+    return {
+      success: true,
+      text,
+      values: {
+        messageClaimed: true,
+        alreadyClaimed: claim.status === 'already_claimed',
+        transactionHash: claim.transactionHash,
+      },
+      data: claimData,
+    };
+  } catch (error) {
+    const errorMessage = `Failed to claim message: ${error instanceof Error ? error.message : String(error)}`;
+    logger.error(`[bridgeMessagesAction] ${errorMessage}`, error);
+
+    if (callback) {
+      await callback({ text: `❌ ${errorMessage}`, content: { success: false, error: errorMessage } });
+    }
+    return {
+      success: false,
+      text: `❌ ${errorMessage}`,
+      values: { messageClaimed: false, error: true, errorMessage },
+      data: {
+        actionName: 'POLYGON_ZKEVM_BRIDGE_MESSAGES',
+        operation: 'claim',
+        error: errorMessage,
+        bridgeTicketId,
+      },
+      error: new Error(errorMessage),
+    };
+  }
+}
 
-export const bridgeMessagesAction: Action = {
+export const bridgeMessagesAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_BRIDGE_MESSAGES',
   similes: [
     'SEND_MESSAGE',
@@ -50,11 +148,11 @@ export const bridgeMessagesAction: Action = {
     'MESSAGE_BRIDGE',
   ].map((s) => `POLYGON_ZKEVM_${s}`),
   description:
-    'Sends arbitrary calldata messages between Ethereum and Polygon zkEVM using the bridge contract.',
+    'Sends arbitrary calldata messages between Ethereum and Polygon zkEVM using the bridge contract, and claims bridged messages on the destination chain.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -94,7 +192,7 @@ export const bridgeMessagesAction: Action = {
 
     const privateKey = runtime.getSetting('PRIVATE_KEY');
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!privateKey) {
       const errorMessage = 'PRIVATE_KEY is required for bridging messages.';
@@ -132,8 +230,11 @@ export const bridgeMessagesAction: Action = {
     // Extract message parameters using LLM
     try {
       messageParams = await callLLMWithTimeout<{
-        destinationChain: 'ethereum' | 'zkevm';
-        messageData: string;
+        operation?: 'bridge' | 'claim';
+        destinationChain?: 'ethereum' | 'zkevm';
+        destinationAddress?: string;
+        messageData?: string;
+        bridgeTicketId?: string;
         gasLimit?: string | number;
         gasPrice?: string;
         maxFeePerGas?: string;
@@ -147,20 +248,32 @@ export const bridgeMessagesAction: Action = {
         throw new Error(messageParams?.error);
       }
 
-      // Validate required parameters
-      if (!messageParams?.destinationChain || !messageParams?.messageData) {
-        throw new Error(
-          'Missing required message parameters: destinationChain and messageData are required.'
-        );
-      }
+      if (messageParams?.operation === 'claim') {
+        // Claiming only needs the bridge ticket of the message
+        if (!messageParams.bridgeTicketId) {
+          throw new Error('Missing required message parameters: bridgeTicketId is required.');
+        }
+        parseBridgeTicket(String(messageParams.bridgeTicketId));
+      } else {
+        // Validate required parameters
+        if (!messageParams?.destinationChain || !messageParams?.messageData) {
+          throw new Error(
+            'Missing required message parameters: destinationChain and messageData are required.'
+          );
+        }
 
-      if (!['ethereum', 'zkevm'].includes(messageParams.destinationChain)) {
-        throw new Error('Invalid destination chain. Must be "ethereum" or "zkevm".');
-      }
+        if (!['ethereum', 'zkevm'].includes(messageParams.destinationChain)) {
+          throw new Error('Invalid destination chain. Must be "ethereum" or "zkevm".');
+        }
 
-      // Validate message data format
-      if (!messageParams.messageData.startsWith('0x')) {
-        throw new Error('Message data must be valid hex string starting with 0x.');
+        // Validate message data format
+        if (!messageParams.messageData.startsWith('0x')) {
+          throw new Error('Message data must be valid hex string starting with 0x.');
+        }
+
+        if (messageParams.destinationAddress && !isAddress(messageParams.destinationAddress)) {
+          throw new Error(`Invalid destination address: ${messageParams.destinationAddress}`);
+        }
       }
     } catch (error) {
       logger.debug(
@@ -180,85 +293,43 @@ export const bridgeMessagesAction: Action = {
       };
     }
 
-    try {
-      // Setup providers and wallet based on destination
-      let sourceProvider: JsonRpcProvider;
-      let destinationProvider: JsonRpcProvider;
-      let sourceNetwork: string;
-      let destinationNetwork: number;
-      let bridgeAddress: string;
-
-      if (messageParams.destinationChain === 'ethereum') {
-        // Message from zkEVM to Ethereum
-        sourceNetwork = 'zkEVM';
-        destinationNetwork = NETWORK_IDS.ethereum;
-        bridgeAddress = BRIDGE_ADDRESSES.zkevm;
-
-        if (alchemyApiKey) {
-          const zkevmAlchemyUrl =
-            runtime.getSetting('ZKEVM_ALCHEMY_URL') ||
-            'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-          sourceProvider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        } else if (zkevmRpcUrl) {
-          sourceProvider = new JsonRpcProvider(zkevmRpcUrl);
-        } else {
-          sourceProvider = new JsonRpcProvider('https://zkevm-rpc.com'); // Fallback
-        }
-
-        if (alchemyApiKey) {
-          destinationProvider = new JsonRpcProvider(
-            `https://eth-mainnet.g.alchemy.com/v2/${alchemyApiKey}`
-          );
-        } else {
-          destinationProvider = new JsonRpcProvider('https://ethereum.publicnode.com'); // Fallback
-        }
-      } else {
-        // Message from Ethereum to zkEVM
-        sourceNetwork = 'Ethereum';
-        destinationNetwork = NETWORK_IDS.zkevm;
-        bridgeAddress = BRIDGE_ADDRESSES.mainnet;
-
-        if (alchemyApiKey) {
-          sourceProvider = new JsonRpcProvider(
-            `https://eth-mainnet.g.alchemy.com/v2/${alchemyApiKey}`
-          );
-        } else {
-          sourceProvider = new JsonRpcProvider('https://ethereum.publicnode.com'); // Fallback
-        }
-
-        if (alchemyApiKey) {
-          const zkevmAlchemyUrl =
-            runtime.getSetting('ZKEVM_ALCHEMY_URL') ||
-            'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-          destinationProvider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        } else if (zkevmRpcUrl) {
-          destinationProvider = new JsonRpcProvider(zkevmRpcUrl);
-        } else {
-          destinationProvider = new JsonRpcProvider('https://zkevm-rpc.com'); // Fallback
-        }
-      }
+    if (messageParams.operation === 'claim') {
+      return claimMessage(runtime, messageParams, callback);
+    }
 
-      const wallet = new Wallet(privateKey, sourceProvider);
+    try {
+      // Setup wallet on the source layer based on destination
+      // Bridge address and network IDs come from the active network profile
+      const zkevmService = getZkEvmProviderService(runtime);
+      const network = zkevmService.getNetwork();
+      // Message from zkEVM to L1, or from L1 to zkEVM
+      const sourceLayer: Layer = messageParams.destinationChain === 'ethereum' ? 'l2' : 'l1';
+      const source = network[sourceLayer];
+      const destination = sourceLayer === 'l2' ? network.l1 : network.l2;
+      const sourceNetwork = source.name;
+      const destinationNetwork = destination.networkId;
+      const bridgeAddress = source.bridgeAddress;
+
+      const wallet = await zkevmService.getSigner(sourceLayer);
       const bridgeContract = new Contract(bridgeAddress, BRIDGE_ABI, wallet);
 
-      // Get wallet address as destination address for the message
-      const walletAddress = await wallet.getAddress();
+      // The message is delivered to the chosen contract, or to the same wallet on the
+      // destination chain when none is given
+      const destinationAddress = messageParams.destinationAddress || (await wallet.getAddress());
 
       // Prepare transaction parameters
       const txParams: any = {
         destinationNetwork: destinationNetwork,
-        destinationAddress: walletAddress, // Message will be sent to the same wallet on destination chain
-        amount: 0, // No ETH transfer, just message
-        token: '0x0000000000000000000000000000000000000000', // ETH address (null token)
+        destinationAddress: destinationAddress,
         forceUpdateGlobalExitRoot: true,
-        permitData: messageParams.messageData, // The arbitrary calldata goes here
+        metadata: messageParams.messageData, // The arbitrary calldata goes here
       };
 
       // Handle ETH value if specified
       const ethValue = messageParams.value ? parseEther(messageParams.value) : 0;
 
-      // Validate and prepare permitData
-      let permitDataBytes: string;
+      // Validate and prepare the message metadata
+      let metadataBytes: string;
       try {
         // Ensure the calldata is valid hex
         if (!messageParams.messageData.startsWith('0x')) {
@@ -290,10 +361,10 @@ export const bridgeMessagesAction: Action = {
         }
 
         // Reconstruct the padded calldata
-        permitDataBytes = '0x' + hexData;
+        metadataBytes = '0x' + hexData;
 
         logger.info(
-          `[bridgeMessagesAction] Valid calldata: ${permitDataBytes} (${hexData.length / 2} bytes)`
+          `[bridgeMessagesAction] Valid calldata: ${metadataBytes} (${hexData.length / 2} bytes)`
         );
 
         // Additional validation for common function calls
@@ -313,19 +384,17 @@ export const bridgeMessagesAction: Action = {
         );
       }
 
-      // Update txParams with validated permitData
-      txParams.permitData = permitDataBytes;
+      // Update txParams with validated metadata
+      txParams.metadata = metadataBytes;
 
       // Estimate gas
       let gasLimit: bigint;
       try {
-        gasLimit = await bridgeContract.bridgeAsset.estimateGas(
+        gasLimit = await bridgeContract.bridgeMessage.estimateGas(
           txParams.destinationNetwork,
           txParams.destinationAddress,
-          txParams.amount,
-          txParams.token,
           txParams.forceUpdateGlobalExitRoot,
-          txParams.permitData,
+          txParams.metadata,
           { value: ethValue }
         );
         // Add 20% buffer
@@ -362,21 +431,17 @@ export const bridgeMessagesAction: Action = {
       logger.info(`[bridgeMessagesAction] Contract call parameters:`, JSON.stringify({
         destinationNetwork: txParams.destinationNetwork,
         destinationAddress: txParams.destinationAddress,
-        amount: txParams.amount,
-        token: txParams.token,
         forceUpdateGlobalExitRoot: txParams.forceUpdateGlobalExitRoot,
-        permitData: txParams.permitData,
+        metadata: txParams.metadata,
         txOptions: txOptions,
-      }));
+      }, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
 
       // Send the bridge message transaction
-      const tx = await bridgeContract.bridgeAsset(
+      const tx = await bridgeContract.bridgeMessage(
         txParams.destinationNetwork,
         txParams.destinationAddress,
-        txParams.amount,
-        txParams.token,
         txParams.forceUpdateGlobalExitRoot,
-        txParams.permitData,
+        txParams.metadata,
         txOptions
       );
 
@@ -388,6 +453,7 @@ export const bridgeMessagesAction: Action = {
 
       // Extract message ID from events
       let messageId: string | null = null;
+      let bridgeTicketId: string | null = null;
       let depositCount: number | null = null;
 
       for (const log of receipt.logs) {
@@ -400,6 +466,7 @@ export const bridgeMessagesAction: Action = {
           if (parsedLog && parsedLog.name === 'BridgeEvent') {
             depositCount = Number(parsedLog.args.depositCount);
             messageId = `${sourceNetwork}-${destinationNetwork}-${depositCount}`;
+            bridgeTicketId = `${source.networkId}-${depositCount}`;
             logger.info(`[bridgeMessagesAction] Message ID: ${messageId}`);
             break;
           }
@@ -414,15 +481,17 @@ export const bridgeMessagesAction: Action = {
 **Transaction Details:**
 - Transaction Hash: \`${tx.hash}\`
 - From: ${sourceNetwork}
-- To: ${messageParams.destinationChain}
+- To: ${destination.name}
+- Recipient: \`${destinationAddress}\`
 - Block Number: ${receipt.blockNumber}
 - Gas Used: ${receipt.gasUsed.toString()}
 ${messageId ? `- Message ID: \`${messageId}\`` : ''}
 ${depositCount !== null ? `- Deposit Count: ${depositCount}` : ''}
+${bridgeTicketId ? `- Bridge Ticket: \`${bridgeTicketId}\`` : ''}
 
 **Message Data:** \`${messageParams.messageData}\`
 
-**Note:** The message will be available for claiming on the destination chain once the transaction is finalized (typically 30-60 minutes for zkEVM).`;
+**Note:** The message will be available for claiming on the destination chain once the transaction is finalized (typically 30-60 minutes for zkEVM).${bridgeTicketId ? ` Claim it with bridge ticket \`${bridgeTicketId}\`.` : ''}`;
 
       if (callback) {
         await callback({ text: successMessage, content: { success: true, transactionHash: tx.hash } });
@@ -436,9 +505,11 @@ ${depositCount !== null ? `- Deposit Count: ${depositCount}` : ''}
           actionName: 'POLYGON_ZKEVM_BRIDGE_MESSAGES',
           transactionHash: tx.hash,
           messageId: messageId,
+          bridgeTicketId: bridgeTicketId,
           depositCount: depositCount,
           sourceNetwork: sourceNetwork,
           destinationChain: messageParams.destinationChain,
+          destinationAddress: destinationAddress,
           messageData: messageParams.messageData,
           blockNumber: receipt.blockNumber,
           gasUsed: receipt.gasUsed.toString(),
@@ -522,5 +593,20 @@ ${depositCount !== null ? `- Deposit Count: ${depositCount}` : ''}
         },
       },
     ],
+    [
+      {
+        name: 'user',
+        content: {
+          text: 'claim bridged message with ticket 1-678 on ethereum',
+        },
+      },
+      {
+        name: 'assistant',
+        content: {
+          text: '✅ Message claimed successfully!\n\n**Transaction Details:**\n- Transaction Hash: `0x2468ace013579bdf...`\n- Bridge Ticket: `1-678`\n- Network: Ethereum\n- Recipient: `0x742d35Cc6634C0532925a3b844Bc454e4438f44e`\n- Block Number: 18700000\n- Gas Used: 210000\n\nThe bridge called `onMessageReceived` on the recipient with the message data.',
+          actions: ['POLYGON_BRIDGE_MESSAGES_ZKEVM'],
+        },
+      },
+    ],
   ],
-};
+});
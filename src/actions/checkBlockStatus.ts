@@ -7,20 +7,32 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { checkBlockStatusTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
-
-// Block status types for Polygon zkEVM
-type BlockStatus = 'trusted' | 'virtual' | 'consolidated' | 'unknown';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
+import { type BlockFinality, type BlockFinalityStatus, getBlockFinality } from '../utils/zkevmRpc';
+
+// Block status types for Polygon zkEVM - `unknown` when the node cannot tell, never guessed
+type BlockStatus = BlockFinalityStatus | 'unknown';
+
+// Status codes reported since the first release of this action - keep them stable for consumers
+const STATUS_CODES: Record<BlockFinalityStatus, number> = {
+  virtual: 0,
+  trusted: 1,
+  consolidated: 2,
+};
 
 interface BlockStatusResult {
   blockNumber: number;
   blockHash?: string;
   status: BlockStatus;
   statusCode?: number;
+  batchNumber?: number | null;
+  sendSequencesTxHash?: string | null;
+  verifyBatchTxHash?: string | null;
   description: string;
-  method: 'alchemy' | 'rpc';
+  method: string;
   timestamp: number;
 }
 
@@ -28,7 +40,7 @@ interface BlockStatusResult {
  * Check L2 block status action for Polygon zkEVM
  * Determines whether a block is trusted, virtual, or consolidated
  */
-export const checkBlockStatusAction: Action = {
+export const checkBlockStatusAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_CHECK_L2_BLOCK_STATUS',
   similes: [
     'CHECK_BLOCK_STATUS',
@@ -44,7 +56,7 @@ export const checkBlockStatusAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -84,7 +96,8 @@ export const checkBlockStatusAction: Action = {
       logger.info('[checkBlockStatusAction] Handler called!');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -154,20 +167,10 @@ export const checkBlockStatusAction: Action = {
         logger.info('📋 No specific block provided, checking latest block');
       }
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        methodUsed = 'alchemy';
-        logger.info('🔗 Using Alchemy API for block status check');
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-        logger.info('🔗 Using direct RPC for block status check');
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
+      let methodUsed = zkevmService.getEndpointName();
+      logger.info(`🔗 Using ${methodUsed} for block status check`);
 
       let blockData: any = null;
       let blockStatus: BlockStatus = 'unknown';
@@ -178,11 +181,11 @@ export const checkBlockStatusAction: Action = {
       try {
         logger.info('📥 Fetching block data...');
 
-        if (isHash) {
-          blockData = await provider.getBlock(blockIdentifier as string);
-        } else {
-          blockData = await provider.getBlock(blockIdentifier as number);
-        }
+        ({ value: blockData } = await zkevmService.read((provider) =>
+          isHash
+            ? provider.getBlock(blockIdentifier as string)
+            : provider.getBlock(blockIdentifier as number)
+        ));
 
         if (!blockData) {
           throw new Error('Block not found');
@@ -195,82 +198,22 @@ export const checkBlockStatusAction: Action = {
         errorMessages.push(errorMsg);
       }
 
-      // Try to get block status using zkEVM-specific methods
+      // Block finality from the node - a critical read, checked against the quorum when one is
+      // configured
+      let finality: BlockFinality | null = null;
       if (blockData) {
         try {
           logger.info('🔍 Checking block status...');
 
-          // Try zkEVM-specific RPC methods
-          let statusResponse: any;
-
-          try {
-            // Try zkevm_getBatchByNumber method (common in zkEVM implementations)
-            statusResponse = await provider.send('zkevm_getBatchByNumber', [blockData.number]);
-            logger.info('✅ Got batch status from zkevm_getBatchByNumber');
-          } catch (batchError) {
-            logger.warn('zkevm_getBatchByNumber not available, trying alternative methods');
-
-            try {
-              // Try alternative method for block status
-              statusResponse = await provider.send('zkevm_getBlockStatus', [blockData.number]);
-              logger.info('✅ Got status from zkevm_getBlockStatus');
-            } catch (statusError) {
-              logger.warn('zkevm_getBlockStatus not available, using heuristic approach');
-
-              // Fallback: Use heuristic based on block age and confirmations
-              const currentBlock = await provider.getBlockNumber();
-              const blockAge = currentBlock - blockData.number;
-
-              if (blockAge < 10) {
-                blockStatus = 'virtual';
-                statusCode = 0;
-              } else if (blockAge < 100) {
-                blockStatus = 'trusted';
-                statusCode = 1;
-              } else {
-                blockStatus = 'consolidated';
-                statusCode = 2;
-              }
-
-              logger.info(`📊 Using heuristic: block age ${blockAge}, status: ${blockStatus}`);
-            }
-          }
-
-          // Parse status response if we got one
-          if (statusResponse) {
-            if (typeof statusResponse === 'object' && statusResponse.status !== undefined) {
-              statusCode = statusResponse.status;
-            } else if (typeof statusResponse === 'number') {
-              statusCode = statusResponse;
-            } else if (typeof statusResponse === 'string') {
-              // Parse string status
-              const statusStr = statusResponse.toLowerCase();
-              if (statusStr.includes('virtual')) {
-                statusCode = 0;
-              } else if (statusStr.includes('trusted')) {
-                statusCode = 1;
-              } else if (statusStr.includes('consolidated')) {
-                statusCode = 2;
-              }
-            }
-
-            // Map status code to status string
-            switch (statusCode) {
-              case 0:
-                blockStatus = 'virtual';
-                break;
-              case 1:
-                blockStatus = 'trusted';
-                break;
-              case 2:
-                blockStatus = 'consolidated';
-                break;
-              default:
-                blockStatus = 'unknown';
-            }
-
-            logger.info(`📊 Block status determined: ${blockStatus} (code: ${statusCode})`);
-          }
+          const { value, endpoints } = await zkevmService.readCritical((provider) =>
+            getBlockFinality(provider, blockData.number)
+          );
+          finality = value;
+          blockStatus = finality.status;
+          statusCode = STATUS_CODES[finality.status];
+          methodUsed = endpoints.join(', ');
+
+          logger.info(`📊 Block status determined: ${blockStatus} (from ${finality.source})`);
         } catch (error) {
           const errorMsg = `Failed to get block status: ${error instanceof Error ? error.message : String(error)}`;
           logger.error(errorMsg);
@@ -285,6 +228,9 @@ export const checkBlockStatusAction: Action = {
         blockHash: blockData?.hash,
         status: blockStatus,
         statusCode,
+        batchNumber: finality?.batchNumber,
+        sendSequencesTxHash: finality?.sendSequencesTxHash,
+        verifyBatchTxHash: finality?.verifyBatchTxHash,
         description: getStatusDescription(blockStatus),
         method: methodUsed,
         timestamp: Date.now(),
@@ -299,6 +245,9 @@ export const checkBlockStatusAction: Action = {
 - Block Hash: ${result.blockHash || 'N/A'}
 - Status: **${result.status.toUpperCase()}** ${statusEmoji}
 - Status Code: ${result.statusCode !== undefined ? result.statusCode : 'N/A'}
+- Batch: ${result.batchNumber ?? 'N/A'}
+- L1 Sequence Tx: ${result.sendSequencesTxHash ?? 'Not sequenced yet'}
+- L1 Verify Tx: ${result.verifyBatchTxHash ?? 'Not verified yet'}
 - Method: ${result.method}
 
 **Status Description:**
@@ -308,14 +257,22 @@ ${result.description}
 
 ${errorMessages.length > 0 ? `\n**Warnings/Errors:**\n${errorMessages.map((msg) => `- ${msg}`).join('\n')}` : ''}`;
 
+      // An unknown status is reported as a failure so that callers never treat it as final
+      const statusKnown = result.status !== 'unknown';
+
       if (callback) {
-        await callback({ text: responseText, content: { success: true, result } });
+        await callback({ text: responseText, content: { success: statusKnown, result } });
       }
 
       return {
-        success: true,
+        success: statusKnown,
         text: responseText,
-        values: { blockStatusChecked: true, status: result.status, statusCode: result.statusCode },
+        values: {
+          blockStatusChecked: statusKnown,
+          statusKnown,
+          status: result.status,
+          statusCode: result.statusCode,
+        },
         data: {
           actionName: 'POLYGON_ZKEVM_CHECK_L2_BLOCK_STATUS',
           result,
@@ -372,14 +329,14 @@ ${errorMessages.length > 0 ? `\n**Warnings/Errors:**\n${errorMessages.map((msg)
       },
     ],
   ],
-};
+});
 
 function getStatusEmoji(status: BlockStatus): string {
   switch (status) {
-    case 'virtual':
-      return '🟡';
     case 'trusted':
       return '🟠';
+    case 'virtual':
+      return '🟡';
     case 'consolidated':
       return '🟢';
     default:
@@ -389,13 +346,13 @@ function getStatusEmoji(status: BlockStatus): string {
 
 function getStatusDescription(status: BlockStatus): string {
   switch (status) {
-    case 'virtual':
-      return 'Block is virtual - recently proposed but not yet trusted by the network.';
     case 'trusted':
-      return 'Block is trusted - validated by the network but not yet consolidated.';
+      return 'Block is trusted - executed by the trusted sequencer, but its batch is not on L1 yet.';
+    case 'virtual':
+      return 'Block is virtual - its batch is sequenced on L1 (data available), awaiting a validity proof.';
     case 'consolidated':
-      return 'Block is consolidated - fully finalized and immutable on the network.';
+      return 'Block is consolidated - its batch is verified on L1 with a validity proof and is final.';
     default:
-      return 'Block status is unknown - unable to determine the current state.';
+      return 'Block status is unknown - the endpoints could not report it, so no status is assumed.';
   }
 }
@@ -0,0 +1,265 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { formatUnits, parseUnits } from 'ethers';
+import { claimAssetsTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { claimBridgeDeposit, LEAF_TYPE_ASSET } from '../utils/bridgeClaims';
+import { parseBridgeTicket } from '../services/bridgeService';
+import { getBridgeTracker } from '../services/bridgeTracker';
+import { withNetworkProfile } from '../networks';
+
+const ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export const claimAssetsAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_CLAIM_ASSETS',
+  similes: ['CLAIM_BRIDGE', 'CLAIM_DEPOSIT', 'CLAIM_WITHDRAWAL', 'FINALIZE_WITHDRAWAL'].map(
+    (s) => `POLYGON_ZKEVM_${s}`
+  ),
+  description:
+    'Claim bridged assets on the destination chain using the bridge ticket from a bridge transaction.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+
+    // Claim-related keywords
+    const claimKeywords = [
+      'claim',
+      'bridge ticket',
+      'finalize withdrawal',
+      'finalise withdrawal',
+      'complete withdrawal',
+      'complete bridge',
+      'deposit count',
+    ];
+
+    return claimKeywords.some((keyword) => content.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[claimAssetsAction] Handler called!');
+
+    const privateKey = runtime.getSetting('PRIVATE_KEY');
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    const fail = async (errorMessage: string, error?: unknown, extra: object = {}) => {
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { claimSucceeded: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_CLAIM_ASSETS', error: errorMessage, ...extra },
+        error: error instanceof Error ? error : new Error(errorMessage),
+      };
+    };
+
+    if (!privateKey) {
+      const errorMessage = 'PRIVATE_KEY is required for claiming bridged assets.';
+      logger.error(`[claimAssetsAction] Configuration error: ${errorMessage}`);
+      return fail(errorMessage);
+    }
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
+      logger.error(`[claimAssetsAction] Configuration error: ${errorMessage}`);
+      return fail(errorMessage);
+    }
+
+    let claimParams: any | null = null;
+
+    // Extract the bridge ticket using LLM
+    try {
+      claimParams = await callLLMWithTimeout<{
+        bridgeTicketId: string;
+        gasLimit?: string | number;
+        gasPrice?: string;
+        maxFeePerGas?: string;
+        maxPriorityFeePerGas?: string;
+      }>(runtime, state, claimAssetsTemplate, 'claimAssetsAction');
+
+      if (claimParams?.error) {
+        logger.error('[claimAssetsAction] LLM returned an error:', claimParams?.error);
+        throw new Error(claimParams?.error);
+      }
+
+      if (!claimParams?.bridgeTicketId) {
+        throw new Error('Missing required parameter: bridgeTicketId.');
+      }
+
+      claimParams.bridgeTicketId = String(claimParams.bridgeTicketId);
+      parseBridgeTicket(claimParams.bridgeTicketId);
+    } catch (error) {
+      logger.debug(
+        '[claimAssetsAction] LLM parameter extraction failed',
+        error instanceof Error ? error.message : String(error)
+      );
+      const errorMessage = `[claimAssetsAction] Failed to extract claim parameters from input: ${error instanceof Error ? error.message : String(error)}`;
+      return fail(errorMessage, error);
+    }
+
+    try {
+      // Prepare transaction options
+      const txOptions: any = {};
+      if (claimParams.gasLimit) {
+        txOptions.gasLimit = claimParams.gasLimit;
+      }
+      if (claimParams.gasPrice) {
+        txOptions.gasPrice = parseUnits(claimParams.gasPrice, 'gwei');
+      }
+      if (claimParams.maxFeePerGas) {
+        txOptions.maxFeePerGas = parseUnits(claimParams.maxFeePerGas, 'gwei');
+      }
+      if (claimParams.maxPriorityFeePerGas) {
+        txOptions.maxPriorityFeePerGas = parseUnits(claimParams.maxPriorityFeePerGas, 'gwei');
+      }
+
+      const claim = await claimBridgeDeposit(
+        runtime,
+        claimParams.bridgeTicketId,
+        LEAF_TYPE_ASSET,
+        txOptions
+      );
+      const { bridgeTicketId, deposit, destination } = claim;
+
+      const isEth = deposit.originTokenAddress.toLowerCase() === ETH_ADDRESS;
+      const amountText = isEth
+        ? `${formatUnits(deposit.amount, 18)} ETH`
+        : `${deposit.amount} units of ${deposit.originTokenAddress}`;
+      const claimData = {
+        actionName: 'POLYGON_ZKEVM_CLAIM_ASSETS',
+        bridgeTicketId,
+        depositTxHash: deposit.txHash,
+        destinationNetwork: destination.name,
+        destinationAddress: deposit.destinationAddress,
+        amount: deposit.amount,
+        tokenAddress: deposit.originTokenAddress,
+        status: claim.status,
+        transactionHash: claim.transactionHash,
+        gasUsed: claim.gasUsed,
+        blockNumber: claim.blockNumber,
+        timestamp: Date.now(),
+      };
+
+      if (claim.status === 'claimed' || claim.status === 'already_claimed') {
+        try {
+          await getBridgeTracker(runtime).markClaimed(bridgeTicketId, claim.transactionHash);
+        } catch (error) {
+          logger.warn(
+            `[claimAssetsAction] Failed to update tracked bridge transfer: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+
+      if (claim.status === 'pending') {
+        const errorMessage = `Bridge deposit ${bridgeTicketId} is not ready to be claimed yet. The exit root containing it has not been verified on ${destination.name}; withdrawals to Ethereum usually take 30-60 minutes.`;
+        return fail(errorMessage, undefined, claimData);
+      }
+
+      if (claim.status === 'already_claimed') {
+        const text =
+          `✅ Bridge deposit ${bridgeTicketId} has already been claimed on ${destination.name}.` +
+          (claim.transactionHash ? `\n\n**Claim Transaction:** \`${claim.transactionHash}\`` : '');
+        if (callback) {
+          await callback({
+            text,
+            content: { success: true, claimTransactionHash: claim.transactionHash },
+          });
+        }
+        return {
+          success: true,
+          text,
+          values: { claimSucceeded: true, alreadyClaimed: true },
+          data: claimData,
+        };
+      }
+
+      logger.info(
+        `[claimAssetsAction] Claimed ${amountText} (ticket ${bridgeTicketId}) on ${destination.name}: ${claim.transactionHash}`
+      );
+
+      const successText = `✅ Bridged assets claimed successfully!
+
+**Transaction Hash:** \`${claim.transactionHash}\`
+**Bridge Ticket:** ${bridgeTicketId}
+**Amount:** ${amountText}
+**Recipient:** \`${deposit.destinationAddress}\`
+**Network:** ${destination.name}`;
+
+      if (callback) {
+        await callback({
+          text: successText,
+          content: { success: true, transactionHash: claim.transactionHash },
+        });
+      }
+
+      return {
+        success: true,
+        text: successText,
+        values: { claimSucceeded: true, transactionHash: claim.transactionHash },
+        data: claimData,
+      };
+    } catch (error) {
+      const errorMessage = `Failed to claim bridged assets: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[claimAssetsAction] ${errorMessage}`);
+      return fail(errorMessage, error, {
+        bridgeTicketId: claimParams.bridgeTicketId,
+        timestamp: Date.now(),
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Claim my withdrawal with bridge ticket 1-4821',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '✅ Bridged assets claimed successfully! Transaction Hash: 0x789...',
+          action: 'POLYGON_ZKEVM_CLAIM_ASSETS',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Claim the ETH I bridged from Ethereum, deposit count 120394',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '✅ Bridge deposit 0-120394 has already been claimed on zkEVM.',
+          action: 'POLYGON_ZKEVM_CLAIM_ASSETS',
+        },
+      },
+    ],
+  ],
+});
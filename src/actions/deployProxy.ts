@@ -0,0 +1,418 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { Interface, getAddress, isAddress } from 'ethers';
+import { deployProxyTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import {
+  type ContractAbi,
+  type EncodedFunctionCall,
+  encodeConstructorArgs,
+  encodeFunctionCall,
+} from '../utils/abiEncoding';
+import { recordArtifactDeployment } from '../utils/artifacts';
+import { findDeployedContract, recordDeployedContract, toJsonAbi } from '../utils/contractRegistry';
+import {
+  type PreparedImplementation,
+  type ProxyInfo,
+  type ProxyKind,
+  getProxyContracts,
+  isUupsImplementation,
+  prepareImplementation,
+  readProxyInfo,
+  recordImplementation,
+  sendDeployment,
+} from '../utils/proxy';
+
+const KIND_NAMES: Record<ProxyKind, string> = {
+  uups: 'UUPS (ERC1967Proxy)',
+  transparent: 'Transparent (TransparentUpgradeableProxy + ProxyAdmin)',
+};
+
+function describeAdmin(info: ProxyInfo): string {
+  if (!info.admin) {
+    return '';
+  }
+  return `\n**ProxyAdmin:** \`${info.admin}\`${info.adminOwner ? ` (owner \`${info.adminOwner}\`)` : ''}`;
+}
+
+/**
+ * Deploy an implementation behind a new UUPS or transparent ERC-1967 proxy, calling its
+ * initializer from the proxy constructor
+ */
+export const deployProxyAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_DEPLOY_PROXY',
+  similes: [
+    'DEPLOY_PROXY',
+    'DEPLOY_UPGRADEABLE',
+    'DEPLOY_UUPS_PROXY',
+    'DEPLOY_TRANSPARENT_PROXY',
+    'CREATE_PROXY',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Deploys an upgradeable contract on Polygon zkEVM: the implementation plus a UUPS or transparent ERC-1967 proxy, initialized with an encoded initializer call.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[deployProxyAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    if (!runtime.getSetting('PRIVATE_KEY')) {
+      const errorMessage = 'PRIVATE_KEY is required for proxy deployment.';
+      logger.error(`[deployProxyAction] Configuration error: ${errorMessage}`);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyDeployed: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_DEPLOY_PROXY', error: errorMessage },
+        error: new Error(errorMessage),
+      };
+    }
+
+    let params: {
+      artifact?: string;
+      source?: string;
+      contractName?: string;
+      implementation?: string;
+      name?: string;
+      abi?: ContractAbi;
+      kind?: ProxyKind;
+      initializer?: string;
+      initializerArgs?: unknown[];
+      owner?: string;
+      libraries?: Record<string, string>;
+      gasLimit?: string | number;
+      error?: string;
+    };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        deployProxyTemplate,
+        'deployProxyAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!params?.artifact && !params?.source && !params?.implementation) {
+        throw new Error('No implementation artifact, source or address extracted from input.');
+      }
+      if (params.implementation && !isAddress(params.implementation)) {
+        throw new Error(`Invalid implementation address: ${params.implementation}`);
+      }
+      if (params.owner && !isAddress(params.owner)) {
+        throw new Error(`Invalid ProxyAdmin owner address: ${params.owner}`);
+      }
+      if (params.kind && !['uups', 'transparent'].includes(params.kind)) {
+        throw new Error('Invalid proxy kind. Must be "uups" or "transparent".');
+      }
+    } catch (error) {
+      const errorMessage = `[deployProxyAction] Failed to extract proxy deployment parameters from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyDeployed: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_DEPLOY_PROXY', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const zkevmService = getZkEvmProviderService(runtime);
+    const network = zkevmService.getNetwork().name;
+    const chainId = zkevmService.getNetwork().l2.chainId;
+    let prepared: PreparedImplementation | null = null;
+    let kind: ProxyKind;
+    let initializer: EncodedFunctionCall | null = null;
+    let abi: ContractAbi | null = null;
+
+    // Everything that can be checked before sending is checked here - a mistake must not deploy
+    try {
+      const provider = zkevmService.getProvider();
+      let proxiable: boolean;
+      if (params.artifact || params.source) {
+        prepared = await prepareImplementation(runtime, network, params);
+        abi = prepared.artifact.abi;
+        const iface = new Interface(abi);
+        proxiable = iface.hasFunction('proxiableUUID') && iface.hasFunction('upgradeToAndCall');
+      } else {
+        if ((await provider.getCode(params.implementation)) === '0x') {
+          throw new Error(`No contract deployed at implementation ${params.implementation}`);
+        }
+        proxiable = await isUupsImplementation(provider, params.implementation);
+        abi =
+          params.abi ??
+          (await findDeployedContract(runtime, chainId, params.implementation))?.abi ??
+          null;
+      }
+
+      kind = params.kind ?? (proxiable ? 'uups' : 'transparent');
+      if (kind === 'uups' && !proxiable) {
+        throw new Error(
+          `${prepared?.artifact.contractName ?? params.implementation} is not a UUPS implementation (no proxiableUUID/upgradeToAndCall), so the proxy could never be upgraded. Use a transparent proxy instead.`
+        );
+      }
+
+      // Without an explicit initializer, `initialize` is called when the implementation has one
+      const initializerName =
+        params.initializer ??
+        (params.initializerArgs?.length || (abi && new Interface(abi).hasFunction('initialize'))
+          ? 'initialize'
+          : null);
+      if (initializerName) {
+        initializer = encodeFunctionCall(abi, initializerName, params.initializerArgs ?? []);
+      }
+    } catch (error) {
+      const errorMessage = `Failed to prepare proxy deployment: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[deployProxyAction] ${errorMessage}`);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyDeployed: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_DEPLOY_PROXY', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    let implementationAddress: string | null = params.implementation
+      ? getAddress(params.implementation)
+      : null;
+    let implementationTx: string | null = null;
+    const artifactName = prepared
+      ? `${prepared.artifact.sourceName ? `${prepared.artifact.sourceName}:` : ''}${prepared.artifact.contractName}`
+      : null;
+
+    try {
+      const wallet = await zkevmService.getSigner();
+      const gasLimit = params.gasLimit ? BigInt(params.gasLimit) : undefined;
+
+      if (prepared) {
+        const deployed = await sendDeployment(wallet, prepared.bytecode, gasLimit);
+        implementationAddress = deployed.address;
+        implementationTx = deployed.transactionHash;
+        logger.info(
+          `[deployProxyAction] ${prepared.artifact.contractName} implementation deployed at ${implementationAddress}`
+        );
+
+        // Remembered for library linking, and for the storage layout check of the next upgrade
+        await Promise.all([
+          recordArtifactDeployment(runtime, network, prepared.artifact, implementationAddress),
+          recordImplementation(runtime, network, implementationAddress, prepared.artifact),
+          recordDeployedContract(runtime, {
+            name: null,
+            address: implementationAddress,
+            network,
+            chainId,
+            transactionHash: implementationTx,
+            abi: prepared.artifact.abi,
+            artifact: artifactName,
+            constructorArgs: [],
+            encodedConstructorArgs: null,
+            deployer: wallet.address,
+            deployedAt: Date.now(),
+          }),
+        ]).catch((recordError) =>
+          logger.warn(`[deployProxyAction] Failed to record implementation: ${recordError}`)
+        );
+      }
+
+      const proxies = await getProxyContracts(runtime.getSetting('SOLC_EVM_VERSION') || undefined);
+      const initData = initializer?.data ?? '0x';
+      const proxyArtifact =
+        kind === 'uups' ? proxies.ERC1967Proxy : proxies.TransparentUpgradeableProxy;
+      const proxyArgs =
+        kind === 'uups'
+          ? [implementationAddress, initData]
+          : [implementationAddress, params.owner ?? wallet.address, initData];
+      const { encodedArgs } = encodeConstructorArgs(proxyArtifact.abi, proxyArgs);
+
+      const proxy = await sendDeployment(
+        wallet,
+        proxyArtifact.bytecode + encodedArgs.slice(2),
+        gasLimit
+      );
+      logger.info(`[deployProxyAction] ${kind} proxy deployed at ${proxy.address}`);
+
+      const { value: info, endpoints } = await zkevmService.readCritical((provider) =>
+        readProxyInfo(provider, proxy.address)
+      );
+      if (info.implementation !== implementationAddress) {
+        throw new Error(
+          `Proxy ${proxy.address} reports implementation ${info.implementation} instead of ${implementationAddress}`
+        );
+      }
+      const method = endpoints.join(', ');
+
+      // The proxy is what gets called, so it is registered under the name with the implementation ABI
+      const name = params.name || prepared?.artifact.contractName || null;
+      await recordDeployedContract(runtime, {
+        name,
+        address: proxy.address,
+        network,
+        chainId,
+        transactionHash: proxy.transactionHash,
+        abi: abi ? toJsonAbi(abi) : null,
+        artifact: artifactName,
+        constructorArgs: proxyArgs,
+        encodedConstructorArgs: encodedArgs,
+        deployer: wallet.address,
+        implementation: implementationAddress,
+        deployedAt: Date.now(),
+      }).catch((recordError) =>
+        logger.warn(`[deployProxyAction] Failed to register proxy ${proxy.address}: ${recordError}`)
+      );
+
+      const text = `✅ Upgradeable contract deployed to ${networkLabel.displayName}!
+
+**Proxy Address:** \`${proxy.address}\`
+**Kind:** ${KIND_NAMES[kind]}
+**Implementation:** \`${implementationAddress}\`${prepared ? ` (${prepared.artifact.contractName})` : ''}${implementationTx ? `\n**Implementation Tx:** \`${implementationTx}\`` : ''}
+**Proxy Tx:** \`${proxy.transactionHash}\`${describeAdmin(info)}
+**Initializer:** ${initializer ? `\`${initializer.signature}\`` : 'None'}
+**Method Used:** ${method}
+**Network:** ${networkLabel.displayName}
+
+Interact with the contract through the proxy address.`;
+
+      if (callback) {
+        await callback({
+          text,
+          content: {
+            success: true,
+            proxyAddress: proxy.address,
+            implementationAddress,
+            transactionHash: proxy.transactionHash,
+          },
+        });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          proxyDeployed: true,
+          proxyAddress: proxy.address,
+          implementationAddress,
+          adminAddress: info.admin,
+          kind,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_DEPLOY_PROXY',
+          proxyAddress: proxy.address,
+          implementationAddress,
+          kind,
+          admin: info.admin,
+          adminOwner: info.adminOwner,
+          transactionHashes: { implementation: implementationTx, proxy: proxy.transactionHash },
+          initializer: initializer
+            ? { signature: initializer.signature, data: initializer.data }
+            : null,
+          artifact: prepared
+            ? {
+                contractName: prepared.artifact.contractName,
+                sourceName: prepared.artifact.sourceName,
+                format: prepared.artifact.format,
+                path: prepared.artifact.path,
+              }
+            : null,
+          linkedLibraries: prepared?.linkedLibraries ?? {},
+          network: networkLabel.network,
+          method,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Proxy deployment failed: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[deployProxyAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}${implementationTx ? `\n\nThe implementation was deployed at \`${implementationAddress}\` and can be reused.` : ''}`,
+        values: { proxyDeployed: false, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_DEPLOY_PROXY',
+          error: errorMessage,
+          implementationAddress: implementationTx ? implementationAddress : null,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Deploy VaultV1 behind a UUPS proxy and initialize it with owner 0x742d35Cc6634C0532925a3b8D4C9db96c4b4d8b7 and fee 250',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '✅ Upgradeable contract deployed to Polygon zkEVM!\n\n**Proxy Address:** `0x...`\n**Kind:** UUPS (ERC1967Proxy)',
+          action: 'POLYGON_ZKEVM_DEPLOY_PROXY',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Deploy the Registry artifact as a transparent proxy owned by our multisig 0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: 'I will deploy Registry behind a transparent proxy whose ProxyAdmin is owned by the multisig.',
+          action: 'POLYGON_ZKEVM_DEPLOY_PROXY',
+        },
+      },
+    ],
+  ],
+});
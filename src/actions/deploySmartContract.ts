@@ -7,11 +7,49 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider, Wallet, parseEther, parseUnits } from 'ethers';
+import { parseEther, parseUnits } from 'ethers';
 import { deploySmartContractTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { type EncodedConstructorArgs, encodeConstructorArgs } from '../utils/abiEncoding';
+import {
+  type ContractArtifact,
+  getArtifactDeployments,
+  linkBytecode,
+  loadArtifact,
+  recordArtifactDeployment,
+} from '../utils/artifacts';
+import {
+  type CompilationResult,
+  compileSolidity,
+  selectCompiledContract,
+} from '../utils/solidity';
+import {
+  type Create2Deployment,
+  buildCreate2Deployment,
+  getCreate2Deployer,
+  toCreate2Salt,
+} from '../utils/create2';
+import {
+  type VerificationResult,
+  getArtifactVerificationInput,
+  recordVerificationInput,
+  resolveExplorerConfig,
+  verifyContract,
+} from '../utils/explorer';
+import { recordDeployedContract, toJsonAbi } from '../utils/contractRegistry';
+import {
+  type DecodedRevert,
+  decodeRevert,
+  explainFailedTransaction,
+  formatRevert,
+} from '../utils/revertDecoder';
+
+// Verification after a deployment gives up waiting after this long, leaving it pending
+const AUTO_VERIFY_TIMEOUT_MS = 90_000;
 
-export const deploySmartContractAction: Action = {
+export const deploySmartContractAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT',
   similes: [
     'DEPLOY_CONTRACT',
@@ -23,11 +61,11 @@ export const deploySmartContractAction: Action = {
     'DEPLOY_CONTRACT_ZKEVM',
   ].map((s) => `POLYGON_ZKEVM_${s}`),
   description:
-    'Deploys a smart contract to Polygon zkEVM using bytecode and optional constructor arguments.',
+    'Deploys a smart contract to Polygon zkEVM from bytecode, a compiled Hardhat/Foundry artifact or Solidity source, with optional constructor arguments ABI-encoded from the contract ABI or constructor signature. Supports deterministic CREATE2 deployments with a salt.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -45,8 +83,10 @@ export const deploySmartContractAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[deploySmartContractAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
     const privateKey = runtime.getSetting('PRIVATE_KEY');
 
     if (!privateKey) {
@@ -82,19 +122,38 @@ export const deploySmartContractAction: Action = {
     let deploymentParams: any | null = null;
     let contractAddress: string | null = null;
     let transactionHash: string | null = null;
-    let methodUsed: 'alchemy' | 'rpc' | null = null;
+    let methodUsed: string | null = null;
+    let constructor: EncodedConstructorArgs | null = null;
+    let artifact: ContractArtifact | null = null;
+    let compilation: CompilationResult | null = null;
+    let create2: Create2Deployment | null = null;
+    let alreadyDeployed = false;
+    let linkedLibraries: Record<string, string> = {};
+    let verification: VerificationResult | null = null;
+    let deployer: string | null = null;
+    let revert: DecodedRevert | null = null;
     let errorMessages: string[] = [];
 
     // Extract deployment parameters using LLM with OBJECT_LARGE model
     try {
       deploymentParams = await callLLMWithTimeout<{
-        bytecode: string;
+        bytecode?: string;
+        artifact?: string;
+        source?: string;
+        contractName?: string;
+        name?: string;
+        libraries?: Record<string, string>;
+        create2?: boolean;
+        salt?: string;
+        abi?: any[] | string;
+        constructorSignature?: string;
         constructorArgs?: any[];
         gasLimit?: string | number;
         gasPrice?: string;
         maxFeePerGas?: string;
         maxPriorityFeePerGas?: string;
         value?: string;
+        verify?: boolean;
         error?: string;
       }>(runtime, state, deploySmartContractTemplate, 'deploySmartContractAction');
 
@@ -103,14 +162,18 @@ export const deploySmartContractAction: Action = {
         throw new Error(deploymentParams?.error);
       }
 
-      if (!deploymentParams?.bytecode) {
+      if (!deploymentParams?.bytecode && !deploymentParams?.artifact && !deploymentParams?.source) {
         throw new Error(
-          'No valid bytecode extracted from input. Please provide bytecode starting with 0x.'
+          'No valid bytecode, artifact or Solidity source extracted from input. Please provide bytecode starting with 0x, a compiled artifact name or the contract source.'
         );
       }
 
       logger.info(
-        `[deploySmartContractAction] Extracted bytecode: ${deploymentParams.bytecode.substring(0, 50)}...`
+        deploymentParams.source
+          ? `[deploySmartContractAction] Extracted Solidity source (${deploymentParams.source.length} characters)`
+          : deploymentParams.artifact
+            ? `[deploySmartContractAction] Extracted artifact: ${deploymentParams.artifact}`
+            : `[deploySmartContractAction] Extracted bytecode: ${deploymentParams.bytecode.substring(0, 50)}...`
       );
     } catch (error) {
       logger.error(
@@ -130,13 +193,51 @@ export const deploySmartContractAction: Action = {
       };
     }
 
-    // Determine RPC URL
-    const rpcUrl = alchemyApiKey
-      ? `${runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2'}/${alchemyApiKey}`
-      : zkevmRpcUrl;
+    // Get the shared provider pool - Alchemy first when configured, then the direct RPC endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+    let bytecode: string = deploymentParams.bytecode;
+
+    // Resolve the bytecode and encode constructor arguments - a mismatch must not deploy
+    try {
+      if (deploymentParams.source) {
+        compilation = await compileSolidity(deploymentParams.source, {
+          evmVersion: runtime.getSetting('SOLC_EVM_VERSION') || undefined,
+        });
+        if (compilation.errors.length > 0) {
+          throw new Error(`Compilation failed:\n${compilation.errors.join('\n')}`);
+        }
+        artifact = selectCompiledContract(compilation, deploymentParams.contractName);
+      } else if (deploymentParams.artifact) {
+        artifact = await loadArtifact(runtime, deploymentParams.artifact);
+      }
+
+      if (artifact) {
+        // Explicit library addresses win over libraries deployed earlier from artifacts
+        const libraries = {
+          ...(await getArtifactDeployments(runtime, zkevmService.getNetwork().name)),
+          ...deploymentParams.libraries,
+        };
+        ({ bytecode, linkedLibraries } = linkBytecode(artifact, libraries));
+        logger.info(
+          `[deploySmartContractAction] Deploying ${artifact.contractName} (${artifact.format}) from ${artifact.path}`
+        );
+      }
 
-    if (!rpcUrl) {
-      const errorMessage = 'Unable to determine RPC URL for deployment.';
+      const constructorArgs = deploymentParams.constructorArgs ?? [];
+      const abiOrSignature =
+        artifact?.abi ?? deploymentParams.abi ?? deploymentParams.constructorSignature;
+      if (abiOrSignature) {
+        constructor = encodeConstructorArgs(abiOrSignature, constructorArgs);
+        logger.info(
+          `[deploySmartContractAction] Encoded arguments for ${constructor.signature}: ${constructor.encodedArgs}`
+        );
+      } else if (constructorArgs.length > 0) {
+        throw new Error(
+          'Constructor arguments require the contract ABI or constructor signature to be encoded.'
+        );
+      }
+    } catch (error) {
+      const errorMessage = `Failed to prepare deployment: ${error instanceof Error ? error.message : String(error)}`;
       logger.error(`[deploySmartContractAction] ${errorMessage}`);
       if (callback) {
         await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
@@ -145,121 +246,315 @@ export const deploySmartContractAction: Action = {
         success: false,
         text: `❌ ${errorMessage}`,
         values: { contractDeployed: false, error: true, errorMessage },
-        data: { actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT', error: errorMessage },
-        error: new Error(errorMessage),
+        data: {
+          actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT',
+          error: errorMessage,
+          deploymentParams,
+          compilerErrors: compilation?.errors,
+          compilerWarnings: compilation?.warnings,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
       };
     }
 
-    // Attempt deployment using provider
-    try {
-      logger.info(`[deploySmartContractAction] Attempting contract deployment`);
-
-      const provider = new JsonRpcProvider(rpcUrl);
-      const wallet = new Wallet(privateKey, provider);
-
-      // Prepare transaction data
-      const transactionData: any = {
-        data: deploymentParams.bytecode,
-      };
+    // The encoded constructor arguments follow the creation bytecode
+    const initCode = constructor ? bytecode + constructor.encodedArgs.slice(2) : bytecode;
 
-      // Add constructor arguments if provided
-      if (deploymentParams.constructorArgs && deploymentParams.constructorArgs.length > 0) {
-        // Note: In a real implementation, you'd need to properly encode constructor args
-        // This is a simplified version - in practice you'd use ethers AbiCoder
-        logger.info(
-          `[deploySmartContractAction] Constructor args provided: ${JSON.stringify(deploymentParams.constructorArgs)}`
-        );
-        // For now, we'll log this but not implement full ABI encoding
-        logger.warn(
-          '[deploySmartContractAction] Constructor argument encoding not fully implemented - deploying without args'
+    // CREATE2: predict the address, and send nothing when the contract is already there
+    const { salt } = deploymentParams;
+    if (deploymentParams.create2 === true || (salt !== undefined && salt !== null && salt !== '')) {
+      try {
+        const provider = zkevmService.getProvider();
+        create2 = buildCreate2Deployment(
+          getCreate2Deployer(runtime),
+          toCreate2Salt(salt),
+          initCode
         );
-      }
-
-      // Add value if provided
-      if (deploymentParams.value) {
-        transactionData.value = parseEther(deploymentParams.value);
-      }
+        if ((await provider.getCode(create2.deployer)) === '0x') {
+          throw new Error(`CREATE2 deployer ${create2.deployer} is not deployed on this network`);
+        }
 
-      // Add gas parameters
-      if (deploymentParams.gasLimit) {
-        transactionData.gasLimit = BigInt(deploymentParams.gasLimit);
-      } else {
-        // Estimate gas if not provided
-        try {
-          const estimatedGas = await provider.estimateGas(transactionData);
-          transactionData.gasLimit = estimatedGas;
-          logger.info(`[deploySmartContractAction] Estimated gas: ${estimatedGas.toString()}`);
-        } catch (gasError) {
-          logger.warn(
-            `[deploySmartContractAction] Gas estimation failed, using default: ${gasError}`
+        alreadyDeployed = (await provider.getCode(create2.predictedAddress)) !== '0x';
+        if (alreadyDeployed) {
+          contractAddress = create2.predictedAddress;
+          methodUsed = zkevmService.getEndpointName();
+          logger.info(
+            `[deploySmartContractAction] Contract already deployed at predicted address ${contractAddress}`
           );
-          transactionData.gasLimit = BigInt('3000000'); // Default gas limit for contract deployment
+        } else if (callback) {
+          await callback({
+            text: `🔮 Deploying with CREATE2 through \`${create2.deployer}\`\n\n**Predicted Address:** \`${create2.predictedAddress}\`\n**Salt:** \`${create2.salt}\``,
+            content: {
+              success: true,
+              predictedAddress: create2.predictedAddress,
+              salt: create2.salt,
+              deployer: create2.deployer,
+            },
+          });
+        }
+      } catch (error) {
+        const errorMessage = `Failed to prepare CREATE2 deployment: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(`[deploySmartContractAction] ${errorMessage}`);
+        if (callback) {
+          await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
         }
+        return {
+          success: false,
+          text: `❌ ${errorMessage}`,
+          values: { contractDeployed: false, error: true, errorMessage },
+          data: { actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT', error: errorMessage, create2 },
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
       }
+    }
+
+    // Attempt deployment using provider
+    if (!alreadyDeployed) {
+      try {
+        logger.info(`[deploySmartContractAction] Attempting contract deployment`);
+
+        // Transactions are sent through the preferred healthy endpoint
+        const endpointName = zkevmService.getEndpointName();
+        const provider = zkevmService.getProvider();
+        const wallet = await zkevmService.getSigner();
+        deployer = wallet.address;
 
-      // Handle gas pricing (EIP-1559 vs legacy)
-      if (deploymentParams.maxFeePerGas || deploymentParams.maxPriorityFeePerGas) {
-        // EIP-1559 transaction
-        if (deploymentParams.maxFeePerGas) {
-          transactionData.maxFeePerGas = parseUnits(deploymentParams.maxFeePerGas, 'gwei');
+        // Prepare transaction data - CREATE2 deployments are a call to the deployer
+        const transactionData: any = create2 ? { ...create2.transaction } : { data: initCode };
+
+        // Add value if provided
+        if (deploymentParams.value) {
+          transactionData.value = parseEther(deploymentParams.value);
         }
-        if (deploymentParams.maxPriorityFeePerGas) {
-          transactionData.maxPriorityFeePerGas = parseUnits(
-            deploymentParams.maxPriorityFeePerGas,
-            'gwei'
-          );
+
+        // Add gas parameters
+        if (deploymentParams.gasLimit) {
+          transactionData.gasLimit = BigInt(deploymentParams.gasLimit);
+        } else {
+          // Estimate gas if not provided
+          try {
+            const estimatedGas = await provider.estimateGas(transactionData);
+            transactionData.gasLimit = estimatedGas;
+            logger.info(`[deploySmartContractAction] Estimated gas: ${estimatedGas.toString()}`);
+          } catch (gasError) {
+            // A constructor that reverts in the estimate would revert on chain too
+            if (decodeRevert(gasError)) {
+              throw gasError;
+            }
+            logger.warn(
+              `[deploySmartContractAction] Gas estimation failed, using default: ${gasError}`
+            );
+            // Default gas limit for contract deployment
+            transactionData.gasLimit = BigInt('3000000');
+          }
         }
-        transactionData.type = 2; // EIP-1559
-      } else if (deploymentParams.gasPrice) {
-        // Legacy transaction
-        transactionData.gasPrice = parseUnits(deploymentParams.gasPrice, 'gwei');
-        transactionData.type = 0; // Legacy
-      } else {
-        // Use current gas price
-        try {
-          const feeData = await provider.getFeeData();
-          if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-            transactionData.maxFeePerGas = feeData.maxFeePerGas;
-            transactionData.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
-            transactionData.type = 2;
-          } else if (feeData.gasPrice) {
-            transactionData.gasPrice = feeData.gasPrice;
-            transactionData.type = 0;
+
+        // Handle gas pricing (EIP-1559 vs legacy)
+        if (deploymentParams.maxFeePerGas || deploymentParams.maxPriorityFeePerGas) {
+          // EIP-1559 transaction
+          if (deploymentParams.maxFeePerGas) {
+            transactionData.maxFeePerGas = parseUnits(deploymentParams.maxFeePerGas, 'gwei');
+          }
+          if (deploymentParams.maxPriorityFeePerGas) {
+            transactionData.maxPriorityFeePerGas = parseUnits(
+              deploymentParams.maxPriorityFeePerGas,
+              'gwei'
+            );
+          }
+          transactionData.type = 2; // EIP-1559
+        } else if (deploymentParams.gasPrice) {
+          // Legacy transaction
+          transactionData.gasPrice = parseUnits(deploymentParams.gasPrice, 'gwei');
+          transactionData.type = 0; // Legacy
+        } else {
+          // Use current gas price
+          try {
+            const feeData = await provider.getFeeData();
+            if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+              transactionData.maxFeePerGas = feeData.maxFeePerGas;
+              transactionData.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
+              transactionData.type = 2;
+            } else if (feeData.gasPrice) {
+              transactionData.gasPrice = feeData.gasPrice;
+              transactionData.type = 0;
+            }
+          } catch (feeError) {
+            logger.warn(`[deploySmartContractAction] Fee data fetch failed: ${feeError}`);
           }
-        } catch (feeError) {
-          logger.warn(`[deploySmartContractAction] Fee data fetch failed: ${feeError}`);
         }
-      }
 
-      // Send the deployment transaction
-      const deploymentTx = await wallet.sendTransaction(transactionData);
-      transactionHash = deploymentTx.hash;
+        // Send the deployment transaction
+        const deploymentTx = await wallet.sendTransaction(transactionData);
+        transactionHash = deploymentTx.hash;
+
+        logger.info(`[deploySmartContractAction] Deployment transaction sent: ${transactionHash}`);
 
-      logger.info(`[deploySmartContractAction] Deployment transaction sent: ${transactionHash}`);
+        // Wait for the transaction to be mined - ethers rejects reverted transactions with the receipt
+        const receipt = await deploymentTx.wait().catch((waitError: any) => {
+          if (waitError?.receipt) {
+            return waitError.receipt;
+          }
+          throw waitError;
+        });
 
-      // Wait for the transaction to be mined
-      const receipt = await deploymentTx.wait();
+        if (receipt?.status === 0) {
+          // The receipt has no revert data - replay the deployment to find out why it failed
+          revert = await explainFailedTransaction(
+            runtime,
+            deploymentTx,
+            receipt.blockNumber,
+            artifact?.abi ?? deploymentParams.abi
+          );
+          throw new Error('Contract deployment failed - transaction was reverted');
+        }
 
-      if (receipt && receipt.contractAddress) {
-        contractAddress = receipt.contractAddress;
-        methodUsed = alchemyApiKey ? 'alchemy' : 'rpc';
+        if (create2) {
+          // The deployer call succeeds without creating anything when the constructor reverts
+          const code = await provider.getCode(create2.predictedAddress);
+          if (receipt?.status !== 1 || code === '0x') {
+            throw new Error(
+              `CREATE2 deployment did not create a contract at ${create2.predictedAddress}`
+            );
+          }
+          contractAddress = create2.predictedAddress;
+          methodUsed = endpointName;
+        } else if (receipt && receipt.contractAddress) {
+          contractAddress = receipt.contractAddress;
+          methodUsed = endpointName;
+        } else {
+          throw new Error('Contract deployment failed - no contract address in receipt');
+        }
 
         logger.info(
           `[deploySmartContractAction] Contract deployed successfully at: ${contractAddress}`
         );
-      } else {
-        throw new Error('Contract deployment failed - no contract address in receipt');
+      } catch (error) {
+        logger.error(`[deploySmartContractAction] Deployment failed:`, error);
+        revert ??= decodeRevert(error, artifact?.abi ?? deploymentParams.abi);
+        errorMessages.push(
+          revert
+            ? `Deployment ${formatRevert(revert)}`
+            : `Deployment failed: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
-    } catch (error) {
-      logger.error(`[deploySmartContractAction] Deployment failed:`, error);
-      errorMessages.push(
-        `Deployment failed: ${error instanceof Error ? error.message : String(error)}`
-      );
     }
 
     // Handle result and errors
-    if (contractAddress && transactionHash) {
-      const successText = `✅ Smart contract deployed successfully to Polygon zkEVM!\n\n**Contract Address:** \`${contractAddress}\`\n**Transaction Hash:** \`${transactionHash}\`\n**Method Used:** ${methodUsed}\n**Network:** Polygon zkEVM\n\nYou can now interact with your new contract.`;
+    if (contractAddress && (transactionHash || alreadyDeployed)) {
+      // Remember the address so that contracts linking this one as a library can find it
+      if (artifact) {
+        await recordArtifactDeployment(
+          runtime,
+          zkevmService.getNetwork().name,
+          artifact,
+          contractAddress
+        ).catch((recordError) =>
+          logger.warn(
+            `[deploySmartContractAction] Failed to record deployment of ${artifact.contractName}: ${recordError}`
+          )
+        );
+      }
+
+      // Registered under its name so that it can be called later without its address and ABI
+      const name = deploymentParams.name || artifact?.contractName || null;
+      try {
+        await recordDeployedContract(runtime, {
+          name,
+          address: contractAddress,
+          network: zkevmService.getNetwork().name,
+          chainId: zkevmService.getNetwork().l2.chainId,
+          transactionHash,
+          abi: artifact?.abi ?? (deploymentParams.abi ? toJsonAbi(deploymentParams.abi) : null),
+          artifact: artifact
+            ? `${artifact.sourceName ? `${artifact.sourceName}:` : ''}${artifact.contractName}`
+            : null,
+          constructorArgs: deploymentParams.constructorArgs ?? [],
+          encodedConstructorArgs: constructor?.encodedArgs ?? null,
+          deployer,
+          deployedAt: Date.now(),
+        });
+      } catch (recordError) {
+        logger.warn(
+          `[deploySmartContractAction] Failed to register contract ${contractAddress}: ${recordError}`
+        );
+      }
+
+      // Keep the compiler input so that the contract can be verified now or later
+      let verificationText = '';
+      const verify =
+        deploymentParams.verify ?? runtime.getSetting('ZKEVM_AUTO_VERIFY') === 'true';
+      if (artifact) {
+        try {
+          const input = await getArtifactVerificationInput(
+            artifact,
+            compilation,
+            constructor?.encodedArgs,
+            linkedLibraries
+          );
+          if (input) {
+            await recordVerificationInput(
+              runtime,
+              zkevmService.getNetwork().name,
+              contractAddress,
+              input
+            );
+          }
+          if (verify && !input) {
+            verificationText =
+              '\n**Verification:** skipped - the compiler input of this artifact is unknown';
+          } else if (verify) {
+            // A failed verification does not undo the deployment, it is only reported
+            verification = await verifyContract(
+              resolveExplorerConfig(runtime),
+              contractAddress,
+              input,
+              AUTO_VERIFY_TIMEOUT_MS
+            );
+            verificationText =
+              `\n**Verification:** ${verification.status} - ${verification.message}` +
+              (verification.guid ? ` (GUID \`${verification.guid}\`)` : '');
+          }
+        } catch (verifyError) {
+          const verifyMessage =
+            verifyError instanceof Error ? verifyError.message : String(verifyError);
+          logger.warn(
+            `[deploySmartContractAction] Verification of ${contractAddress} failed: ${verifyMessage}`
+          );
+          verificationText = `\n**Verification:** failed - ${verifyMessage}`;
+          verification = {
+            guid: null,
+            status: 'failed',
+            message: verifyMessage,
+            alreadyVerified: false,
+          };
+        }
+      } else if (verify) {
+        verificationText =
+          '\n**Verification:** skipped - raw bytecode deployments cannot be verified';
+      }
+
+      const artifactText = artifact
+        ? `\n**${artifact.format === 'solc' ? 'Compiled Contract' : 'Artifact'}:** \`${artifact.sourceName ? `${artifact.sourceName}:` : ''}${artifact.contractName}\` (${artifact.format})` +
+          Object.entries(linkedLibraries)
+            .map(([name, address]) => `\n**Linked Library:** ${name} → \`${address}\``)
+            .join('')
+        : '';
+      const compilerText = compilation
+        ? `\n**Compiler:** ${compilation.compilerVersion}` +
+          (compilation.warnings.length > 0
+            ? `\n**Compiler Warnings (${compilation.warnings.length}):**\n${compilation.warnings.map((w) => `- ${w.split('\n')[0]}`).join('\n')}`
+            : '')
+        : '';
+      const constructorText = constructor
+        ? `\n**Constructor:** \`${constructor.signature}\`\n**Encoded Args:** \`${constructor.encodedArgs}\``
+        : '';
+      const nameText = name ? `\n**Registered As:** ${name}` : '';
+      const create2Text = create2
+        ? `\n**Deployment:** CREATE2 through \`${create2.deployer}\`\n**Salt:** \`${create2.salt}\``
+        : '';
+      const successText = alreadyDeployed
+        ? `✅ Contract already deployed at the predicted CREATE2 address on ${networkLabel.displayName} - no transaction sent.\n\n**Contract Address:** \`${contractAddress}\`${nameText}${create2Text}${artifactText}${constructorText}${verificationText}\n**Method Used:** ${methodUsed}\n**Network:** ${networkLabel.displayName}`
+        : `✅ Smart contract deployed successfully to ${networkLabel.displayName}!\n\n**Contract Address:** \`${contractAddress}\`${nameText}\n**Transaction Hash:** \`${transactionHash}\`${create2Text}${artifactText}${compilerText}${constructorText}${verificationText}\n**Method Used:** ${methodUsed}\n**Network:** ${networkLabel.displayName}\n\nYou can now interact with your new contract.`;
 
       if (callback) {
         await callback({ text: successText, content: { success: true, transactionHash, contractAddress } });
@@ -268,16 +563,49 @@ export const deploySmartContractAction: Action = {
       return {
         success: true,
         text: successText,
-        values: { contractDeployed: true, transactionHash, contractAddress },
+        values: { contractDeployed: true, transactionHash, contractAddress, alreadyDeployed },
         data: {
           actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT',
           contractAddress,
           transactionHash,
-          network: 'polygon-zkevm',
+          name,
+          deployer,
+          network: networkLabel.network,
           timestamp: Date.now(),
           method: methodUsed,
+          constructorSignature: constructor?.signature ?? null,
+          encodedConstructorArgs: constructor?.encodedArgs ?? null,
+          artifact: artifact
+            ? {
+                contractName: artifact.contractName,
+                sourceName: artifact.sourceName,
+                format: artifact.format,
+                path: artifact.path,
+              }
+            : null,
+          linkedLibraries,
+          create2: create2
+            ? {
+                deployer: create2.deployer,
+                salt: create2.salt,
+                predictedAddress: create2.predictedAddress,
+              }
+            : null,
+          alreadyDeployed,
+          verification,
+          compilation: compilation
+            ? {
+                compilerVersion: compilation.compilerVersion,
+                warnings: compilation.warnings,
+                input: compilation.input,
+              }
+            : null,
           deploymentParams: {
             bytecode: deploymentParams.bytecode,
+            artifact: deploymentParams.artifact,
+            contractName: deploymentParams.contractName,
+            name: deploymentParams.name,
+            salt: deploymentParams.salt,
             constructorArgs: deploymentParams.constructorArgs,
             gasLimit: deploymentParams.gasLimit,
             value: deploymentParams.value,
@@ -294,7 +622,14 @@ export const deploySmartContractAction: Action = {
         success: false,
         text: `❌ ${finalErrorMessage}`,
         values: { contractDeployed: false, error: true, errorMessage: finalErrorMessage },
-        data: { actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT', error: finalErrorMessage, errors: errorMessages, deploymentParams },
+        data: {
+          actionName: 'POLYGON_ZKEVM_DEPLOY_SMART_CONTRACT',
+          error: finalErrorMessage,
+          errors: errorMessages,
+          deploymentParams,
+          transactionHash,
+          revert,
+        },
         error: new Error(finalErrorMessage),
       };
     }
@@ -320,7 +655,7 @@ export const deploySmartContractAction: Action = {
       {
         name: '{{user1}}',
         content: {
-          text: 'Create a new contract on Polygon zkEVM using bytecode 0x6080... and constructor args ["MyToken", "TKN"]',
+          text: 'Create a new contract on Polygon zkEVM using bytecode 0x6080..., constructor(string name, string symbol) and constructor args ["MyToken", "TKN"]',
         },
       },
       {
@@ -331,5 +666,35 @@ export const deploySmartContractAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Deploy the FeeVault artifact on Polygon zkEVM with args ["0x742d35Cc6634C0532925a3b8D4C9db96c4b4d8b7", 250]',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: 'I will deploy FeeVault from its compiled artifact, linking any libraries it uses.',
+          action: 'POLYGON_DEPLOY_SMART_CONTRACT_ZKEVM',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Deploy the FeeVault artifact with CREATE2 and salt "fee-vault-v1" so it has the same address on Cardona and mainnet',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔮 Deploying with CREATE2 through `0x4e59b44847b379578588920cA78FbF26c0B4956C`\n\n**Predicted Address:** `0x...`',
+          action: 'POLYGON_DEPLOY_SMART_CONTRACT_ZKEVM',
+        },
+      },
+    ],
   ],
-};
+});
@@ -7,9 +7,13 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider, getAddress, isAddress } from 'ethers';
+import { getAddress, isAddress } from 'ethers';
 import { estimateGasTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { getContractAbi } from '../utils/abiResolver';
+import { type DecodedRevert, decodeRevert, formatRevert } from '../utils/revertDecoder';
 
 /**
  * Validate and normalize an Ethereum address
@@ -43,7 +47,7 @@ function validateAndNormalizeAddress(address: string): string {
  * Estimate gas action for Polygon zkEVM
  * Estimates gas required for a transaction
  */
-export const estimateGasAction: Action = {
+export const estimateGasAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_ESTIMATE_GAS',
   similes: ['ESTIMATE_GAS', 'GAS_ESTIMATE', 'GAS_COST', 'TRANSACTION_COST'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -52,7 +56,7 @@ export const estimateGasAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -92,11 +96,15 @@ export const estimateGasAction: Action = {
     options?: { [key: string]: unknown },
     callback?: HandlerCallback
   ): Promise<ActionResult> => {
+    const networkLabel = getNetworkLabel(runtime);
+    let revert: DecodedRevert | null = null;
+
     try {
       logger.info('[estimateGasAction] Handler called!');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -154,18 +162,9 @@ export const estimateGasAction: Action = {
         };
       }
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        logger.info('[estimateGasAction] Using Alchemy provider');
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-        logger.info('[estimateGasAction] Using RPC provider:', zkevmRpcUrl);
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
+      logger.info(`[estimateGasAction] Using ${zkevmService.getEndpointName()} provider`);
 
       // Build transaction object from extracted parameters with validation
       logger.info('[estimateGasAction] Building transaction object...');
@@ -212,11 +211,28 @@ export const estimateGasAction: Action = {
 
       // Estimate gas
       logger.info('[estimateGasAction] Starting gas estimation with transaction:', transaction);
-      const gasEstimate = await provider.estimateGas(transaction);
+      let gasEstimate: bigint;
+      try {
+        ({ value: gasEstimate } = await zkevmService.read((provider) =>
+          provider.estimateGas(transaction)
+        ));
+      } catch (error) {
+        if (!decodeRevert(error)) {
+          throw error;
+        }
+        // The transaction would revert - decode custom errors with the target's ABI when known
+        const abi = transaction.to
+          ? await getContractAbi(runtime, zkevmService.getNetwork().l2.chainId, transaction.to)
+          : null;
+        revert = decodeRevert(error, abi);
+        throw new Error(`Transaction ${formatRevert(revert)}`);
+      }
       logger.info('[estimateGasAction] Gas estimation completed:', gasEstimate.toString());
 
       logger.info('[estimateGasAction] Getting gas price...');
-      const gasPrice = await provider.send('eth_gasPrice', []);
+      const { value: gasPrice } = await zkevmService.read((provider) =>
+        provider.send('eth_gasPrice', [])
+      );
       logger.info('[estimateGasAction] Gas price retrieved:', gasPrice);
 
       // Calculate costs
@@ -224,7 +240,7 @@ export const estimateGasAction: Action = {
       const gasCostEth = Number(gasCostWei) / 1e18;
       const gasPriceGwei = Number(BigInt(gasPrice)) / 1e9;
 
-      const responseText = `⛽ **Gas Estimation for Polygon zkEVM**
+      const responseText = `⛽ **Gas Estimation for ${networkLabel.displayName}**
 
 **Transaction Details:**
 - To: ${transaction.to || 'N/A'}
@@ -237,7 +253,7 @@ export const estimateGasAction: Action = {
 - Gas Price: ${gasPriceGwei.toFixed(2)} Gwei
 - Total Cost: ${gasCostEth.toFixed(6)} ETH (~$${(gasCostEth * 2000).toFixed(2)} USD)
 
-**Network:** Polygon zkEVM`;
+**Network:** ${networkLabel.displayName}`;
 
       if (callback) {
         await callback({ text: responseText, content: { success: true, gasEstimate: gasEstimate.toString() } });
@@ -267,8 +283,8 @@ export const estimateGasAction: Action = {
       return {
         success: false,
         text: `❌ ${errorMessage}`,
-        values: { gasEstimated: false, error: true, errorMessage },
-        data: { actionName: 'POLYGON_ZKEVM_ESTIMATE_GAS', error: errorMessage },
+        values: { gasEstimated: false, error: true, errorMessage, reverted: revert !== null },
+        data: { actionName: 'POLYGON_ZKEVM_ESTIMATE_GAS', error: errorMessage, revert },
         error: error instanceof Error ? error : new Error(String(error)),
       };
     }
@@ -306,4 +322,4 @@ export const estimateGasAction: Action = {
       },
     ],
   ],
-};
+});
@@ -7,9 +7,11 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider, formatUnits, getAddress, isAddress, parseUnits } from 'ethers';
+import { formatUnits, getAddress, isAddress, parseUnits } from 'ethers';
 import { estimateTransactionFeeTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Validate and normalize an Ethereum address
@@ -43,7 +45,7 @@ function validateAndNormalizeAddress(address: string): string {
  * Estimate transaction fee action for Polygon zkEVM
  * Estimates gas limit and total fee for a provided transaction payload
  */
-export const estimateTransactionFeeAction: Action = {
+export const estimateTransactionFeeAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_ESTIMATE_TRANSACTION_FEE',
   similes: [
     'ESTIMATE_FEE',
@@ -57,7 +59,7 @@ export const estimateTransactionFeeAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -102,11 +104,13 @@ export const estimateTransactionFeeAction: Action = {
     options?: { [key: string]: unknown },
     callback?: HandlerCallback
   ): Promise<ActionResult> => {
+    const networkLabel = getNetworkLabel(runtime);
     try {
       logger.info('[estimateTransactionFeeAction] Handler called!');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -180,18 +184,13 @@ export const estimateTransactionFeeAction: Action = {
         };
       }
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        logger.info('[estimateTransactionFeeAction] Using Alchemy provider');
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-        logger.info('[estimateTransactionFeeAction] Using RPC provider:', zkevmRpcUrl);
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
+      logger.info(`[estimateTransactionFeeAction] Using ${zkevmService.getEndpointName()} provider`);
+      const getNetworkGasPrice = async () => {
+        const { value } = await zkevmService.read((provider) => provider.send('eth_gasPrice', []));
+        return BigInt(value);
+      };
 
       // Build transaction object from extracted parameters with validation
       logger.info('[estimateTransactionFeeAction] Building transaction object...');
@@ -241,7 +240,9 @@ export const estimateTransactionFeeAction: Action = {
         '[estimateTransactionFeeAction] Starting gas estimation with transaction:',
         transaction
       );
-      const gasLimit = await provider.estimateGas(transaction);
+      const { value: gasLimit } = await zkevmService.read((provider) =>
+        provider.estimateGas(transaction)
+      );
       logger.info('[estimateTransactionFeeAction] Gas estimation completed:', gasLimit.toString());
 
       // Get gas price - use priority fee if provided, otherwise get current gas price
@@ -258,8 +259,7 @@ export const estimateTransactionFeeAction: Action = {
           logger.warn(
             '[estimateTransactionFeeAction] Invalid priority fee format, falling back to network gas price'
           );
-          const gasPriceHex = await provider.send('eth_gasPrice', []);
-          gasPrice = BigInt(gasPriceHex);
+          gasPrice = await getNetworkGasPrice();
         }
       } else if (transactionInput.gasPrice) {
         try {
@@ -272,13 +272,11 @@ export const estimateTransactionFeeAction: Action = {
           logger.warn(
             '[estimateTransactionFeeAction] Invalid gas price format, falling back to network gas price'
           );
-          const gasPriceHex = await provider.send('eth_gasPrice', []);
-          gasPrice = BigInt(gasPriceHex);
+          gasPrice = await getNetworkGasPrice();
         }
       } else {
         logger.info('[estimateTransactionFeeAction] Getting current gas price...');
-        const gasPriceHex = await provider.send('eth_gasPrice', []);
-        gasPrice = BigInt(gasPriceHex);
+          gasPrice = await getNetworkGasPrice();
         logger.info('[estimateTransactionFeeAction] Gas price retrieved:', gasPrice.toString());
       }
 
@@ -295,10 +293,10 @@ export const estimateTransactionFeeAction: Action = {
         gasPriceGwei,
         totalFeeEth,
         transaction,
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
       };
 
-      const responseText = `💰 **Transaction Fee Estimate (Polygon zkEVM)**
+      const responseText = `💰 **Transaction Fee Estimate (${networkLabel.displayName})**
 
 **Transaction Details:**
 - To: ${transaction.to || 'N/A'}
@@ -311,7 +309,7 @@ export const estimateTransactionFeeAction: Action = {
 - Gas Price: ${gasPriceGwei} Gwei
 - Total Fee: ${totalFeeEth} ETH (~$${(parseFloat(totalFeeEth) * 2000).toFixed(2)} USD)
 
-**Network:** Polygon zkEVM
+**Network:** ${networkLabel.displayName}
 ${transactionInput.priorityFee ? `\n**Note:** Used custom priority fee of ${transactionInput.priorityFee} Gwei` : ''}`;
 
       if (callback) {
@@ -377,4 +375,4 @@ ${transactionInput.priorityFee ? `\n**Note:** Used custom priority fee of ${tran
       },
     ],
   ],
-};
+});
@@ -7,33 +7,27 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider, formatUnits, getAddress, isAddress } from 'ethers';
+import { formatUnits, getAddress, isAddress } from 'ethers';
 import { getAccountBalanceTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
-
-// ERC-20 ABI for balanceOf function
-const ERC20_ABI = [
-  'function balanceOf(address owner) view returns (uint256)',
-  'function decimals() view returns (uint8)',
-  'function symbol() view returns (string)',
-  'function name() view returns (string)',
-];
-
-interface TokenBalance {
-  contract: string;
-  balance: string;
-  decimals?: number;
-  symbol?: string;
-  name?: string;
-  balanceFormatted?: string;
-}
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getBridgedTokenAddresses } from '../utils/tokenMapping';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { getMulticall3Address } from '../utils/multicall';
+import { cacheTokenMetadata, resolveToken } from '../utils/tokenRegistry';
+import {
+  type TokenBalance,
+  discoverTokens,
+  getConfiguredTokenAddresses,
+  getTokenBalances,
+} from '../utils/tokenBalances';
 
 interface AccountBalanceResult {
   address: string;
   native: string;
   nativeFormatted: string;
   tokens: TokenBalance[];
-  method: 'alchemy' | 'rpc';
+  method: string;
   timestamp: number;
 }
 
@@ -69,7 +63,7 @@ function validateAndNormalizeAddress(address: string): string {
  * Get account balance action for Polygon zkEVM
  * Retrieves native ETH balance and ERC-20 token balances for a given address
  */
-export const getAccountBalanceAction: Action = {
+export const getAccountBalanceAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_ACCOUNT_BALANCE',
   similes: [
     'GET_WALLET_BALANCE',
@@ -86,7 +80,7 @@ export const getAccountBalanceAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -104,8 +98,10 @@ export const getAccountBalanceAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getAccountBalanceAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -126,7 +122,12 @@ export const getAccountBalanceAction: Action = {
 
     // Extract address using LLM with OBJECT_LARGE model
     try {
-      addressInput = await callLLMWithTimeout<{ address: string; error?: string }>(
+      addressInput = await callLLMWithTimeout<{
+        address: string;
+        tokens?: string[];
+        includeZeroBalances?: boolean;
+        error?: string;
+      }>(
         runtime,
         state,
         getAccountBalanceTemplate,
@@ -182,20 +183,10 @@ export const getAccountBalanceAction: Action = {
       };
     }
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-      logger.info('[getAccountBalanceAction] Using Alchemy API for account balance');
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-      logger.info('[getAccountBalanceAction] Using direct RPC for account balance');
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+    let methodUsed = zkevmService.getEndpointName();
+    logger.info(`[getAccountBalanceAction] Using ${methodUsed} for account balance`);
 
     let nativeBalance = '0';
     const tokenBalances: TokenBalance[] = [];
@@ -204,8 +195,11 @@ export const getAccountBalanceAction: Action = {
     // Get native ETH balance
     try {
       logger.info('[getAccountBalanceAction] Fetching native ETH balance...');
-      const balance = await provider.getBalance(validatedAddress);
+      const { value: balance, endpoints } = await zkevmService.readCritical((provider) =>
+        provider.getBalance(validatedAddress)
+      );
       nativeBalance = balance.toString();
+      methodUsed = endpoints.join(', ');
       logger.info(`[getAccountBalanceAction] Native balance retrieved: ${nativeBalance} wei`);
     } catch (error) {
       const errorMsg = `Failed to get native balance: ${error instanceof Error ? error.message : String(error)}`;
@@ -213,6 +207,97 @@ export const getAccountBalanceAction: Action = {
       errorMessages.push(errorMsg);
     }
 
+    // Tokens to report: the configured list, tokens named in the message, tokens the agent has
+    // bridged and, with Alchemy, the tokens it finds for the account
+    const tokenAddresses = new Map<string, string>();
+    const addTokens = (addresses: string[]) =>
+      addresses.forEach((token) => tokenAddresses.set(token.toLowerCase(), getAddress(token)));
+
+    addTokens(getConfiguredTokenAddresses(runtime));
+    // Tokens named in the message are symbols or addresses
+    for (const token of Array.isArray(addressInput.tokens) ? addressInput.tokens : []) {
+      if (typeof token !== 'string') {
+        continue;
+      }
+      if (isAddress(token)) {
+        addTokens([token]);
+        continue;
+      }
+      try {
+        const resolved = await resolveToken(runtime, token, 'l2');
+        if (resolved.source !== 'native') {
+          addTokens([resolved.address]);
+        }
+      } catch (error) {
+        errorMessages.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    try {
+      addTokens(await getBridgedTokenAddresses(runtime));
+    } catch (error) {
+      logger.warn(
+        `[getAccountBalanceAction] Could not list bridged tokens: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (alchemyApiKey) {
+      try {
+        const { value: discovered } = await zkevmService.read((provider) =>
+          discoverTokens(provider, validatedAddress)
+        );
+        addTokens(discovered);
+      } catch (error) {
+        logger.warn(
+          `[getAccountBalanceAction] Token discovery failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    // Zero balances are hidden unless asked for
+    const includeZeroBalances = addressInput.includeZeroBalances === true;
+    let hiddenTokenCount = 0;
+    if (tokenAddresses.size > 0) {
+      try {
+        const multicallAddress = getMulticall3Address(runtime);
+        const tokens = [...tokenAddresses.values()];
+        const { value: balances } = await zkevmService.read((provider) =>
+          getTokenBalances(provider, validatedAddress, tokens, multicallAddress)
+        );
+        tokenBalances.push(
+          ...balances.tokens.filter((token) => includeZeroBalances || token.balance !== '0')
+        );
+        hiddenTokenCount = balances.tokens.length - tokenBalances.length;
+        for (const token of balances.failed) {
+          errorMessages.push(`Failed to get balance of token ${token}`);
+        }
+
+        // Tokens read here can be named by symbol afterwards
+        try {
+          const network = zkevmService.getNetwork();
+          await cacheTokenMetadata(
+            runtime,
+            balances.tokens
+              .filter((t) => t.symbol !== undefined && t.decimals !== undefined)
+              .map((t) => ({
+                address: t.contract,
+                chainId: network.l2.chainId,
+                symbol: t.symbol,
+                name: t.name ?? t.symbol,
+                decimals: t.decimals,
+                source: 'chain' as const,
+              }))
+          );
+        } catch (error) {
+          logger.debug(
+            `[getAccountBalanceAction] Could not cache token metadata: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      } catch (error) {
+        const errorMsg = `Failed to get token balances: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(errorMsg);
+        errorMessages.push(errorMsg);
+      }
+    }
+
     // Format native balance
     const nativeFormatted = formatUnits(nativeBalance, 18);
 
@@ -227,11 +312,11 @@ export const getAccountBalanceAction: Action = {
     };
 
     // Format response
-    const responseText = `💰 **Account Balance (Polygon zkEVM)**
+    const responseText = `💰 **Account Balance (${networkLabel.displayName})**
 
 **Address:** \`${validatedAddress}\`
 **Native Balance:** ${nativeFormatted} ETH
-**Method:** ${methodUsed}
+${tokenBalances.length > 0 ? `**Tokens:**\n${tokenBalances.map((t) => `- ${t.balanceFormatted} ${t.symbol ?? 'tokens'} (\`${t.contract}\`)`).join('\n')}\n` : ''}${hiddenTokenCount > 0 ? `_${hiddenTokenCount} token(s) with a zero balance hidden_\n` : ''}**Method:** ${methodUsed}
 
 ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- ${msg}`).join('\n')}` : ''}`;
 
@@ -242,11 +327,15 @@ ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- $
     return {
       success: true,
       text: responseText,
-      values: { accountBalanceRetrieved: true, address: validatedAddress },
+      values: {
+        accountBalanceRetrieved: true,
+        address: validatedAddress,
+        tokenCount: tokenBalances.length,
+      },
       data: {
         actionName: 'POLYGON_ZKEVM_GET_ACCOUNT_BALANCE',
         result,
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
         timestamp: Date.now(),
         method: methodUsed,
       },
@@ -285,4 +374,4 @@ ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- $
       },
     ],
   ],
-};
+});
@@ -10,15 +10,16 @@ import {
   ModelType,
   composePromptFromState,
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getBalanceTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get balance action for Polygon zkEVM
  * Retrieves the balance of a specific address
  */
-export const getBalanceAction: Action = {
+export const getBalanceAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_BALANCE',
   similes: ['CHECK_BALANCE', 'BALANCE', 'GET_ETH_BALANCE', 'WALLET_BALANCE'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -27,7 +28,7 @@ export const getBalanceAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -45,8 +46,10 @@ export const getBalanceAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getBalanceAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -126,28 +129,21 @@ export const getBalanceAction: Action = {
 
     const address = addressInput.address;
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
     try {
-      // Get balance
-      const balance = await provider.getBalance(address);
+      // Get balance - a critical read, checked against the quorum when one is configured
+      const { value: balance, endpoints } = await zkevmService.readCritical((provider) =>
+        provider.getBalance(address)
+      );
+      const methodUsed = endpoints.join(', ');
       const balanceInEth = Number(balance) / 1e18;
 
       const successText = `💰 **Balance for ${address}**
 
 **Balance:** ${balanceInEth.toFixed(6)} ETH (${balance.toString()} wei)
-**Network:** Polygon zkEVM
+**Network:** ${networkLabel.displayName}
 **Method:** ${methodUsed}`;
 
       if (callback) {
@@ -158,7 +154,7 @@ export const getBalanceAction: Action = {
             address,
             balance: balance.toString(),
             balanceInEth,
-            network: 'polygon-zkevm',
+            network: networkLabel.network,
             method: methodUsed,
           },
         });
@@ -177,7 +173,7 @@ export const getBalanceAction: Action = {
           address,
           balance: balance.toString(),
           balanceInEth,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           method: methodUsed,
         },
       };
@@ -242,4 +238,4 @@ export const getBalanceAction: Action = {
       },
     ],
   ],
-};
+});
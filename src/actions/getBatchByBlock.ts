@@ -0,0 +1,163 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getBatchByBlockTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { getBatchByNumber, getBatchNumberByBlockNumber, getBatchStatus } from '../utils/zkevmRpc';
+
+/**
+ * Find the batch that contains an L2 block, and how far that batch has progressed on L1
+ */
+export const getBatchByBlockAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_BATCH_BY_BLOCK',
+  similes: ['BATCH_FOR_BLOCK', 'BLOCK_BATCH', 'BATCH_NUMBER_BY_BLOCK'].map(
+    (s) => `POLYGON_ZKEVM_${s}`
+  ),
+  description:
+    'Finds the batch containing a given Polygon zkEVM block and whether it has been sequenced and verified on L1.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+    return content.includes('batch') && content.includes('block');
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getBatchByBlockAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    let blockNumber: number;
+
+    try {
+      const blockInput = await callLLMWithTimeout<{ blockNumber: number; error?: string }>(
+        runtime,
+        state,
+        getBatchByBlockTemplate,
+        'getBatchByBlockAction'
+      );
+
+      if (blockInput?.error) {
+        throw new Error(blockInput.error);
+      }
+
+      blockNumber = Number(blockInput?.blockNumber);
+      if (!Number.isInteger(blockNumber) || blockNumber < 0) {
+        throw new Error('Invalid block number received from LLM.');
+      }
+    } catch (error) {
+      const errorMessage = `[getBatchByBlockAction] Failed to extract block number from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { batchRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_BATCH_BY_BLOCK', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+
+    try {
+      // Batch status is a critical read, checked against the quorum when one is configured
+      const { value, endpoints } = await zkevmService.readCritical(async (provider) => {
+        const batchNumber = await getBatchNumberByBlockNumber(provider, blockNumber);
+        if (batchNumber === null) {
+          throw new Error(`Block ${blockNumber} was not found on the node.`);
+        }
+        return { batchNumber, batch: await getBatchByNumber(provider, batchNumber) };
+      });
+      const methodUsed = endpoints.join(', ');
+      const { batchNumber, batch } = value;
+      const status = batch ? getBatchStatus(batch) : 'unknown';
+
+      const text = `📦 **Block ${blockNumber} is in batch ${batchNumber}**
+
+**Batch Status:** ${status}
+**Sequenced on L1:** ${batch?.sendSequencesTxHash ? `\`${batch.sendSequencesTxHash}\`` : 'Not yet'}
+**Verified on L1:** ${batch?.verifyBatchTxHash ? `\`${batch.verifyBatchTxHash}\`` : 'Not yet'}
+**Method:** ${methodUsed}`;
+
+      if (callback) {
+        await callback({ text, content: { success: true, blockNumber, batchNumber, status } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: { batchRetrieved: true, blockNumber, batchNumber, batchStatus: status },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_BATCH_BY_BLOCK',
+          blockNumber,
+          batchNumber,
+          status,
+          batch,
+          network: networkLabel.network,
+          timestamp: Date.now(),
+          method: methodUsed,
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to find the batch of block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getBatchByBlockAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { batchRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_BATCH_BY_BLOCK', error: errorMessage, blockNumber },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Which batch is block 9000000 in on Polygon zkEVM?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '📦 **Block 9000000 is in batch 2051233**\n\n**Batch Status:** verified',
+          action: 'POLYGON_ZKEVM_GET_BATCH_BY_BLOCK',
+        },
+      },
+    ],
+  ],
+});
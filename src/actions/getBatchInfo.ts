@@ -7,30 +7,31 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getBatchInfoTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import {
+  type BatchStatus,
+  type ZkEvmBatch,
+  getBatchByNumber,
+  getBatchStatus,
+} from '../utils/zkevmRpc';
 
-interface BatchInfo {
+interface BatchInfo extends ZkEvmBatch {
   batchNumber: number;
-  blockRange?: {
-    start: number;
-    end: number;
-  };
-  status?: string;
-  timestamp?: number;
-  transactionCount?: number;
-  method: 'alchemy' | 'rpc';
+  status: BatchStatus;
+  method: string;
 }
 
-export const getBatchInfoAction: Action = {
+export const getBatchInfoAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_BATCH_INFO',
   similes: ['GET_BATCH', 'BATCH_INFO', 'BATCH_DETAILS', 'BATCH'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Gets information about a specific batch on Polygon zkEVM.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -48,8 +49,10 @@ export const getBatchInfoAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getBatchInfoAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -105,18 +108,8 @@ export const getBatchInfoAction: Action = {
 
     const batchNumber = batchInput.batchNumber;
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
     let batchInfo: BatchInfo | null = null;
     let errorMessages: string[] = [];
@@ -125,37 +118,21 @@ export const getBatchInfoAction: Action = {
     try {
       logger.info(`[getBatchInfoAction] Fetching batch info for batch ${batchNumber}`);
 
-      // Try zkEVM-specific RPC methods
-      let batchData: any;
-
-      try {
-        // Try zkevm_getBatchByNumber method
-        batchData = await provider.send('zkevm_getBatchByNumber', [batchNumber]);
-        logger.info('[getBatchInfoAction] Got batch data from zkevm_getBatchByNumber');
-      } catch (batchError) {
-        logger.warn(
-          '[getBatchInfoAction] zkevm_getBatchByNumber not available, trying alternative methods'
-        );
-
-        try {
-          // Try alternative method
-          batchData = await provider.send('zkevm_getBatch', [batchNumber]);
-          logger.info('[getBatchInfoAction] Got batch data from zkevm_getBatch');
-        } catch (altError) {
-          logger.warn('[getBatchInfoAction] Alternative batch methods not available');
-          throw new Error('Batch information not available via RPC methods');
-        }
-      }
+      // Batch status is a critical read, checked against the quorum when one is configured
+      const { value: batch, endpoints } = await zkevmService.readCritical((provider) =>
+        getBatchByNumber(provider, batchNumber)
+      );
+      const methodUsed = endpoints.join(', ');
 
-      if (batchData) {
+      if (batch) {
         batchInfo = {
+          ...batch,
           batchNumber,
-          blockRange: batchData.blockRange || undefined,
-          status: batchData.status || 'unknown',
-          timestamp: batchData.timestamp || Date.now(),
-          transactionCount: batchData.transactionCount || 0,
+          status: getBatchStatus(batch),
           method: methodUsed,
         };
+      } else {
+        errorMessages.push(`Batch ${batchNumber} was not found`);
       }
     } catch (error) {
       const errorMsg = `Failed to get batch info: ${error instanceof Error ? error.message : String(error)}`;
@@ -164,12 +141,17 @@ export const getBatchInfoAction: Action = {
     }
 
     if (batchInfo) {
-      const responseText = `📦 **Batch Information (Polygon zkEVM)**
+      const responseText = `📦 **Batch Information (${networkLabel.displayName})**
 
 **Batch Number:** ${batchInfo.batchNumber}
 **Status:** ${batchInfo.status}
-**Block Range:** ${batchInfo.blockRange ? `${batchInfo.blockRange.start} - ${batchInfo.blockRange.end}` : 'N/A'}
-**Transaction Count:** ${batchInfo.transactionCount || 'N/A'}
+**Timestamp:** ${batchInfo.timestamp ? new Date(batchInfo.timestamp * 1000).toISOString() : 'N/A'}
+**Blocks:** ${batchInfo.blocks.length}
+**Transactions:** ${batchInfo.transactions.length}
+**Sequenced on L1:** ${batchInfo.sendSequencesTxHash ? `\`${batchInfo.sendSequencesTxHash}\`` : 'Not yet'}
+**Verified on L1:** ${batchInfo.verifyBatchTxHash ? `\`${batchInfo.verifyBatchTxHash}\`` : 'Not yet'}
+**Global Exit Root:** \`${batchInfo.globalExitRoot}\`
+**Acc Input Hash:** \`${batchInfo.accInputHash}\`
 **Method:** ${batchInfo.method}
 
 ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- ${msg}`).join('\n')}` : ''}`;
@@ -181,13 +163,13 @@ ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- $
       return {
         success: true,
         text: responseText,
-        values: { batchRetrieved: true, batchNumber },
+        values: { batchRetrieved: true, batchNumber, batchStatus: batchInfo.status },
         data: {
           actionName: 'POLYGON_ZKEVM_GET_BATCH_INFO',
           batchInfo,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           timestamp: Date.now(),
-          method: methodUsed,
+          method: batchInfo.method,
         },
       };
     } else {
@@ -240,4 +222,4 @@ ${errorMessages.length > 0 ? `\n**Warnings:**\n${errorMessages.map((msg) => `- $
       },
     ],
   ],
-};
+});
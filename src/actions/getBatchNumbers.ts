@@ -0,0 +1,129 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { getBatchNumbers } from '../utils/zkevmRpc';
+
+/**
+ * Latest trusted, virtual (sequenced) and verified batch numbers on Polygon zkEVM
+ */
+export const getBatchNumbersAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_BATCH_NUMBERS',
+  similes: [
+    'LATEST_BATCH',
+    'BATCH_NUMBER',
+    'VIRTUAL_BATCH_NUMBER',
+    'VERIFIED_BATCH_NUMBER',
+    'BATCH_PROGRESS',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Gets the latest trusted, virtual (sequenced on L1) and verified batch numbers on Polygon zkEVM.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+    return /(latest|current|last|virtual|verified|trusted|sequenced).*batch|batch number/.test(
+      content
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getBatchNumbersAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+
+    try {
+      const { value: batchNumbers, endpoints } = await zkevmService.read(getBatchNumbers);
+      const methodUsed = endpoints.join(', ');
+
+      const text = `📦 **Batch Progress (${networkLabel.displayName})**
+
+**Latest Batch (trusted):** ${batchNumbers.trusted.toLocaleString()}
+**Virtual Batch (sequenced on L1):** ${batchNumbers.virtual.toLocaleString()}
+**Verified Batch (proven on L1):** ${batchNumbers.verified.toLocaleString()}
+**Awaiting Sequencing:** ${batchNumbers.trusted - batchNumbers.virtual} batch(es)
+**Awaiting Verification:** ${batchNumbers.virtual - batchNumbers.verified} batch(es)
+**Method:** ${methodUsed}`;
+
+      if (callback) {
+        await callback({ text, content: { success: true, ...batchNumbers, method: methodUsed } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          batchNumbersRetrieved: true,
+          trustedBatchNumber: batchNumbers.trusted,
+          virtualBatchNumber: batchNumbers.virtual,
+          verifiedBatchNumber: batchNumbers.verified,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_BATCH_NUMBERS',
+          batchNumbers,
+          network: networkLabel.network,
+          timestamp: Date.now(),
+          method: methodUsed,
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to retrieve batch numbers: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getBatchNumbersAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { batchNumbersRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_BATCH_NUMBERS', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'What is the latest verified batch on Polygon zkEVM?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '📦 **Batch Progress (Polygon zkEVM)**\n\n**Latest Batch (trusted):** 2,145,310\n**Virtual Batch (sequenced on L1):** 2,145,298\n**Verified Batch (proven on L1):** 2,145,240',
+          action: 'POLYGON_ZKEVM_GET_BATCH_NUMBERS',
+        },
+      },
+    ],
+  ],
+});
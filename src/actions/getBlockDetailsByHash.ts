@@ -7,18 +7,19 @@ import {
   type Memory,
   type State
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { blockDetailsByHashTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
-export const getBlockDetailsByHashAction: Action = {
+export const getBlockDetailsByHashAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_BLOCK_DETAILS_BY_HASH',
   similes: ['GET_BLOCK_BY_HASH', 'SHOW_BLOCK_DETAILS_BY_HASH'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Gets block details for a given hash on Polygon zkEVM.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -36,8 +37,10 @@ export const getBlockDetailsByHashAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getBlockDetailsByHashAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -55,7 +58,7 @@ export const getBlockDetailsByHashAction: Action = {
     }
 
     let blockDetails: any | null = null;
-    let methodUsed: 'alchemy' | 'rpc' | null = null;
+    let methodUsed: string | null = null;
     let errorMessages: string[] = [];
     let blockHashInput: any | null = null;
 
@@ -96,86 +99,30 @@ export const getBlockDetailsByHashAction: Action = {
       };
     }
 
-    // 1. Attempt to use Alchemy API (using eth_getBlockByHash method)
-    if (alchemyApiKey) {
-      try {
-        logger.info(
-          `[getBlockDetailsByHashAction] Attempting to use Alchemy API for block hash ${blockHashInput.blockHash}`
-        );
-        const zkevmAlchemyUrl =
-          runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-        const alchemyUrl = `${zkevmAlchemyUrl}/${alchemyApiKey}`;
-        const options = {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'eth_getBlockByHash',
-            params: [blockHashInput.blockHash, true], // true for full transaction details
-            id: 1,
-          }),
-        };
-
-        const response = await fetch(alchemyUrl, options);
-        if (!response.ok) {
-          throw new Error(`Alchemy API returned status ${response.status}: ${response.statusText}`);
-        }
-        const data = (await response.json()) as { error?: { message: string }; result?: any };
-
-        if (data?.error) {
-          throw new Error(`Alchemy API returned error: ${data?.error?.message}`);
-        }
-
-        if (data?.result) {
-          blockDetails = data?.result;
-          methodUsed = 'alchemy';
-          logger.info(
-            `[getBlockDetailsByHashAction] Block details from Alchemy for block hash ${blockHashInput.blockHash}`
-          );
-        } else {
-          logger.warn(
-            `[getBlockDetailsByHashAction] Alchemy API returned no result for block hash ${blockHashInput.blockHash}.`
-          );
-        }
-      } catch (error) {
-        logger.error(`Error using Alchemy API for block hash ${blockHashInput.blockHash}:`, error);
-        errorMessages.push(
-          `Alchemy API failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-        // Continue to fallback
-      }
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
-    // 2. Fallback to JSON-RPC if Alchemy failed or not configured
-    if (blockDetails === null && zkevmRpcUrl) {
-      logger.info(
-        `[getBlockDetailsByHashAction] Falling back to JSON-RPC for block hash ${blockHashInput.blockHash}`
+    // Use the raw eth_getBlockByHash response so zkEVM specific fields are kept
+    try {
+      const { value, endpoints } = await zkevmService.read((provider) =>
+        provider.send('eth_getBlockByHash', [blockHashInput.blockHash, true])
       );
-      try {
-        const provider = new JsonRpcProvider(zkevmRpcUrl);
-        const block = await provider.getBlock(blockHashInput.blockHash, true);
 
-        if (block) {
-          const maybeJson = (block as unknown as { toJSON?: () => unknown }).toJSON;
-          blockDetails = typeof maybeJson === 'function' ? maybeJson.call(block) : block;
-          methodUsed = 'rpc';
-          logger.info(
-            `[getBlockDetailsByHashAction] Block details from RPC for block hash ${blockHashInput.blockHash}`
-          );
-        } else {
-          logger.warn(
-            `[getBlockDetailsByHashAction] RPC returned no block for hash ${blockHashInput.blockHash}.`
-          );
-        }
-      } catch (error) {
-        logger.error(
-          `Error using JSON-RPC fallback for block hash ${blockHashInput.blockHash}:`,
-          error
+      if (value) {
+        blockDetails = value;
+        methodUsed = endpoints.join(', ');
+        logger.info(
+          `[getBlockDetailsByHashAction] Block details from ${methodUsed} for block hash ${blockHashInput.blockHash}`
         );
-        errorMessages.push(
-          `JSON-RPC fallback failed: ${error instanceof Error ? error.message : String(error)}`
+      } else {
+        logger.warn(
+          `[getBlockDetailsByHashAction] ${endpoints.join(', ')} returned no block for hash ${blockHashInput.blockHash}.`
         );
+        errorMessages.push(`Block ${blockHashInput.blockHash} not found`);
       }
+    } catch (error) {
+      logger.error(`Error fetching block hash ${blockHashInput.blockHash}:`, error);
+      errorMessages.push(error instanceof Error ? error.message : String(error));
     }
 
     // Handle result and errors
@@ -186,7 +133,7 @@ export const getBlockDetailsByHashAction: Action = {
         batchIndex: blockDetails.batchIndex,
       };
 
-      const successText = `Here are the details for Polygon zkEVM block ${blockHashInput.blockHash} (via ${methodUsed}):\n\n\`\`\`json\n${JSON.stringify(blockDetails, null, 2)}\n\`\`\`\nZK-specific fields: ${JSON.stringify(zkevmFields, null, 2)}`;
+      const successText = `Here are the details for ${networkLabel.displayName} block ${blockHashInput.blockHash} (via ${methodUsed}):\n\n\`\`\`json\n${JSON.stringify(blockDetails, null, 2)}\n\`\`\`\nZK-specific fields: ${JSON.stringify(zkevmFields, null, 2)}`;
 
       if (callback) {
         await callback({ text: successText, content: { success: true, blockHash: blockHashInput.blockHash } });
@@ -200,14 +147,14 @@ export const getBlockDetailsByHashAction: Action = {
           actionName: 'POLYGON_ZKEVM_GET_BLOCK_DETAILS_BY_HASH',
           block: blockDetails,
           zkevmFields: zkevmFields,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           timestamp: Date.now(),
           method: methodUsed,
         },
       };
     } else {
       // Both methods failed or block not found
-      const errorMessage = `Failed to retrieve details for Polygon zkEVM block hash ${blockHashInput.blockHash} using both Alchemy and RPC. Errors: ${errorMessages.join('; ')}. It's possible the block hash is invalid or the block does not exist yet.`;
+      const errorMessage = `Failed to retrieve details for ${networkLabel.displayName} block hash ${blockHashInput.blockHash}. Errors: ${errorMessages.join('; ')}. It's possible the block hash is invalid or the block does not exist yet.`;
       logger.error(errorMessage);
 
       if (callback) {
@@ -255,4 +202,4 @@ export const getBlockDetailsByHashAction: Action = {
       },
     ],
   ],
-};
+});
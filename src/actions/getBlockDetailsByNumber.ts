@@ -11,18 +11,20 @@ import {
   composePromptFromState,
 } from '@elizaos/core';
 import { z } from 'zod';
-import { JsonRpcProvider } from 'ethers';
 import { blockDetailsByNumberTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
-export const getBlockDetailsByNumberAction: Action = {
+export const getBlockDetailsByNumberAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_BLOCK_DETAILS_BY_NUMBER',
   similes: ['GET_BLOCK_BY_NUMBER', 'SHOW_BLOCK_DETAILS_BY_NUMBER'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Gets block details for a given number on Polygon zkEVM.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY'); // Assuming direct env access for now
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL'); // Assuming direct env access for now
+    const zkevmRpcUrl =
+      runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS'); // Assuming direct env access for now
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -40,8 +42,11 @@ export const getBlockDetailsByNumberAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getBlockDetailsByNumberAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY'); // Assuming direct env access for now
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL'); // Assuming direct env access for now
+    const zkevmRpcUrl =
+      runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS'); // Assuming direct env access for now
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -59,7 +64,7 @@ export const getBlockDetailsByNumberAction: Action = {
     }
 
     let blockDetails: any | null = null;
-    let methodUsed: 'alchemy' | 'rpc' | null = null;
+    let methodUsed: string | null = null;
     let errorMessages: string[] = [];
     let blockNumberInput: any | null = null;
 
@@ -124,87 +129,30 @@ export const getBlockDetailsByNumberAction: Action = {
       `[getBlockDetailsByNumberAction] Processing block number: ${blockNumber} (hex: ${blockNumberHex})`
     );
 
-    // 1. Attempt to use Alchemy API (using standard eth_getBlockByNumber method as per example)
-    if (alchemyApiKey) {
-      try {
-        logger.info(
-          `[getBlockDetailsByNumberAction] Attempting to use Alchemy API for block ${blockNumber}`
-        );
-        // Assuming the RPC URL pattern and API key usage is consistent
-        const zkevmAlchemyUrl =
-          runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-        const alchemyUrl = `${zkevmAlchemyUrl}/${alchemyApiKey}`;
-        const options = {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'eth_getBlockByNumber',
-            params: [blockNumberHex, true], // Use hex format for API
-            id: 1,
-          }),
-        };
-
-        const response = await fetch(alchemyUrl, options);
-        if (!response.ok) {
-          throw new Error(`Alchemy API returned status ${response.status}: ${response.statusText}`);
-        }
-        const data = (await response.json()) as { error?: { message: string }; result?: any };
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
-        if (data?.error) {
-          throw new Error(`Alchemy API returned error: ${data?.error?.message}`);
-        }
-
-        if (data?.result) {
-          blockDetails = data?.result;
-          methodUsed = 'alchemy';
-          logger.info(
-            `[getBlockDetailsByNumberAction] Block details from Alchemy for block ${blockNumber}`
-          );
-        } else {
-          // Alchemy returned no error but also no result for a valid number might mean block not found via Alchemy
-          logger.warn(
-            `[getBlockDetailsByNumberAction] Alchemy API returned no result for block ${blockNumber}.`
-          );
-        }
-      } catch (error) {
-        logger.error(`Error using Alchemy API for block ${blockNumber}:`, error);
-        errorMessages.push(
-          `Alchemy API failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-        // Continue to fallback
-      }
-    }
-
-    // 2. Fallback to JSON-RPC if Alchemy failed or not configured
-    if (blockDetails === null && zkevmRpcUrl) {
-      logger.info(
-        `[getBlockDetailsByNumberAction] Falling back to JSON-RPC for block ${blockNumber}`
+    // Use the raw eth_getBlockByNumber response so zkEVM specific fields are kept
+    try {
+      const { value, endpoints } = await zkevmService.read((provider) =>
+        provider.send('eth_getBlockByNumber', [blockNumberHex, true])
       );
-      try {
-        const provider = new JsonRpcProvider(zkevmRpcUrl);
-        // Ethers.js getBlock by number accepts hex or decimal strings, and a boolean for full details
-        const block = await provider.getBlock(blockNumber, true);
 
-        if (block) {
-          // Convert to JSON if available; otherwise use object directly
-          const maybeJson = (block as unknown as { toJSON?: () => unknown }).toJSON;
-          blockDetails = typeof maybeJson === 'function' ? maybeJson.call(block) : block;
-          methodUsed = 'rpc';
-          logger.info(
-            `[getBlockDetailsByNumberAction] Block details from RPC for block ${blockNumber}`
-          );
-        } else {
-          logger.warn(
-            `[getBlockDetailsByNumberAction] RPC returned no block for number ${blockNumber}.`
-          );
-        }
-      } catch (error) {
-        logger.error(`Error using JSON-RPC fallback for block ${blockNumber}:`, error);
-        errorMessages.push(
-          `JSON-RPC fallback failed: ${error instanceof Error ? error.message : String(error)}`
+      if (value) {
+        blockDetails = value;
+        methodUsed = endpoints.join(', ');
+        logger.info(
+          `[getBlockDetailsByNumberAction] Block details from ${methodUsed} for block ${blockNumber}`
+        );
+      } else {
+        logger.warn(
+          `[getBlockDetailsByNumberAction] ${endpoints.join(', ')} returned no block for number ${blockNumber}.`
         );
+        errorMessages.push(`Block ${blockNumber} not found`);
       }
+    } catch (error) {
+      logger.error(`Error fetching block ${blockNumber}:`, error);
+      errorMessages.push(error instanceof Error ? error.message : String(error));
     }
 
     // Handle result and errors
@@ -216,7 +164,7 @@ export const getBlockDetailsByNumberAction: Action = {
         // Add other zkEVM specific fields as needed based on RPC response structure
       };
 
-      const successText = `Here are the details for Polygon zkEVM block ${blockNumber} (via ${methodUsed}):\n\n\`\`\`json\n${JSON.stringify(blockDetails, null, 2)}\n\`\`\`\nZK-specific fields: ${JSON.stringify(zkevmFields, null, 2)}`;
+      const successText = `Here are the details for ${networkLabel.displayName} block ${blockNumber} (via ${methodUsed}):\n\n\`\`\`json\n${JSON.stringify(blockDetails, null, 2)}\n\`\`\`\nZK-specific fields: ${JSON.stringify(zkevmFields, null, 2)}`;
 
       if (callback) {
         await callback({ text: successText, content: { success: true, blockNumber } });
@@ -230,14 +178,14 @@ export const getBlockDetailsByNumberAction: Action = {
           actionName: 'POLYGON_ZKEVM_GET_BLOCK_DETAILS_BY_NUMBER',
           block: blockDetails,
           zkevmFields: zkevmFields,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           timestamp: Date.now(),
           method: methodUsed,
         },
       };
     } else {
       // Both methods failed or block not found
-      const errorMessage = `Failed to retrieve details for Polygon zkEVM block ${blockNumber} using both Alchemy and RPC. Errors: ${errorMessages.join('; ')}. It's possible the block number is invalid or the block does not exist yet.`;
+      const errorMessage = `Failed to retrieve details for ${networkLabel.displayName} block ${blockNumber}. Errors: ${errorMessages.join('; ')}. It's possible the block number is invalid or the block does not exist yet.`;
       logger.error(errorMessage);
 
       if (callback) {
@@ -285,4 +233,4 @@ export const getBlockDetailsByNumberAction: Action = {
       },
     ],
   ],
-};
+});
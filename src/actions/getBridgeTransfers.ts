@@ -0,0 +1,220 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { formatUnits } from 'ethers';
+import { getBridgeTransfersTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import {
+  BRIDGE_TRANSFER_STATUSES,
+  type BridgeTransferStatus,
+  type TrackedBridgeTransfer,
+  getBridgeTracker,
+  isInFlight,
+} from '../services/bridgeTracker';
+import { withNetworkProfile } from '../networks';
+
+const STATUS_LABELS: Record<BridgeTransferStatus, string> = {
+  pending_inclusion: '⏳ Pending inclusion',
+  indexed: '🔄 Indexed, waiting for the exit root',
+  ready_to_claim: '🟢 Ready to claim',
+  claimed: '✅ Claimed',
+  failed: '❌ Failed',
+};
+
+function formatTransfer(transfer: TrackedBridgeTransfer): string {
+  const isEth = transfer.tokenAddress === '0x0000000000000000000000000000000000000000';
+  const amount = isEth
+    ? `${formatUnits(transfer.amount, 18)} ETH`
+    : `${transfer.amount} units of ${transfer.tokenAddress}`;
+  return [
+    `**${transfer.bridgeTicketId ?? 'Ticket pending'}** (${transfer.direction}) - ${STATUS_LABELS[transfer.status]}`,
+    `- Amount: ${amount}`,
+    `- Bridge Transaction: \`${transfer.transactionHash}\``,
+    transfer.claimTransactionHash && `- Claim Transaction: \`${transfer.claimTransactionHash}\``,
+    transfer.lastError && `- Last Error: ${transfer.lastError}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * List or query the bridge transfers this agent has started, refreshing in-flight ones first
+ */
+export const getBridgeTransfersAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_BRIDGE_TRANSFERS',
+  similes: [
+    'LIST_BRIDGE_TRANSFERS',
+    'BRIDGE_STATUS',
+    'BRIDGE_TRANSFER_STATUS',
+    'PENDING_BRIDGE_TRANSFERS',
+    'TRACK_BRIDGE',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'List the bridge transfers started by the agent and their status (pending, ready to claim, claimed).',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+
+    const keywords = [
+      'bridge transfers',
+      'bridge status',
+      'bridge transactions',
+      'bridged',
+      'in-flight',
+      'in flight',
+      'pending bridge',
+      'pending deposits',
+      'pending withdrawals',
+      'my deposits',
+      'my withdrawals',
+      'track bridge',
+    ];
+
+    return keywords.some((keyword) => content.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getBridgeTransfersAction] Handler called!');
+
+    let filters: {
+      bridgeTicketId?: string;
+      transactionHash?: string;
+      status?: string;
+      inFlightOnly?: boolean;
+    } = {};
+
+    // Filters are optional - list everything when they cannot be extracted
+    try {
+      filters =
+        (await callLLMWithTimeout<typeof filters>(
+          runtime,
+          state,
+          getBridgeTransfersTemplate,
+          'getBridgeTransfersAction'
+        )) ?? {};
+    } catch (error) {
+      logger.debug(
+        '[getBridgeTransfersAction] LLM filter extraction failed, listing all transfers',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    try {
+      const tracker = getBridgeTracker(runtime);
+      let transfers = await tracker.refreshAll();
+
+      const id = filters.bridgeTicketId || filters.transactionHash;
+      if (id) {
+        const key = id.toLowerCase();
+        transfers = transfers.filter(
+          (t) => t.bridgeTicketId === id || t.transactionHash.toLowerCase() === key
+        );
+      }
+      if (filters.status && BRIDGE_TRANSFER_STATUSES.includes(filters.status as any)) {
+        transfers = transfers.filter((t) => t.status === filters.status);
+      }
+      if (filters.inFlightOnly) {
+        transfers = transfers.filter(isInFlight);
+      }
+
+      const readyToClaim = transfers.filter((t) => t.status === 'ready_to_claim');
+      const text =
+        transfers.length === 0
+          ? id
+            ? `No tracked bridge transfer matches ${id}.`
+            : 'No tracked bridge transfers found.'
+          : `🌉 **Bridge Transfers** (${transfers.length})\n\n` +
+            transfers.map(formatTransfer).join('\n\n') +
+            (readyToClaim.length > 0
+              ? `\n\n${readyToClaim.length} transfer(s) can be claimed now with their bridge ticket.`
+              : '');
+
+      if (callback) {
+        await callback({ text, content: { success: true, transfers } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          transfersRetrieved: true,
+          transferCount: transfers.length,
+          readyToClaimCount: readyToClaim.length,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_BRIDGE_TRANSFERS',
+          transfers,
+          filters,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to get bridge transfers: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getBridgeTransfersAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { transfersRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_BRIDGE_TRANSFERS', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Show my pending bridge transfers',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🌉 **Bridge Transfers** (1)\n\n**1-4821** (withdraw) - 🟢 Ready to claim\n- Amount: 0.5 ETH\n- Bridge Transaction: `0xabc...`',
+          action: 'POLYGON_ZKEVM_GET_BRIDGE_TRANSFERS',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'What is the bridge status of ticket 0-120394?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🌉 **Bridge Transfers** (1)\n\n**0-120394** (deposit) - ✅ Claimed\n- Amount: 1.0 ETH',
+          action: 'POLYGON_ZKEVM_GET_BRIDGE_TRANSFERS',
+        },
+      },
+    ],
+  ],
+});
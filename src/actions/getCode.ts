@@ -7,15 +7,16 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getCodeTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get code action for Polygon zkEVM
  * Retrieves the contract code for a specific address
  */
-export const getCodeAction: Action = {
+export const getCodeAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_CODE',
   similes: ['GET_CONTRACT_CODE', 'CONTRACT_CODE', 'BYTECODE', 'CODE'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -24,7 +25,7 @@ export const getCodeAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -42,8 +43,10 @@ export const getCodeAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getCodeAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -99,25 +102,18 @@ export const getCodeAction: Action = {
 
     const address = addressInput.address;
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
     // Get contract code
-    const code = await provider.getCode(address);
+    const { value: code, endpoints } = await zkevmService.read((provider) =>
+      provider.getCode(address)
+    );
+    const methodUsed = endpoints.join(', ');
 
     let responseText = `📋 **Contract Code for ${address}**
 
-**Network:** Polygon zkEVM
+**Network:** ${networkLabel.displayName}
 **Method:** ${methodUsed}
 
 `;
@@ -159,7 +155,7 @@ export const getCodeAction: Action = {
         code,
         codeSize: code === '0x' ? 0 : (code.length - 2) / 2,
         isContract: code !== '0x' && code !== '0x0',
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
         method: methodUsed,
       },
     };
@@ -197,4 +193,4 @@ export const getCodeAction: Action = {
       },
     ],
   ],
-};
+});
@@ -7,14 +7,15 @@ import {
   type Memory,
   type State
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 interface CurrentBlockParams {
   requestCurrentBlock?: boolean;
   error?: string;
 }
 
-export const getCurrentBlockNumberAction: Action = {
+export const getCurrentBlockNumberAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_CURRENT_BLOCK_NUMBER',
   similes: [
     'GET_CURRENT_L2_BLOCK_NUMBER',
@@ -28,7 +29,7 @@ export const getCurrentBlockNumberAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     // If no API configuration is available, don't try to handle
     if (!alchemyApiKey && !zkevmRpcUrl) {
@@ -69,8 +70,10 @@ export const getCurrentBlockNumberAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getCurrentBlockNumberAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -93,75 +96,27 @@ export const getCurrentBlockNumberAction: Action = {
     }
 
     let blockNumber: number | null = null;
-    let methodUsed: 'alchemy' | 'rpc' | null = null;
+    let methodUsed: string | null = null;
     let errorMessages: string[] = [];
 
-    // 1. Attempt to use Alchemy API
-    if (alchemyApiKey) {
-      try {
-        logger.info('[getCurrentBlockNumberAction] Attempting to use Alchemy API');
-        const zkevmAlchemyUrl =
-          runtime.getSetting('ZKEVM_ALCHEMY_URL') ||
-          'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-        const alchemyUrl = `${zkevmAlchemyUrl}/${alchemyApiKey}`;
-        const options = {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'eth_blockNumber',
-            params: [],
-            id: 1,
-          }),
-        };
-
-        const response = await fetch(alchemyUrl, options);
-        if (!response.ok) {
-          throw new Error(`Alchemy API returned status ${response.status}: ${response.statusText}`);
-        }
-        const data = (await response.json()) as { error?: { message: string }; result?: string };
-
-        if (data?.error) {
-          throw new Error(`Alchemy API returned error: ${data?.error?.message}`);
-        }
-
-        if (data?.result) {
-          blockNumber = parseInt(data?.result, 16);
-          methodUsed = 'alchemy';
-          logger.info(`[getCurrentBlockNumberAction] Block number from Alchemy: ${blockNumber}`);
-        } else {
-          logger.error('Alchemy API did not return a result.');
-          throw new Error('Alchemy API did not return a result.');
-        }
-      } catch (error) {
-        logger.error('Error using Alchemy API:', error);
-        errorMessages.push(
-          `Alchemy API failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
-
-    // 2. Fallback to JSON-RPC if Alchemy failed or not configured
-    if (blockNumber === null && zkevmRpcUrl) {
-      logger.info('[getCurrentBlockNumberAction] Falling back to JSON-RPC');
-      try {
-        const provider = new JsonRpcProvider(zkevmRpcUrl);
-        const latestBlock = await provider.getBlockNumber();
-
-        blockNumber = latestBlock;
-        methodUsed = 'rpc';
-        logger.info(`[getCurrentBlockNumberAction] Block number from RPC: ${blockNumber}`);
-      } catch (error) {
-        logger.error('Error using JSON-RPC fallback:', error);
-        errorMessages.push(
-          `JSON-RPC fallback failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+
+    try {
+      const { value, endpoints } = await zkevmService.read((provider) =>
+        provider.getBlockNumber()
+      );
+      blockNumber = value;
+      methodUsed = endpoints.join(', ');
+      logger.info(`[getCurrentBlockNumberAction] Block number from ${methodUsed}: ${blockNumber}`);
+    } catch (error) {
+      logger.error('Error fetching block number:', error);
+      errorMessages.push(error instanceof Error ? error.message : String(error));
     }
 
     // Handle result and errors
     if (blockNumber !== null) {
-      const successText = `📊 The current Polygon zkEVM block number is **${blockNumber.toLocaleString()}** (retrieved via ${methodUsed}).`;
+      const successText = `📊 The current ${networkLabel.displayName} block number is **${blockNumber.toLocaleString()}** (retrieved via ${methodUsed}).`;
 
       if (callback) {
         await callback({
@@ -169,7 +124,7 @@ export const getCurrentBlockNumberAction: Action = {
           content: {
             success: true,
             blockNumber,
-            network: 'polygon-zkevm',
+            network: networkLabel.network,
             method: methodUsed,
             timestamp: Date.now(),
           },
@@ -183,13 +138,13 @@ export const getCurrentBlockNumberAction: Action = {
         data: {
           actionName: 'POLYGON_ZKEVM_GET_CURRENT_BLOCK_NUMBER',
           blockNumber,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           timestamp: Date.now(),
           method: methodUsed,
         },
       };
     } else {
-      const errorMessage = `Failed to retrieve Polygon zkEVM block number using both Alchemy and RPC. Errors: ${errorMessages.join('; ')}`;
+      const errorMessage = `Failed to retrieve ${networkLabel.displayName} block number. Errors: ${errorMessages.join('; ')}`;
       logger.error(errorMessage);
 
       if (callback) {
@@ -245,4 +200,4 @@ export const getCurrentBlockNumberAction: Action = {
       },
     ],
   ],
-};
+});
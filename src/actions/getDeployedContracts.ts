@@ -0,0 +1,179 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getDeployedContractsTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
+import {
+  type DeployedContract,
+  findDeployedContract,
+  getDeployedContracts,
+} from '../utils/contractRegistry';
+
+function formatContract(contract: DeployedContract): string {
+  return [
+    `**${contract.name ?? contract.artifact ?? 'Unnamed contract'}** - \`${contract.address}\``,
+    contract.artifact && contract.name && `- Artifact: ${contract.artifact}`,
+    contract.implementation && `- Proxy for implementation \`${contract.implementation}\``,
+    contract.transactionHash && `- Deployment Transaction: \`${contract.transactionHash}\``,
+    contract.constructorArgs.length > 0 &&
+      `- Constructor Args: \`${JSON.stringify(contract.constructorArgs)}\``,
+    contract.deployer && `- Deployer: \`${contract.deployer}\``,
+    `- Deployed: ${new Date(contract.deployedAt).toISOString()}`,
+    `- ABI: ${contract.abi ? `${contract.abi.length} entries` : 'unknown'}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * List the contracts this agent has deployed, or look one up by name or address
+ */
+export const getDeployedContractsAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_DEPLOYED_CONTRACTS',
+  similes: [
+    'LIST_DEPLOYED_CONTRACTS',
+    'MY_CONTRACTS',
+    'CONTRACT_REGISTRY',
+    'FIND_DEPLOYED_CONTRACT',
+    'DEPLOYMENT_HISTORY',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'List the contracts the agent deployed on Polygon zkEVM with their address, deployment transaction, artifact and constructor arguments, or find one by name.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getDeployedContractsAction] Handler called!');
+
+    let filters: { name?: string } = {};
+
+    // The filter is optional - list everything when it cannot be extracted
+    try {
+      filters =
+        (await callLLMWithTimeout<typeof filters>(
+          runtime,
+          state,
+          getDeployedContractsTemplate,
+          'getDeployedContractsAction'
+        )) ?? {};
+    } catch (error) {
+      logger.debug(
+        '[getDeployedContractsAction] LLM filter extraction failed, listing all contracts',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    try {
+      const profile = getZkEvmProviderService(runtime).getNetwork();
+      const network = profile.name;
+      const chainId = profile.l2.chainId;
+      let contracts: DeployedContract[];
+      if (filters.name) {
+        const contract = await findDeployedContract(runtime, chainId, filters.name);
+        contracts = contract ? [contract] : [];
+      } else {
+        contracts = await getDeployedContracts(runtime, chainId);
+      }
+
+      const text =
+        contracts.length === 0
+          ? filters.name
+            ? `No deployed contract matches ${filters.name} on ${network}.`
+            : `No contracts deployed by the agent on ${network} yet.`
+          : `📒 **Deployed Contracts** (${contracts.length}, ${network})\n\n` +
+            contracts.map(formatContract).join('\n\n');
+
+      if (callback) {
+        await callback({ text, content: { success: true, contracts } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          contractsRetrieved: true,
+          contractCount: contracts.length,
+          ...(filters.name && { contractAddress: contracts[0]?.address ?? null }),
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_DEPLOYED_CONTRACTS',
+          contracts,
+          filters,
+          network,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to get deployed contracts: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getDeployedContractsAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { contractsRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_DEPLOYED_CONTRACTS', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Which contracts have I deployed?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '📒 **Deployed Contracts** (2, mainnet)\n\n**FeeVault** - `0x5FbDB2315678afecb367f032d93F642f64180aa3`\n- Artifact: contracts/FeeVault.sol:FeeVault',
+          action: 'POLYGON_ZKEVM_GET_DEPLOYED_CONTRACTS',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'What is the address of my FeeVault contract?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '📒 **Deployed Contracts** (1, mainnet)\n\n**FeeVault** - `0x5FbDB2315678afecb367f032d93F642f64180aa3`',
+          action: 'POLYGON_ZKEVM_GET_DEPLOYED_CONTRACTS',
+        },
+      },
+    ],
+  ],
+});
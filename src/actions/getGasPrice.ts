@@ -9,21 +9,22 @@ import {
   composePromptFromState,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getGasPriceTemplate } from '../templates';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get gas price action for Polygon zkEVM
  * Retrieves current gas price
  */
-export const getGasPriceAction: Action = {
+export const getGasPriceAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_GAS_PRICE',
   similes: ['GAS_PRICE', 'CURRENT_GAS', 'GAS_FEE', 'GWEI'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Get current gas price on Polygon zkEVM',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -41,8 +42,10 @@ export const getGasPriceAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getGasPriceAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -87,34 +90,27 @@ export const getGasPriceAction: Action = {
       logger.debug('[getGasPriceAction] LLM validation failed, proceeding anyway');
     }
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
     try {
       // Get gas price
-      const gasPrice = await provider.send('eth_gasPrice', []);
+      const { value: gasPrice, endpoints } = await zkevmService.read((provider) =>
+        provider.send('eth_gasPrice', [])
+      );
+      const methodUsed = endpoints.join(', ');
       const gasPriceInWei = BigInt(gasPrice);
       const gasPriceInGwei = Number(gasPriceInWei) / 1e9;
 
       // Get fee data for more comprehensive information
       let feeData;
       try {
-        feeData = await provider.getFeeData();
+        ({ value: feeData } = await zkevmService.read((provider) => provider.getFeeData()));
       } catch (error) {
         logger.warn('Could not get fee data, using basic gas price only');
       }
 
-      let responseText = `⛽ **Current Gas Price (Polygon zkEVM)**
+      let responseText = `⛽ **Current Gas Price (${networkLabel.displayName})**
 
 💸 **Gas Price:** ${gasPriceInGwei.toFixed(4)} Gwei (${gasPriceInWei.toString()} wei)
 🔗 **Method:** ${methodUsed}`;
@@ -145,7 +141,7 @@ export const getGasPriceAction: Action = {
           success: true,
           gasPrice: gasPriceInWei.toString(),
           gasPriceGwei: gasPriceInGwei,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           method: methodUsed,
         },
       });
@@ -163,7 +159,7 @@ export const getGasPriceAction: Action = {
         gasPrice: gasPriceInWei.toString(),
         gasPriceGwei: gasPriceInGwei,
         feeData,
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
         method: methodUsed,
         transferCostEth: transferCost,
         swapCostEth: swapCost,
@@ -214,4 +210,4 @@ export const getGasPriceAction: Action = {
       },
     ],
   ],
-};
+});
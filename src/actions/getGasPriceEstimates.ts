@@ -7,7 +7,9 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider, formatUnits, parseUnits } from 'ethers';
+import { formatUnits, parseUnits } from 'ethers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 interface GasPriceEstimates {
   low: string;
@@ -18,7 +20,7 @@ interface GasPriceEstimates {
   highGwei: string;
   basePrice: string;
   basePriceGwei: string;
-  method: 'alchemy' | 'rpc';
+  method: string;
   timestamp: number;
 }
 
@@ -26,7 +28,7 @@ interface GasPriceEstimates {
  * Get gas price estimates action for Polygon zkEVM
  * Provides low/medium/high gas price tiers for transaction planning
  */
-export const getGasPriceEstimatesAction: Action = {
+export const getGasPriceEstimatesAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_GAS_PRICE_ESTIMATES',
   similes: [
     'GAS_PRICE_TIERS',
@@ -42,7 +44,7 @@ export const getGasPriceEstimatesAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -58,28 +60,13 @@ export const getGasPriceEstimatesAction: Action = {
     options?: { [key: string]: unknown },
     callback?: HandlerCallback
   ): Promise<ActionResult> => {
+    const networkLabel = getNetworkLabel(runtime);
     try {
       logger.info('⛽ Handling GET_GAS_PRICE_ESTIMATES action');
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-      const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(
-          `${runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2'}/${alchemyApiKey}`
-        );
-        methodUsed = 'alchemy';
-        logger.info('🔗 Using Alchemy API for gas price estimates');
-      } else {
-        const zkevmRpcUrl =
-          runtime.getSetting('ZKEVM_RPC_URL') ||
-          runtime.getSetting('ZKEVM_RPC_URL') ||
-          'https://zkevm-rpc.com';
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-        logger.info('🔗 Using direct RPC for gas price estimates');
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
+      let methodUsed: string;
 
       let baseGasPrice: bigint;
       let errorMessages: string[] = [];
@@ -88,44 +75,22 @@ export const getGasPriceEstimatesAction: Action = {
       try {
         logger.info('📊 Fetching current gas price...');
 
-        // Try to get gas price using provider method first
-        const gasPriceResult = await provider.send('eth_gasPrice', []);
+        const { value: gasPriceResult, endpoints } = await zkevmService.read((provider) =>
+          provider.send('eth_gasPrice', [])
+        );
         baseGasPrice = BigInt(gasPriceResult);
+        methodUsed = endpoints.join(', ');
 
-        logger.info(`✅ Base gas price retrieved: ${baseGasPrice.toString()} wei`);
+        logger.info(`✅ Base gas price retrieved from ${methodUsed}: ${baseGasPrice.toString()} wei`);
       } catch (error) {
         const errorMsg = `Failed to get gas price: ${error instanceof Error ? error.message : String(error)}`;
         logger.error(errorMsg);
         errorMessages.push(errorMsg);
 
-        // Try fallback method if using Alchemy
-        if (methodUsed === 'alchemy') {
-          logger.info('🔄 Attempting fallback to direct RPC...');
-          try {
-            const fallbackRpcUrl =
-              runtime.getSetting('ZKEVM_RPC_URL') ||
-              runtime.getSetting('ZKEVM_RPC_URL') ||
-              'https://zkevm-rpc.com';
-            const fallbackProvider = new JsonRpcProvider(fallbackRpcUrl);
-
-            const fallbackGasPrice = await fallbackProvider.send('eth_gasPrice', []);
-            baseGasPrice = BigInt(fallbackGasPrice);
-            methodUsed = 'rpc';
-            logger.info('✅ Fallback successful');
-          } catch (fallbackError) {
-            const fallbackErrorMsg = `Fallback also failed: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`;
-            logger.error(fallbackErrorMsg);
-            errorMessages.push(fallbackErrorMsg);
-
-            // Use a reasonable default for zkEVM (typically lower than mainnet)
-            baseGasPrice = parseUnits('0.25', 'gwei'); // 0.25 gwei default
-            logger.warn(`Using default gas price: ${baseGasPrice.toString()} wei`);
-          }
-        } else {
-          // Use a reasonable default for zkEVM
-          baseGasPrice = parseUnits('0.25', 'gwei'); // 0.25 gwei default
-          logger.warn(`Using default gas price: ${baseGasPrice.toString()} wei`);
-        }
+        // Use a reasonable default for zkEVM (typically lower than mainnet)
+        baseGasPrice = parseUnits('0.25', 'gwei'); // 0.25 gwei default
+        methodUsed = 'default';
+        logger.warn(`Using default gas price: ${baseGasPrice.toString()} wei`);
       }
 
       // Calculate gas price tiers
@@ -177,7 +142,7 @@ export const getGasPriceEstimatesAction: Action = {
       const highIncrease = Number(((highGasPrice - baseGasPrice) * 100n) / baseGasPrice);
 
       // Format response text
-      let responseText = `⛽ **Gas Price Estimates for Polygon zkEVM**\n\n`;
+      let responseText = `⛽ **Gas Price Estimates for ${networkLabel.displayName}**\n\n`;
 
       responseText += `**Current Base Price:**\n`;
       responseText += `📊 ${result.basePriceGwei} gwei (${result.basePrice} wei)\n\n`;
@@ -197,7 +162,7 @@ export const getGasPriceEstimatesAction: Action = {
       responseText += `🚀 High: Urgent transactions, fastest confirmation\n\n`;
 
       // Add method and error info
-      responseText += `🔗 Retrieved via ${methodUsed === 'alchemy' ? 'Alchemy API' : 'Direct RPC'}`;
+      responseText += `🔗 Retrieved via ${methodUsed}`;
 
       if (errorMessages.length > 0) {
         responseText += `\n\n⚠️ Some errors occurred:\n${errorMessages
@@ -289,4 +254,4 @@ export const getGasPriceEstimatesAction: Action = {
       },
     ],
   ],
-};
+});
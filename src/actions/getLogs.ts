@@ -7,22 +7,23 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getLogsTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
 
 /**
  * Get logs action for Polygon zkEVM
  * Retrieves event logs based on filter criteria
  */
-export const getLogsAction: Action = {
+export const getLogsAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_LOGS',
   similes: ['GET_EVENTS', 'EVENT_LOGS', 'LOGS', 'CONTRACT_EVENTS'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Gets logs/events for a given contract address on Polygon zkEVM.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -42,7 +43,8 @@ export const getLogsAction: Action = {
       logger.info('Handling GET_LOGS_ZKEVM action');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -93,16 +95,8 @@ export const getLogsAction: Action = {
         };
       }
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
 
       // Build filter object
       const filter: any = {};
@@ -149,13 +143,17 @@ export const getLogsAction: Action = {
 
       // If no specific address and using latest blocks, limit the scope to avoid overwhelming results
       if (!filter.address && filter.fromBlock === 'latest' && filter.toBlock === 'latest') {
-        const currentBlock = await provider.getBlockNumber();
+        const { value: currentBlock } = await zkevmService.read((provider) =>
+          provider.getBlockNumber()
+        );
         filter.fromBlock = `0x${Math.max(0, currentBlock - 100).toString(16)}`; // Last 100 blocks
         filter.toBlock = `0x${currentBlock.toString(16)}`;
       }
 
       // Get logs
-      const logs = await provider.send('eth_getLogs', [filter]);
+      const { value: logs } = await zkevmService.read((provider) =>
+        provider.send('eth_getLogs', [filter])
+      );
 
       let responseText = `📋 Event Logs Query Results:
 🔍 Filter: ${JSON.stringify(filter, null, 2)}
@@ -273,4 +271,4 @@ export const getLogsAction: Action = {
       },
     ],
   ],
-};
+});
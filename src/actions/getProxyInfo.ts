@@ -0,0 +1,182 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { isAddress } from 'ethers';
+import { getProxyInfoTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { type ProxyInfo, readProxyInfo } from '../utils/proxy';
+
+const KIND_LABELS: Record<NonNullable<ProxyInfo['kind']>, string> = {
+  uups: 'UUPS (upgraded through the implementation)',
+  transparent: 'Transparent (upgraded by the admin)',
+  beacon: 'Beacon (upgraded through the beacon)',
+};
+
+/**
+ * Read the ERC-1967 implementation, admin and beacon slots of an upgradeable proxy
+ */
+export const getProxyInfoAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_PROXY_INFO',
+  similes: [
+    'PROXY_INFO',
+    'GET_IMPLEMENTATION',
+    'PROXY_IMPLEMENTATION',
+    'PROXY_ADMIN',
+    'INSPECT_PROXY',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Reads the current implementation and admin of an upgradeable (ERC-1967) proxy on Polygon zkEVM from its storage slots.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getProxyInfoAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    let params: { address: string; blockTag?: string | number; error?: string };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        getProxyInfoTemplate,
+        'getProxyInfoAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!params?.address || !isAddress(params.address)) {
+        throw new Error(`Invalid proxy address: ${params?.address}`);
+      }
+    } catch (error) {
+      const errorMessage = `[getProxyInfoAction] Failed to extract proxy address from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyInfoRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_PROXY_INFO', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const blockTag = params.blockTag ?? 'latest';
+
+    try {
+      const zkevmService = getZkEvmProviderService(runtime);
+      // Slots are read with eth_getStorageAt, checked against the quorum when one is configured
+      const { value: info, endpoints } = await zkevmService.readCritical((provider) =>
+        readProxyInfo(provider, params.address, blockTag)
+      );
+      const method = endpoints.join(', ');
+
+      const text = info.kind
+        ? `🧩 **Proxy Info (${networkLabel.displayName})**
+
+**Proxy:** \`${info.address}\`
+**Kind:** ${KIND_LABELS[info.kind]}
+**Implementation:** ${info.implementation ? `\`${info.implementation}\`` : 'Not set'}${info.kind === 'uups' ? `\n**UUPS Proxiable:** ${info.proxiable ? '✅ Yes' : '⚠️ No - the proxy cannot be upgraded any more'}` : ''}
+**Admin:** ${info.admin ? `\`${info.admin}\`${info.adminIsContract ? ' (ProxyAdmin contract)' : ''}` : 'None'}${info.adminOwner ? `\n**ProxyAdmin Owner:** \`${info.adminOwner}\`` : ''}${info.beacon ? `\n**Beacon:** \`${info.beacon}\`` : ''}
+**Block:** ${blockTag}
+**Method:** ${method}`
+        : `🧩 **Proxy Info (${networkLabel.displayName})**
+
+\`${info.address}\` is not an ERC-1967 proxy: its implementation, admin and beacon slots are empty.
+**Block:** ${blockTag}
+**Method:** ${method}`;
+
+      if (callback) {
+        await callback({ text, content: { success: true, ...info } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          proxyInfoRetrieved: true,
+          isProxy: info.kind !== null,
+          kind: info.kind,
+          implementation: info.implementation,
+          admin: info.admin,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_PROXY_INFO',
+          ...info,
+          blockTag,
+          network: networkLabel.network,
+          method,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to read proxy info: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getProxyInfoAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyInfoRetrieved: false, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_PROXY_INFO',
+          error: errorMessage,
+          address: params.address,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Which implementation is proxy 0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe pointing to?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🧩 **Proxy Info (Polygon zkEVM)**\n\n**Kind:** UUPS (upgraded through the implementation)\n**Implementation:** `0x...`',
+          action: 'POLYGON_ZKEVM_GET_PROXY_INFO',
+        },
+      },
+    ],
+  ],
+});
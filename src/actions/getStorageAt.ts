@@ -7,15 +7,16 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getStorageAtTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get storage at action for Polygon zkEVM
  * Retrieves storage value at a specific slot for a contract address
  */
-export const getStorageAtAction: Action = {
+export const getStorageAtAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_STORAGE',
   similes: ['GET_STORAGE', 'STORAGE_SLOT', 'CONTRACT_STORAGE', 'STORAGE_VALUE'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -24,7 +25,7 @@ export const getStorageAtAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -42,8 +43,10 @@ export const getStorageAtAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getStorageAtAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -101,23 +104,16 @@ export const getStorageAtAction: Action = {
     const position = storageInput.position;
     const blockTag = storageInput.blockTag || 'latest';
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
     // Get storage at the specified slot
-    const storageValue = await provider.getStorage(address, position, blockTag);
+    const { value: storageValue, endpoints } = await zkevmService.read((provider) =>
+      provider.getStorage(address, position, blockTag)
+    );
+    const methodUsed = endpoints.join(', ');
 
-    let responseText = `🗄️ **Storage Value (Polygon zkEVM)**
+    let responseText = `🗄️ **Storage Value (${networkLabel.displayName})**
 
 **Contract:** \`${address}\`
 **Position:** ${position}
@@ -176,7 +172,7 @@ export const getStorageAtAction: Action = {
         position,
         blockTag,
         storageValue,
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
         method: methodUsed,
       },
     };
@@ -199,4 +195,4 @@ export const getStorageAtAction: Action = {
       },
     ],
   ],
-};
+});
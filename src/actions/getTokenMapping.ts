@@ -0,0 +1,204 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { isAddress } from 'ethers';
+import { getTokenMappingTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getTokenMapping } from '../utils/tokenMapping';
+import { getKnownToken, resolveToken } from '../utils/tokenRegistry';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
+
+/**
+ * Map a bridged ERC20 between Ethereum and Polygon zkEVM, e.g. find the zkEVM address of an L1 token
+ */
+export const getTokenMappingAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING',
+  similes: [
+    'TOKEN_MAPPING',
+    'WRAPPED_TOKEN_ADDRESS',
+    'BRIDGED_TOKEN_ADDRESS',
+    'L2_TOKEN_ADDRESS',
+    'L1_TOKEN_ADDRESS',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Find the address of a bridged token on the other chain (Ethereum <-> Polygon zkEVM) using the bridge token registry.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+
+    const keywords = [
+      'wrapped token',
+      'wrapped address',
+      'token address on',
+      'address on zkevm',
+      'address on ethereum',
+      'address on l1',
+      'address on l2',
+      'bridged token',
+      'token mapping',
+      'l1 token',
+      'l2 token',
+    ];
+
+    return keywords.some((keyword) => content.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getTokenMappingAction] Handler called!');
+
+    let tokenParams: {
+      token?: string;
+      tokenAddress?: string;
+      network: 'ethereum' | 'zkevm';
+      error?: string;
+    };
+    let tokenInput: string;
+
+    try {
+      tokenParams = await callLLMWithTimeout<typeof tokenParams>(
+        runtime,
+        state,
+        getTokenMappingTemplate,
+        'getTokenMappingAction'
+      );
+
+      if (tokenParams?.error) {
+        throw new Error(tokenParams.error);
+      }
+
+      tokenInput = tokenParams?.token ?? tokenParams?.tokenAddress;
+      if (!tokenInput || (tokenInput.startsWith('0x') && !isAddress(tokenInput))) {
+        throw new Error(`Invalid token: ${tokenInput}`);
+      }
+    } catch (error) {
+      const errorMessage = `[getTokenMappingAction] Failed to extract token from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { tokenMappingRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    try {
+      const layer = tokenParams.network === 'zkevm' ? 'l2' : 'l1';
+      const network = getZkEvmProviderService(runtime).getNetwork();
+      // Addresses are mapped as given, their symbol only labels the answer. Symbols are resolved
+      // on the chain the user named.
+      const token = isAddress(tokenInput)
+        ? await getKnownToken(runtime, tokenInput, layer).catch(() => null)
+        : await resolveToken(runtime, tokenInput, layer);
+      const tokenAddress = token?.address ?? tokenInput;
+      const mapping = await getTokenMapping(runtime, tokenAddress, layer);
+
+      const originName =
+        mapping.originNetwork === network.l1.networkId
+          ? network.l1.name
+          : mapping.originNetwork === network.l2.networkId
+            ? network.l2.name
+            : `bridge network ${mapping.originNetwork}`;
+      const notBridged = 'not bridged yet (the wrapped token is deployed on the first claim)';
+
+      const text = `🔗 **Bridged Token Mapping**${token ? ` - ${token.symbol} (${token.name})` : ''}
+
+**Origin:** ${originName} - \`${mapping.originTokenAddress}\`
+**${network.l1.name}:** ${mapping.l1Address ? `\`${mapping.l1Address}\`` : notBridged}
+**${network.l2.name}:** ${mapping.l2Address ? `\`${mapping.l2Address}\`` : notBridged}`;
+
+      if (callback) {
+        await callback({ text, content: { success: true, ...mapping } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          tokenMappingRetrieved: true,
+          l1Address: mapping.l1Address,
+          l2Address: mapping.l2Address,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING',
+          tokenAddress,
+          tokenSymbol: token?.symbol ?? null,
+          network: tokenParams.network,
+          ...mapping,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to look up token mapping: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getTokenMappingAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { tokenMappingRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'What is the zkEVM address of USDC on Ethereum?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔗 **Bridged Token Mapping** - USDC (USD Coin)\n\n**Origin:** Ethereum - `0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48`\n**Ethereum:** `0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48`\n**Polygon zkEVM:** `0x37eAA0eF3549a5Bb7D431be78a3D99BD360d19e5`',
+          action: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Which Ethereum token is the bridged token 0x1E4a5963aBFD975d8c9021ce480b42188849D41d on zkEVM?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔗 **Bridged Token Mapping**\n\n**Origin:** Ethereum - `0xdAC17F958D2ee523a2206206994597C13D831ec7`',
+          action: 'POLYGON_ZKEVM_GET_TOKEN_MAPPING',
+        },
+      },
+    ],
+  ],
+});
@@ -7,15 +7,16 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getTransactionByHashTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get transaction by hash action for Polygon zkEVM
  * Retrieves transaction details by transaction hash
  */
-export const getTransactionByHashAction: Action = {
+export const getTransactionByHashAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_TRANSACTION_BY_HASH',
   similes: ['GET_TX_BY_HASH', 'GET_TRANSACTION', 'TRANSACTION_DETAILS', 'TX_DETAILS'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -24,7 +25,7 @@ export const getTransactionByHashAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -40,11 +41,13 @@ export const getTransactionByHashAction: Action = {
     options?: { [key: string]: unknown },
     callback?: HandlerCallback
   ): Promise<ActionResult> => {
+    const networkLabel = getNetworkLabel(runtime);
     try {
       logger.info('[getTransactionByHashAction] Handler called!');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -100,19 +103,10 @@ export const getTransactionByHashAction: Action = {
 
       const txHash = hashInput.transactionHash;
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-      }
-
-      // Get transaction details
-      const transaction = await provider.getTransaction(txHash);
+      // Get transaction details - reads fail over across the configured zkEVM endpoints
+      const { value: transaction } = await getZkEvmProviderService(runtime).read((provider) =>
+        provider.getTransaction(txHash)
+      );
 
       if (!transaction) {
         const errorMessage = `Transaction not found: ${txHash}`;
@@ -132,7 +126,7 @@ export const getTransactionByHashAction: Action = {
       const valueInEth = Number(transaction.value) / 1e18;
       const gasPriceInGwei = transaction.gasPrice ? Number(transaction.gasPrice) / 1e9 : 'N/A';
 
-      const responseText = `🔍 **Transaction Details (Polygon zkEVM)**
+      const responseText = `🔍 **Transaction Details (${networkLabel.displayName})**
 
 **Basic Information:**
 - Hash: \`${transaction.hash}\`
@@ -178,7 +172,7 @@ ${transaction.data && transaction.data !== '0x' ? `**Data:** \`${transaction.dat
             type: transaction.type,
             data: transaction.data,
           },
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
         },
       };
     } catch (error) {
@@ -231,4 +225,4 @@ ${transaction.data && transaction.data !== '0x' ? `**Data:** \`${transaction.dat
       },
     ],
   ],
-};
+});
@@ -7,22 +7,23 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getTransactionCountTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
 
 /**
  * Get transaction count action for Polygon zkEVM
  * Retrieves the transaction count (nonce) for a specific address
  */
-export const getTransactionCountAction: Action = {
+export const getTransactionCountAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_TRANSACTION_COUNT',
   similes: ['GET_NONCE', 'TRANSACTION_COUNT', 'NONCE', 'TX_COUNT'].map((s) => `POLYGON_ZKEVM_${s}`),
   description: 'Gets the transaction count (nonce) for a given address on Polygon zkEVM.',
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -40,8 +41,10 @@ export const getTransactionCountAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[getTransactionCountAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -97,26 +100,22 @@ export const getTransactionCountAction: Action = {
 
     const address = addressInput.address;
 
-    // Setup provider - prefer Alchemy, fallback to RPC
-    let provider: JsonRpcProvider;
-    let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-    const zkevmAlchemyUrl =
-      runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-    if (alchemyApiKey) {
-      provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-      methodUsed = 'alchemy';
-    } else {
-      provider = new JsonRpcProvider(zkevmRpcUrl);
-    }
+    // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
 
-    // Get transaction count for both latest and pending
-    const [latestCount, pendingCount] = await Promise.all([
-      provider.getTransactionCount(address, 'latest'),
-      provider.getTransactionCount(address, 'pending'),
-    ]);
+    // Get transaction count for both latest and pending from the same endpoint
+    const {
+      value: [latestCount, pendingCount],
+      endpoints,
+    } = await zkevmService.read((provider) =>
+      Promise.all([
+        provider.getTransactionCount(address, 'latest'),
+        provider.getTransactionCount(address, 'pending'),
+      ])
+    );
+    const methodUsed = endpoints.join(', ');
 
-    let responseText = `📊 **Transaction Count (Polygon zkEVM)**
+    let responseText = `📊 **Transaction Count (${networkLabel.displayName})**
 
 **Address:** \`${address}\`
 **Latest:** ${latestCount} transactions
@@ -144,7 +143,7 @@ export const getTransactionCountAction: Action = {
         latestCount,
         pendingCount,
         nextNonce: pendingCount,
-        network: 'polygon-zkevm',
+        network: networkLabel.network,
         method: methodUsed,
       },
     };
@@ -182,4 +181,4 @@ export const getTransactionCountAction: Action = {
       },
     ],
   ],
-};
+});
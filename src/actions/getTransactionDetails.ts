@@ -7,15 +7,21 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
 import { getTransactionDetailsTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
+import {
+  type DecodedRevert,
+  explainFailedTransaction,
+  formatRevert,
+} from '../utils/revertDecoder';
 
 /**
  * Get transaction details and receipt action for Polygon zkEVM
  * Retrieves both transaction data and receipt for a given transaction hash
  */
-export const getTransactionDetailsAction: Action = {
+export const getTransactionDetailsAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_TRANSACTION_DETAILS',
   similes: [
     'GET_TX_DETAILS',
@@ -31,7 +37,7 @@ export const getTransactionDetailsAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -51,7 +57,8 @@ export const getTransactionDetailsAction: Action = {
       logger.info('🔍 Handling GET_TRANSACTION_DETAILS action');
 
       const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-      const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+      const zkevmRpcUrl =
+        runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
       if (!alchemyApiKey && !zkevmRpcUrl) {
         const errorMessage = 'ALCHEMY_API_KEY or ZKEVM_RPC_URL is required in configuration.';
@@ -108,20 +115,9 @@ export const getTransactionDetailsAction: Action = {
       const txHash = hashInput.transactionHash;
       logger.info(`📋 Getting transaction details for hash: ${txHash}`);
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      let methodUsed: 'alchemy' | 'rpc' = 'rpc';
-      const zkevmAlchemyUrl =
-        runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2';
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(`${zkevmAlchemyUrl}/${alchemyApiKey}`);
-        methodUsed = 'alchemy';
-        logger.info('🔗 Using Alchemy API for transaction details');
-      } else {
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-        logger.info('🔗 Using direct RPC for transaction details');
-      }
+      // Get the shared provider pool - reads fail over across the configured zkEVM endpoints
+      const zkevmService = getZkEvmProviderService(runtime);
+      const endpointsUsed = new Set<string>();
 
       let transactionData: any = null;
       let receiptData: any = null;
@@ -130,12 +126,16 @@ export const getTransactionDetailsAction: Action = {
       // Get transaction data
       try {
         logger.info('📥 Fetching transaction data...');
-        transactionData = await provider.getTransaction(txHash);
+        const { value, endpoints } = await zkevmService.read((provider) =>
+          provider.getTransaction(txHash)
+        );
+        transactionData = value;
 
         if (!transactionData) {
           throw new Error('Transaction not found');
         }
 
+        endpoints.forEach((endpoint) => endpointsUsed.add(endpoint));
         logger.info('✅ Transaction data retrieved successfully');
       } catch (error) {
         const errorMsg = `Failed to get transaction data: ${error instanceof Error ? error.message : String(error)}`;
@@ -143,15 +143,19 @@ export const getTransactionDetailsAction: Action = {
         errorMessages.push(errorMsg);
       }
 
-      // Get transaction receipt
+      // Get transaction receipt - a critical read, checked against the quorum when one is configured
       try {
         logger.info('📄 Fetching transaction receipt...');
-        receiptData = await provider.getTransactionReceipt(txHash);
+        const { value, endpoints } = await zkevmService.readCritical((provider) =>
+          provider.getTransactionReceipt(txHash)
+        );
+        receiptData = value;
 
         if (!receiptData) {
           throw new Error('Transaction receipt not found');
         }
 
+        endpoints.forEach((endpoint) => endpointsUsed.add(endpoint));
         logger.info('✅ Transaction receipt retrieved successfully');
       } catch (error) {
         const errorMsg = `Failed to get transaction receipt: ${error instanceof Error ? error.message : String(error)}`;
@@ -159,29 +163,14 @@ export const getTransactionDetailsAction: Action = {
         errorMessages.push(errorMsg);
       }
 
-      // If both failed, try fallback method if using Alchemy
-      if (!transactionData && !receiptData && methodUsed === 'alchemy') {
-        logger.info('🔄 Attempting fallback to direct RPC...');
-        try {
-          const fallbackProvider = new JsonRpcProvider(zkevmRpcUrl || 'https://zkevm-rpc.com');
-
-          if (!transactionData) {
-            transactionData = await fallbackProvider.getTransaction(txHash);
-          }
-
-          if (!receiptData) {
-            receiptData = await fallbackProvider.getTransactionReceipt(txHash);
-          }
-
-          methodUsed = 'rpc';
-          logger.info('✅ Fallback successful');
-        } catch (fallbackError) {
-          const errorMsg = `Fallback also failed: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`;
-          logger.error(errorMsg);
-          errorMessages.push(errorMsg);
-        }
+      // Receipts carry no revert data - a failed transaction is replayed to find out why
+      let revert: DecodedRevert | null = null;
+      if (transactionData && receiptData?.status === 0) {
+        revert = await explainFailedTransaction(runtime, transactionData, receiptData.blockNumber);
       }
 
+      const methodUsed = [...endpointsUsed].join(', ');
+
       // Check if we have at least some data
       if (!transactionData && !receiptData) {
         const errorMessage = `Failed to retrieve transaction details for hash ${txHash}. Errors: ${errorMessages.join('; ')}`;
@@ -243,6 +232,7 @@ export const getTransactionDetailsAction: Action = {
           logsBloom: receiptData.logsBloom,
           type: receiptData.type,
         };
+        combinedData.revert = revert;
       }
 
       // Calculate gas efficiency if both data are available
@@ -273,6 +263,9 @@ export const getTransactionDetailsAction: Action = {
       if (receiptData) {
         responseText += `\n**Receipt Info:**\n`;
         responseText += `• Status: ${receiptData.status === 1 ? '✅ Success' : '❌ Failed'}\n`;
+        if (revert) {
+          responseText += `• Revert: ${formatRevert(revert)}\n`;
+        }
         responseText += `• Gas Used: ${receiptData.gasUsed?.toString()}\n`;
         responseText += `• Logs Count: ${receiptData.logs?.length || 0}\n`;
         if (receiptData.contractAddress) {
@@ -281,7 +274,7 @@ export const getTransactionDetailsAction: Action = {
       }
 
       responseText += gasEfficiency;
-      responseText += `\n\n🔗 Retrieved via ${methodUsed === 'alchemy' ? 'Alchemy API' : 'Direct RPC'}`;
+      responseText += `\n\n🔗 Retrieved via ${methodUsed}`;
 
       if (callback) {
         await callback({ text: responseText, content: { success: true, hash: txHash } });
@@ -344,4 +337,4 @@ export const getTransactionDetailsAction: Action = {
       },
     ],
   ],
-};
+});
@@ -0,0 +1,290 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getTransactionFinalityTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import {
+  type BlockFinality,
+  type BlockFinalityStatus,
+  getBlockFinality,
+  hasReachedFinality,
+} from '../utils/zkevmRpc';
+
+// How often finality is re-checked in wait mode
+const FINALITY_POLL_MS = 30_000;
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 600;
+const MAX_WAIT_TIMEOUT_SECONDS = 3600;
+
+const STATUS_LABELS: Record<BlockFinalityStatus | 'pending', string> = {
+  pending: '⏳ Pending - not included in a block yet',
+  trusted: '🟠 Trusted - executed on zkEVM, not on Ethereum yet',
+  virtual: '🟡 Virtual - sequenced on Ethereum, awaiting proof',
+  consolidated: '🟢 Consolidated - proven on Ethereum, final',
+};
+
+interface TransactionFinality extends Partial<Omit<BlockFinality, 'status'>> {
+  transactionHash: string;
+  status: BlockFinalityStatus | 'pending';
+  /** Receipt status - false when the transaction reverted */
+  succeeded?: boolean;
+}
+
+/**
+ * Map a zkEVM transaction to its block and batch, and report how far that batch has progressed
+ * on Ethereum
+ */
+async function getTransactionFinality(
+  runtime: IAgentRuntime,
+  transactionHash: string
+): Promise<{ finality: TransactionFinality; method: string }> {
+  const zkevmService = getZkEvmProviderService(runtime);
+
+  // Finality is a critical read, checked against the quorum when one is configured
+  const { value, endpoints } = await zkevmService.readCritical(async (provider) => {
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      return { transactionHash, status: 'pending' as const };
+    }
+    return {
+      transactionHash,
+      succeeded: receipt.status === 1,
+      ...(await getBlockFinality(provider, receipt.blockNumber)),
+    };
+  });
+  return { finality: value, method: endpoints.join(', ') };
+}
+
+/**
+ * "Is my tx final on L1 yet?" - transaction → block → batch → L1 finality, optionally waiting
+ * until a target finality level is reached
+ */
+export const getTransactionFinalityAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY',
+  similes: [
+    'TRANSACTION_FINALITY',
+    'TX_FINALITY',
+    'IS_TX_FINAL',
+    'WAIT_FOR_FINALITY',
+    'TX_L1_STATUS',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Check whether a Polygon zkEVM transaction has been sequenced and proven on Ethereum, optionally waiting until it is.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    const content = message.content?.text?.toLowerCase() || '';
+    const keywords = [
+      'final',
+      'finality',
+      'proven',
+      'verified on',
+      'sequenced',
+      'on l1',
+      'on ethereum',
+      'consolidated',
+    ];
+
+    return /0x[0-9a-f]{64}/.test(content) && keywords.some((keyword) => content.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[getTransactionFinalityAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    let params: {
+      transactionHash: string;
+      wait?: boolean;
+      targetStatus?: 'virtual' | 'consolidated';
+      timeoutSeconds?: number;
+      error?: string;
+    };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        getTransactionFinalityTemplate,
+        'getTransactionFinalityAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!params?.transactionHash || !/^0x[0-9a-fA-F]{64}$/.test(params.transactionHash)) {
+        throw new Error(`Invalid transaction hash: ${params?.transactionHash}`);
+      }
+
+      if (params.targetStatus && !['virtual', 'consolidated'].includes(params.targetStatus)) {
+        throw new Error('Invalid target status. Must be "virtual" or "consolidated".');
+      }
+    } catch (error) {
+      const errorMessage = `[getTransactionFinalityAction] Failed to extract transaction from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { finalityRetrieved: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const targetStatus = params.targetStatus ?? 'consolidated';
+    const timeoutSeconds = Math.min(
+      Math.max(Number(params.timeoutSeconds) || DEFAULT_WAIT_TIMEOUT_SECONDS, 1),
+      MAX_WAIT_TIMEOUT_SECONDS
+    );
+    const reached = (f: TransactionFinality) =>
+      f.status !== 'pending' && hasReachedFinality(f.status, targetStatus);
+
+    try {
+      const startedAt = Date.now();
+      let { finality, method } = await getTransactionFinality(runtime, params.transactionHash);
+
+      // Wait mode: poll until the target finality is reached or the timeout expires
+      let timedOut = false;
+      if (params.wait) {
+        const deadline = startedAt + timeoutSeconds * 1000;
+        while (!reached(finality)) {
+          const delay = Math.min(FINALITY_POLL_MS, deadline - Date.now());
+          if (delay <= 0) {
+            timedOut = true;
+            break;
+          }
+          logger.info(
+            `[getTransactionFinalityAction] ${params.transactionHash} is ${finality.status}, waiting for ${targetStatus}`
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          // A failed poll keeps the last known finality and is retried until the deadline
+          try {
+            ({ finality, method } = await getTransactionFinality(runtime, params.transactionHash));
+          } catch (error) {
+            logger.warn(
+              `[getTransactionFinalityAction] Failed to re-check ${params.transactionHash}: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        }
+      }
+
+      const targetReached = reached(finality);
+      const text = `🔐 **Transaction Finality (${networkLabel.displayName})**
+
+**Transaction:** \`${finality.transactionHash}\`
+**Status:** ${STATUS_LABELS[finality.status]}${finality.succeeded === false ? '\n**Execution:** ❌ Reverted on zkEVM' : ''}
+**Block:** ${finality.blockNumber ?? 'N/A'}
+**Batch:** ${finality.batchNumber ?? 'N/A'}
+**L1 Sequence Tx:** ${finality.sendSequencesTxHash ? `\`${finality.sendSequencesTxHash}\`` : 'Not sequenced yet'}
+**L1 Verify Tx:** ${finality.verifyBatchTxHash ? `\`${finality.verifyBatchTxHash}\`` : 'Not verified yet'}
+**Target (${targetStatus}):** ${targetReached ? '✅ Reached' : timedOut ? `⌛ Not reached after ${timeoutSeconds}s` : '❌ Not reached yet'}
+**Method:** ${method}`;
+
+      if (callback) {
+        await callback({
+          text,
+          content: { success: true, ...finality, targetStatus, targetReached },
+        });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          finalityRetrieved: true,
+          status: finality.status,
+          targetReached,
+          timedOut,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY',
+          ...finality,
+          targetStatus,
+          targetReached,
+          timedOut,
+          waitedMs: Date.now() - startedAt,
+          method,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to get transaction finality: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[getTransactionFinalityAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { finalityRetrieved: false, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY',
+          error: errorMessage,
+          transactionHash: params.transactionHash,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Is my tx 0x9f8e7d6c5b4a39281706f5e4d3c2b1a09f8e7d6c5b4a39281706f5e4d3c2b1a0 final on L1 yet?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔐 **Transaction Finality (Polygon zkEVM)**\n\n**Status:** 🟡 Virtual - sequenced on Ethereum, awaiting proof',
+          action: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Wait until 0x9f8e7d6c5b4a39281706f5e4d3c2b1a09f8e7d6c5b4a39281706f5e4d3c2b1a0 is proven on Ethereum, up to 20 minutes',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔐 **Transaction Finality (Polygon zkEVM)**\n\n**Status:** 🟢 Consolidated - proven on Ethereum, final\n**Target (consolidated):** ✅ Reached',
+          action: 'POLYGON_ZKEVM_GET_TRANSACTION_FINALITY',
+        },
+      },
+    ],
+  ],
+});
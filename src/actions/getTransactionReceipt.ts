@@ -7,13 +7,19 @@ import {
   type State,
   logger
 } from '@elizaos/core';
-import { JsonRpcProvider } from 'ethers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { withNetworkProfile } from '../networks';
+import {
+  type DecodedRevert,
+  explainFailedTransaction,
+  formatRevert,
+} from '../utils/revertDecoder';
 
 /**
  * Get transaction receipt action for Polygon zkEVM
  * Retrieves transaction receipt details by transaction hash
  */
-export const getTransactionReceiptAction: Action = {
+export const getTransactionReceiptAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_GET_TRANSACTION_RECEIPT',
   similes: ['GET_TX_RECEIPT', 'TRANSACTION_RECEIPT', 'TX_RECEIPT', 'RECEIPT'].map(
     (s) => `POLYGON_ZKEVM_${s}`
@@ -22,7 +28,7 @@ export const getTransactionReceiptAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -59,24 +65,10 @@ export const getTransactionReceiptAction: Action = {
 
       const txHash = txHashMatch[0];
 
-      // Setup provider - prefer Alchemy, fallback to RPC
-      let provider: JsonRpcProvider;
-      const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-
-      if (alchemyApiKey) {
-        provider = new JsonRpcProvider(
-          `${runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2'}/${alchemyApiKey}`
-        );
-      } else {
-        const zkevmRpcUrl =
-          runtime.getSetting('ZKEVM_RPC_URL') ||
-          runtime.getSetting('ZKEVM_RPC_URL') ||
-          'https://zkevm-rpc.com';
-        provider = new JsonRpcProvider(zkevmRpcUrl);
-      }
-
-      // Get transaction receipt
-      const receipt = await provider.getTransactionReceipt(txHash);
+      // Get transaction receipt - a critical read, checked against the quorum when one is configured
+      const { value: receipt, endpoints } = await getZkEvmProviderService(runtime).readCritical(
+        (provider) => provider.getTransactionReceipt(txHash)
+      );
 
       if (!receipt) {
         const errText = `Transaction receipt not found: ${txHash}. The transaction may be pending or does not exist.`;
@@ -90,6 +82,23 @@ export const getTransactionReceiptAction: Action = {
         };
       }
 
+      // Receipts carry no revert data - a failed transaction is replayed to find out why
+      let revert: DecodedRevert | null = null;
+      if (receipt.status === 0) {
+        try {
+          const { value: transaction } = await getZkEvmProviderService(runtime).read((provider) =>
+            provider.getTransaction(txHash)
+          );
+          if (transaction) {
+            revert = await explainFailedTransaction(runtime, transaction, receipt.blockNumber);
+          }
+        } catch (error) {
+          logger.debug(
+            `Could not fetch transaction ${txHash} to decode its revert: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+
       // Format receipt details
       const gasUsedPercent = 'N/A'; // Gas limit not available in receipt
       const effectiveGasPriceGwei = receipt.gasPrice
@@ -105,7 +114,12 @@ export const getTransactionReceiptAction: Action = {
 📊 Status: ${status}
 ⛽ Gas Used: ${receipt.gasUsed?.toString()} (${gasUsedPercent}% of limit)
 💸 Effective Gas Price: ${effectiveGasPriceGwei} Gwei
-🔢 Transaction Index: ${receipt.index}`;
+🔢 Transaction Index: ${receipt.index}
+🌐 Method: ${endpoints.join(', ')}`;
+
+      if (revert) {
+        responseText += `\n🚫 Revert: ${formatRevert(revert)}`;
+      }
 
       // Add contract address if it's a contract creation
       if (receipt.contractAddress) {
@@ -122,7 +136,13 @@ export const getTransactionReceiptAction: Action = {
         success: true,
         text: responseText,
         values: { receiptRetrieved: true, hash: receipt.hash },
-        data: { actionName: 'POLYGON_ZKEVM_GET_TRANSACTION_RECEIPT', hash: receipt.hash, blockNumber: receipt.blockNumber },
+        data: {
+          actionName: 'POLYGON_ZKEVM_GET_TRANSACTION_RECEIPT',
+          hash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          method: endpoints.join(', '),
+          revert,
+        },
       };
     } catch (error) {
       logger.error('Error in GET_TRANSACTION_RECEIPT_ZKEVM action:', error);
@@ -164,4 +184,4 @@ export const getTransactionReceiptAction: Action = {
       },
     ],
   ],
-};
+});
@@ -10,15 +10,32 @@ import {
 } from '@elizaos/core';
 import {
   Contract,
-  JsonRpcProvider,
   parseEther,
-  parseUnits,
-  Wallet
+  parseUnits
 } from 'ethers';
 import { interactSmartContractTemplate } from '../templates';
 import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, resolveNetworkProfile, withNetworkProfile } from '../networks';
+import {
+  type DeployedContract,
+  findDeployedContract,
+  getDeployedContracts,
+} from '../utils/contractRegistry';
+import {
+  type ResolvedAbi,
+  findFunction,
+  isBareSignature,
+  resolveContractAbi,
+} from '../utils/abiResolver';
+import {
+  type DecodedRevert,
+  decodeRevert,
+  explainFailedTransaction,
+  formatRevert,
+} from '../utils/revertDecoder';
 
-export const interactSmartContractAction: Action = {
+export const interactSmartContractAction: Action = withNetworkProfile({
   name: 'POLYGON_ZKEVM_INTERACT_SMART_CONTRACT',
   similes: [
     'CALL_CONTRACT',
@@ -32,7 +49,7 @@ export const interactSmartContractAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
 
     if (!alchemyApiKey && !zkevmRpcUrl) {
       return false;
@@ -64,8 +81,19 @@ export const interactSmartContractAction: Action = {
 
     // Must contain contract interaction keywords OR have contract address pattern
     const hasKeywords = contractKeywords.some((keyword) => content.includes(keyword));
+    if (hasKeywords || hasContractAddress) {
+      return true;
+    }
 
-    return hasKeywords || hasContractAddress;
+    // Or name a contract deployed by the agent
+    try {
+      const deployed = await getDeployedContracts(runtime, resolveNetworkProfile(runtime).l2.chainId);
+      return deployed.some(
+        (contract) => contract.name && content.includes(contract.name.toLowerCase())
+      );
+    } catch {
+      return false;
+    }
   },
 
   handler: async (
@@ -77,8 +105,10 @@ export const interactSmartContractAction: Action = {
   ): Promise<ActionResult> => {
     logger.info('[interactSmartContractAction] Handler called!');
 
+    const networkLabel = getNetworkLabel(runtime);
+
     const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
-    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
     const privateKey = runtime.getSetting('PRIVATE_KEY');
 
     if (!privateKey) {
@@ -112,16 +142,21 @@ export const interactSmartContractAction: Action = {
     }
 
     let interactionParams: any | null = null;
+    let registered: DeployedContract | null = null;
+    let resolvedAbi: ResolvedAbi | null = null;
     let transactionHash: string | null = null;
-    let methodUsed: 'alchemy' | 'rpc' | null = null;
+    let methodUsed: string | null = null;
     let errorMessages: string[] = [];
 
     // Extract interaction parameters using LLM
     try {
       interactionParams = await callLLMWithTimeout<{
-        contractAddress: string;
-        abi: any[];
+        contractAddress?: string;
+        contractName?: string;
+        abi?: any[];
         methodName: string;
+        methodSignature?: string;
+        standard?: string;
         args?: any[];
         gasLimit?: string | number;
         gasPrice?: string;
@@ -140,6 +175,21 @@ export const interactSmartContractAction: Action = {
         throw new Error(interactionParams?.error);
       }
 
+      // Contracts deployed by the agent can be called by name
+      if (!interactionParams?.contractAddress && interactionParams?.contractName) {
+        registered = await findDeployedContract(
+          runtime,
+          getZkEvmProviderService(runtime).getNetwork().l2.chainId,
+          interactionParams.contractName
+        );
+        if (!registered) {
+          throw new Error(
+            `No deployed contract named "${interactionParams.contractName}" in the contract registry. Please provide its address.`
+          );
+        }
+        interactionParams.contractAddress = registered.address;
+      }
+
       // Validate required parameters
       if (
         !interactionParams?.contractAddress ||
@@ -149,7 +199,12 @@ export const interactSmartContractAction: Action = {
         throw new Error('Invalid contract address received from LLM. Address must start with 0x.');
       }
 
-      if (!interactionParams?.abi || !Array.isArray(interactionParams.abi)) {
+      // Without an ABI, one is resolved before calling the contract
+      if (
+        interactionParams.abi !== undefined &&
+        interactionParams.abi !== null &&
+        !Array.isArray(interactionParams.abi)
+      ) {
         throw new Error('Invalid ABI received from LLM. ABI must be a JSON array.');
       }
 
@@ -171,25 +226,10 @@ export const interactSmartContractAction: Action = {
       );
     }
 
-    // Determine RPC URL
-    const rpcUrl = alchemyApiKey
-      ? `${runtime.getSetting('ZKEVM_ALCHEMY_URL') || 'https://polygonzkevm-mainnet.g.alchemy.com/v2'}/${alchemyApiKey}`
-      : zkevmRpcUrl;
-
-    if (!rpcUrl) {
-      const errorMessage = 'Unable to determine RPC URL for contract interaction.';
-      logger.error(`[interactSmartContractAction] ${errorMessage}`);
-      const errorContent: Content = {
-        text: errorMessage,
-        actions: ['POLYGON_INTERACT_SMART_CONTRACT_ZKEVM'],
-        data: { error: errorMessage },
-      };
-
-      if (callback) {
-        await callback(errorContent);
-      }
-      throw new Error(errorMessage);
-    }
+    // Get the shared provider pool - Alchemy first when configured, then the direct RPC endpoints
+    const zkevmService = getZkEvmProviderService(runtime);
+    const contractNameText = registered?.name ? `\n**Contract:** ${registered.name}` : '';
+    let revert: DecodedRevert | null = null;
 
     // 1. Attempt contract interaction using Alchemy/RPC with ethers.js
     try {
@@ -197,8 +237,31 @@ export const interactSmartContractAction: Action = {
         `[interactSmartContractAction] Attempting contract interaction at ${interactionParams.contractAddress}`
       );
 
-      const provider = new JsonRpcProvider(rpcUrl);
-      const wallet = new Wallet(privateKey, provider);
+      // Transactions are sent through the preferred healthy endpoint
+      const endpointName = zkevmService.getEndpointName();
+      const provider = zkevmService.getProvider();
+      const wallet = await zkevmService.getSigner();
+
+      // From the message, the contract registry, ABI files, well-known interfaces, the explorer
+      // or the function signature - whichever first has the method
+      resolvedAbi = await resolveContractAbi(runtime, zkevmService.getNetwork().l2.chainId, {
+        address: interactionParams.contractAddress,
+        method: interactionParams.methodName,
+        args: interactionParams.args,
+        abi: interactionParams.abi,
+        contractName: interactionParams.contractName,
+        standard: interactionParams.standard,
+        signature: interactionParams.methodSignature,
+      });
+      if (!resolvedAbi) {
+        throw new Error(
+          `No ABI with method '${interactionParams.methodName}' found for ${interactionParams.contractAddress}. Provide the ABI or the function signature, e.g. "function fee() view returns (uint256)".`
+        );
+      }
+      interactionParams.abi = resolvedAbi.abi;
+      logger.info(
+        `[interactSmartContractAction] Using ABI from ${resolvedAbi.source} (${resolvedAbi.detail})`
+      );
 
       // Create contract instance
       const contract = new Contract(
@@ -213,11 +276,18 @@ export const interactSmartContractAction: Action = {
       }
 
       // Check if this is a view/pure function (read-only)
-      const methodAbi = interactionParams.abi.find(
-        (item: any) => item.type === 'function' && item.name === interactionParams.methodName
-      );
+      const methodAbi =
+        findFunction(interactionParams.abi, interactionParams.methodName, interactionParams.args) ??
+        interactionParams.abi.find(
+          (item: any) => item.type === 'function' && item.name === interactionParams.methodName
+        );
+      // A bare signature such as `fee()` is only sent as a transaction when it says `nonpayable` or
+      // `payable`, and its raw return data is reported
+      const bareSignature =
+        resolvedAbi.source === 'signature' && isBareSignature(resolvedAbi.detail);
       const isReadOnly =
-        methodAbi && (methodAbi.stateMutability === 'view' || methodAbi.stateMutability === 'pure');
+        bareSignature ||
+        (methodAbi && (methodAbi.stateMutability === 'view' || methodAbi.stateMutability === 'pure'));
 
       if (isReadOnly) {
         // For view/pure functions, call directly and return the result
@@ -225,14 +295,21 @@ export const interactSmartContractAction: Action = {
           `[interactSmartContractAction] Calling view/pure method '${interactionParams.methodName}' with args: ${JSON.stringify(interactionParams.args)}`
         );
 
-        const result = await contract[interactionParams.methodName](...interactionParams.args);
-        methodUsed = alchemyApiKey ? 'alchemy' : 'rpc';
+        const result = bareSignature
+          ? await provider.call(
+              await contract[interactionParams.methodName].populateTransaction(
+                ...interactionParams.args
+              )
+            )
+          : await contract[interactionParams.methodName](...interactionParams.args);
+        methodUsed = endpointName;
 
         logger.info(
           `[interactSmartContractAction] View function call successful. Result: ${result?.toString()}`
         );
 
-        const successText = `✅ Smart contract view function called successfully on Polygon zkEVM!\n\n**Contract Address:** \`${interactionParams.contractAddress}\`\n**Method Called:** \`${interactionParams.methodName}\`\n**Arguments:** \`${JSON.stringify(interactionParams.args)}\`\n**Result:** \`${result?.toString()}\`\n**Method Used:** ${methodUsed}\n**Network:** Polygon zkEVM\n\nThis was a read-only function call that doesn't modify blockchain state.`;
+        const abiSourceText = `\n**ABI Source:** ${resolvedAbi.source} (${resolvedAbi.detail})`;
+        const successText = `✅ Smart contract view function called successfully on ${networkLabel.displayName}!\n\n**Contract Address:** \`${interactionParams.contractAddress}\`${contractNameText}\n**Method Called:** \`${interactionParams.methodName}\`\n**Arguments:** \`${JSON.stringify(interactionParams.args)}\`${abiSourceText}\n**Result:** \`${result?.toString()}\`\n**Method Used:** ${methodUsed}\n**Network:** ${networkLabel.displayName}\n\nThis was a read-only function call that doesn't modify blockchain state.`;
 
         if (callback) {
           await callback({ text: successText, content: { success: true, isReadOnly: true } });
@@ -245,10 +322,12 @@ export const interactSmartContractAction: Action = {
           data: {
             actionName: 'POLYGON_ZKEVM_INTERACT_SMART_CONTRACT',
             contractAddress: interactionParams.contractAddress,
+            contractName: registered?.name ?? null,
+            abiSource: resolvedAbi.source,
             methodName: interactionParams.methodName,
             args: interactionParams.args,
             result: result?.toString(),
-            network: 'polygon-zkevm',
+            network: networkLabel.network,
             timestamp: Date.now(),
             method: methodUsed,
             isReadOnly: true,
@@ -277,6 +356,10 @@ export const interactSmartContractAction: Action = {
           transactionOptions.gasLimit = Math.floor(Number(estimatedGas) * 1.2); // Add 20% buffer
           logger.info(`[interactSmartContractAction] Estimated gas: ${estimatedGas.toString()}`);
         } catch (gasError) {
+          // A call that reverts in the estimate would revert on chain too - don't send it
+          if (decodeRevert(gasError)) {
+            throw gasError;
+          }
           logger.warn(
             `[interactSmartContractAction] Gas estimation failed, using default: ${gasError}`
           );
@@ -333,28 +416,46 @@ export const interactSmartContractAction: Action = {
         `[interactSmartContractAction] Contract interaction transaction sent: ${transactionHash}`
       );
 
-      // Wait for the transaction to be mined
-      const receipt = await transaction.wait();
+      // Wait for the transaction to be mined - ethers rejects reverted transactions with the receipt
+      const receipt = await transaction.wait().catch((waitError: any) => {
+        if (waitError?.receipt) {
+          return waitError.receipt;
+        }
+        throw waitError;
+      });
 
       if (receipt && receipt.status === 1) {
-        methodUsed = alchemyApiKey ? 'alchemy' : 'rpc';
+        methodUsed = endpointName;
 
         logger.info(
           `[interactSmartContractAction] Contract interaction successful. Gas used: ${receipt.gasUsed.toString()}`
         );
       } else {
+        // The receipt has no revert data - replay the call to find out why it failed
+        revert = receipt
+          ? await explainFailedTransaction(
+              runtime,
+              transaction,
+              receipt.blockNumber,
+              interactionParams.abi
+            )
+          : null;
         throw new Error('Contract interaction failed - transaction was reverted');
       }
     } catch (error) {
       logger.error(`[interactSmartContractAction] Contract interaction failed:`, error);
+      revert ??= decodeRevert(error, interactionParams?.abi);
       errorMessages.push(
-        `Contract interaction failed: ${error instanceof Error ? error.message : String(error)}`
+        revert
+          ? `Contract interaction ${formatRevert(revert)}`
+          : `Contract interaction failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
-    // Handle result and errors
-    if (transactionHash) {
-      const successText = `✅ Smart contract interaction successful on Polygon zkEVM!\n\n**Contract Address:** \`${interactionParams.contractAddress}\`\n**Method Called:** \`${interactionParams.methodName}\`\n**Arguments:** \`${JSON.stringify(interactionParams.args)}\`\n**Transaction Hash:** \`${transactionHash}\`\n**Method Used:** ${methodUsed}\n**Network:** Polygon zkEVM\n\nThis was a state-changing transaction that has been sent to the network.`;
+    // Handle result and errors - a reverted transaction has a hash but is not a success
+    if (transactionHash && errorMessages.length === 0) {
+      const abiSourceText = `\n**ABI Source:** ${resolvedAbi.source} (${resolvedAbi.detail})`;
+      const successText = `✅ Smart contract interaction successful on ${networkLabel.displayName}!\n\n**Contract Address:** \`${interactionParams.contractAddress}\`${contractNameText}\n**Method Called:** \`${interactionParams.methodName}\`\n**Arguments:** \`${JSON.stringify(interactionParams.args)}\`${abiSourceText}\n**Transaction Hash:** \`${transactionHash}\`\n**Method Used:** ${methodUsed}\n**Network:** ${networkLabel.displayName}\n\nThis was a state-changing transaction that has been sent to the network.`;
 
       if (callback) {
         await callback({ text: successText, content: { success: true, transactionHash } });
@@ -367,10 +468,12 @@ export const interactSmartContractAction: Action = {
         data: {
           actionName: 'POLYGON_ZKEVM_INTERACT_SMART_CONTRACT',
           contractAddress: interactionParams.contractAddress,
+          contractName: registered?.name ?? null,
+          abiSource: resolvedAbi.source,
           methodName: interactionParams.methodName,
           args: interactionParams.args,
           transactionHash,
-          network: 'polygon-zkevm',
+          network: networkLabel.network,
           timestamp: Date.now(),
           method: methodUsed,
           interactionParams: {
@@ -381,7 +484,7 @@ export const interactSmartContractAction: Action = {
       };
     } else {
       // Contract interaction failed
-      const errorMessage = `Failed to interact with smart contract on Polygon zkEVM. Errors: ${errorMessages.join('; ')}. Please check your contract address, ABI, method name, and arguments.`;
+      const errorMessage = `Failed to interact with smart contract on ${networkLabel.displayName}. Errors: ${errorMessages.join('; ')}. Please check your contract address, ABI, method name, and arguments.`;
       logger.error(errorMessage);
 
       if (callback) {
@@ -392,7 +495,14 @@ export const interactSmartContractAction: Action = {
         success: false,
         text: `❌ ${errorMessage}`,
         values: { contractInteractionSucceeded: false, error: true, errorMessage },
-        data: { actionName: 'POLYGON_ZKEVM_INTERACT_SMART_CONTRACT', error: errorMessage, errors: errorMessages, interactionParams },
+        data: {
+          actionName: 'POLYGON_ZKEVM_INTERACT_SMART_CONTRACT',
+          error: errorMessage,
+          errors: errorMessages,
+          interactionParams,
+          transactionHash,
+          revert,
+        },
         error: new Error(errorMessage),
       };
     }
@@ -430,4 +540,4 @@ export const interactSmartContractAction: Action = {
       },
     ],
   ],
-};
+});
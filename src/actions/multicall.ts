@@ -0,0 +1,266 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { isAddress } from 'ethers';
+import { multicallTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { findFunction, isBareSignature, resolveContractAbi } from '../utils/abiResolver';
+import { findDeployedContract } from '../utils/contractRegistry';
+import {
+  getMulticall3Address,
+  multicall,
+  type MulticallRequest,
+  type MulticallResult,
+} from '../utils/multicall';
+
+interface MulticallCallParams {
+  contractAddress?: string;
+  contractName?: string;
+  methodName: string;
+  methodSignature?: string;
+  standard?: string;
+  abi?: any[];
+  args?: unknown[];
+  allowFailure?: boolean;
+}
+
+/**
+ * Decoded values as JSON-safe data: integers as strings, tuples and arrays as arrays
+ */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  return value;
+}
+
+function formatResult(result: MulticallResult, label: string, index: number): string {
+  return result.success
+    ? `${index + 1}. ✅ ${label}.\`${result.method}\` → \`${JSON.stringify(toJsonValue(result.value))}\``
+    : `${index + 1}. ❌ ${label}.\`${result.method}\` - ${result.error}`;
+}
+
+/**
+ * Read many view functions, across contracts, in one Multicall3 `aggregate3` call
+ */
+export const multicallAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_MULTICALL',
+  similes: ['BATCH_READ', 'BATCH_CALL', 'MULTICALL3', 'READ_MULTIPLE_CONTRACTS'].map(
+    (s) => `POLYGON_ZKEVM_${s}`
+  ),
+  description:
+    'Reads several view functions of one or more contracts on Polygon zkEVM in a single batched Multicall3 call.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[multicallAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    let params: { calls: MulticallCallParams[]; blockTag?: string | number; error?: string };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        multicallTemplate,
+        'multicallAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!Array.isArray(params?.calls) || params.calls.length === 0) {
+        throw new Error('No contract calls to batch');
+      }
+      for (const call of params.calls) {
+        if (!call?.methodName) {
+          throw new Error('Every call needs a method name');
+        }
+        if (!call.contractName && (!call.contractAddress || !isAddress(call.contractAddress))) {
+          throw new Error(`Invalid contract address: ${call.contractAddress}`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = `[multicallAction] Failed to extract contract calls from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { multicallSucceeded: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_MULTICALL', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const blockTag = params.blockTag ?? 'latest';
+
+    try {
+      const zkevmService = getZkEvmProviderService(runtime);
+      const chainId = zkevmService.getNetwork().l2.chainId;
+
+      // Each call is resolved like a single contract interaction: by name from the registry, and
+      // with the first ABI that has the function
+      const requests: MulticallRequest[] = [];
+      const labels: string[] = [];
+      for (const call of params.calls) {
+        const registered = call.contractAddress
+          ? null
+          : await findDeployedContract(runtime, chainId, call.contractName);
+        if (!call.contractAddress && !registered) {
+          throw new Error(
+            `No deployed contract named "${call.contractName}" in the contract registry`
+          );
+        }
+        const address = call.contractAddress ?? registered.address;
+        const args = call.args ?? [];
+
+        const resolved = await resolveContractAbi(runtime, chainId, {
+          address,
+          method: call.methodName,
+          args,
+          abi: call.abi,
+          contractName: call.contractName,
+          standard: call.standard,
+          signature: call.methodSignature,
+        });
+        if (!resolved) {
+          throw new Error(
+            `No ABI with method '${call.methodName}' found for ${address}. Provide the ABI or the function signature.`
+          );
+        }
+        const fragment = findFunction(resolved.abi, call.methodName, args);
+        // A bare signature such as `balanceOf(address)` is read like a view function
+        const bareSignature = resolved.source === 'signature' && isBareSignature(resolved.detail);
+        if (
+          !bareSignature &&
+          fragment.stateMutability !== 'view' &&
+          fragment.stateMutability !== 'pure'
+        ) {
+          throw new Error(
+            `${fragment.format()} on ${address} is not a view function - use a contract interaction to call it`
+          );
+        }
+
+        requests.push({
+          target: address,
+          abi: resolved.abi,
+          method: call.methodName,
+          args,
+          allowFailure: call.allowFailure ?? true,
+        });
+        labels.push(call.contractName ?? registered?.name ?? `\`${address}\``);
+      }
+
+      const multicallAddress = getMulticall3Address(runtime);
+      const { value: results, endpoints } = await zkevmService.read((provider) =>
+        multicall(provider, requests, {
+          address: multicallAddress,
+          blockTag: blockTag === 'latest' ? undefined : Number(blockTag),
+        })
+      );
+      const method = endpoints.join(', ');
+      const failedCount = results.filter((result) => !result.success).length;
+
+      const text = `📦 **Multicall Results (${networkLabel.displayName})**
+
+${results.map((result, i) => formatResult(result, labels[i], i)).join('\n')}
+
+**Calls:** ${results.length} (${failedCount} failed)
+**Block:** ${blockTag}
+**Method:** ${method}`;
+
+      const data = results.map((result) => ({
+        target: result.target,
+        method: result.method,
+        success: result.success,
+        value: toJsonValue(result.value),
+        error: result.error,
+        revert: result.revert,
+      }));
+
+      if (callback) {
+        await callback({ text, content: { success: true, results: data } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: { multicallSucceeded: true, callCount: results.length, failedCount },
+        data: {
+          actionName: 'POLYGON_ZKEVM_MULTICALL',
+          results: data,
+          multicallAddress,
+          blockTag,
+          network: networkLabel.network,
+          method,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to batch contract calls: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[multicallAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { multicallSucceeded: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_MULTICALL', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Read the name, symbol and totalSupply of token 0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035 and my FeeVault fee',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '📦 **Multicall Results (Polygon zkEVM)**\n\n1. ✅ `0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035`.`name()` → `"USD Coin"`\n2. ✅ `0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035`.`symbol()` → `"USDC"`\n3. ✅ `0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035`.`totalSupply()` → `"1000000000000"`\n4. ✅ FeeVault.`fee()` → `"250"`',
+          action: 'POLYGON_ZKEVM_MULTICALL',
+        },
+      },
+    ],
+  ],
+});
@@ -0,0 +1,446 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { Interface, getAddress, isAddress } from 'ethers';
+import { upgradeProxyTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import {
+  type ContractAbi,
+  type EncodedFunctionCall,
+  encodeFunctionCall,
+} from '../utils/abiEncoding';
+import { loadArtifact, recordArtifactDeployment } from '../utils/artifacts';
+import { findDeployedContract, recordDeployedContract, toJsonAbi } from '../utils/contractRegistry';
+import {
+  type PreparedImplementation,
+  type ProxyInfo,
+  buildUpgradeTransaction,
+  getImplementationRecord,
+  isUupsImplementation,
+  prepareImplementation,
+  readProxyInfo,
+  recordImplementation,
+  sendDeployment,
+} from '../utils/proxy';
+import { type StorageLayout, compareStorageLayouts } from '../utils/storageLayout';
+
+interface StorageCheck {
+  status: 'passed' | 'failed' | 'skipped';
+  errors: string[];
+  warnings: string[];
+  /** Why the check was skipped */
+  reason?: string;
+}
+
+function describeStorageCheck(check: StorageCheck): string {
+  if (check.status === 'skipped') {
+    return `⚠️ Skipped - ${check.reason}`;
+  }
+  const issues = [...check.errors, ...check.warnings].map((issue) => `\n- ${issue}`).join('');
+  return check.status === 'passed'
+    ? `✅ Compatible${issues}`
+    : `❌ Incompatible, upgraded anyway${issues}`;
+}
+
+/**
+ * Upgrade a UUPS or transparent ERC-1967 proxy to a new implementation, after checking that the
+ * new implementation keeps the storage layout of the current one
+ */
+export const upgradeProxyAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_UPGRADE_PROXY',
+  similes: ['UPGRADE_PROXY', 'UPGRADE_CONTRACT', 'UPGRADE_IMPLEMENTATION', 'UPGRADE_TO'].map(
+    (s) => `POLYGON_ZKEVM_${s}`
+  ),
+  description:
+    'Upgrades a UUPS or transparent proxy on Polygon zkEVM to a new implementation, checking the storage layout against the current implementation when both layouts are available.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[upgradeProxyAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    if (!runtime.getSetting('PRIVATE_KEY')) {
+      const errorMessage = 'PRIVATE_KEY is required for proxy upgrades.';
+      logger.error(`[upgradeProxyAction] Configuration error: ${errorMessage}`);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyUpgraded: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_UPGRADE_PROXY', error: errorMessage },
+        error: new Error(errorMessage),
+      };
+    }
+
+    let params: {
+      proxy: string;
+      artifact?: string;
+      source?: string;
+      contractName?: string;
+      implementation?: string;
+      previousArtifact?: string;
+      abi?: ContractAbi;
+      call?: string;
+      callArgs?: unknown[];
+      unsafeSkipStorageCheck?: boolean;
+      libraries?: Record<string, string>;
+      gasLimit?: string | number;
+      error?: string;
+    };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        upgradeProxyTemplate,
+        'upgradeProxyAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!params?.proxy || !isAddress(params.proxy)) {
+        throw new Error(`Invalid proxy address: ${params?.proxy}`);
+      }
+      if (!params.artifact && !params.source && !params.implementation) {
+        throw new Error('No new implementation artifact, source or address extracted from input.');
+      }
+      if (params.implementation && !isAddress(params.implementation)) {
+        throw new Error(`Invalid implementation address: ${params.implementation}`);
+      }
+    } catch (error) {
+      const errorMessage = `[upgradeProxyAction] Failed to extract upgrade parameters from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyUpgraded: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_UPGRADE_PROXY', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const zkevmService = getZkEvmProviderService(runtime);
+    const network = zkevmService.getNetwork().name;
+    const chainId = zkevmService.getNetwork().l2.chainId;
+    let info: ProxyInfo;
+    let prepared: PreparedImplementation | null = null;
+    let call: EncodedFunctionCall | null = null;
+    let storageCheck: StorageCheck | null = null;
+    let abi: ContractAbi | null = params.abi ?? null;
+
+    // Everything that can be checked before sending is checked here - a bad upgrade bricks the proxy
+    try {
+      const provider = zkevmService.getProvider();
+      ({ value: info } = await zkevmService.readCritical((p) => readProxyInfo(p, params.proxy)));
+      if (!info.kind) {
+        throw new Error(`${info.address} is not an ERC-1967 proxy`);
+      }
+      if (info.kind === 'beacon') {
+        throw new Error(
+          `${info.address} is a beacon proxy, upgrade its beacon ${info.beacon} instead`
+        );
+      }
+
+      // Only the admin of a transparent proxy may upgrade it
+      const wallet = await zkevmService.getSigner();
+      if (info.kind === 'transparent') {
+        const upgrader = info.adminIsContract ? info.adminOwner : info.admin;
+        if (upgrader && upgrader !== wallet.address) {
+          throw new Error(
+            `Only ${info.adminIsContract ? 'the ProxyAdmin owner' : 'the proxy admin'} ${upgrader} can upgrade ${info.address}, the agent wallet is ${wallet.address}`
+          );
+        }
+      } else if (!info.proxiable) {
+        throw new Error(
+          `The current implementation ${info.implementation} is not UUPS-proxiable, so ${info.address} cannot be upgraded`
+        );
+      }
+
+      let nextLayout: StorageLayout | null = null;
+      if (params.artifact || params.source) {
+        prepared = await prepareImplementation(runtime, network, params);
+        abi = prepared.artifact.abi;
+        nextLayout = prepared.artifact.storageLayout ?? null;
+        const iface = new Interface(abi);
+        if (
+          info.kind === 'uups' &&
+          !(iface.hasFunction('proxiableUUID') && iface.hasFunction('upgradeToAndCall'))
+        ) {
+          throw new Error(
+            `${prepared.artifact.contractName} is not a UUPS implementation (no proxiableUUID/upgradeToAndCall): upgrading to it would make the proxy non-upgradeable`
+          );
+        }
+      } else {
+        const implementation = getAddress(params.implementation);
+        if (implementation === info.implementation) {
+          throw new Error(`${info.address} already uses implementation ${implementation}`);
+        }
+        if ((await provider.getCode(implementation)) === '0x') {
+          throw new Error(`No contract deployed at implementation ${implementation}`);
+        }
+        if (info.kind === 'uups' && !(await isUupsImplementation(provider, implementation))) {
+          throw new Error(
+            `${implementation} is not a UUPS implementation: upgrading to it would make the proxy non-upgradeable`
+          );
+        }
+        nextLayout =
+          (await getImplementationRecord(runtime, network, implementation))?.storageLayout ?? null;
+        abi ??= (await findDeployedContract(runtime, chainId, implementation))?.abi ?? null;
+      }
+
+      // The current layout comes from the given artifact, or from the recorded deployment
+      let previousLayout: StorageLayout | null = null;
+      let previousName = info.implementation;
+      if (params.previousArtifact) {
+        const previous = await loadArtifact(runtime, params.previousArtifact);
+        previousLayout = previous.storageLayout ?? null;
+        previousName = previous.contractName;
+      } else {
+        const record = await getImplementationRecord(runtime, network, info.implementation);
+        previousLayout = record?.storageLayout ?? null;
+        previousName = record?.contractName ?? previousName;
+      }
+
+      if (!previousLayout || !nextLayout) {
+        storageCheck = {
+          status: 'skipped',
+          errors: [],
+          warnings: [],
+          reason: `no storage layout for the ${previousLayout ? 'new' : 'current'} implementation`,
+        };
+      } else {
+        const report = compareStorageLayouts(previousLayout, nextLayout);
+        storageCheck = { status: report.errors.length ? 'failed' : 'passed', ...report };
+        if (report.errors.length && !params.unsafeSkipStorageCheck) {
+          throw new Error(
+            `The storage layout of the new implementation is incompatible with ${previousName}:\n${report.errors.map((e) => `- ${e}`).join('\n')}`
+          );
+        }
+      }
+
+      if (params.call) {
+        call = encodeFunctionCall(abi, params.call, params.callArgs ?? []);
+      }
+    } catch (error) {
+      const errorMessage = `Failed to prepare upgrade: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[upgradeProxyAction] ${errorMessage}`);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { proxyUpgraded: false, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_UPGRADE_PROXY',
+          error: errorMessage,
+          proxy: params.proxy,
+          storageCheck,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    let implementationAddress: string | null = params.implementation
+      ? getAddress(params.implementation)
+      : null;
+    let implementationTx: string | null = null;
+    const artifactName = prepared
+      ? `${prepared.artifact.sourceName ? `${prepared.artifact.sourceName}:` : ''}${prepared.artifact.contractName}`
+      : null;
+
+    try {
+      const wallet = await zkevmService.getSigner();
+      const gasLimit = params.gasLimit ? BigInt(params.gasLimit) : undefined;
+
+      if (prepared) {
+        const deployed = await sendDeployment(wallet, prepared.bytecode, gasLimit);
+        implementationAddress = deployed.address;
+        implementationTx = deployed.transactionHash;
+        logger.info(
+          `[upgradeProxyAction] ${prepared.artifact.contractName} implementation deployed at ${implementationAddress}`
+        );
+
+        await Promise.all([
+          recordArtifactDeployment(runtime, network, prepared.artifact, implementationAddress),
+          recordImplementation(runtime, network, implementationAddress, prepared.artifact),
+          recordDeployedContract(runtime, {
+            name: null,
+            address: implementationAddress,
+            network,
+            chainId,
+            transactionHash: implementationTx,
+            abi: prepared.artifact.abi,
+            artifact: artifactName,
+            constructorArgs: [],
+            encodedConstructorArgs: null,
+            deployer: wallet.address,
+            deployedAt: Date.now(),
+          }),
+        ]).catch((recordError) =>
+          logger.warn(`[upgradeProxyAction] Failed to record implementation: ${recordError}`)
+        );
+      }
+
+      const upgrade = buildUpgradeTransaction(info, implementationAddress, call?.data);
+      const tx = await wallet.sendTransaction(gasLimit ? { ...upgrade, gasLimit } : upgrade);
+      const receipt = await tx.wait();
+      if (receipt?.status === 0) {
+        throw new Error(`Upgrade transaction ${tx.hash} reverted`);
+      }
+
+      const { value: upgraded, endpoints } = await zkevmService.readCritical((provider) =>
+        readProxyInfo(provider, info.address)
+      );
+      if (upgraded.implementation !== implementationAddress) {
+        throw new Error(
+          `Proxy ${info.address} reports implementation ${upgraded.implementation} instead of ${implementationAddress}`
+        );
+      }
+      const method = endpoints.join(', ');
+
+      // A registered proxy is now called with the ABI of its new implementation
+      const registered = await findDeployedContract(runtime, chainId, info.address);
+      if (registered) {
+        await recordDeployedContract(runtime, {
+          ...registered,
+          abi: abi ? toJsonAbi(abi) : registered.abi,
+          artifact: artifactName ?? registered.artifact,
+          implementation: implementationAddress,
+        }).catch((recordError) =>
+          logger.warn(`[upgradeProxyAction] Failed to update proxy ${info.address}: ${recordError}`)
+        );
+      }
+
+      const text = `✅ Proxy upgraded on ${networkLabel.displayName}!
+
+**Proxy:** \`${info.address}\` (${info.kind === 'uups' ? 'UUPS' : 'Transparent'})
+**Previous Implementation:** \`${info.implementation}\`
+**New Implementation:** \`${implementationAddress}\`${prepared ? ` (${prepared.artifact.contractName})` : ''}${implementationTx ? `\n**Implementation Tx:** \`${implementationTx}\`` : ''}
+**Upgrade Tx:** \`${tx.hash}\`${call ? `\n**Upgrade Call:** \`${call.signature}\`` : ''}
+**Storage Layout:** ${describeStorageCheck(storageCheck)}
+**Method Used:** ${method}
+**Network:** ${networkLabel.displayName}`;
+
+      if (callback) {
+        await callback({
+          text,
+          content: {
+            success: true,
+            proxyAddress: info.address,
+            implementationAddress,
+            transactionHash: tx.hash,
+          },
+        });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          proxyUpgraded: true,
+          proxyAddress: info.address,
+          previousImplementation: info.implementation,
+          implementationAddress,
+          storageCheck: storageCheck.status,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_UPGRADE_PROXY',
+          proxyAddress: info.address,
+          kind: info.kind,
+          previousImplementation: info.implementation,
+          implementationAddress,
+          transactionHashes: { implementation: implementationTx, upgrade: tx.hash },
+          upgradeCall: call ? { signature: call.signature, data: call.data } : null,
+          storageCheck,
+          artifact: prepared
+            ? {
+                contractName: prepared.artifact.contractName,
+                sourceName: prepared.artifact.sourceName,
+                format: prepared.artifact.format,
+                path: prepared.artifact.path,
+              }
+            : null,
+          linkedLibraries: prepared?.linkedLibraries ?? {},
+          network: networkLabel.network,
+          method,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Proxy upgrade failed: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[upgradeProxyAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}${implementationTx ? `\n\nThe new implementation was deployed at \`${implementationAddress}\` and can be reused.` : ''}`,
+        values: { proxyUpgraded: false, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_UPGRADE_PROXY',
+          error: errorMessage,
+          proxy: info.address,
+          implementationAddress: implementationTx ? implementationAddress : null,
+          storageCheck,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Upgrade proxy 0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe to the VaultV2 artifact and call initializeV2 with [500]',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '✅ Proxy upgraded on Polygon zkEVM!\n\n**New Implementation:** `0x...` (VaultV2)\n**Storage Layout:** ✅ Compatible',
+          action: 'POLYGON_ZKEVM_UPGRADE_PROXY',
+        },
+      },
+    ],
+  ],
+});
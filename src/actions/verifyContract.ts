@@ -0,0 +1,283 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getAddress, isAddress } from 'ethers';
+import { verifyContractTemplate } from '../templates';
+import { callLLMWithTimeout } from '../utils/llmHelpers';
+import { getZkEvmProviderService } from '../services/zkevmProvider';
+import { getNetworkLabel, withNetworkProfile } from '../networks';
+import { encodeConstructorArgs } from '../utils/abiEncoding';
+import { getArtifactDeployments, linkBytecode, loadArtifact } from '../utils/artifacts';
+import { compileSolidity, selectCompiledContract } from '../utils/solidity';
+import {
+  type VerificationInput,
+  type VerificationResult,
+  VERIFICATION_POLL_MS,
+  checkVerificationStatus,
+  getArtifactVerificationInput,
+  getVerificationInput,
+  resolveExplorerConfig,
+  verifyContract,
+  waitForVerification,
+} from '../utils/explorer';
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const MAX_TIMEOUT_SECONDS = 600;
+
+const STATUS_LABELS: Record<VerificationResult['status'], string> = {
+  verified: '✅ Verified',
+  pending: '⏳ Pending',
+  failed: '❌ Failed',
+};
+
+/**
+ * Verify a contract's source on an Etherscan-compatible explorer, or check an earlier submission
+ */
+export const verifyContractAction: Action = withNetworkProfile({
+  name: 'POLYGON_ZKEVM_VERIFY_CONTRACT',
+  similes: [
+    'VERIFY_CONTRACT',
+    'VERIFY_SOURCE',
+    'VERIFY_ON_POLYGONSCAN',
+    'CHECK_VERIFICATION',
+    'PUBLISH_SOURCE',
+  ].map((s) => `POLYGON_ZKEVM_${s}`),
+  description:
+    'Verifies the source of a contract deployed on Polygon zkEVM on an Etherscan-compatible explorer from its standard JSON input, and reports the verification GUID and status.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const alchemyApiKey = runtime.getSetting('ALCHEMY_API_KEY');
+    const zkevmRpcUrl = runtime.getSetting('ZKEVM_RPC_URL') || runtime.getSetting('ZKEVM_RPC_URLS');
+
+    if (!alchemyApiKey && !zkevmRpcUrl) {
+      return false;
+    }
+
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    logger.info('[verifyContractAction] Handler called!');
+
+    const networkLabel = getNetworkLabel(runtime);
+
+    let params: {
+      address?: string;
+      guid?: string;
+      source?: string;
+      artifact?: string;
+      contractName?: string;
+      constructorArgs?: unknown[];
+      libraries?: Record<string, string>;
+      wait?: boolean;
+      timeoutSeconds?: number;
+      error?: string;
+    };
+
+    try {
+      params = await callLLMWithTimeout<typeof params>(
+        runtime,
+        state,
+        verifyContractTemplate,
+        'verifyContractAction'
+      );
+
+      if (params?.error) {
+        throw new Error(params.error);
+      }
+
+      if (!params?.guid && (!params?.address || !isAddress(params.address))) {
+        throw new Error(`Invalid contract address: ${params?.address}`);
+      }
+    } catch (error) {
+      const errorMessage = `[verifyContractAction] Failed to extract verification parameters from input: ${error instanceof Error ? error.message : String(error)}`;
+      logger.debug(errorMessage);
+      if (callback) {
+        await callback({ text: errorMessage, content: { success: false, error: errorMessage } });
+      }
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { verificationSubmitted: false, error: true, errorMessage },
+        data: { actionName: 'POLYGON_ZKEVM_VERIFY_CONTRACT', error: errorMessage },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    const timeoutSeconds = Math.min(
+      Math.max(Number(params.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS, 1),
+      MAX_TIMEOUT_SECONDS
+    );
+    const wait = params.wait !== false;
+    const address = params.address ? getAddress(params.address) : null;
+    let input: VerificationInput | null = null;
+
+    try {
+      const config = resolveExplorerConfig(runtime);
+      const network = getZkEvmProviderService(runtime).getNetwork().name;
+      let result: VerificationResult;
+
+      if (params.guid && !params.source && !params.artifact) {
+        // Status of an earlier submission
+        result = wait
+          ? await waitForVerification(config, params.guid, Date.now() + timeoutSeconds * 1000)
+          : await checkVerificationStatus(config, params.guid);
+      } else {
+        if (!address) {
+          throw new Error('The address of the contract to verify is required');
+        }
+        if (params.source || params.artifact) {
+          const compilation = params.source
+            ? await compileSolidity(params.source, {
+                evmVersion: runtime.getSetting('SOLC_EVM_VERSION') || undefined,
+              })
+            : null;
+          if (compilation?.errors.length) {
+            throw new Error(`Compilation failed:\n${compilation.errors.join('\n')}`);
+          }
+          const artifact = compilation
+            ? selectCompiledContract(compilation, params.contractName)
+            : await loadArtifact(runtime, params.artifact);
+          const { encodedArgs } = encodeConstructorArgs(artifact.abi, params.constructorArgs ?? []);
+          const { linkedLibraries } = linkBytecode(artifact, {
+            ...(await getArtifactDeployments(runtime, network)),
+            ...params.libraries,
+          });
+          input = await getArtifactVerificationInput(
+            artifact,
+            compilation,
+            encodedArgs,
+            linkedLibraries
+          );
+          if (!input) {
+            throw new Error(
+              `No compiler input found for ${artifact.contractName}: only Solidity source and Hardhat artifacts with build info can be verified`
+            );
+          }
+        } else {
+          input = await getVerificationInput(runtime, network, address);
+          if (!input) {
+            throw new Error(
+              `No recorded compiler input for ${address}. Provide the Solidity source or the artifact it was deployed from.`
+            );
+          }
+        }
+
+        logger.info(`[verifyContractAction] Submitting ${input.contractName} at ${address}`);
+        result = await verifyContract(
+          config,
+          address,
+          input,
+          wait ? timeoutSeconds * 1000 : 0,
+          VERIFICATION_POLL_MS
+        );
+      }
+
+      if (result.status === 'failed') {
+        throw Object.assign(new Error(`Verification failed: ${result.message}`), { result });
+      }
+
+      const text = `🔎 **Contract Verification (${networkLabel.displayName})**
+
+${address ? `**Contract:** \`${address}\`\n` : ''}${input ? `**Contract Name:** ${input.contractName}\n**Compiler:** ${input.compilerVersion}\n` : ''}**Status:** ${STATUS_LABELS[result.status]}${result.alreadyVerified ? ' (already verified)' : ''} - ${result.message}
+**GUID:** ${result.guid ? `\`${result.guid}\`` : 'N/A'}
+**Explorer API:** ${config.apiUrl}${result.status === 'pending' ? '\n\nThe explorer is still processing the submission, check again later with the GUID.' : ''}`;
+
+      if (callback) {
+        await callback({ text, content: { success: true, address, ...result } });
+      }
+
+      return {
+        success: true,
+        text,
+        values: {
+          verificationSubmitted: true,
+          verified: result.status === 'verified',
+          status: result.status,
+          guid: result.guid,
+        },
+        data: {
+          actionName: 'POLYGON_ZKEVM_VERIFY_CONTRACT',
+          address,
+          ...result,
+          contractName: input?.contractName ?? null,
+          compilerVersion: input?.compilerVersion ?? null,
+          explorerApiUrl: config.apiUrl,
+          network: networkLabel.network,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = `Failed to verify contract: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`[verifyContractAction] ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: `❌ ${errorMessage}`,
+          content: { success: false, error: errorMessage },
+        });
+      }
+
+      const result: VerificationResult | undefined = (error as { result?: VerificationResult })
+        ?.result;
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        values: { verificationSubmitted: !!result, error: true, errorMessage },
+        data: {
+          actionName: 'POLYGON_ZKEVM_VERIFY_CONTRACT',
+          error: errorMessage,
+          address,
+          guid: result?.guid ?? params.guid ?? null,
+          status: result?.status ?? null,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Verify the contract I just deployed at 0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe on Polygonscan',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔎 **Contract Verification (Polygon zkEVM)**\n\n**Status:** ✅ Verified - Pass - Verified',
+          action: 'POLYGON_ZKEVM_VERIFY_CONTRACT',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Did verification vgkxw6ghqbgj1d9p2mnwmvjrugqk7azbyqwwxyfrgxjccmd3rz go through?',
+        },
+      },
+      {
+        name: '{{user2}}',
+        content: {
+          text: '🔎 **Contract Verification (Polygon zkEVM)**\n\n**Status:** ⏳ Pending - Pending in queue',
+          action: 'POLYGON_ZKEVM_VERIFY_CONTRACT',
+        },
+      },
+    ],
+  ],
+});
@@ -15,23 +15,57 @@ import { getTransactionDetailsAction } from './actions/getTransactionDetails';
 import { getAccountBalanceAction } from './actions/getAccountBalance';
 import { getGasPriceEstimatesAction } from './actions/getGasPriceEstimates';
 import { checkBlockStatusAction } from './actions/checkBlockStatus';
+import { getTransactionFinalityAction } from './actions/getTransactionFinality';
 import { getBatchInfoAction } from './actions/getBatchInfo';
+import { getBatchNumbersAction } from './actions/getBatchNumbers';
+import { getBatchByBlockAction } from './actions/getBatchByBlock';
 import { deploySmartContractAction } from './actions/deploySmartContract';
+import { deployProxyAction } from './actions/deployProxy';
+import { getProxyInfoAction } from './actions/getProxyInfo';
+import { upgradeProxyAction } from './actions/upgradeProxy';
+import { verifyContractAction } from './actions/verifyContract';
+import { getDeployedContractsAction } from './actions/getDeployedContracts';
 import { interactSmartContractAction } from './actions/interactSmartContract';
+import { multicallAction } from './actions/multicall';
 import { bridgeAssetsAction } from './actions/bridgeAssets';
 import { bridgeMessagesAction } from './actions/bridgeMessages';
+import { claimAssetsAction } from './actions/claimAssets';
+import { getBridgeTransfersAction } from './actions/getBridgeTransfers';
+import { getTokenMappingAction } from './actions/getTokenMapping';
 import { estimateTransactionFeeAction } from './actions/estimateTransactionFee';
 import { getBlockDetailsByNumberAction } from './actions/getBlockDetailsByNumber';
 import { getBlockDetailsByHashAction } from './actions/getBlockDetailsByHash';
+import { ZkEvmProviderService } from './services/zkevmProvider';
+import { ZkEvmBridgeService } from './services/bridgeService';
+import { BridgeTrackerService } from './services/bridgeTracker';
+import { NETWORK_NAMES, type NetworkName, resolveNetworkProfile } from './networks';
 
 const configSchema = z
   .object({
     ALCHEMY_API_KEY: z.string().min(1, 'ALCHEMY_API_KEY is required').optional(),
     ZKEVM_RPC_URL: z.string().url('Invalid ZKEVM_RPC_URL').optional(),
+    ZKEVM_RPC_URLS: z
+      .string()
+      .refine(
+        (value) =>
+          value
+            .split(',')
+            .map((url) => url.trim())
+            .filter(Boolean)
+            .every((url) => z.string().url().safeParse(url).success),
+        { message: 'ZKEVM_RPC_URLS must be a comma-separated list of URLs' }
+      )
+      .optional(),
     PRIVATE_KEY: z.string().min(1, 'PRIVATE_KEY is required').optional(),
+    ZKEVM_NETWORK: z
+      .string()
+      .refine((value) => NETWORK_NAMES.includes(value.toLowerCase() as NetworkName), {
+        message: `ZKEVM_NETWORK must be one of: ${NETWORK_NAMES.join(', ')}`,
+      })
+      .optional(),
   })
-  .refine((data) => data.ALCHEMY_API_KEY || data.ZKEVM_RPC_URL, {
-    message: 'Either ALCHEMY_API_KEY or ZKEVM_RPC_URL must be provided',
+  .refine((data) => data.ALCHEMY_API_KEY || data.ZKEVM_RPC_URL || data.ZKEVM_RPC_URLS?.trim(), {
+    message: 'Either ALCHEMY_API_KEY, ZKEVM_RPC_URL or ZKEVM_RPC_URLS must be provided',
   });
 
 const plugin: Plugin = {
@@ -43,11 +77,32 @@ const plugin: Plugin = {
       const configToValidate = {
         ALCHEMY_API_KEY: runtime.getSetting('ALCHEMY_API_KEY') || process.env.ALCHEMY_API_KEY,
         ZKEVM_RPC_URL: runtime.getSetting('ZKEVM_RPC_URL') || process.env.ZKEVM_RPC_URL,
+        ZKEVM_RPC_URLS: runtime.getSetting('ZKEVM_RPC_URLS') || process.env.ZKEVM_RPC_URLS,
         PRIVATE_KEY: runtime.getSetting('PRIVATE_KEY') || process.env.PRIVATE_KEY,
+        ZKEVM_NETWORK: runtime.getSetting('ZKEVM_NETWORK') || undefined,
       };
 
       await configSchema.parseAsync(configToValidate);
-      logger.info('Polygon zkEVM plugin configuration validated successfully.');
+
+      // Throws when the custom profile is incomplete
+      const network = resolveNetworkProfile(runtime);
+      logger.info(
+        `Polygon zkEVM plugin configuration validated successfully (network: ${network.name}, ` +
+          `L2 chain ${network.l2.chainId}, L1 chain ${network.l1.chainId}).`
+      );
+
+      // Refuse to start against endpoints serving a different chain than the profile
+      const service = new ZkEvmProviderService(runtime);
+      try {
+        const checks = await service.verifyChainIds();
+        for (const check of checks.filter((c) => c.actual === undefined)) {
+          logger.warn(
+            `Could not verify chain ID of ${check.layer.toUpperCase()} endpoint ${check.endpoint}: ${check.error}`
+          );
+        }
+      } finally {
+        await service.stop();
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new Error(
@@ -57,6 +112,7 @@ const plugin: Plugin = {
       throw error;
     }
   },
+  services: [ZkEvmProviderService, ZkEvmBridgeService, BridgeTrackerService],
   actions: [
     getCurrentBlockNumberAction,
     getBalanceAction,
@@ -73,14 +129,130 @@ const plugin: Plugin = {
     getAccountBalanceAction,
     getGasPriceEstimatesAction,
     checkBlockStatusAction,
+    getTransactionFinalityAction,
     getBatchInfoAction,
+    getBatchNumbersAction,
+    getBatchByBlockAction,
     deploySmartContractAction,
+    deployProxyAction,
+    getProxyInfoAction,
+    upgradeProxyAction,
+    verifyContractAction,
+    getDeployedContractsAction,
     interactSmartContractAction,
+    multicallAction,
     bridgeAssetsAction,
     bridgeMessagesAction,
+    claimAssetsAction,
+    getBridgeTransfersAction,
+    getTokenMappingAction,
     getBlockDetailsByNumberAction,
     getBlockDetailsByHashAction,
   ],
 };
 
+export { ZkEvmProviderService, ZkEvmBridgeService, BridgeTrackerService };
+export type {
+  BridgeDeposit,
+  BridgeMerkleProof,
+  BridgeServiceClient,
+} from './services/bridgeService';
+export type { BridgeTransferStatus, TrackedBridgeTransfer } from './services/bridgeTracker';
+export { getTokenMapping, type TokenMapping } from './utils/tokenMapping';
+export {
+  DEFAULT_TOKEN_LIST,
+  getTokenMetadata,
+  getTokenRegistry,
+  resolveToken,
+  type TokenList,
+  type TokenListToken,
+  type TokenMetadata,
+} from './utils/tokenRegistry';
+export {
+  encodeConstructorArgs,
+  encodeFunctionCall,
+  type ContractAbi,
+  type EncodedConstructorArgs,
+  type EncodedFunctionCall,
+} from './utils/abiEncoding';
+export {
+  linkBytecode,
+  loadArtifact,
+  type ContractArtifact,
+  type LinkReferences,
+} from './utils/artifacts';
+export {
+  compileSolidity,
+  type CompilationResult,
+  type CompileOptions,
+} from './utils/solidity';
+export {
+  DEFAULT_CREATE2_DEPLOYER,
+  buildCreate2Deployment,
+  toCreate2Salt,
+  type Create2Deployment,
+} from './utils/create2';
+export {
+  ERC1967_ADMIN_SLOT,
+  ERC1967_BEACON_SLOT,
+  ERC1967_IMPLEMENTATION_SLOT,
+  readProxyInfo,
+  type ProxyInfo,
+  type ProxyKind,
+} from './utils/proxy';
+export {
+  compareStorageLayouts,
+  type StorageLayout,
+  type StorageLayoutReport,
+} from './utils/storageLayout';
+export {
+  checkVerificationStatus,
+  submitVerification,
+  verifyContract,
+  type ExplorerConfig,
+  type VerificationInput,
+  type VerificationResult,
+  type VerificationStatus,
+} from './utils/explorer';
+export {
+  findDeployedContract,
+  getDeployedContracts,
+  type DeployedContract,
+} from './utils/contractRegistry';
+export {
+  WELL_KNOWN_ABIS,
+  resolveContractAbi,
+  type AbiSource,
+  type ResolvedAbi,
+} from './utils/abiResolver';
+export {
+  PANIC_REASONS,
+  decodeRevert,
+  decodeRevertData,
+  formatRevert,
+  type DecodedRevert,
+} from './utils/revertDecoder';
+export {
+  DEFAULT_MULTICALL3_ADDRESS,
+  multicall,
+  type MulticallRequest,
+  type MulticallResult,
+} from './utils/multicall';
+export { getTokenBalances, type TokenBalance } from './utils/tokenBalances';
+export {
+  getBatchByNumber,
+  getBatchNumberByBlockNumber,
+  getBatchNumbers,
+  getBatchStatus,
+  getBlockFinality,
+  hasReachedFinality,
+  isBlockConsolidated,
+  isBlockVirtualized,
+  type BatchNumbers,
+  type BatchStatus,
+  type BlockFinality,
+  type BlockFinalityStatus,
+  type ZkEvmBatch,
+} from './utils/zkevmRpc';
+export { NETWORK_PROFILES, type NetworkProfile } from './networks';
 export default plugin;
@@ -0,0 +1,197 @@
+import type { Action, IAgentRuntime } from '@elizaos/core';
+
+export type NetworkName = 'mainnet' | 'cardona' | 'custom';
+
+export const NETWORK_NAMES: NetworkName[] = ['mainnet', 'cardona', 'custom'];
+
+/**
+ * One side of a zkEVM deployment - the L1 settlement chain or the L2 rollup
+ */
+export interface NetworkLayerConfig {
+  /** Short chain name used in action output */
+  name: string;
+  chainId: number;
+  /** Public JSON-RPC endpoint used when no other endpoint is configured */
+  rpcUrl?: string;
+  /** Alchemy base URL, the API key is appended */
+  alchemyUrl?: string;
+  bridgeAddress: string;
+  /** Network ID used by the unified bridge (L1 is always 0) */
+  networkId: number;
+}
+
+/**
+ * Named zkEVM network profile selecting RPCs, chain IDs, bridge addresses and network IDs
+ */
+export interface NetworkProfile {
+  name: NetworkName;
+  displayName: string;
+  /** Bridge service REST API providing deposit status and Merkle proofs for claims */
+  bridgeServiceUrl?: string;
+  /** Etherscan-compatible explorer API used to verify contract sources */
+  explorerApiUrl?: string;
+  l1: NetworkLayerConfig;
+  l2: NetworkLayerConfig;
+}
+
+export const NETWORK_PROFILES: Record<Exclude<NetworkName, 'custom'>, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    displayName: 'Polygon zkEVM',
+    bridgeServiceUrl: 'https://bridge-api.zkevm-rpc.com',
+    explorerApiUrl: 'https://api.etherscan.io/v2/api',
+    l1: {
+      name: 'Ethereum',
+      chainId: 1,
+      rpcUrl: 'https://ethereum.publicnode.com',
+      alchemyUrl: 'https://eth-mainnet.g.alchemy.com/v2',
+      bridgeAddress: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe',
+      networkId: 0,
+    },
+    l2: {
+      name: 'zkEVM',
+      chainId: 1101,
+      rpcUrl: 'https://zkevm-rpc.com',
+      alchemyUrl: 'https://polygonzkevm-mainnet.g.alchemy.com/v2',
+      bridgeAddress: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe',
+      networkId: 1,
+    },
+  },
+  cardona: {
+    name: 'cardona',
+    displayName: 'Polygon zkEVM Cardona',
+    bridgeServiceUrl: 'https://bridge-api.cardona.zkevm-rpc.com',
+    explorerApiUrl: 'https://api.etherscan.io/v2/api',
+    l1: {
+      name: 'Sepolia',
+      chainId: 11155111,
+      rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+      alchemyUrl: 'https://eth-sepolia.g.alchemy.com/v2',
+      bridgeAddress: '0x528e26b25a34a4A5d0dbDa1d57D318153d2ED582',
+      networkId: 0,
+    },
+    l2: {
+      name: 'Cardona',
+      chainId: 2442,
+      rpcUrl: 'https://rpc.cardona.zkevm-rpc.com',
+      alchemyUrl: 'https://polygonzkevm-cardona.g.alchemy.com/v2',
+      bridgeAddress: '0x528e26b25a34a4A5d0dbDa1d57D318153d2ED582',
+      networkId: 1,
+    },
+  },
+};
+
+/**
+ * Resolve the active network profile from `ZKEVM_NETWORK` (default `mainnet`).
+ *
+ * Any profile can be adjusted through the override settings below; the `custom` profile has no
+ * defaults, so its chain IDs, L1 RPC, bridge address and L2 RPC must all be configured.
+ * - `ZKEVM_CHAIN_ID`, `ZKEVM_L1_CHAIN_ID`
+ * - `ZKEVM_L1_RPC_URL` (the L2 endpoints come from `ZKEVM_RPC_URL` / `ZKEVM_RPC_URLS`)
+ * - `ZKEVM_BRIDGE_ADDRESS`, or `ZKEVM_L1_BRIDGE_ADDRESS` / `ZKEVM_L2_BRIDGE_ADDRESS`
+ * - `ZKEVM_ROLLUP_NETWORK_ID` (default 1)
+ * - `ZKEVM_BRIDGE_SERVICE_URL` (optional for `custom`, only needed to claim bridged assets)
+ * - `ZKEVM_EXPLORER_API_URL` (optional, only needed to verify contract sources)
+ */
+export function resolveNetworkProfile(runtime: IAgentRuntime): NetworkProfile {
+  const setting = (key: string): string | undefined => runtime.getSetting(key) || undefined;
+  const numberSetting = (key: string): number | undefined => {
+    const value = setting(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${key} must be a non-negative integer, got "${value}".`);
+    }
+    return parsed;
+  };
+
+  const name = (setting('ZKEVM_NETWORK') ?? 'mainnet').toLowerCase() as NetworkName;
+  if (!NETWORK_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown ZKEVM_NETWORK "${name}". Expected one of: ${NETWORK_NAMES.join(', ')}.`
+    );
+  }
+
+  const base = name === 'custom' ? undefined : NETWORK_PROFILES[name];
+  const bridgeAddress = setting('ZKEVM_BRIDGE_ADDRESS');
+
+  const profile = {
+    name,
+    displayName: base?.displayName ?? 'Custom zkEVM',
+    bridgeServiceUrl: setting('ZKEVM_BRIDGE_SERVICE_URL') ?? base?.bridgeServiceUrl,
+    explorerApiUrl: setting('ZKEVM_EXPLORER_API_URL') ?? base?.explorerApiUrl,
+    l1: {
+      name: base?.l1.name ?? 'L1',
+      chainId: numberSetting('ZKEVM_L1_CHAIN_ID') ?? base?.l1.chainId,
+      rpcUrl: setting('ZKEVM_L1_RPC_URL') ?? base?.l1.rpcUrl,
+      alchemyUrl: base?.l1.alchemyUrl,
+      bridgeAddress: setting('ZKEVM_L1_BRIDGE_ADDRESS') ?? bridgeAddress ?? base?.l1.bridgeAddress,
+      networkId: 0,
+    },
+    l2: {
+      name: base?.l2.name ?? 'zkEVM',
+      chainId: numberSetting('ZKEVM_CHAIN_ID') ?? base?.l2.chainId,
+      rpcUrl: base?.l2.rpcUrl,
+      alchemyUrl: setting('ZKEVM_ALCHEMY_URL') ?? base?.l2.alchemyUrl,
+      bridgeAddress: setting('ZKEVM_L2_BRIDGE_ADDRESS') ?? bridgeAddress ?? base?.l2.bridgeAddress,
+      networkId: numberSetting('ZKEVM_ROLLUP_NETWORK_ID') ?? base?.l2.networkId ?? 1,
+    },
+  };
+
+  if (name === 'custom') {
+    const missing = [
+      profile.l2.chainId === undefined && 'ZKEVM_CHAIN_ID',
+      profile.l1.chainId === undefined && 'ZKEVM_L1_CHAIN_ID',
+      !profile.l1.rpcUrl && 'ZKEVM_L1_RPC_URL',
+      !setting('ZKEVM_RPC_URL') && !setting('ZKEVM_RPC_URLS') && 'ZKEVM_RPC_URL',
+      (!profile.l1.bridgeAddress || !profile.l2.bridgeAddress) && 'ZKEVM_BRIDGE_ADDRESS',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      throw new Error(`Custom zkEVM network profile is missing: ${missing.join(', ')}.`);
+    }
+  }
+
+  return profile as NetworkProfile;
+}
+
+/**
+ * Wrap an action so every ActionResult it returns reports the active network profile
+ */
+export function withNetworkProfile(action: Action): Action {
+  return {
+    ...action,
+    handler: async (runtime, message, state, options, callback, responses) => {
+      const result = await action.handler(runtime, message, state, options, callback, responses);
+      if (!result) {
+        return result;
+      }
+
+      let networkProfile: NetworkName | undefined;
+      try {
+        networkProfile = resolveNetworkProfile(runtime).name;
+      } catch {
+        // An invalid profile is reported by the action itself and by plugin.init
+      }
+      return { ...result, data: { ...result.data, networkProfile } };
+    },
+  };
+}
+
+/**
+ * Name the active network in action output: `network` for result data (`polygon-zkevm` on
+ * mainnet, `polygon-zkevm-<profile>` otherwise) and `displayName` for response text
+ */
+export function getNetworkLabel(runtime: IAgentRuntime): { network: string; displayName: string } {
+  let profile: NetworkProfile = NETWORK_PROFILES.mainnet;
+  try {
+    profile = resolveNetworkProfile(runtime);
+  } catch {
+    // An invalid profile is reported by the action itself and by plugin.init
+  }
+  return {
+    network: profile.name === 'mainnet' ? 'polygon-zkevm' : `polygon-zkevm-${profile.name}`,
+    displayName: profile.displayName,
+  };
+}
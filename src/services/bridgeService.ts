@@ -0,0 +1,177 @@
+import { type IAgentRuntime, Service } from '@elizaos/core';
+import { ZeroHash } from 'ethers';
+import { NETWORK_PROFILES, resolveNetworkProfile } from '../networks';
+
+const BRIDGE_SERVICE_TIMEOUT_MS = 15_000;
+
+/**
+ * Bridge deposit as indexed by the bridge service
+ */
+export interface BridgeDeposit {
+  /** 0 = asset, 1 = message */
+  leafType: number;
+  originNetwork: number;
+  /** Token address for assets, sender address for messages */
+  originTokenAddress: string;
+  amount: string;
+  destinationNetwork: number;
+  destinationAddress: string;
+  depositCount: number;
+  /** Network the deposit was made on */
+  networkId: number;
+  txHash: string;
+  /** Set once the deposit has been claimed on the destination chain */
+  claimTxHash?: string;
+  metadata: string;
+  readyForClaim: boolean;
+  globalIndex?: string;
+}
+
+/**
+ * Merkle proofs and exit roots required by `claimAsset` / `claimMessage`
+ */
+export interface BridgeMerkleProof {
+  localExitRootProof: string[];
+  rollupExitRootProof: string[];
+  mainnetExitRoot: string;
+  rollupExitRoot: string;
+}
+
+/**
+ * Source of deposit status and claim proofs. The default implementation talks to the
+ * zkEVM bridge service REST API; register another `polygon-zkevm-bridge-service` to replace it.
+ */
+export interface BridgeServiceClient {
+  /** Deposit by origin network and deposit count, or null when it is not indexed yet */
+  getDeposit(networkId: number, depositCount: number): Promise<BridgeDeposit | null>;
+  getMerkleProof(networkId: number, depositCount: number): Promise<BridgeMerkleProof>;
+}
+
+/**
+ * Split a bridge ticket (`<networkId>-<depositCount>`, as reported by bridgeAssets)
+ */
+export function parseBridgeTicket(ticket: string): { networkId: number; depositCount: number } {
+  const match = /^\s*(\d+)-(\d+)\s*$/.exec(ticket);
+  if (!match) {
+    throw new Error(
+      `Invalid bridge ticket "${ticket}". Expected <networkId>-<depositCount>, e.g. 0-12345.`
+    );
+  }
+  return { networkId: Number(match[1]), depositCount: Number(match[2]) };
+}
+
+/**
+ * Global index identifying a deposit across networks, used by the bridge to track claims.
+ * Deposits made on L1 set the mainnet flag (bit 64), rollup deposits encode the rollup index.
+ */
+export function computeGlobalIndex(networkId: number, depositCount: number): bigint {
+  if (networkId === 0) {
+    return (1n << 64n) | BigInt(depositCount);
+  }
+  return (BigInt(networkId - 1) << 32n) | BigInt(depositCount);
+}
+
+/**
+ * Client for the zkEVM bridge service REST API
+ */
+export class ZkEvmBridgeService extends Service implements BridgeServiceClient {
+  static serviceType = 'polygon-zkevm-bridge-service';
+  capabilityDescription = 'Provides bridge deposit status and Merkle proofs for zkEVM claims';
+
+  private readonly baseUrl?: string;
+
+  constructor(runtime?: IAgentRuntime, baseUrl?: string) {
+    super(runtime);
+    this.baseUrl =
+      baseUrl ??
+      (runtime
+        ? resolveNetworkProfile(runtime).bridgeServiceUrl
+        : NETWORK_PROFILES.mainnet.bridgeServiceUrl);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<ZkEvmBridgeService> {
+    return new ZkEvmBridgeService(runtime);
+  }
+
+  static async stop(_runtime: IAgentRuntime): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  private async get(path: string): Promise<any> {
+    if (!this.baseUrl) {
+      throw new Error(
+        'No bridge service configured for this network. Set ZKEVM_BRIDGE_SERVICE_URL.'
+      );
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      signal: AbortSignal.timeout(BRIDGE_SERVICE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const error = new Error(`Bridge service request failed (${response.status}): ${body}`);
+      throw Object.assign(error, { status: response.status });
+    }
+    return response.json();
+  }
+
+  async getDeposit(networkId: number, depositCount: number): Promise<BridgeDeposit | null> {
+    let body: any;
+    try {
+      body = await this.get(`/bridge?net_id=${networkId}&deposit_cnt=${depositCount}`);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const deposit = body?.deposit;
+    if (!deposit) {
+      return null;
+    }
+    return {
+      leafType: Number(deposit.leaf_type),
+      originNetwork: Number(deposit.orig_net),
+      originTokenAddress: deposit.orig_addr,
+      amount: String(deposit.amount),
+      destinationNetwork: Number(deposit.dest_net),
+      destinationAddress: deposit.dest_addr,
+      depositCount: Number(deposit.deposit_cnt),
+      networkId: Number(deposit.network_id),
+      txHash: deposit.tx_hash,
+      claimTxHash: deposit.claim_tx_hash || undefined,
+      metadata: deposit.metadata || '0x',
+      readyForClaim: !!deposit.ready_for_claim,
+      globalIndex: deposit.global_index ? String(deposit.global_index) : undefined,
+    };
+  }
+
+  async getMerkleProof(networkId: number, depositCount: number): Promise<BridgeMerkleProof> {
+    const body = await this.get(`/merkle-proof?net_id=${networkId}&deposit_cnt=${depositCount}`);
+    const proof = body?.proof;
+    if (!proof?.merkle_proof) {
+      throw new Error(
+        `Bridge service returned no Merkle proof for deposit ${networkId}-${depositCount}.`
+      );
+    }
+    return {
+      localExitRootProof: proof.merkle_proof,
+      // Deposits made on L1 have no rollup proof - the contract expects 32 zero hashes
+      rollupExitRootProof: proof.rollup_merkle_proof ?? Array(32).fill(ZeroHash),
+      mainnetExitRoot: proof.main_exit_root,
+      rollupExitRoot: proof.rollup_exit_root,
+    };
+  }
+}
+
+/**
+ * Get the registered bridge service client, or the REST client for the active network profile
+ */
+export function getBridgeServiceClient(runtime: IAgentRuntime): BridgeServiceClient {
+  const service =
+    typeof runtime.getService === 'function'
+      ? runtime.getService<ZkEvmBridgeService>(ZkEvmBridgeService.serviceType)
+      : null;
+  return service ?? new ZkEvmBridgeService(runtime);
+}
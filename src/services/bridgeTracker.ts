@@ -0,0 +1,328 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core';
+import { Interface } from 'ethers';
+import type { NetworkName } from '../networks';
+import { getZkEvmProviderService } from './zkevmProvider';
+import { getBridgeServiceClient } from './bridgeService';
+
+// Agent cache key holding the tracked transfers
+const BRIDGE_TRACKER_CACHE_KEY = 'polygon-zkevm/bridge-transfers';
+// How often in-flight transfers are polled while the service is running
+const BRIDGE_TRACKER_POLL_MS = 60_000;
+
+// Last pending cache write per agent; writes are chained so concurrent updates never drop each other
+const cacheWrites = new WeakMap<IAgentRuntime, Promise<unknown>>();
+
+const BRIDGE_EVENT_ABI = [
+  'event BridgeEvent(uint8 leafType, uint32 originNetwork, address originAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata, uint32 depositCount)',
+];
+
+/**
+ * Lifecycle of a tracked bridge transfer:
+ * - `pending_inclusion`: the bridge transaction is not mined yet, or not indexed by the bridge service
+ * - `indexed`: the bridge service has indexed the deposit, which is not claimable until its exit
+ *   root reaches the destination chain
+ * - `ready_to_claim`: the deposit can be claimed on the destination chain
+ * - `claimed`: the deposit has been claimed (auto-claimed on zkEVM, or claimed by us)
+ * - `failed`: the bridge transaction reverted
+ */
+export type BridgeTransferStatus =
+  | 'pending_inclusion'
+  | 'indexed'
+  | 'ready_to_claim'
+  | 'claimed'
+  | 'failed';
+
+export const BRIDGE_TRANSFER_STATUSES: BridgeTransferStatus[] = [
+  'pending_inclusion',
+  'indexed',
+  'ready_to_claim',
+  'claimed',
+  'failed',
+];
+
+/**
+ * A bridge transfer started by this agent
+ */
+export interface TrackedBridgeTransfer {
+  transactionHash: string;
+  /** `<networkId>-<depositCount>`, known once the BridgeEvent has been seen */
+  bridgeTicketId: string | null;
+  depositCount: number | null;
+  networkProfile: NetworkName;
+  direction: 'deposit' | 'withdraw';
+  /** Bridge network ID of the source chain */
+  sourceNetworkId: number;
+  tokenAddress: string;
+  amount: string;
+  status: BridgeTransferStatus;
+  claimTransactionHash?: string;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Whether a transfer still needs polling
+ */
+export function isInFlight(transfer: TrackedBridgeTransfer): boolean {
+  return transfer.status !== 'claimed' && transfer.status !== 'failed';
+}
+
+/**
+ * Records the agent's bridge transfers in the agent cache and advances them through their
+ * lifecycle by polling the source chain and the bridge service
+ */
+export class BridgeTrackerService extends Service {
+  static serviceType = 'polygon-zkevm-bridge-tracker';
+  capabilityDescription =
+    'Tracks bridge transfers between Ethereum and Polygon zkEVM until claimed';
+
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(runtime?: IAgentRuntime) {
+    super(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<BridgeTrackerService> {
+    const service = new BridgeTrackerService(runtime);
+    service.pollTimer = setInterval(() => {
+      service.refreshAll().catch((error) => {
+        logger.warn(
+          `[BridgeTrackerService] Polling failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+    }, BRIDGE_TRACKER_POLL_MS);
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<BridgeTrackerService>(BridgeTrackerService.serviceType);
+    if (service) {
+      await service.stop();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * All tracked transfers, newest first
+   */
+  async list(): Promise<TrackedBridgeTransfer[]> {
+    const transfers =
+      (await this.runtime.getCache<TrackedBridgeTransfer[]>(BRIDGE_TRACKER_CACHE_KEY)) ?? [];
+    return [...transfers].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Find a transfer by bridge ticket or bridge transaction hash
+   */
+  async get(id: string): Promise<TrackedBridgeTransfer | undefined> {
+    const key = id.toLowerCase();
+    return (await this.list()).find(
+      (t) => t.bridgeTicketId === id || t.transactionHash.toLowerCase() === key
+    );
+  }
+
+  private async save(transfers: TrackedBridgeTransfer[]): Promise<void> {
+    await this.runtime.setCache(BRIDGE_TRACKER_CACHE_KEY, transfers);
+  }
+
+  /**
+   * Change a transfer as currently stored, inside the chain of cache writes so that the change
+   * never applies to a stale copy. `change` returns null to leave the transfer as it is.
+   */
+  private async update(
+    transactionHash: string,
+    change: (current: TrackedBridgeTransfer | undefined) => TrackedBridgeTransfer | null
+  ): Promise<TrackedBridgeTransfer | undefined> {
+    const write = (cacheWrites.get(this.runtime) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const transfers = await this.list();
+        const index = transfers.findIndex(
+          (t) => t.transactionHash.toLowerCase() === transactionHash.toLowerCase()
+        );
+        const current = index === -1 ? undefined : transfers[index];
+        const updated = change(current);
+        if (!updated) {
+          return current;
+        }
+        if (index === -1) {
+          transfers.push(updated);
+        } else {
+          transfers[index] = updated;
+        }
+        await this.save(transfers);
+        return updated;
+      });
+    cacheWrites.set(this.runtime, write);
+    return write;
+  }
+
+  /**
+   * Start tracking a transfer that was just sent
+   */
+  async record(
+    transfer: Omit<TrackedBridgeTransfer, 'status' | 'createdAt' | 'updatedAt'> & {
+      status?: BridgeTransferStatus;
+    }
+  ): Promise<TrackedBridgeTransfer> {
+    const now = Date.now();
+    return this.update(transfer.transactionHash, () => ({
+      status: 'pending_inclusion',
+      ...transfer,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  /**
+   * Mark a transfer as claimed, e.g. after the claim action succeeded
+   */
+  async markClaimed(bridgeTicketId: string, claimTransactionHash?: string): Promise<void> {
+    const transfer = await this.get(bridgeTicketId);
+    if (transfer) {
+      await this.update(transfer.transactionHash, (current) =>
+        current && current.status !== 'claimed'
+          ? {
+              ...current,
+              status: 'claimed',
+              claimTransactionHash: claimTransactionHash ?? current.claimTransactionHash,
+              updatedAt: Date.now(),
+            }
+          : null
+      );
+    }
+  }
+
+  /**
+   * Advance a transfer as far as the source chain and the bridge service allow
+   */
+  async refresh(transfer: TrackedBridgeTransfer): Promise<TrackedBridgeTransfer> {
+    if (!isInFlight(transfer)) {
+      return transfer;
+    }
+
+    // Transfers made on another network profile cannot be polled with the current endpoints
+    const zkevmService = getZkEvmProviderService(this.runtime);
+    if (zkevmService.getNetwork().name !== transfer.networkProfile) {
+      return transfer;
+    }
+
+    const next = { ...transfer };
+    try {
+      if (next.depositCount === null) {
+        const sourceLayer = next.direction === 'deposit' ? 'l1' : 'l2';
+        const receipt =
+          sourceLayer === 'l1'
+            ? await zkevmService.getProvider('l1').getTransactionReceipt(next.transactionHash)
+            : (await zkevmService.read((p) => p.getTransactionReceipt(next.transactionHash))).value;
+
+        if (!receipt) {
+          next.status = 'pending_inclusion';
+          return await this.updateIfChanged(transfer, next);
+        }
+        if (receipt.status === 0) {
+          next.status = 'failed';
+          next.lastError = 'Bridge transaction reverted';
+          return await this.updateIfChanged(transfer, next);
+        }
+
+        const iface = new Interface(BRIDGE_EVENT_ABI);
+        for (const log of receipt.logs) {
+          try {
+            const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+            if (parsed?.name === 'BridgeEvent') {
+              next.depositCount = Number(parsed.args.depositCount);
+              next.bridgeTicketId = `${next.sourceNetworkId}-${next.depositCount}`;
+              break;
+            }
+          } catch {
+            // Skip logs that don't match our interface
+          }
+        }
+        if (next.depositCount === null) {
+          next.status = 'failed';
+          next.lastError = 'No BridgeEvent found in the bridge transaction';
+          return await this.updateIfChanged(transfer, next);
+        }
+      }
+
+      const deposit = await getBridgeServiceClient(this.runtime).getDeposit(
+        next.sourceNetworkId,
+        next.depositCount
+      );
+      if (!deposit) {
+        next.status = 'pending_inclusion';
+      } else if (deposit.claimTxHash) {
+        next.status = 'claimed';
+        next.claimTransactionHash = deposit.claimTxHash;
+      } else {
+        next.status = deposit.readyForClaim ? 'ready_to_claim' : 'indexed';
+      }
+      next.lastError = undefined;
+    } catch (error) {
+      // Keep the last known status; the next poll retries
+      next.lastError = error instanceof Error ? error.message : String(error);
+    }
+    return this.updateIfChanged(transfer, next);
+  }
+
+  // Store the fields a refresh changed. The refresh polls the network from a snapshot, so the
+  // changes are merged into the current record, and dropped once it is claimed or failed meanwhile.
+  private async updateIfChanged(
+    previous: TrackedBridgeTransfer,
+    next: TrackedBridgeTransfer
+  ): Promise<TrackedBridgeTransfer> {
+    const changes = Object.fromEntries(
+      Object.entries(next).filter(
+        ([key, value]) => JSON.stringify(value) !== JSON.stringify(previous[key])
+      )
+    ) as Partial<TrackedBridgeTransfer>;
+    if (Object.keys(changes).length === 0) {
+      return previous;
+    }
+
+    const updated = await this.update(next.transactionHash, (current) => {
+      if (!current || !isInFlight(current)) {
+        return null;
+      }
+      if (changes.status && changes.status !== current.status) {
+        logger.info(
+          `[BridgeTrackerService] ${next.bridgeTicketId ?? next.transactionHash}: ${current.status} -> ${changes.status}`
+        );
+      }
+      return { ...current, ...changes, updatedAt: Date.now() };
+    });
+    return updated ?? previous;
+  }
+
+  /**
+   * Refresh every in-flight transfer
+   */
+  async refreshAll(): Promise<TrackedBridgeTransfer[]> {
+    const transfers = await this.list();
+    const refreshed: TrackedBridgeTransfer[] = [];
+    for (const transfer of transfers) {
+      refreshed.push(await this.refresh(transfer));
+    }
+    return refreshed;
+  }
+}
+
+/**
+ * Get the registered bridge tracker, or a tracker over the agent cache when the service has not
+ * been started (no background polling)
+ */
+export function getBridgeTracker(runtime: IAgentRuntime): BridgeTrackerService {
+  const service =
+    typeof runtime.getService === 'function'
+      ? runtime.getService<BridgeTrackerService>(BridgeTrackerService.serviceType)
+      : null;
+  return service ?? new BridgeTrackerService(runtime);
+}
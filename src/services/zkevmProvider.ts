@@ -0,0 +1,534 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { NETWORK_PROFILES, type NetworkProfile, resolveNetworkProfile } from '../networks';
+
+// How long an endpoint is skipped after a failure, and how long a single call may take
+const ENDPOINT_COOLDOWN_MS = 30_000;
+const ENDPOINT_TIMEOUT_MS = 10_000;
+
+// ethers error codes caused by the request itself rather than the endpoint - never failed over
+const REQUEST_ERROR_CODES = new Set([
+  'CALL_EXCEPTION',
+  'INVALID_ARGUMENT',
+  'MISSING_ARGUMENT',
+  'UNEXPECTED_ARGUMENT',
+  'NUMERIC_FAULT',
+  'INSUFFICIENT_FUNDS',
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+  'ACTION_REJECTED',
+]);
+
+// Errors meaning the endpoint lacks a method (e.g. zkevm_* on a generic provider) - failed over,
+// but the endpoint is not marked unhealthy
+const CAPABILITY_ERROR_CODES = new Set(['UNSUPPORTED_OPERATION']);
+
+// JSON-RPC "Method not found", which ethers reports as UNKNOWN_ERROR
+const METHOD_NOT_FOUND_RPC_CODE = -32601;
+
+export type Layer = 'l1' | 'l2';
+
+/**
+ * Connection settings resolved from the agent runtime
+ */
+export interface ZkEvmProviderConfig {
+  network: NetworkProfile;
+  alchemyApiKey?: string;
+  zkevmRpcUrl?: string;
+  /** Additional L2 endpoints, tried in order after the primary ones */
+  zkevmRpcUrls?: string[];
+  /** Explicit L1 endpoint, preferred over Alchemy and the profile default */
+  l1RpcUrl?: string;
+  /** Number of L2 endpoints that must agree on critical reads (1 disables quorum) */
+  quorum?: number;
+  privateKey?: string;
+}
+
+/**
+ * Health snapshot of a single L2 endpoint
+ */
+export interface EndpointHealth {
+  name: string;
+  healthy: boolean;
+  failures: number;
+  lastError?: string;
+}
+
+/**
+ * Value returned by a read, together with the endpoint(s) that answered it
+ */
+export interface RpcReadResult<T> {
+  value: T;
+  endpoints: string[];
+}
+
+/**
+ * Outcome of comparing an endpoint's `eth_chainId` with the network profile
+ */
+export interface ChainIdCheck {
+  layer: Layer;
+  endpoint: string;
+  expected: number;
+  /** Chain ID reported by the endpoint, undefined when it could not be reached */
+  actual?: number;
+  error?: string;
+}
+
+interface EndpointState {
+  url: string;
+  name: string;
+  provider: JsonRpcProvider | null;
+  failures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+/**
+ * Resolve the plugin connection settings from the runtime.
+ * Does not validate - `plugin.init` is responsible for rejecting unusable configurations.
+ */
+export function resolveZkEvmConfig(runtime: IAgentRuntime): ZkEvmProviderConfig {
+  const setting = (key: string): string | undefined => runtime.getSetting(key) || undefined;
+  const quorum = parseInt(setting('ZKEVM_QUORUM') ?? '', 10);
+
+  return {
+    network: resolveNetworkProfile(runtime),
+    alchemyApiKey: setting('ALCHEMY_API_KEY'),
+    zkevmRpcUrl: setting('ZKEVM_RPC_URL'),
+    l1RpcUrl: setting('ZKEVM_L1_RPC_URL'),
+    zkevmRpcUrls: (setting('ZKEVM_RPC_URLS') ?? '')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean),
+    quorum: Number.isFinite(quorum) && quorum > 1 ? quorum : 1,
+    privateKey: setting('PRIVATE_KEY'),
+  };
+}
+
+/**
+ * Name an endpoint by its host so results never leak API keys embedded in the URL
+ */
+function endpointName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Whether an error means the endpoint is unusable (as opposed to the request being invalid)
+ */
+export function isEndpointError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return !code || !REQUEST_ERROR_CODES.has(code);
+}
+
+/**
+ * Whether an error means the endpoint does not implement the requested RPC method
+ */
+export function isUnsupportedMethodError(error: unknown): boolean {
+  const e = error as {
+    code?: string;
+    error?: { code?: number };
+    info?: { error?: { code?: number } };
+  } | null;
+  return (
+    (!!e?.code && CAPABILITY_ERROR_CODES.has(e.code)) ||
+    e?.error?.code === METHOD_NOT_FOUND_RPC_CODE ||
+    e?.info?.error?.code === METHOD_NOT_FOUND_RPC_CODE
+  );
+}
+
+/**
+ * Reject when a call to an endpoint takes longer than `ENDPOINT_TIMEOUT_MS`
+ */
+async function withEndpointTimeout<T>(call: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ENDPOINT_TIMEOUT_MS}ms`)),
+      ENDPOINT_TIMEOUT_MS
+    );
+  });
+  try {
+    return await Promise.race([call, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Serialize a read result for quorum comparison - bigints and ethers objects included
+ */
+function fingerprint(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)) ?? '';
+}
+
+/**
+ * Shared provider service for Polygon zkEVM
+ * Owns the L1 (Ethereum) connection and a pool of L2 (zkEVM) endpoints with health tracking,
+ * automatic failover and optional quorum reads
+ */
+export class ZkEvmProviderService extends Service {
+  static serviceType = 'polygon-zkevm-provider';
+  capabilityDescription =
+    'Provides shared JSON-RPC connections to Polygon zkEVM and Ethereum with endpoint failover';
+
+  private readonly settings: ZkEvmProviderConfig;
+  private readonly endpoints: EndpointState[];
+  private l1Provider: JsonRpcProvider | null = null;
+
+  constructor(runtime?: IAgentRuntime, settings?: ZkEvmProviderConfig) {
+    super(runtime);
+    this.settings =
+      settings ?? (runtime ? resolveZkEvmConfig(runtime) : { network: NETWORK_PROFILES.mainnet });
+    this.endpoints = this.buildEndpoints();
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<ZkEvmProviderService> {
+    const service = new ZkEvmProviderService(runtime);
+    logger.info(
+      `[ZkEvmProviderService] Started on ${service.getNetwork().name} with L2 endpoints: ` +
+        `${service.endpoints.map((e) => e.name).join(', ')}` +
+        ` (quorum ${service.getQuorum()})`
+    );
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<ZkEvmProviderService>(ZkEvmProviderService.serviceType);
+    if (service) {
+      await service.stop();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.l1Provider?.destroy();
+    this.l1Provider = null;
+    for (const endpoint of this.endpoints) {
+      endpoint.provider?.destroy();
+      endpoint.provider = null;
+    }
+  }
+
+  /**
+   * Ordered L2 endpoint list: Alchemy, ZKEVM_RPC_URL, then ZKEVM_RPC_URLS.
+   * The network profile's public RPC is appended when no direct endpoint is configured.
+   */
+  private buildEndpoints(): EndpointState[] {
+    const { network, alchemyApiKey, zkevmRpcUrl, zkevmRpcUrls = [] } = this.settings;
+    const urls: string[] = [];
+    if (alchemyApiKey && network.l2.alchemyUrl) {
+      urls.push(`${network.l2.alchemyUrl}/${alchemyApiKey}`);
+    }
+    if (zkevmRpcUrl) {
+      urls.push(zkevmRpcUrl);
+    }
+    urls.push(...zkevmRpcUrls);
+    if (!zkevmRpcUrl && zkevmRpcUrls.length === 0 && network.l2.rpcUrl) {
+      urls.push(network.l2.rpcUrl);
+    }
+
+    return [...new Set(urls)].map((url) => ({
+      url,
+      name: endpointName(url),
+      provider: null,
+      failures: 0,
+      unhealthyUntil: 0,
+    }));
+  }
+
+  /**
+   * Healthy endpoints in configured order, followed by cooling-down ones (soonest first)
+   */
+  private orderedEndpoints(): EndpointState[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter((e) => e.unhealthyUntil <= now);
+    const cooling = this.endpoints
+      .filter((e) => e.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+    return [...healthy, ...cooling];
+  }
+
+  private providerFor(endpoint: EndpointState): JsonRpcProvider {
+    endpoint.provider ??= new JsonRpcProvider(endpoint.url, this.settings.network.l2.chainId, {
+      staticNetwork: true,
+    });
+    return endpoint.provider;
+  }
+
+  private markSuccess(endpoint: EndpointState): void {
+    endpoint.failures = 0;
+    endpoint.unhealthyUntil = 0;
+    endpoint.lastError = undefined;
+  }
+
+  private markFailure(endpoint: EndpointState, error: unknown): void {
+    endpoint.failures += 1;
+    endpoint.unhealthyUntil = Date.now() + ENDPOINT_COOLDOWN_MS;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    logger.warn(
+      `[ZkEvmProviderService] Endpoint ${endpoint.name} failed (${endpoint.failures}x): ${endpoint.lastError}`
+    );
+  }
+
+  /**
+   * Run a call against one endpoint, recording its health.
+   * Request errors (reverts, bad arguments) are rethrown without penalising the endpoint.
+   */
+  private async callEndpoint<T>(
+    endpoint: EndpointState,
+    call: (provider: JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    try {
+      const value = await withEndpointTimeout(call(this.providerFor(endpoint)));
+      this.markSuccess(endpoint);
+      return value;
+    } catch (error) {
+      if (isEndpointError(error) && !isUnsupportedMethodError(error)) {
+        this.markFailure(endpoint, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Active network profile
+   */
+  getNetwork(): NetworkProfile {
+    return this.settings.network;
+  }
+
+  /**
+   * Number of L2 endpoints that must agree on critical reads
+   */
+  getQuorum(): number {
+    return Math.min(this.settings.quorum ?? 1, this.endpoints.length);
+  }
+
+  /**
+   * Current health of every configured L2 endpoint
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(({ name, failures, unhealthyUntil, lastError }) => ({
+      name,
+      healthy: unhealthyUntil <= now,
+      failures,
+      lastError,
+    }));
+  }
+
+  /**
+   * Name of the endpoint that `getProvider('l2')` and `getSigner('l2')` currently use
+   */
+  getEndpointName(layer: Layer = 'l2'): string {
+    return layer === 'l1' ? endpointName(this.getRpcUrl('l1')) : this.orderedEndpoints()[0].name;
+  }
+
+  getRpcUrl(layer: Layer = 'l2'): string {
+    if (layer === 'l1') {
+      const { network, alchemyApiKey, l1RpcUrl } = this.settings;
+      if (l1RpcUrl) {
+        return l1RpcUrl;
+      }
+      return alchemyApiKey && network.l1.alchemyUrl
+        ? `${network.l1.alchemyUrl}/${alchemyApiKey}`
+        : (network.l1.rpcUrl as string);
+    }
+    return this.orderedEndpoints()[0].url;
+  }
+
+  /**
+   * Provider for the given layer. For L2 this is the preferred healthy endpoint - prefer
+   * `read`/`readCritical` for reads so failures fail over to the next endpoint.
+   */
+  getProvider(layer: Layer = 'l2'): JsonRpcProvider {
+    if (layer === 'l1') {
+      this.l1Provider ??= new JsonRpcProvider(
+        this.getRpcUrl('l1'),
+        this.settings.network.l1.chainId,
+        { staticNetwork: true }
+      );
+      return this.l1Provider;
+    }
+    return this.providerFor(this.orderedEndpoints()[0]);
+  }
+
+  /**
+   * Read from L2, failing over to the next endpoint when one is unreachable or errors
+   */
+  async read<T>(call: (provider: JsonRpcProvider) => Promise<T>): Promise<RpcReadResult<T>> {
+    const errors: string[] = [];
+    for (const endpoint of this.orderedEndpoints()) {
+      try {
+        const value = await this.callEndpoint(endpoint, call);
+        return { value, endpoints: [endpoint.name] };
+      } catch (error) {
+        if (!isEndpointError(error)) {
+          throw error;
+        }
+        errors.push(`${endpoint.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    throw new Error(`All zkEVM endpoints failed. ${errors.join('; ')}`);
+  }
+
+  /**
+   * Read a value that must agree across `ZKEVM_QUORUM` endpoints before it is reported.
+   * Behaves like `read` when quorum is disabled.
+   */
+  async readCritical<T>(
+    call: (provider: JsonRpcProvider) => Promise<T>
+  ): Promise<RpcReadResult<T>> {
+    const quorum = this.getQuorum();
+    if (quorum <= 1) {
+      return this.read(call);
+    }
+
+    const candidates = this.orderedEndpoints();
+    const answers = new Map<string, RpcReadResult<T>>();
+    const errors: string[] = [];
+
+    const ask = async (endpoint: EndpointState) => {
+      try {
+        const value = await this.callEndpoint(endpoint, call);
+        const key = fingerprint(value);
+        const answer = answers.get(key) ?? { value, endpoints: [] };
+        answer.endpoints.push(endpoint.name);
+        answers.set(key, answer);
+      } catch (error) {
+        if (!isEndpointError(error)) {
+          throw error;
+        }
+        errors.push(`${endpoint.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    const agreed = () => [...answers.values()].find((a) => a.endpoints.length >= quorum);
+
+    // Ask the first `quorum` endpoints together, then one more at a time until enough agree
+    await Promise.all(candidates.slice(0, quorum).map(ask));
+    for (const endpoint of candidates.slice(quorum)) {
+      if (agreed()) {
+        break;
+      }
+      await ask(endpoint);
+    }
+
+    const result = agreed();
+    if (!result) {
+      const votes = [...answers.values()].map((a) => a.endpoints.join('+')).join(' vs ');
+      throw new Error(
+        `zkEVM endpoints did not reach quorum (${quorum} required).` +
+          (votes ? ` Disagreeing answers: ${votes}.` : '') +
+          (errors.length ? ` Errors: ${errors.join('; ')}` : '')
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Ask an endpoint for its `eth_chainId` and compare it with the network profile
+   */
+  private async checkChainId(
+    layer: Layer,
+    endpoint: string,
+    provider: JsonRpcProvider
+  ): Promise<ChainIdCheck> {
+    const expected = this.settings.network[layer].chainId;
+    try {
+      const actual = Number(BigInt(await withEndpointTimeout(provider.send('eth_chainId', []))));
+      return { layer, endpoint, expected, actual };
+    } catch (error) {
+      return {
+        layer,
+        endpoint,
+        expected,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private chainIdMismatchMessage({ layer, endpoint, expected, actual }: ChainIdCheck): string {
+    const { network } = this.settings;
+    return (
+      `Chain ID mismatch: ${layer.toUpperCase()} endpoint ${endpoint} reports chain ${actual}, ` +
+      `but the ${network.name} profile expects ${network[layer].name} (chain ${expected}).`
+    );
+  }
+
+  /**
+   * Check `eth_chainId` on every L2 endpoint and the L1 endpoint.
+   * Throws when an endpoint serves a different chain; unreachable endpoints are only reported.
+   */
+  async verifyChainIds(): Promise<ChainIdCheck[]> {
+    const checks = await Promise.all([
+      ...this.endpoints.map((endpoint) =>
+        this.checkChainId('l2', endpoint.name, this.providerFor(endpoint))
+      ),
+      this.checkChainId('l1', this.getEndpointName('l1'), this.getProvider('l1')),
+    ]);
+
+    const mismatches = checks.filter(
+      (check) => check.actual !== undefined && check.actual !== check.expected
+    );
+    if (mismatches.length > 0) {
+      throw new Error(mismatches.map((check) => this.chainIdMismatchMessage(check)).join(' '));
+    }
+    return checks;
+  }
+
+  hasSigner(): boolean {
+    return !!this.settings.privateKey;
+  }
+
+  /**
+   * Wallet connected to the provider of the given layer.
+   * The endpoint's `eth_chainId` is checked first so a misconfigured RPC never receives a
+   * transaction signed for another chain.
+   */
+  async getSigner(layer: Layer = 'l2'): Promise<Wallet> {
+    if (!this.settings.privateKey) {
+      throw new Error('PRIVATE_KEY is required for signing transactions.');
+    }
+
+    const provider = this.getProvider(layer);
+    const check = await this.checkChainId(layer, this.getEndpointName(layer), provider);
+    if (check.actual === undefined) {
+      throw new Error(
+        `Could not verify the chain ID of ${layer.toUpperCase()} endpoint ${check.endpoint}: ${check.error}. Refusing to sign.`
+      );
+    }
+    if (check.actual !== check.expected) {
+      throw new Error(`${this.chainIdMismatchMessage(check)} Refusing to sign.`);
+    }
+    return new Wallet(this.settings.privateKey, provider);
+  }
+}
+
+// Standalone services of runtimes without a registered one, kept so that their providers and
+// endpoint health are reused across calls
+const fallbackServices = new WeakMap<IAgentRuntime, ZkEvmProviderService>();
+
+/**
+ * Get the registered provider service, or a standalone instance built from the runtime
+ * settings when the service has not been started (e.g. actions invoked directly). The standalone
+ * instance is created once per runtime.
+ */
+export function getZkEvmProviderService(runtime: IAgentRuntime): ZkEvmProviderService {
+  const service =
+    typeof runtime.getService === 'function'
+      ? runtime.getService<ZkEvmProviderService>(ZkEvmProviderService.serviceType)
+      : null;
+  if (service) {
+    return service;
+  }
+
+  let fallback = fallbackServices.get(runtime);
+  if (!fallback) {
+    fallback = new ZkEvmProviderService(runtime);
+    fallbackServices.set(runtime, fallback);
+  }
+  return fallback;
+}
@@ -157,12 +157,16 @@ Review the recent messages:
 
 Based on the conversation, identify:
 - address: The account address (0x...)
+- tokens: Symbols (e.g. "USDC") or addresses (0x...) of ERC-20 tokens the user asks about - optional
+- includeZeroBalances: true when the user wants tokens with a zero balance listed too - optional
 
-Respond with a JSON markdown block containing only the extracted address.
+Respond with a JSON markdown block containing only the extracted values.
 The JSON should have this structure:
 \`\`\`json
 {
-    "address": string
+    "address": string,
+    "tokens"?: string[],
+    "includeZeroBalances"?: boolean
 }
 \`\`\`
 
@@ -226,6 +230,32 @@ If no valid batch number is found, you MUST respond with the following JSON stru
 \`\`\`
 `;
 
+export const getBatchByBlockTemplate = `You are an AI assistant. Your task is to extract the L2 block number whose batch the user wants to find.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- blockNumber: A non-negative integer Polygon zkEVM block number
+
+Respond with a JSON markdown block containing only the extracted block number.
+The JSON should have this structure:
+\`\`\`json
+{
+    "blockNumber": number
+}
+\`\`\`
+
+If no valid block number is found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Block number not found. Please specify the zkEVM block number."
+}
+\`\`\`
+`;
+
 export const getCodeTemplate = `You are an AI assistant. Your task is to extract contract address from the user's message for code retrieval.
 
 Review the recent messages:
@@ -394,6 +424,38 @@ If no valid transaction hash is found, you MUST respond with the following JSON
 \`\`\`
 `;
 
+export const getTransactionFinalityTemplate = `You are an AI assistant. Your task is to extract the transaction whose L1 finality the user wants to know from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- transactionHash: The zkEVM transaction hash (0x... 64 characters) - required
+- wait: true if the user wants to wait until the transaction reaches the target finality - optional
+- targetStatus: The finality to check or wait for: "virtual" (sequenced on Ethereum) or "consolidated" (proven/verified on Ethereum) - optional, defaults to "consolidated"
+- timeoutSeconds: How long to wait at most, in seconds - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "transactionHash": string,
+    "wait"?: boolean,
+    "targetStatus"?: "virtual" | "consolidated",
+    "timeoutSeconds"?: number
+}
+\`\`\`
+
+If no valid transaction hash is found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Transaction hash not found. Please specify a valid transaction hash (0x... 64 characters)."
+}
+\`\`\`
+`;
+
 export const getTransactionReceiptTemplate = `You are an AI assistant. Your task is to extract transaction hash from the user's message for transaction receipt.
 
 Review the recent messages:
@@ -500,32 +562,239 @@ Review the recent messages:
 </recent_messages>
 
 Based on the conversation, identify:
-- bytecode: The contract bytecode (0x...) - required
-- constructorArgs: Array of constructor arguments - optional
+- bytecode: The contract bytecode (0x...) - required unless artifact or source is given
+- artifact: Name or path of a compiled Hardhat/Foundry artifact to deploy, e.g. "MyToken", "contracts/MyToken.sol:MyToken" or "MyToken.sol/MyToken.json" - optional
+- source: Solidity source code to compile and deploy, copied exactly as the user wrote it - optional, never write or complete source code yourself
+- contractName: Name of the contract to deploy when the source contains several - optional
+- name: A name the user gives the deployed contract to refer to it later, e.g. "FeeVault" - optional
+- libraries: Library addresses to link, keyed by library name, e.g. {"MathLib": "0x..."} - optional
+- create2: true to deploy deterministically with CREATE2, so the address is the same on every network - optional
+- salt: CREATE2 salt, a 0x hex value or any text label, e.g. "fee-vault-v1" - optional, implies create2
+- abi: The contract ABI (JSON array) - optional, required to encode constructorArgs unless constructorSignature is given
+- constructorSignature: The constructor signature, e.g. "constructor(string name, uint256 supply)" - optional
+- constructorArgs: Array of constructor arguments in declaration order. Keep large integers as decimal strings in base units, arrays as arrays and structs as arrays or objects - optional
 - gasLimit: Gas limit for deployment - optional
 - gasPrice: Gas price in gwei - optional
 - maxFeePerGas: Maximum fee per gas in gwei (EIP-1559) - optional
 - maxPriorityFeePerGas: Maximum priority fee per gas in gwei (EIP-1559) - optional
 - value: ETH value to send with deployment (in ETH, e.g., "0.1") - optional
+- verify: true to verify the source on the explorer after deployment, false to skip it - optional
 
 Respond with a JSON markdown block containing only the extracted values.
 The JSON should have this structure:
 \`\`\`json
 {
-    "bytecode": string,
+    "bytecode"?: string,
+    "artifact"?: string,
+    "source"?: string,
+    "contractName"?: string,
+    "name"?: string,
+    "libraries"?: { [name: string]: string },
+    "create2"?: boolean,
+    "salt"?: string,
+    "abi"?: any[],
+    "constructorSignature"?: string,
     "constructorArgs"?: any[],
     "gasLimit"?: string | number,
     "gasPrice"?: string,
     "maxFeePerGas"?: string,
     "maxPriorityFeePerGas"?: string,
-    "value"?: string
+    "value"?: string,
+    "verify"?: boolean
+}
+\`\`\`
+
+If no valid bytecode, artifact or Solidity source is found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Contract bytecode not found. Please specify valid contract bytecode starting with '0x', a compiled artifact name or Solidity source."
+}
+\`\`\`
+`;
+
+export const deployProxyTemplate = `You are an AI assistant. Your task is to extract upgradeable proxy deployment parameters from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- artifact: Name or path of the compiled Hardhat/Foundry artifact of the implementation, e.g. "VaultV1" or "contracts/VaultV1.sol:VaultV1" - required unless source or implementation is given
+- source: Solidity source code of the implementation, copied exactly as the user wrote it - optional, never write or complete source code yourself
+- contractName: Name of the implementation contract when the source contains several - optional
+- implementation: Address of an implementation that is already deployed (0x...) - optional
+- name: A name the user gives the deployed contract to refer to it later, e.g. "FeeVault" - optional
+- abi: The implementation ABI (JSON array) - optional, only needed with implementation
+- kind: "uups" or "transparent" - optional, detected from the implementation when omitted
+- initializer: Initializer function name or signature, e.g. "initialize" or "initialize(address,uint256)" - optional
+- initializerArgs: Array of initializer arguments in declaration order. Keep large integers as decimal strings in base units - optional
+- owner: Owner of the ProxyAdmin of a transparent proxy (0x...) - optional, defaults to the agent wallet
+- libraries: Library addresses to link, keyed by library name - optional
+- gasLimit: Gas limit for each deployment transaction - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "artifact"?: string,
+    "source"?: string,
+    "contractName"?: string,
+    "implementation"?: string,
+    "name"?: string,
+    "abi"?: any[],
+    "kind"?: "uups" | "transparent",
+    "initializer"?: string,
+    "initializerArgs"?: any[],
+    "owner"?: string,
+    "libraries"?: { [name: string]: string },
+    "gasLimit"?: string | number
+}
+\`\`\`
+
+If no implementation artifact, source or address is found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Implementation not found. Please specify a compiled artifact name, Solidity source or the address of a deployed implementation."
+}
+\`\`\`
+`;
+
+export const getProxyInfoTemplate = `You are an AI assistant. Your task is to extract the proxy contract to inspect from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- address: The proxy contract address (0x...)
+- blockTag: The block tag ("latest" or block number) - optional, defaults to "latest"
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "address": string,
+    "blockTag"?: string | number
+}
+\`\`\`
+
+If no address is found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Proxy address not found. Please specify the proxy contract address."
+}
+\`\`\`
+`;
+
+export const upgradeProxyTemplate = `You are an AI assistant. Your task is to extract proxy upgrade parameters from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- proxy: The proxy contract address (0x...)
+- artifact: Name or path of the compiled Hardhat/Foundry artifact of the new implementation, e.g. "VaultV2" - required unless source or implementation is given
+- source: Solidity source code of the new implementation, copied exactly as the user wrote it - optional, never write or complete source code yourself
+- contractName: Name of the new implementation contract when the source contains several - optional
+- implementation: Address of a new implementation that is already deployed (0x...) - optional
+- previousArtifact: Artifact of the current implementation, used to check the storage layout - optional
+- abi: The new implementation ABI (JSON array) - optional, only needed with implementation and call
+- call: Function to call on the proxy right after the upgrade, e.g. "initializeV2" - optional
+- callArgs: Array of arguments for call in declaration order - optional
+- unsafeSkipStorageCheck: true only if the user explicitly accepts an incompatible storage layout - optional
+- libraries: Library addresses to link, keyed by library name - optional
+- gasLimit: Gas limit for each transaction - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "proxy": string,
+    "artifact"?: string,
+    "source"?: string,
+    "contractName"?: string,
+    "implementation"?: string,
+    "previousArtifact"?: string,
+    "abi"?: any[],
+    "call"?: string,
+    "callArgs"?: any[],
+    "unsafeSkipStorageCheck"?: boolean,
+    "libraries"?: { [name: string]: string },
+    "gasLimit"?: string | number
+}
+\`\`\`
+
+If the proxy address or the new implementation is not found, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Upgrade parameters not found. Please specify the proxy address and the new implementation artifact, source or address."
+}
+\`\`\`
+`;
+
+export const getDeployedContractsTemplate = `You are an AI assistant. Your task is to extract filters for listing the contracts the agent deployed from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- name: Name or address of a specific deployed contract, e.g. "FeeVault" - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "name"?: string
+}
+\`\`\`
+
+If the user asks for all deployed contracts, respond with an empty JSON object.
+`;
+
+export const verifyContractTemplate = `You are an AI assistant. Your task is to extract contract verification parameters from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- address: The deployed contract address (0x...) - required unless only checking a guid
+- guid: GUID of an earlier verification submission, to check its status - optional
+- source: Solidity source code the contract was compiled from, copied exactly as the user wrote it - optional, never write or complete source code yourself
+- artifact: Name or path of the compiled Hardhat artifact the contract was deployed from - optional
+- contractName: Name of the contract when the source contains several - optional
+- constructorArgs: Array of the constructor arguments used at deployment, in declaration order - optional
+- libraries: Addresses of the libraries the contract was linked with, keyed by library name - optional
+- wait: false if the user does not want to wait for the explorer's result - optional, defaults to true
+- timeoutSeconds: How long to wait for the result, in seconds - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "address"?: string,
+    "guid"?: string,
+    "source"?: string,
+    "artifact"?: string,
+    "contractName"?: string,
+    "constructorArgs"?: any[],
+    "libraries"?: { [name: string]: string },
+    "wait"?: boolean,
+    "timeoutSeconds"?: number
 }
 \`\`\`
 
-If no valid bytecode is found, you MUST respond with the following JSON structure:
+If neither a contract address nor a guid is found, you MUST respond with the following JSON structure:
 \`\`\`json
 {
-    "error": "Contract bytecode not found. Please specify valid contract bytecode starting with '0x'."
+    "error": "Contract address not found. Please specify the address of the contract to verify."
 }
 \`\`\`
 `;
@@ -538,9 +807,10 @@ Review the recent messages:
 </recent_messages>
 
 Based on the conversation, identify:
-- tokenAddress: The token contract address (0x...) - use null for ETH - required
+- token: The token symbol as the user wrote it (e.g. "USDC") or its contract address (0x...) - use "ETH" for ETH - required
 - amount: The amount to bridge (e.g., "1.5", "100") - required
 - direction: The bridge direction ("deposit" for L1->L2, "withdraw" for L2->L1) - required
+- destinationAddress: The recipient address on the destination chain (0x...) - optional, use null to bridge to the sender's own address
 - gasLimit: Gas limit for the transaction - optional
 - gasPrice: Gas price in gwei - optional
 - maxFeePerGas: Maximum fee per gas in gwei (EIP-1559) - optional
@@ -550,9 +820,10 @@ Respond with a JSON markdown block containing only the extracted values.
 The JSON should have this structure:
 \`\`\`json
 {
-    "tokenAddress": string | null,
+    "token": string,
     "amount": string,
     "direction": "deposit" | "withdraw",
+    "destinationAddress"?: string | null,
     "gasLimit"?: string | number,
     "gasPrice"?: string,
     "maxFeePerGas"?: string,
@@ -563,7 +834,7 @@ The JSON should have this structure:
 If required parameters are missing, you MUST respond with the following JSON structure:
 \`\`\`json
 {
-    "error": "Bridge parameters not found. Please specify token address (or null for ETH), amount, and direction (deposit/withdraw)."
+    "error": "Bridge parameters not found. Please specify the token (symbol or address, ETH for ether), amount, and direction (deposit/withdraw)."
 }
 \`\`\`
 `;
@@ -576,8 +847,11 @@ Review the recent messages:
 </recent_messages>
 
 Based on the conversation, identify:
-- destinationChain: The destination chain ("ethereum" for L1 or "zkevm" for L2) - required
-- messageData: The arbitrary calldata/message data (0x...) - required
+- operation: "bridge" to send a new message, or "claim" to execute a previously bridged message on its destination chain - optional, defaults to "bridge"
+- destinationChain: The destination chain ("ethereum" for L1 or "zkevm" for L2) - required for bridge
+- destinationAddress: The contract on the destination chain that receives the message through onMessageReceived (0x...) - optional, defaults to the sender's own address
+- messageData: The arbitrary calldata/message data (0x...) - required for bridge
+- bridgeTicketId: The bridge ticket of the message to claim, in the form "<networkId>-<depositCount>" (e.g., "1-678") - required for claim
 - gasLimit: Gas limit for the transaction - optional
 - gasPrice: Gas price in gwei - optional
 - maxFeePerGas: Maximum fee per gas in gwei (EIP-1559) - optional
@@ -588,8 +862,11 @@ Respond with a JSON markdown block containing only the extracted values.
 The JSON should have this structure:
 \`\`\`json
 {
-    "destinationChain": "ethereum" | "zkevm",
-    "messageData": string,
+    "operation"?: "bridge" | "claim",
+    "destinationChain"?: "ethereum" | "zkevm",
+    "destinationAddress"?: string,
+    "messageData"?: string,
+    "bridgeTicketId"?: string,
     "gasLimit"?: string | number,
     "gasPrice"?: string,
     "maxFeePerGas"?: string,
@@ -601,7 +878,7 @@ The JSON should have this structure:
 If required parameters are missing, you MUST respond with the following JSON structure:
 \`\`\`json
 {
-    "error": "Bridge message parameters not found. Please specify destination chain (ethereum/zkevm) and message data (0x...)."
+    "error": "Bridge message parameters not found. Please specify destination chain (ethereum/zkevm) and message data (0x...), or the bridge ticket of a message to claim."
 }
 \`\`\`
 `;
@@ -614,9 +891,12 @@ Review the recent messages:
 </recent_messages>
 
 Based on the conversation, identify:
-- contractAddress: The smart contract address (0x...) - required
-- abi: The contract ABI (JSON array) - required
-- methodName: The contract method/function name to call - required
+- contractAddress: The smart contract address (0x...) - required unless contractName is given
+- contractName: Name of a contract the agent deployed earlier, e.g. "FeeVault" in "call setFee on my FeeVault contract" - optional
+- abi: The contract ABI (JSON array) - optional, only when the user provides it, never write an ABI yourself
+- methodName: The contract method/function name to call, or its signature when the name is overloaded, e.g. "safeTransferFrom(address,address,uint256)" - required
+- methodSignature: The full function signature when the user gives the parameter types, e.g. "function setFee(uint256 fee) nonpayable" or "function fee() view returns (uint256)" - optional, include "view returns (...)" for read-only functions and "nonpayable" or "payable" for transactions; a signature without either is only read
+- standard: The token or vault standard the contract follows ("ERC20", "ERC721", "ERC1155" or "ERC4626") - optional
 - args: Array of arguments for the method call - optional (empty array if no args)
 - gasLimit: Gas limit for the transaction - optional
 - gasPrice: Gas price in gwei - optional
@@ -628,9 +908,12 @@ Respond with a JSON markdown block containing only the extracted values.
 The JSON should have this structure:
 \`\`\`json
 {
-    "contractAddress": string,
-    "abi": any[],
+    "contractAddress"?: string,
+    "contractName"?: string,
+    "abi"?: any[],
     "methodName": string,
+    "methodSignature"?: string,
+    "standard"?: string,
     "args"?: any[],
     "gasLimit"?: string | number,
     "gasPrice"?: string,
@@ -643,7 +926,146 @@ The JSON should have this structure:
 If required parameters are missing, you MUST respond with the following JSON structure:
 \`\`\`json
 {
-    "error": "Smart contract interaction parameters not found. Please specify contract address, ABI, and method name."
+    "error": "Smart contract interaction parameters not found. Please specify the contract address or name, and the method name."
+}
+\`\`\`
+`;
+
+export const multicallTemplate = `You are an AI assistant. Your task is to extract a batch of read-only smart contract calls from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify every view function call the user wants to read, each with:
+- contractAddress: The smart contract address (0x...) - required unless contractName is given
+- contractName: Name of a contract the agent deployed earlier - optional
+- methodName: The view function name, or its signature when the name is overloaded - required
+- methodSignature: The full function signature when the user gives it, e.g. "function fee() view returns (uint256)" - optional, without "returns (...)" the raw return data is reported
+- standard: The standard the contract follows ("ERC20", "ERC721", "ERC1155" or "ERC4626") - optional
+- abi: The contract ABI (JSON array) - optional, only when the user provides it, never write an ABI yourself
+- args: Array of arguments for the call - optional (empty array if no args)
+- allowFailure: false when the whole batch should fail if this call reverts - optional, defaults to true
+
+Also identify:
+- blockTag: Block number to read at - optional, defaults to the latest block
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "calls": [
+        {
+            "contractAddress"?: string,
+            "contractName"?: string,
+            "methodName": string,
+            "methodSignature"?: string,
+            "standard"?: string,
+            "abi"?: any[],
+            "args"?: any[],
+            "allowFailure"?: boolean
+        }
+    ],
+    "blockTag"?: number
+}
+\`\`\`
+
+If no contract call can be identified, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "No contract calls found. Please specify the contracts and the view functions to read."
+}
+\`\`\`
+`;
+
+export const claimAssetsTemplate = `You are an AI assistant. Your task is to extract the bridge ticket of a deposit to claim from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- bridgeTicketId: The bridge ticket in the form "<networkId>-<depositCount>" (e.g., "0-12345", "1-678") as reported when the assets were bridged - required
+- gasLimit: Gas limit for the claim transaction - optional
+- gasPrice: Gas price in gwei - optional
+- maxFeePerGas: Maximum fee per gas in gwei (EIP-1559) - optional
+- maxPriorityFeePerGas: Maximum priority fee per gas in gwei (EIP-1559) - optional
+
+If the user gives a deposit count and says the assets were bridged from Ethereum/L1, the ticket is "0-<depositCount>"; if they were bridged from zkEVM/L2, it is "1-<depositCount>".
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "bridgeTicketId": string,
+    "gasLimit"?: string | number,
+    "gasPrice"?: string,
+    "maxFeePerGas"?: string,
+    "maxPriorityFeePerGas"?: string
+}
+\`\`\`
+
+If required parameters are missing, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Bridge ticket not found. Please specify the bridge ticket (e.g., 0-12345) of the deposit to claim."
+}
+\`\`\`
+`;
+
+export const getBridgeTransfersTemplate = `You are an AI assistant. Your task is to extract filters for listing the agent's bridge transfers from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- bridgeTicketId: A specific bridge ticket in the form "<networkId>-<depositCount>" (e.g., "0-12345") - optional
+- transactionHash: A specific bridge transaction hash (0x... 64 hex characters) - optional
+- status: Only list transfers in this state ("pending_inclusion", "indexed", "ready_to_claim", "claimed", "failed") - optional
+- inFlightOnly: true if the user only wants transfers that are not claimed yet - optional
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "bridgeTicketId"?: string,
+    "transactionHash"?: string,
+    "status"?: string,
+    "inFlightOnly"?: boolean
+}
+\`\`\`
+
+If the user asks for all bridge transfers, respond with an empty JSON object.
+`;
+
+export const getTokenMappingTemplate = `You are an AI assistant. Your task is to extract the token to map between Ethereum and Polygon zkEVM from the user's message.
+
+Review the recent messages:
+<recent_messages>
+{{recentMessages}}
+</recent_messages>
+
+Based on the conversation, identify:
+- token: The token symbol (e.g. "USDT") or contract address (0x...) the user knows - required
+- network: The chain that token is on ("ethereum" for L1 or "zkevm" for L2) - required, use "ethereum" when not stated
+
+Respond with a JSON markdown block containing only the extracted values.
+The JSON should have this structure:
+\`\`\`json
+{
+    "token": string,
+    "network": "ethereum" | "zkevm"
+}
+\`\`\`
+
+If required parameters are missing, you MUST respond with the following JSON structure:
+\`\`\`json
+{
+    "error": "Token not found. Please specify the token symbol or contract address and the chain it is on."
 }
 \`\`\`
 `;
@@ -0,0 +1,246 @@
+import {
+  ConstructorFragment,
+  FunctionFragment,
+  Interface,
+  type InterfaceAbi,
+  ParamType,
+  getAddress,
+  isAddress,
+  isHexString,
+} from 'ethers';
+
+/**
+ * A contract ABI as accepted from users: JSON fragments or human-readable signatures, either as
+ * an array or as a JSON string
+ */
+export type ContractAbi = InterfaceAbi;
+
+export interface EncodedConstructorArgs {
+  /** Full constructor signature, e.g. `constructor(string name, uint256 supply)` */
+  signature: string;
+  /** ABI-encoded arguments to append to the creation bytecode (`0x` when there are none) */
+  encodedArgs: string;
+  /** Arguments after type coercion, in declaration order */
+  values: unknown[];
+}
+
+/**
+ * Constructor of an ABI, or of a constructor signature such as `constructor(address,uint256)`,
+ * `(address owner, uint256 cap)` or `address,uint256`. An ABI without a constructor has a
+ * constructor without arguments.
+ */
+export function getConstructorFragment(abiOrSignature: ContractAbi): ConstructorFragment {
+  if (typeof abiOrSignature === 'string' && !abiOrSignature.trim().startsWith('[')) {
+    const signature = abiOrSignature.trim();
+    return ConstructorFragment.from(
+      signature.startsWith('constructor')
+        ? signature
+        : signature.startsWith('(')
+          ? `constructor${signature}`
+          : `constructor(${signature})`
+    );
+  }
+  return new Interface(abiOrSignature).deploy;
+}
+
+function describeParam(param: ParamType, path: string, context: string): string {
+  return `${context} argument ${path} (${param.format('sighash')})`;
+}
+
+function parseInteger(param: ParamType, value: unknown, path: string, context: string): bigint {
+  let parsed: bigint | null = null;
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value.trim())) {
+    parsed = BigInt(value.trim());
+  }
+  if (parsed === null) {
+    throw new Error(
+      `Invalid ${describeParam(param, path, context)}: expected an integer in base units, got ${JSON.stringify(value)}`
+    );
+  }
+
+  const signed = param.baseType.startsWith('int');
+  const bits = BigInt(param.baseType.replace(/^u?int/, '') || '256');
+  const min = signed ? -(1n << (bits - 1n)) : 0n;
+  const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+  if (parsed < min || parsed > max) {
+    throw new Error(`Invalid ${describeParam(param, path, context)}: ${parsed} is out of range`);
+  }
+  return parsed;
+}
+
+/**
+ * Coerce a user-supplied value (typically from JSON) to what the ABI coder expects for a
+ * parameter: checksummed addresses, bigints from decimal or hex strings, booleans from
+ * `"true"`/`"false"`, and arrays and tuples recursively. Throws on anything that does not match;
+ * `context` names the constructor or function in the error.
+ */
+export function coerceAbiValue(
+  param: ParamType,
+  value: unknown,
+  path = param.name,
+  context = 'constructor'
+): unknown {
+  if (param.isArray()) {
+    const items =
+      typeof value === 'string' && value.trim().startsWith('[') ? JSON.parse(value) : value;
+    if (!Array.isArray(items)) {
+      throw new Error(`Invalid ${describeParam(param, path, context)}: expected an array`);
+    }
+    if (param.arrayLength !== -1 && items.length !== param.arrayLength) {
+      throw new Error(
+        `Invalid ${describeParam(param, path, context)}: expected ${param.arrayLength} items, got ${items.length}`
+      );
+    }
+    return items.map((item, i) =>
+      coerceAbiValue(param.arrayChildren, item, `${path}[${i}]`, context)
+    );
+  }
+
+  if (param.isTuple()) {
+    const components = param.components;
+    if (Array.isArray(value)) {
+      if (value.length !== components.length) {
+        throw new Error(
+          `Invalid ${describeParam(param, path, context)}: expected ${components.length} fields, got ${value.length}`
+        );
+      }
+      return components.map((c, i) =>
+        coerceAbiValue(c, value[i], `${path}.${c.name || i}`, context)
+      );
+    }
+    if (value && typeof value === 'object') {
+      return components.map((c, i) => {
+        if (!c.name || !(c.name in value)) {
+          throw new Error(
+            `Invalid ${describeParam(param, path, context)}: missing field ${c.name || i}`
+          );
+        }
+        return coerceAbiValue(
+          c,
+          (value as Record<string, unknown>)[c.name],
+          `${path}.${c.name}`,
+          context
+        );
+      });
+    }
+    throw new Error(`Invalid ${describeParam(param, path, context)}: expected an array or object`);
+  }
+
+  const type = param.baseType;
+  if (type === 'address') {
+    if (typeof value !== 'string' || !isAddress(value)) {
+      throw new Error(
+        `Invalid ${describeParam(param, path, context)}: expected an address, got ${JSON.stringify(value)}`
+      );
+    }
+    return getAddress(value);
+  }
+  if (type === 'bool') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    throw new Error(
+      `Invalid ${describeParam(param, path, context)}: expected true or false, got ${JSON.stringify(value)}`
+    );
+  }
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    return parseInteger(param, value, path, context);
+  }
+  if (type.startsWith('bytes')) {
+    const size = type === 'bytes' ? null : Number(type.slice(5));
+    if (typeof value !== 'string' || !isHexString(value, size ?? undefined)) {
+      throw new Error(
+        `Invalid ${describeParam(param, path, context)}: expected ${size ? `${size} bytes of ` : ''}hex data, got ${JSON.stringify(value)}`
+      );
+    }
+    return value;
+  }
+  if (type === 'string') {
+    if (typeof value !== 'string') {
+      throw new Error(
+        `Invalid ${describeParam(param, path, context)}: expected a string, got ${JSON.stringify(value)}`
+      );
+    }
+    return value;
+  }
+  return value;
+}
+
+/**
+ * ABI-encode constructor arguments against the constructor of an ABI or a constructor signature.
+ * Throws when the number or types of the arguments do not match the constructor.
+ */
+export function encodeConstructorArgs(
+  abiOrSignature: ContractAbi,
+  args: unknown[] = []
+): EncodedConstructorArgs {
+  const fragment = getConstructorFragment(abiOrSignature);
+  const signature = fragment.format('full');
+  if (args.length !== fragment.inputs.length) {
+    throw new Error(
+      `${signature} expects ${fragment.inputs.length} argument(s) but ${args.length} were provided`
+    );
+  }
+
+  const values = fragment.inputs.map((param, i) =>
+    coerceAbiValue(param, args[i], param.name || `#${i}`)
+  );
+  const encodedArgs = new Interface([fragment]).encodeDeploy(values);
+  return { signature, encodedArgs, values };
+}
+
+export interface EncodedFunctionCall {
+  /** Full function signature, e.g. `function initialize(address owner, uint256 fee)` */
+  signature: string;
+  /** Calldata: selector followed by the ABI-encoded arguments */
+  data: string;
+  /** Arguments after type coercion, in declaration order */
+  values: unknown[];
+}
+
+/**
+ * ABI-encode a call to a function of an ABI, by name or signature (`initialize(address,uint256)`),
+ * or to a bare function signature such as `function initialize(address owner)`
+ */
+export function encodeFunctionCall(
+  abi: ContractAbi | null | undefined,
+  functionNameOrSignature: string,
+  args: unknown[] = []
+): EncodedFunctionCall {
+  const reference = functionNameOrSignature.trim();
+  let fragment;
+  if (abi) {
+    fragment = new Interface(abi).getFunction(reference.replace(/^function\s+/, ''));
+  } else if (reference.includes('(')) {
+    fragment = FunctionFragment.from(
+      reference.startsWith('function') ? reference : `function ${reference}`
+    );
+  }
+  if (!fragment) {
+    throw new Error(
+      abi
+        ? `Function ${reference} not found in the ABI`
+        : `Function ${reference} needs the contract ABI or a full signature to be encoded`
+    );
+  }
+
+  const signature = fragment.format('full');
+  if (args.length !== fragment.inputs.length) {
+    throw new Error(
+      `${signature} expects ${fragment.inputs.length} argument(s) but ${args.length} were provided`
+    );
+  }
+
+  const values = fragment.inputs.map((param, i) =>
+    coerceAbiValue(param, args[i], param.name || `#${i}`, fragment.name)
+  );
+  const data = new Interface([fragment]).encodeFunctionData(fragment, values);
+  return { signature, data, values };
+}
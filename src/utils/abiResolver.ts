@@ -0,0 +1,330 @@
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { type FunctionFragment, Interface } from 'ethers';
+import type { ContractAbi } from './abiEncoding';
+import { isInside, loadArtifact } from './artifacts';
+import { findDeployedContract, toJsonAbi } from './contractRegistry';
+import { fetchContractAbi, resolveExplorerConfig } from './explorer';
+
+const DEFAULT_ABI_DIRS = ['abis'];
+
+export type WellKnownInterface = 'ERC20' | 'ERC721' | 'ERC1155' | 'ERC4626';
+
+/**
+ * Standard token and vault interfaces, tried in this order
+ */
+export const WELL_KNOWN_ABIS: Record<WellKnownInterface, string[]> = {
+  ERC20: [
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function transfer(address to, uint256 amount) returns (bool)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  ],
+  ERC721: [
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function tokenURI(uint256 tokenId) view returns (string)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function approve(address to, uint256 tokenId)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function transferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  ],
+  ERC1155: [
+    'function uri(uint256 id) view returns (string)',
+    'function balanceOf(address account, uint256 id) view returns (uint256)',
+    'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+    'function isApprovedForAll(address account, address operator) view returns (bool)',
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+    'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  ],
+  ERC4626: [
+    'function asset() view returns (address)',
+    'function totalAssets() view returns (uint256)',
+    'function convertToShares(uint256 assets) view returns (uint256)',
+    'function convertToAssets(uint256 shares) view returns (uint256)',
+    'function maxDeposit(address receiver) view returns (uint256)',
+    'function previewDeposit(uint256 assets) view returns (uint256)',
+    'function maxMint(address receiver) view returns (uint256)',
+    'function previewMint(uint256 shares) view returns (uint256)',
+    'function maxWithdraw(address owner) view returns (uint256)',
+    'function previewWithdraw(uint256 assets) view returns (uint256)',
+    'function maxRedeem(address owner) view returns (uint256)',
+    'function previewRedeem(uint256 shares) view returns (uint256)',
+    'function deposit(uint256 assets, address receiver) returns (uint256)',
+    'function mint(uint256 shares, address receiver) returns (uint256)',
+    'function withdraw(uint256 assets, address receiver, address owner) returns (uint256)',
+    'function redeem(uint256 shares, address receiver, address owner) returns (uint256)',
+  ],
+};
+
+export type AbiSource =
+  | 'provided'
+  | 'registry'
+  | 'abi-file'
+  | 'well-known'
+  | 'explorer'
+  | 'signature';
+
+/**
+ * A JSON ABI containing the function to call, and where it was found
+ */
+export interface ResolvedAbi {
+  abi: any[];
+  source: AbiSource;
+  /** Registry name, file path, interface name, explorer API or signature it came from */
+  detail: string;
+}
+
+export interface AbiLookup {
+  address: string;
+  /** Function name, or signature such as `transfer(address,uint256)` */
+  method: string;
+  args?: unknown[];
+  /** ABI given by the user, used when it has the function */
+  abi?: ContractAbi | null;
+  /** Contract name to look for in the ABI and artifact directories */
+  contractName?: string | null;
+  /** Well-known interface to use before the others */
+  standard?: string | null;
+  /** Human-readable signature to fall back to, e.g. `function fee() view returns (uint256)` */
+  signature?: string | null;
+}
+
+/**
+ * ABI directories from `CONTRACT_ABI_DIR` (comma-separated), or `abis` in the working directory
+ */
+export function getAbiDirs(runtime: IAgentRuntime): string[] {
+  const configured = runtime.getSetting('CONTRACT_ABI_DIR');
+  const dirs = configured
+    ? String(configured)
+        .split(',')
+        .map((dir) => dir.trim())
+        .filter(Boolean)
+    : DEFAULT_ABI_DIRS;
+  return dirs.map((dir) => resolve(dir));
+}
+
+/**
+ * The function a name or signature refers to, null when the ABI has none. Overloads are told
+ * apart by the arguments.
+ */
+export function findFunction(
+  abi: ContractAbi,
+  method: string,
+  args: unknown[] = []
+): FunctionFragment | null {
+  try {
+    const iface = new Interface(abi);
+    try {
+      return iface.getFunction(method);
+    } catch {
+      return iface.getFunction(method, args);
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * JSON ABI of a function signature, with or without the `function` keyword. `nonpayable`, which
+ * ethers does not parse, is accepted as the default mutability.
+ */
+export function abiFromSignature(signature: string): any[] {
+  const trimmed = signature.replace(/\bnonpayable\b/, '').trim();
+  return toJsonAbi([trimmed.startsWith('function ') ? trimmed : `function ${trimmed}`]);
+}
+
+/**
+ * Whether a function signature says nothing about its mutability or outputs, e.g. `fee()` or
+ * `balanceOf(address)`. Such a function is called read-only and its raw return data is reported.
+ */
+export function isBareSignature(signature: string): boolean {
+  return !/\b(view|pure|payable|nonpayable|returns)\b/.test(
+    signature.slice(signature.indexOf('('))
+  );
+}
+
+// `<name>.json` in an ABI directory; null when the name would escape it, e.g. `../secrets`
+function abiFilePath(dir: string, name: string): string | null {
+  const path = resolve(dir, `${name}.json`);
+  return isInside(dir, path) ? path : null;
+}
+
+async function readAbiFile(path: string | null): Promise<any[] | null> {
+  if (!path) {
+    return null;
+  }
+
+  let json;
+  try {
+    json = JSON.parse(await readFile(path, 'utf8'));
+  } catch {
+    return null;
+  }
+  // A bare ABI, or an artifact-like object holding one
+  const abi = Array.isArray(json) ? json : json?.abi;
+  return Array.isArray(abi) ? abi : null;
+}
+
+/**
+ * JSON ABI known for a contract address, from the deployed-contract registry, `<address>.json` in
+ * the ABI directories or the explorer. Null when none has one.
+ */
+export async function getContractAbi(
+  runtime: IAgentRuntime,
+  chainId: number,
+  address: string
+): Promise<any[] | null> {
+  const steps: Array<[AbiSource, () => Promise<any[] | null>]> = [
+    ['registry', async () => (await findDeployedContract(runtime, chainId, address))?.abi ?? null],
+    [
+      'abi-file',
+      async () => {
+        for (const dir of getAbiDirs(runtime)) {
+          for (const name of new Set([address, address.toLowerCase()])) {
+            const abi = await readAbiFile(abiFilePath(dir, name));
+            if (abi) {
+              return abi;
+            }
+          }
+        }
+        return null;
+      },
+    ],
+    ['explorer', () => fetchContractAbi(resolveExplorerConfig(runtime), address)],
+  ];
+
+  for (const [source, step] of steps) {
+    try {
+      const abi = await step();
+      if (abi) {
+        return abi;
+      }
+    } catch (error) {
+      logger.debug(
+        `[getContractAbi] No ABI from ${source} for ${address}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Find an ABI with the function to call on a contract. Tried in order: the ABI given by the user,
+ * the deployed-contract registry, the ABI directories (`<address>.json` or `<contractName>.json`)
+ * and artifacts, well-known interfaces, the explorer, then the function signature. Null when none
+ * has the function.
+ */
+export async function resolveContractAbi(
+  runtime: IAgentRuntime,
+  chainId: number,
+  lookup: AbiLookup
+): Promise<ResolvedAbi | null> {
+  const { address, method, args = [], contractName } = lookup;
+  const has = (abi: ContractAbi | null | undefined): abi is ContractAbi =>
+    !!abi && findFunction(abi, method, args) !== null;
+
+  // An ABI given by the user naming the function is used as is
+  if (
+    Array.isArray(lookup.abi) &&
+    lookup.abi.some((item) => item?.type === 'function' && item.name === method)
+  ) {
+    return { abi: lookup.abi, source: 'provided', detail: 'message' };
+  }
+  if (has(lookup.abi)) {
+    return { abi: toJsonAbi(lookup.abi), source: 'provided', detail: 'message' };
+  }
+
+  const steps: Array<[AbiSource, () => Promise<ResolvedAbi | null>]> = [
+    [
+      'registry',
+      async () => {
+        const contract = await findDeployedContract(runtime, chainId, address);
+        return has(contract?.abi)
+          ? { abi: contract.abi, source: 'registry', detail: contract.name ?? contract.address }
+          : null;
+      },
+    ],
+    [
+      'abi-file',
+      async () => {
+        const names = [address, address.toLowerCase(), contractName].filter(Boolean);
+        for (const dir of getAbiDirs(runtime)) {
+          for (const name of names) {
+            const path = abiFilePath(dir, name);
+            const abi = await readAbiFile(path);
+            if (has(abi)) {
+              return { abi, source: 'abi-file', detail: path };
+            }
+          }
+        }
+        if (contractName) {
+          const artifact = await loadArtifact(runtime, contractName).catch(() => null);
+          if (has(artifact?.abi)) {
+            return { abi: artifact.abi, source: 'abi-file', detail: artifact.path };
+          }
+        }
+        return null;
+      },
+    ],
+    [
+      'well-known',
+      async () => {
+        const hint = lookup.standard?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+        const names = Object.keys(WELL_KNOWN_ABIS) as WellKnownInterface[];
+        const ordered = names.includes(hint as WellKnownInterface)
+          ? [hint as WellKnownInterface, ...names.filter((name) => name !== hint)]
+          : names;
+        const name = ordered.find((n) => has(WELL_KNOWN_ABIS[n]));
+        return name
+          ? { abi: toJsonAbi(WELL_KNOWN_ABIS[name]), source: 'well-known', detail: name }
+          : null;
+      },
+    ],
+    [
+      'explorer',
+      async () => {
+        const config = resolveExplorerConfig(runtime);
+        const abi = await fetchContractAbi(config, address);
+        return has(abi) ? { abi, source: 'explorer', detail: config.apiUrl } : null;
+      },
+    ],
+    [
+      'signature',
+      async () => {
+        // The method itself may be a signature
+        const signature = lookup.signature || (method.includes('(') ? method : null);
+        const abi = signature ? abiFromSignature(signature) : null;
+        return has(abi) ? { abi, source: 'signature', detail: signature } : null;
+      },
+    ],
+  ];
+
+  for (const [source, step] of steps) {
+    try {
+      const resolved = await step();
+      if (resolved) {
+        return resolved;
+      }
+    } catch (error) {
+      logger.debug(
+        `[resolveContractAbi] No ABI from ${source} for ${address}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return null;
+}
@@ -0,0 +1,288 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { getAddress, isAddress } from 'ethers';
+import type { NetworkName } from '../networks';
+import type { StorageLayout } from './storageLayout';
+
+// Hardhat writes to `artifacts/`, Foundry to `out/`
+const DEFAULT_ARTIFACTS_DIRS = ['artifacts', 'out'];
+// Directories holding compiler inputs and caches rather than contract artifacts
+const SKIPPED_DIRS = new Set(['build-info', 'cache', 'node_modules']);
+// Agent cache key holding the addresses of contracts deployed from artifacts, per network
+const ARTIFACT_DEPLOYMENTS_CACHE_KEY = 'polygon-zkevm/artifact-deployments';
+
+/**
+ * Byte offsets of a library placeholder in the bytecode, keyed by source name then library name
+ */
+export type LinkReferences = Record<
+  string,
+  Record<string, Array<{ start: number; length: number }>>
+>;
+
+/**
+ * A compiled contract, loaded from a Hardhat or Foundry artifact or compiled from source
+ */
+export interface ContractArtifact {
+  contractName: string;
+  /** Source file the contract was compiled from, e.g. `contracts/Token.sol` */
+  sourceName: string | null;
+  abi: any[];
+  /** Creation bytecode, with library placeholders when `linkReferences` is not empty */
+  bytecode: string;
+  linkReferences: LinkReferences;
+  format: 'hardhat' | 'foundry' | 'solc';
+  /** Absolute path of the artifact file, or the source name when compiled from source */
+  path: string;
+  /** Storage layout, when the compiler was asked for it (Foundry `extra_output`) */
+  storageLayout?: StorageLayout;
+}
+
+/**
+ * Artifact directories from `CONTRACT_ARTIFACTS_DIR` (comma-separated), or `artifacts` and `out`
+ * in the working directory
+ */
+export function getArtifactsDirs(runtime: IAgentRuntime): string[] {
+  const configured = runtime.getSetting('CONTRACT_ARTIFACTS_DIR');
+  const dirs = configured
+    ? String(configured)
+        .split(',')
+        .map((dir) => dir.trim())
+        .filter(Boolean)
+    : DEFAULT_ARTIFACTS_DIRS;
+  return dirs.map((dir) => resolve(dir));
+}
+
+/**
+ * Whether a resolved path is strictly inside a directory
+ */
+export function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function findArtifactFiles(dir: string, fileName: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const found: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+      found.push(...(await findArtifactFiles(path, fileName)));
+    } else if (entry.isFile() && entry.name === fileName) {
+      found.push(path);
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse a Hardhat (`hh-sol-artifact-1`) or Foundry artifact
+ */
+export function parseArtifact(json: any, path: string): ContractArtifact {
+  if (!json || !Array.isArray(json.abi)) {
+    throw new Error(`${path} is not a contract artifact (no ABI)`);
+  }
+
+  // Foundry nests the bytecode and its link references in an object
+  const isFoundry = typeof json.bytecode === 'object' && json.bytecode !== null;
+  const rawBytecode: string | undefined = isFoundry ? json.bytecode.object : json.bytecode;
+  if (!rawBytecode || rawBytecode === '0x') {
+    throw new Error(`${path} has no creation bytecode (is it an interface or abstract contract?)`);
+  }
+
+  const compilationTarget = json.metadata?.settings?.compilationTarget;
+  const [targetSource] = compilationTarget ? Object.keys(compilationTarget) : [];
+  return {
+    contractName: json.contractName ?? basename(path, '.json'),
+    sourceName: json.sourceName ?? targetSource ?? null,
+    abi: json.abi,
+    bytecode: rawBytecode.startsWith('0x') ? rawBytecode : `0x${rawBytecode}`,
+    linkReferences: (isFoundry ? json.bytecode.linkReferences : json.linkReferences) ?? {},
+    format: isFoundry ? 'foundry' : 'hardhat',
+    path,
+    storageLayout: Array.isArray(json.storageLayout?.storage) ? json.storageLayout : undefined,
+  };
+}
+
+/**
+ * Load a compiled artifact from the configured artifact directories, by path (`Token.sol/Token.json`)
+ * or by contract name (`Token`, or `contracts/Token.sol:Token` when the name is ambiguous).
+ * Paths outside the artifact directories are refused.
+ */
+export async function loadArtifact(
+  runtime: IAgentRuntime,
+  artifact: string
+): Promise<ContractArtifact> {
+  const dirs = getArtifactsDirs(runtime);
+  const reference = artifact.trim();
+
+  let candidates: string[];
+  if (reference.endsWith('.json')) {
+    candidates = [];
+    for (const dir of dirs) {
+      const path = resolve(dir, reference);
+      if (isInside(dir, path) && (await isFile(path))) {
+        candidates.push(path);
+      }
+    }
+  } else {
+    const separator = reference.lastIndexOf(':');
+    const contractName = separator === -1 ? reference : reference.slice(separator + 1);
+    const sourceName = separator === -1 ? null : reference.slice(0, separator);
+    candidates = [];
+    for (const dir of dirs) {
+      candidates.push(...(await findArtifactFiles(dir, `${contractName}.json`)));
+    }
+    if (sourceName) {
+      // Hardhat mirrors the source path under the artifact directory, Foundry only the file name
+      const fileName = `${contractName}.json`;
+      const exact = candidates.filter((file) =>
+        file.endsWith(`${sep}${join(sourceName, fileName)}`)
+      );
+      candidates = exact.length
+        ? exact
+        : candidates.filter((file) =>
+            file.endsWith(`${sep}${join(basename(sourceName), fileName)}`)
+          );
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(`Artifact "${reference}" not found in ${dirs.join(', ')}`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(
+      `Artifact "${reference}" is ambiguous, use the path or <source>:<contract> name: ${candidates
+        .map((file) => relative(process.cwd(), file))
+        .join(', ')}`
+    );
+  }
+
+  const [path] = candidates;
+  let json;
+  try {
+    json = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read artifact ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return parseArtifact(json, path);
+}
+
+/**
+ * Compiler version and standard JSON input of a Hardhat artifact, from the build info its
+ * `.dbg.json` file points to. Null for other artifacts or when the build info is missing.
+ */
+export async function loadHardhatBuildInfo(
+  artifact: ContractArtifact
+): Promise<{ compilerVersion: string; input: Record<string, any> } | null> {
+  if (artifact.format !== 'hardhat') {
+    return null;
+  }
+  try {
+    const debugPath = artifact.path.replace(/\.json$/, '.dbg.json');
+    const debug = JSON.parse(await readFile(debugPath, 'utf8'));
+    const buildInfo = JSON.parse(
+      await readFile(resolve(dirname(debugPath), debug.buildInfo), 'utf8')
+    );
+    if (!buildInfo.input || !buildInfo.solcLongVersion) {
+      return null;
+    }
+    return { compilerVersion: `v${buildInfo.solcLongVersion}`, input: buildInfo.input };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the library placeholders of an artifact's bytecode with library addresses, keyed by
+ * `<source>:<library>` or by library name. Throws when a library has no address.
+ */
+export function linkBytecode(
+  artifact: ContractArtifact,
+  libraries: Record<string, string>
+): { bytecode: string; linkedLibraries: Record<string, string> } {
+  let bytecode = artifact.bytecode;
+  const linkedLibraries: Record<string, string> = {};
+
+  for (const [sourceName, sourceLibraries] of Object.entries(artifact.linkReferences)) {
+    for (const [libraryName, offsets] of Object.entries(sourceLibraries)) {
+      const qualifiedName = `${sourceName}:${libraryName}`;
+      const address = libraries[qualifiedName] ?? libraries[libraryName];
+      if (!address || !isAddress(address)) {
+        throw new Error(
+          `${artifact.contractName} links library ${qualifiedName}: deploy it first or provide its address`
+        );
+      }
+
+      const hex = getAddress(address).slice(2).toLowerCase();
+      for (const { start, length } of offsets) {
+        // Offsets are in bytes, after the 0x prefix
+        const from = 2 + start * 2;
+        bytecode = bytecode.slice(0, from) + hex + bytecode.slice(from + length * 2);
+      }
+      linkedLibraries[qualifiedName] = getAddress(address);
+    }
+  }
+
+  if (bytecode.includes('__')) {
+    throw new Error(
+      `${artifact.contractName} bytecode still contains unlinked library placeholders`
+    );
+  }
+  return { bytecode, linkedLibraries };
+}
+
+/**
+ * Addresses of contracts deployed from artifacts on a network, keyed by `<source>:<contract>`
+ * and by contract name
+ */
+export async function getArtifactDeployments(
+  runtime: IAgentRuntime,
+  network: NetworkName
+): Promise<Record<string, string>> {
+  const deployments =
+    (await runtime.getCache<Record<string, Record<string, string>>>(
+      ARTIFACT_DEPLOYMENTS_CACHE_KEY
+    )) ?? {};
+  return deployments[network] ?? {};
+}
+
+/**
+ * Remember where an artifact was deployed, so that later deployments can link it as a library
+ */
+export async function recordArtifactDeployment(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  artifact: ContractArtifact,
+  address: string
+): Promise<void> {
+  const deployments =
+    (await runtime.getCache<Record<string, Record<string, string>>>(
+      ARTIFACT_DEPLOYMENTS_CACHE_KEY
+    )) ?? {};
+  const addresses = { ...deployments[network] };
+  addresses[artifact.contractName] = address;
+  if (artifact.sourceName) {
+    addresses[`${artifact.sourceName}:${artifact.contractName}`] = address;
+  }
+  await runtime.setCache(ARTIFACT_DEPLOYMENTS_CACHE_KEY, {
+    ...deployments,
+    [network]: addresses,
+  });
+}
@@ -0,0 +1,130 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { Contract } from 'ethers';
+import type { NetworkLayerConfig } from '../networks';
+import { getZkEvmProviderService, type Layer } from '../services/zkevmProvider';
+import {
+  type BridgeDeposit,
+  computeGlobalIndex,
+  getBridgeServiceClient,
+  parseBridgeTicket,
+} from '../services/bridgeService';
+
+// Polygon zkEVM Bridge (LxLy V2) claim ABI - claimAsset and claimMessage take the same arguments
+const BRIDGE_CLAIM_ABI = [
+  'function claimAsset(bytes32[32] smtProofLocalExitRoot, bytes32[32] smtProofRollupExitRoot, uint256 globalIndex, bytes32 mainnetExitRoot, bytes32 rollupExitRoot, uint32 originNetwork, address originTokenAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata) external',
+  'function claimMessage(bytes32[32] smtProofLocalExitRoot, bytes32[32] smtProofRollupExitRoot, uint256 globalIndex, bytes32 mainnetExitRoot, bytes32 rollupExitRoot, uint32 originNetwork, address originAddress, uint32 destinationNetwork, address destinationAddress, uint256 amount, bytes metadata) external',
+  'function isClaimed(uint32 leafIndex, uint32 sourceBridgeNetwork) external view returns (bool)',
+  'event ClaimEvent(uint256 globalIndex, uint32 originNetwork, address originAddress, address destinationAddress, uint256 amount)',
+];
+
+export const LEAF_TYPE_ASSET = 0;
+export const LEAF_TYPE_MESSAGE = 1;
+
+/**
+ * Outcome of a claim attempt for a bridge deposit
+ */
+export interface BridgeClaimResult {
+  bridgeTicketId: string;
+  /** `pending` when the deposit is not claimable yet - no transaction is sent */
+  status: 'pending' | 'already_claimed' | 'claimed' | 'failed';
+  deposit: BridgeDeposit;
+  destination: NetworkLayerConfig;
+  /** The claim transaction sent now, or the earlier one when already claimed (if known) */
+  transactionHash?: string;
+  gasUsed?: string;
+  blockNumber?: number;
+}
+
+/**
+ * Claim a bridge deposit on its destination chain: look it up through the bridge service, check it
+ * is ready and unclaimed, fetch the Merkle proof and submit `claimAsset` or `claimMessage`.
+ * Throws when the deposit is unknown, has the wrong leaf type or targets a network outside the
+ * active profile.
+ */
+export async function claimBridgeDeposit(
+  runtime: IAgentRuntime,
+  ticketId: string,
+  leafType: typeof LEAF_TYPE_ASSET | typeof LEAF_TYPE_MESSAGE,
+  txOptions: Record<string, unknown> = {}
+): Promise<BridgeClaimResult> {
+  const ticket = parseBridgeTicket(ticketId);
+  const bridgeTicketId = `${ticket.networkId}-${ticket.depositCount}`;
+  const zkevmService = getZkEvmProviderService(runtime);
+  const bridgeService = getBridgeServiceClient(runtime);
+  const network = zkevmService.getNetwork();
+
+  const deposit = await bridgeService.getDeposit(ticket.networkId, ticket.depositCount);
+  if (!deposit) {
+    throw new Error(
+      `Bridge deposit ${bridgeTicketId} was not found by the bridge service. It may not be indexed yet - try again in a few minutes.`
+    );
+  }
+
+  if (deposit.leafType !== leafType) {
+    throw new Error(
+      leafType === LEAF_TYPE_ASSET
+        ? `Bridge deposit ${bridgeTicketId} is a bridged message, not an asset transfer.`
+        : `Bridge deposit ${bridgeTicketId} is an asset transfer, not a bridged message.`
+    );
+  }
+
+  const destinationLayer: Layer | undefined =
+    deposit.destinationNetwork === network.l1.networkId
+      ? 'l1'
+      : deposit.destinationNetwork === network.l2.networkId
+        ? 'l2'
+        : undefined;
+  if (!destinationLayer) {
+    throw new Error(
+      `Bridge deposit ${bridgeTicketId} targets network ${deposit.destinationNetwork}, which is not part of the ${network.name} profile.`
+    );
+  }
+  const destination = network[destinationLayer];
+  const result = { bridgeTicketId, deposit, destination };
+
+  if (deposit.claimTxHash) {
+    return { ...result, status: 'already_claimed', transactionHash: deposit.claimTxHash };
+  }
+  if (!deposit.readyForClaim) {
+    return { ...result, status: 'pending' };
+  }
+
+  // Claims are submitted on the destination chain
+  const wallet = await zkevmService.getSigner(destinationLayer);
+  const bridgeContract = new Contract(destination.bridgeAddress, BRIDGE_CLAIM_ABI, wallet);
+
+  // The bridge service can lag behind the chain - check the contract before proving
+  if (await bridgeContract.isClaimed(deposit.depositCount, deposit.networkId)) {
+    return { ...result, status: 'already_claimed' };
+  }
+
+  const proof = await bridgeService.getMerkleProof(ticket.networkId, ticket.depositCount);
+  const method = leafType === LEAF_TYPE_ASSET ? 'claimAsset' : 'claimMessage';
+  const tx = await bridgeContract[method](
+    proof.localExitRootProof,
+    proof.rollupExitRootProof,
+    deposit.globalIndex ?? computeGlobalIndex(deposit.networkId, deposit.depositCount),
+    proof.mainnetExitRoot,
+    proof.rollupExitRoot,
+    deposit.originNetwork,
+    deposit.originTokenAddress,
+    deposit.destinationNetwork,
+    deposit.destinationAddress,
+    deposit.amount,
+    deposit.metadata,
+    txOptions
+  );
+
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error('Transaction receipt not found');
+  }
+
+  return {
+    ...result,
+    status: receipt.status === 1 ? 'claimed' : 'failed',
+    transactionHash: tx.hash,
+    gasUsed: receipt.gasUsed.toString(),
+    blockNumber: receipt.blockNumber,
+  };
+}
@@ -0,0 +1,108 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { Interface } from 'ethers';
+import type { NetworkName } from '../networks';
+import type { ContractAbi } from './abiEncoding';
+
+// Agent cache key holding every contract deployed by the agent, per chain ID
+const CONTRACT_REGISTRY_CACHE_KEY = 'polygon-zkevm/contract-registry';
+
+// Last pending registry write per agent; writes are chained so concurrent deployments are all kept
+const registryWrites = new WeakMap<IAgentRuntime, Promise<unknown>>();
+
+/**
+ * A contract deployed by the agent
+ */
+export interface DeployedContract {
+  /** Name the contract is found by: the name given at deployment, or its contract name */
+  name: string | null;
+  address: string;
+  network: NetworkName;
+  /** zkEVM chain the contract is deployed on - profiles such as `custom` can change chains */
+  chainId: number;
+  /** Null when a CREATE2 deployment found the contract already deployed */
+  transactionHash: string | null;
+  /** ABI to call the contract with, the implementation's for a proxy */
+  abi: any[] | null;
+  /** `<source>:<contract>` of the artifact or compiled source it was deployed from */
+  artifact: string | null;
+  constructorArgs: unknown[];
+  encodedConstructorArgs: string | null;
+  deployer: string | null;
+  /** Current implementation, for upgradeable proxies */
+  implementation?: string | null;
+  deployedAt: number;
+}
+
+/**
+ * JSON ABI of a JSON or human-readable ABI, as stored in the registry
+ */
+export function toJsonAbi(abi: ContractAbi): any[] {
+  return JSON.parse(new Interface(abi).formatJson());
+}
+
+async function loadRegistry(runtime: IAgentRuntime): Promise<Record<string, DeployedContract[]>> {
+  return (
+    (await runtime.getCache<Record<string, DeployedContract[]>>(CONTRACT_REGISTRY_CACHE_KEY)) ?? {}
+  );
+}
+
+/**
+ * Contracts deployed on a chain, newest first
+ */
+export async function getDeployedContracts(
+  runtime: IAgentRuntime,
+  chainId: number
+): Promise<DeployedContract[]> {
+  const contracts = (await loadRegistry(runtime))[chainId] ?? [];
+  return [...contracts].sort((a, b) => b.deployedAt - a.deployedAt);
+}
+
+/**
+ * A deployed contract by address, or by name (case-insensitive, the contract name of its artifact
+ * also matches). The newest deployment wins when several share a name.
+ */
+export async function findDeployedContract(
+  runtime: IAgentRuntime,
+  chainId: number,
+  nameOrAddress: string
+): Promise<DeployedContract | null> {
+  const contracts = await getDeployedContracts(runtime, chainId);
+  const query = nameOrAddress.trim().toLowerCase();
+
+  const byAddress = contracts.find((c) => c.address.toLowerCase() === query);
+  if (byAddress) {
+    return byAddress;
+  }
+  return (
+    contracts.find((c) => c.name?.toLowerCase() === query) ??
+    contracts.find(
+      (c) =>
+        c.artifact?.toLowerCase() === query || c.artifact?.split(':').pop().toLowerCase() === query
+    ) ??
+    null
+  );
+}
+
+/**
+ * Add a deployment to the registry, replacing an earlier entry for the same address
+ */
+export async function recordDeployedContract(
+  runtime: IAgentRuntime,
+  contract: DeployedContract
+): Promise<void> {
+  const address = contract.address.toLowerCase();
+  const write = (registryWrites.get(runtime) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const registry = await loadRegistry(runtime);
+      await runtime.setCache(CONTRACT_REGISTRY_CACHE_KEY, {
+        ...registry,
+        [contract.chainId]: [
+          ...(registry[contract.chainId] ?? []).filter((c) => c.address.toLowerCase() !== address),
+          contract,
+        ],
+      });
+    });
+  registryWrites.set(runtime, write);
+  await write;
+}
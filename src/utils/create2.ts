@@ -0,0 +1,78 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+  concat,
+  getAddress,
+  getCreate2Address,
+  id,
+  isAddress,
+  isHexString,
+  keccak256,
+  zeroPadValue,
+} from 'ethers';
+
+/**
+ * Arachnid's deterministic deployment proxy, deployed at the same address on Ethereum, Polygon
+ * zkEVM and Cardona. Its calldata is the salt followed by the init code.
+ */
+export const DEFAULT_CREATE2_DEPLOYER = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+/**
+ * A CREATE2 deployment through the deterministic deployer
+ */
+export interface Create2Deployment {
+  deployer: string;
+  salt: string;
+  /** Address the contract will have, on every chain with the same deployer */
+  predictedAddress: string;
+  /** Transaction sending the salt and init code to the deployer */
+  transaction: { to: string; data: string };
+}
+
+/**
+ * Deterministic deployer address from `CREATE2_DEPLOYER_ADDRESS`, or the well-known proxy
+ */
+export function getCreate2Deployer(runtime: IAgentRuntime): string {
+  const configured = runtime.getSetting('CREATE2_DEPLOYER_ADDRESS');
+  if (!configured) {
+    return DEFAULT_CREATE2_DEPLOYER;
+  }
+  if (!isAddress(configured)) {
+    throw new Error(`Invalid CREATE2_DEPLOYER_ADDRESS: ${configured}`);
+  }
+  return getAddress(configured);
+}
+
+/**
+ * A 32-byte salt from user input: hex values are left-padded to 32 bytes, any other text is
+ * hashed, so `"my-vault-v1"` always yields the same salt
+ */
+export function toCreate2Salt(salt: string | number | undefined | null): string {
+  const value = salt === undefined || salt === null ? '' : String(salt).trim();
+  if (value === '') {
+    return zeroPadValue('0x', 32);
+  }
+  if (isHexString(value)) {
+    if (value.length > 66) {
+      throw new Error(`Invalid CREATE2 salt: ${value} is longer than 32 bytes`);
+    }
+    // Odd-length hex is not valid bytes
+    return zeroPadValue(value.length % 2 ? `0x0${value.slice(2)}` : value, 32);
+  }
+  return id(value);
+}
+
+/**
+ * Predict the address of a CREATE2 deployment and build the transaction that performs it
+ */
+export function buildCreate2Deployment(
+  deployer: string,
+  salt: string,
+  initCode: string
+): Create2Deployment {
+  return {
+    deployer,
+    salt,
+    predictedAddress: getCreate2Address(deployer, salt, keccak256(initCode)),
+    transaction: { to: deployer, data: concat([salt, initCode]) },
+  };
+}
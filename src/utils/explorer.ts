@@ -0,0 +1,287 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { type NetworkName, resolveNetworkProfile } from '../networks';
+import { type ContractArtifact, loadHardhatBuildInfo } from './artifacts';
+import type { CompilationResult } from './solidity';
+
+const EXPLORER_TIMEOUT_MS = 15_000;
+// How often a pending verification is re-checked
+export const VERIFICATION_POLL_MS = 5_000;
+// Explorers index new contracts with a delay, so submissions are retried a few times
+const SUBMIT_ATTEMPTS = 4;
+// Agent cache key holding what is needed to verify contracts deployed by the agent, per network
+const VERIFICATION_INPUTS_CACHE_KEY = 'polygon-zkevm/verification-inputs';
+
+export interface ExplorerConfig {
+  apiUrl: string;
+  apiKey?: string;
+  /** Sent as `chainid`, which selects the chain on the Etherscan V2 API */
+  chainId: number;
+}
+
+/**
+ * What an Etherscan-compatible explorer needs to verify a contract from standard JSON input
+ */
+export interface VerificationInput {
+  /** Fully qualified name, e.g. `Contract.sol:Counter` */
+  contractName: string;
+  /** Long compiler version, e.g. `v0.8.28+commit.7893614a` */
+  compilerVersion: string;
+  standardJsonInput: Record<string, any>;
+  /** ABI-encoded constructor arguments, without the 0x prefix */
+  constructorArgs: string;
+}
+
+export type VerificationStatus = 'pending' | 'verified' | 'failed';
+
+export interface VerificationResult {
+  /** Submission GUID, null when the explorer reported the contract as already verified */
+  guid: string | null;
+  status: VerificationStatus;
+  /** Explorer message, e.g. `Pass - Verified` */
+  message: string;
+  alreadyVerified: boolean;
+}
+
+/**
+ * Explorer API of the active network profile (`ZKEVM_EXPLORER_API_URL` overrides it) and its key
+ * (`ZKEVM_EXPLORER_API_KEY`, or `ETHERSCAN_API_KEY`)
+ */
+export function resolveExplorerConfig(runtime: IAgentRuntime): ExplorerConfig {
+  const profile = resolveNetworkProfile(runtime);
+  if (!profile.explorerApiUrl) {
+    throw new Error('No explorer API configured for this network. Set ZKEVM_EXPLORER_API_URL.');
+  }
+  return {
+    apiUrl: profile.explorerApiUrl,
+    apiKey:
+      runtime.getSetting('ZKEVM_EXPLORER_API_KEY') ||
+      runtime.getSetting('ETHERSCAN_API_KEY') ||
+      undefined,
+    chainId: profile.l2.chainId,
+  };
+}
+
+/**
+ * Verification input of a compiled contract: from the compilation when it was compiled from
+ * source, from the Hardhat build info otherwise. Null when the compiler input is unknown.
+ * Libraries linked after compilation (`<source>:<library>` → address) are added to its settings.
+ */
+export async function getArtifactVerificationInput(
+  artifact: ContractArtifact,
+  compilation: CompilationResult | null,
+  encodedConstructorArgs = '0x',
+  linkedLibraries: Record<string, string> = {}
+): Promise<VerificationInput | null> {
+  const buildInfo = compilation
+    ? { compilerVersion: compilation.compilerVersion, input: compilation.input }
+    : await loadHardhatBuildInfo(artifact);
+  if (!buildInfo || !artifact.sourceName) {
+    return null;
+  }
+
+  const settings = { ...buildInfo.input.settings };
+  for (const [qualifiedName, address] of Object.entries(linkedLibraries)) {
+    const separator = qualifiedName.lastIndexOf(':');
+    const sourceName = qualifiedName.slice(0, separator);
+    settings.libraries = {
+      ...settings.libraries,
+      [sourceName]: {
+        ...settings.libraries?.[sourceName],
+        [qualifiedName.slice(separator + 1)]: address,
+      },
+    };
+  }
+  return {
+    contractName: `${artifact.sourceName}:${artifact.contractName}`,
+    compilerVersion: buildInfo.compilerVersion,
+    standardJsonInput: { ...buildInfo.input, settings },
+    constructorArgs: encodedConstructorArgs.replace(/^0x/, ''),
+  };
+}
+
+async function callExplorer(
+  config: ExplorerConfig,
+  params: Record<string, string>,
+  method: 'GET' | 'POST' = 'GET'
+): Promise<{ status: string; message: string; result: string }> {
+  const url = new URL(config.apiUrl);
+  url.searchParams.set('chainid', String(config.chainId));
+  const body = new URLSearchParams({ ...params, ...(config.apiKey && { apikey: config.apiKey }) });
+  if (method === 'GET') {
+    body.forEach((value, key) => url.searchParams.set(key, value));
+  }
+
+  const response = await fetch(url, {
+    method,
+    ...(method === 'POST' && { body }),
+    signal: AbortSignal.timeout(EXPLORER_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Explorer API request failed (${response.status}): ${text}`);
+  }
+  const json: any = await response.json();
+  return {
+    status: String(json.status),
+    message: String(json.message),
+    result: String(json.result),
+  };
+}
+
+/**
+ * Submit standard JSON input for verification and return the submission GUID. Throws when the
+ * explorer rejects the submission.
+ */
+export async function submitVerification(
+  config: ExplorerConfig,
+  address: string,
+  input: VerificationInput,
+  retryDelayMs = VERIFICATION_POLL_MS
+): Promise<{ guid: string | null; alreadyVerified: boolean }> {
+  for (let attempt = 1; ; attempt++) {
+    const { status, result } = await callExplorer(
+      config,
+      {
+        module: 'contract',
+        action: 'verifysourcecode',
+        contractaddress: address,
+        sourceCode: JSON.stringify(input.standardJsonInput),
+        codeformat: 'solidity-standard-json-input',
+        contractname: input.contractName,
+        compilerversion: input.compilerVersion,
+        // Misspelled in the Etherscan API
+        constructorArguements: input.constructorArgs,
+      },
+      'POST'
+    );
+
+    if (status === '1') {
+      return { guid: result, alreadyVerified: false };
+    }
+    if (/already verified/i.test(result)) {
+      return { guid: null, alreadyVerified: true };
+    }
+    if (/unable to locate contract ?code/i.test(result) && attempt < SUBMIT_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+      continue;
+    }
+    throw new Error(`Explorer rejected the verification: ${result}`);
+  }
+}
+
+/**
+ * Status of a verification submission
+ */
+export async function checkVerificationStatus(
+  config: ExplorerConfig,
+  guid: string
+): Promise<VerificationResult> {
+  const { status, result } = await callExplorer(config, {
+    module: 'contract',
+    action: 'checkverifystatus',
+    guid,
+  });
+
+  const alreadyVerified = /already verified/i.test(result);
+  const verificationStatus: VerificationStatus =
+    (status === '1' && /pass/i.test(result)) || alreadyVerified
+      ? 'verified'
+      : /pending|in queue/i.test(result)
+        ? 'pending'
+        : 'failed';
+  return { guid, status: verificationStatus, message: result, alreadyVerified };
+}
+
+/**
+ * Submit a verification and poll its status until it passes, fails or the timeout expires
+ * (the result is then still `pending`)
+ */
+export async function verifyContract(
+  config: ExplorerConfig,
+  address: string,
+  input: VerificationInput,
+  timeoutMs: number,
+  pollMs = VERIFICATION_POLL_MS
+): Promise<VerificationResult> {
+  const deadline = Date.now() + timeoutMs;
+  const { guid, alreadyVerified } = await submitVerification(config, address, input, pollMs);
+  if (alreadyVerified) {
+    return { guid: null, status: 'verified', message: 'Already Verified', alreadyVerified };
+  }
+  return waitForVerification(config, guid, deadline, pollMs);
+}
+
+/**
+ * Poll a submission until it is no longer pending or the deadline passes
+ */
+export async function waitForVerification(
+  config: ExplorerConfig,
+  guid: string,
+  deadline: number,
+  pollMs = VERIFICATION_POLL_MS
+): Promise<VerificationResult> {
+  for (;;) {
+    const delay = Math.min(pollMs, deadline - Date.now());
+    if (delay <= 0) {
+      return checkVerificationStatus(config, guid);
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    const result = await checkVerificationStatus(config, guid);
+    if (result.status !== 'pending') {
+      return result;
+    }
+  }
+}
+
+/**
+ * ABI of a verified contract, null when the explorer has no verified source for it
+ */
+export async function fetchContractAbi(
+  config: ExplorerConfig,
+  address: string
+): Promise<any[] | null> {
+  const { status, result } = await callExplorer(config, {
+    module: 'contract',
+    action: 'getabi',
+    address,
+  });
+  if (status !== '1') {
+    return null;
+  }
+  const abi = JSON.parse(result);
+  return Array.isArray(abi) ? abi : null;
+}
+
+/**
+ * Verification input recorded for a contract deployed on a network, if any
+ */
+export async function getVerificationInput(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  address: string
+): Promise<VerificationInput | null> {
+  const inputs =
+    (await runtime.getCache<Record<string, Record<string, VerificationInput>>>(
+      VERIFICATION_INPUTS_CACHE_KEY
+    )) ?? {};
+  return inputs[network]?.[address.toLowerCase()] ?? null;
+}
+
+/**
+ * Remember how a deployed contract was compiled, so that it can be verified later
+ */
+export async function recordVerificationInput(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  address: string,
+  input: VerificationInput
+): Promise<void> {
+  const inputs =
+    (await runtime.getCache<Record<string, Record<string, VerificationInput>>>(
+      VERIFICATION_INPUTS_CACHE_KEY
+    )) ?? {};
+  await runtime.setCache(VERIFICATION_INPUTS_CACHE_KEY, {
+    ...inputs,
+    [network]: { ...inputs[network], [address.toLowerCase()]: input },
+  });
+}
@@ -0,0 +1,150 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+  type BlockTag,
+  getAddress,
+  Interface,
+  isAddress,
+  type Result,
+  type TransactionRequest,
+} from 'ethers';
+import type { ContractAbi } from './abiEncoding';
+import { findFunction } from './abiResolver';
+import { type DecodedRevert, decodeRevertData } from './revertDecoder';
+
+/**
+ * Multicall3, deployed at the same address on Ethereum, Polygon zkEVM and Cardona
+ */
+export const DEFAULT_MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Calls per aggregate3 request, so that large batches stay under the node's eth_call gas cap
+const DEFAULT_BATCH_SIZE = 100;
+
+const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+/**
+ * A view call to batch
+ */
+export interface MulticallRequest {
+  target: string;
+  abi: ContractAbi;
+  /** Function name, or signature for overloaded functions */
+  method: string;
+  args?: unknown[];
+  /** Whether the batch goes on when this call reverts, true by default */
+  allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+  target: string;
+  method: string;
+  success: boolean;
+  /**
+   * Decoded return value, unwrapped when the function returns a single value. The raw return data
+   * when the ABI declares no outputs, e.g. for a bare signature such as `balanceOf(address)`.
+   */
+  value: unknown;
+  /** Why the call failed */
+  error: string | null;
+  revert: DecodedRevert | null;
+  returnData: string;
+}
+
+export interface MulticallOptions {
+  /** Multicall3 address, the well-known deployment by default */
+  address?: string;
+  blockTag?: BlockTag;
+  batchSize?: number;
+}
+
+/**
+ * Multicall3 address from `MULTICALL3_ADDRESS`, or the well-known deployment
+ */
+export function getMulticall3Address(runtime: IAgentRuntime): string {
+  const configured = runtime.getSetting('MULTICALL3_ADDRESS');
+  if (!configured) {
+    return DEFAULT_MULTICALL3_ADDRESS;
+  }
+  if (!isAddress(configured)) {
+    throw new Error(`Invalid MULTICALL3_ADDRESS: ${configured}`);
+  }
+  return getAddress(configured);
+}
+
+function unwrap(result: Result): unknown {
+  return result.length === 1 ? result[0] : result;
+}
+
+/**
+ * Run view calls in as few `eth_call`s as possible through Multicall3 `aggregate3`, decoding each
+ * result with its ABI. A call that is not allowed to fail reverts its whole batch.
+ */
+export async function multicall(
+  provider: { call(request: TransactionRequest): Promise<string> },
+  requests: MulticallRequest[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult[]> {
+  const multicall3 = new Interface(MULTICALL3_ABI);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const encoded = requests.map((request) => {
+    const fragment = findFunction(request.abi, request.method, request.args ?? []);
+    if (!fragment) {
+      throw new Error(`Function ${request.method} not found in the ABI of ${request.target}`);
+    }
+    const iface = new Interface(request.abi);
+    return {
+      iface,
+      fragment,
+      call: {
+        target: getAddress(request.target),
+        allowFailure: request.allowFailure ?? true,
+        callData: iface.encodeFunctionData(fragment, request.args ?? []),
+      },
+    };
+  });
+
+  const results: MulticallResult[] = [];
+  for (let start = 0; start < encoded.length; start += batchSize) {
+    const batch = encoded.slice(start, start + batchSize);
+    const returnData = await provider.call({
+      to: options.address ?? DEFAULT_MULTICALL3_ADDRESS,
+      data: multicall3.encodeFunctionData('aggregate3', [batch.map(({ call }) => call)]),
+      blockTag: options.blockTag,
+    });
+    const [responses] = multicall3.decodeFunctionResult('aggregate3', returnData);
+
+    batch.forEach(({ iface, fragment, call }, i) => {
+      const [success, data] = responses[i];
+      const result: MulticallResult = {
+        target: call.target,
+        method: fragment.format(),
+        success,
+        value: null,
+        error: null,
+        revert: null,
+        returnData: data,
+      };
+      if (!success) {
+        result.revert = decodeRevertData(data, requests[start + i].abi);
+        result.error = result.revert.reason;
+      } else if (data === '0x' && fragment.outputs.length > 0) {
+        // Calls to addresses without code succeed with no data
+        result.success = false;
+        result.error = `no data returned - ${call.target} may not be a contract`;
+      } else if (fragment.outputs.length === 0) {
+        result.value = data === '0x' ? null : data;
+      } else {
+        try {
+          result.value = unwrap(iface.decodeFunctionResult(fragment, data));
+        } catch (error) {
+          result.success = false;
+          result.error = `could not decode the result: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+      results.push(result);
+    });
+  }
+  return results;
+}
@@ -0,0 +1,176 @@
+import { logger } from '@elizaos/core';
+import {
+  Contract,
+  Interface,
+  Signature,
+  TypedDataEncoder,
+  type TypedDataDomain,
+  type Wallet,
+} from 'ethers';
+
+// Token functions used to detect and build permits
+const PERMIT_TOKEN_ABI = [
+  'function name() external view returns (string)',
+  'function version() external view returns (string)',
+  'function nonces(address owner) external view returns (uint256)',
+  'function DOMAIN_SEPARATOR() external view returns (bytes32)',
+  'function PERMIT_TYPEHASH() external view returns (bytes32)',
+  'function eip712Domain() external view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+];
+
+// permitData is the calldata of the token's permit call - the bridge dispatches on its selector
+const PERMIT_CALL_ABI = [
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)',
+];
+
+const EIP2612_PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+const DAI_PERMIT_TYPES = {
+  Permit: [
+    { name: 'holder', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'allowed', type: 'bool' },
+  ],
+};
+
+// keccak256('Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)')
+const DAI_PERMIT_TYPEHASH = '0xea2aa0a1be11a07ed86d755c93467f4f82362b452371d1ba94d1715123511acb';
+
+// How long a signed permit stays valid
+const PERMIT_VALIDITY_SECONDS = 30 * 60;
+
+export type PermitKind = 'eip2612' | 'dai';
+
+/**
+ * Encoded permit for the bridge's `permitData` argument
+ */
+export interface SignedPermit {
+  kind: PermitKind;
+  permitData: string;
+  deadline: number;
+}
+
+async function optionalCall<T>(fn: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await fn();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the EIP-712 domain that reproduces the token's DOMAIN_SEPARATOR, or null when none does
+ */
+async function resolvePermitDomain(
+  token: Contract,
+  tokenAddress: string,
+  chainId: number,
+  domainSeparator: string
+): Promise<TypedDataDomain | null> {
+  // EIP-5267 tokens describe their domain directly
+  const eip712Domain = await optionalCall(() => token.eip712Domain());
+  const name: string | undefined = eip712Domain?.name ?? (await optionalCall(() => token.name()));
+  if (!name) {
+    return null;
+  }
+
+  const versions = [
+    eip712Domain?.version,
+    await optionalCall<string>(() => token.version()),
+    '1',
+    '2',
+  ].filter((v, i, all): v is string => typeof v === 'string' && all.indexOf(v) === i);
+
+  for (const version of versions) {
+    const domain = { name, version, chainId, verifyingContract: tokenAddress };
+    if (TypedDataEncoder.hashDomain(domain) === domainSeparator) {
+      return domain;
+    }
+  }
+  return null;
+}
+
+/**
+ * Sign an EIP-2612 or DAI-style permit letting `spender` pull `amount` of the token, encoded as the
+ * bridge's `permitData`. Returns null when the token does not support permits (or its EIP-712
+ * domain cannot be reproduced), in which case the caller should fall back to `approve`.
+ */
+export async function signBridgePermit(
+  wallet: Wallet,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint,
+  chainId: number
+): Promise<SignedPermit | null> {
+  const token = new Contract(tokenAddress, PERMIT_TOKEN_ABI, wallet);
+
+  const [nonce, domainSeparator] = await Promise.all([
+    optionalCall<bigint>(() => token.nonces(wallet.address)),
+    optionalCall<string>(() => token.DOMAIN_SEPARATOR()),
+  ]);
+  if (nonce === undefined || !domainSeparator) {
+    logger.debug(`[permit] ${tokenAddress} does not expose nonces/DOMAIN_SEPARATOR`);
+    return null;
+  }
+
+  const domain = await resolvePermitDomain(token, tokenAddress, chainId, domainSeparator);
+  if (!domain) {
+    logger.debug(`[permit] Could not reproduce the EIP-712 domain of ${tokenAddress}`);
+    return null;
+  }
+
+  const permitTypehash = await optionalCall<string>(() => token.PERMIT_TYPEHASH());
+  const kind: PermitKind = permitTypehash === DAI_PERMIT_TYPEHASH ? 'dai' : 'eip2612';
+  const deadline = Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS;
+  const permitCall = new Interface(PERMIT_CALL_ABI);
+
+  if (kind === 'dai') {
+    // DAI permits grant an unlimited allowance
+    const signature = Signature.from(
+      await wallet.signTypedData(domain, DAI_PERMIT_TYPES, {
+        holder: wallet.address,
+        spender,
+        nonce,
+        expiry: deadline,
+        allowed: true,
+      })
+    );
+    return {
+      kind,
+      deadline,
+      permitData: permitCall.encodeFunctionData(
+        'permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)',
+        [wallet.address, spender, nonce, deadline, true, signature.v, signature.r, signature.s]
+      ),
+    };
+  }
+
+  const signature = Signature.from(
+    await wallet.signTypedData(domain, EIP2612_PERMIT_TYPES, {
+      owner: wallet.address,
+      spender,
+      value: amount,
+      nonce,
+      deadline,
+    })
+  );
+  return {
+    kind,
+    deadline,
+    permitData: permitCall.encodeFunctionData(
+      'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+      [wallet.address, spender, amount, deadline, signature.v, signature.r, signature.s]
+    ),
+  };
+}
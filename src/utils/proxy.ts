@@ -0,0 +1,323 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, posix } from 'node:path';
+import type { IAgentRuntime } from '@elizaos/core';
+import { type BlockTag, Interface, type Provider, type Wallet, getAddress } from 'ethers';
+import type { NetworkName } from '../networks';
+import {
+  type ContractArtifact,
+  getArtifactDeployments,
+  linkBytecode,
+  loadArtifact,
+} from './artifacts';
+import { type CompilationResult, compileSolidity, selectCompiledContract } from './solidity';
+import type { StorageLayout } from './storageLayout';
+
+// ERC-1967 slots: keccak256('eip1967.proxy.implementation') - 1, and likewise for admin and beacon
+export const ERC1967_IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+export const ERC1967_ADMIN_SLOT =
+  '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+export const ERC1967_BEACON_SLOT =
+  '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+
+// Agent cache key holding the storage layouts of implementations deployed behind proxies
+const PROXY_IMPLEMENTATIONS_CACHE_KEY = 'polygon-zkevm/proxy-implementations';
+
+const PROXY_ABI = [
+  'function proxiableUUID() view returns (bytes32)',
+  'function upgradeToAndCall(address newImplementation, bytes data) payable',
+  'function owner() view returns (address)',
+  'function upgradeAndCall(address proxy, address implementation, bytes data) payable',
+];
+
+// Audited proxies of OpenZeppelin Contracts v5, compiled from the sources of the pinned package.
+// Its published artifacts target Cancun (PUSH0, MCOPY), which zkEVM does not run.
+// `TransparentUpgradeableProxy` deploys its own `ProxyAdmin`.
+const OPENZEPPELIN_PACKAGE = '@openzeppelin/contracts';
+const PROXY_SOURCES = [
+  'proxy/ERC1967/ERC1967Proxy.sol',
+  'proxy/transparent/TransparentUpgradeableProxy.sol',
+];
+const PROXY_CONTRACTS = ['ERC1967Proxy', 'TransparentUpgradeableProxy', 'ProxyAdmin'];
+
+/**
+ * `uups`: `ERC1967Proxy` upgraded by its implementation's `upgradeToAndCall`.
+ * `transparent`: upgraded by the admin, usually a `ProxyAdmin` contract.
+ */
+export type ProxyKind = 'uups' | 'transparent';
+
+/**
+ * ERC-1967 slots of a contract, as read with `eth_getStorageAt`
+ */
+export interface ProxyInfo {
+  address: string;
+  implementation: string | null;
+  admin: string | null;
+  beacon: string | null;
+  /** null when none of the ERC-1967 slots is set */
+  kind: ProxyKind | 'beacon' | null;
+  /** Whether the admin is a contract (a `ProxyAdmin`) rather than an account */
+  adminIsContract: boolean;
+  /** Owner of the `ProxyAdmin`, when the admin has an `owner()` */
+  adminOwner: string | null;
+  /** Whether the implementation answers `proxiableUUID()` with the implementation slot */
+  proxiable: boolean;
+}
+
+export interface PreparedImplementation {
+  artifact: ContractArtifact;
+  /** Creation bytecode with libraries linked */
+  bytecode: string;
+  linkedLibraries: Record<string, string>;
+  compilation: CompilationResult | null;
+}
+
+/**
+ * Implementation deployed behind a proxy, remembered for storage layout checks on upgrades
+ */
+export interface ImplementationRecord {
+  contractName: string;
+  sourceName: string | null;
+  storageLayout: StorageLayout | null;
+}
+
+const proxyContracts = new Map<string, Promise<Record<string, ContractArtifact>>>();
+
+// OpenZeppelin sources the proxies import, by source unit name
+async function readOpenZeppelinSources(): Promise<Record<string, string>> {
+  const root = dirname(
+    createRequire(import.meta.url).resolve(`${OPENZEPPELIN_PACKAGE}/package.json`)
+  );
+  const sources: Record<string, string> = {};
+  const pending = PROXY_SOURCES.map((path) => posix.join(OPENZEPPELIN_PACKAGE, path));
+  while (pending.length > 0) {
+    const name = pending.pop();
+    if (name in sources) {
+      continue;
+    }
+    sources[name] = await readFile(`${root}/${posix.relative(OPENZEPPELIN_PACKAGE, name)}`, 'utf8');
+    for (const [, path] of sources[name].matchAll(/^import\s[^"']*["']([^"']+)["']/gm)) {
+      pending.push(posix.join(posix.dirname(name), path));
+    }
+  }
+  return sources;
+}
+
+/**
+ * The OpenZeppelin proxy contracts, compiled once per EVM version with the bundled solc-js
+ */
+export function getProxyContracts(evmVersion?: string): Promise<Record<string, ContractArtifact>> {
+  const key = evmVersion ?? '';
+  let contracts = proxyContracts.get(key);
+  if (!contracts) {
+    contracts = readOpenZeppelinSources()
+      .then((imports) =>
+        compileSolidity(
+          PROXY_SOURCES.map((path) => `import "${OPENZEPPELIN_PACKAGE}/${path}";`).join('\n'),
+          { sourceName: 'Proxies.sol', evmVersion, imports }
+        )
+      )
+      .then((result) => {
+        if (result.errors.length > 0) {
+          throw new Error(`Failed to compile the proxy contracts:\n${result.errors.join('\n')}`);
+        }
+        return Object.fromEntries(
+          result.contracts
+            .filter((c) => PROXY_CONTRACTS.includes(c.contractName))
+            .map((c) => [c.contractName, c])
+        );
+      });
+    proxyContracts.set(key, contracts);
+  }
+  return contracts.catch((error) => {
+    proxyContracts.delete(key);
+    throw error;
+  });
+}
+
+function slotToAddress(value: string): string | null {
+  return BigInt(value) === 0n ? null : getAddress(`0x${value.slice(-40)}`);
+}
+
+async function callView(
+  provider: Provider,
+  to: string,
+  functionName: string,
+  blockTag: BlockTag = 'latest'
+): Promise<any> {
+  const iface = new Interface(PROXY_ABI);
+  const result = await provider.call({
+    to,
+    data: iface.encodeFunctionData(functionName),
+    blockTag,
+  });
+  return iface.decodeFunctionResult(functionName, result)[0];
+}
+
+/**
+ * Whether a contract is a UUPS implementation, i.e. its `proxiableUUID()` is the implementation slot
+ */
+export async function isUupsImplementation(
+  provider: Provider,
+  address: string,
+  blockTag: BlockTag = 'latest'
+): Promise<boolean> {
+  try {
+    return (
+      (await callView(provider, address, 'proxiableUUID', blockTag)) === ERC1967_IMPLEMENTATION_SLOT
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the ERC-1967 implementation, admin and beacon slots of a proxy
+ */
+export async function readProxyInfo(
+  provider: Provider,
+  address: string,
+  blockTag: BlockTag = 'latest'
+): Promise<ProxyInfo> {
+  const [implementation, admin, beacon] = (
+    await Promise.all(
+      [ERC1967_IMPLEMENTATION_SLOT, ERC1967_ADMIN_SLOT, ERC1967_BEACON_SLOT].map((slot) =>
+        provider.getStorage(address, slot, blockTag)
+      )
+    )
+  ).map(slotToAddress);
+
+  const adminIsContract = !!admin && (await provider.getCode(admin, blockTag)) !== '0x';
+  const adminOwner = adminIsContract
+    ? await callView(provider, admin, 'owner', blockTag).then(getAddress, () => null)
+    : null;
+
+  return {
+    address: getAddress(address),
+    implementation,
+    admin,
+    beacon,
+    kind: beacon ? 'beacon' : admin ? 'transparent' : implementation ? 'uups' : null,
+    adminIsContract,
+    adminOwner,
+    proxiable: implementation
+      ? await isUupsImplementation(provider, implementation, blockTag)
+      : false,
+  };
+}
+
+/**
+ * Compile or load the implementation contract and link its libraries, like a regular deployment
+ */
+export async function prepareImplementation(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  params: {
+    artifact?: string;
+    source?: string;
+    contractName?: string;
+    libraries?: Record<string, string>;
+  }
+): Promise<PreparedImplementation> {
+  let artifact: ContractArtifact;
+  let compilation: CompilationResult | null = null;
+  if (params.source) {
+    compilation = await compileSolidity(params.source, {
+      evmVersion: runtime.getSetting('SOLC_EVM_VERSION') || undefined,
+    });
+    if (compilation.errors.length > 0) {
+      throw new Error(`Compilation failed:\n${compilation.errors.join('\n')}`);
+    }
+    artifact = selectCompiledContract(compilation, params.contractName);
+  } else if (params.artifact) {
+    artifact = await loadArtifact(runtime, params.artifact);
+  } else {
+    throw new Error('An implementation artifact or Solidity source is required');
+  }
+
+  const { bytecode, linkedLibraries } = linkBytecode(artifact, {
+    ...(await getArtifactDeployments(runtime, network)),
+    ...params.libraries,
+  });
+  return { artifact, bytecode, linkedLibraries, compilation };
+}
+
+/**
+ * Send a contract creation transaction and wait for the contract address
+ */
+export async function sendDeployment(
+  wallet: Wallet,
+  data: string,
+  gasLimit?: bigint
+): Promise<{ address: string; transactionHash: string }> {
+  const tx = await wallet.sendTransaction(gasLimit ? { data, gasLimit } : { data });
+  const receipt = await tx.wait();
+  if (!receipt?.contractAddress || receipt.status === 0) {
+    throw new Error(`Deployment transaction ${tx.hash} did not create a contract`);
+  }
+  return { address: getAddress(receipt.contractAddress), transactionHash: tx.hash };
+}
+
+/**
+ * Calldata of an upgrade: `upgradeAndCall` on the `ProxyAdmin` of transparent proxies,
+ * `upgradeToAndCall` on the proxy itself otherwise
+ */
+export function buildUpgradeTransaction(
+  info: ProxyInfo,
+  implementation: string,
+  callData = '0x'
+): { to: string; data: string } {
+  const iface = new Interface(PROXY_ABI);
+  if (info.kind === 'transparent' && info.adminIsContract) {
+    return {
+      to: info.admin,
+      data: iface.encodeFunctionData('upgradeAndCall', [info.address, implementation, callData]),
+    };
+  }
+  return {
+    to: info.address,
+    data: iface.encodeFunctionData('upgradeToAndCall', [implementation, callData]),
+  };
+}
+
+/**
+ * Implementation recorded at an address by a proxy deployment or upgrade on a network
+ */
+export async function getImplementationRecord(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  address: string
+): Promise<ImplementationRecord | null> {
+  const records =
+    (await runtime.getCache<Record<string, Record<string, ImplementationRecord>>>(
+      PROXY_IMPLEMENTATIONS_CACHE_KEY
+    )) ?? {};
+  return records[network]?.[address.toLowerCase()] ?? null;
+}
+
+/**
+ * Remember which artifact, and which storage layout, an implementation was deployed from
+ */
+export async function recordImplementation(
+  runtime: IAgentRuntime,
+  network: NetworkName,
+  address: string,
+  artifact: ContractArtifact
+): Promise<void> {
+  const records =
+    (await runtime.getCache<Record<string, Record<string, ImplementationRecord>>>(
+      PROXY_IMPLEMENTATIONS_CACHE_KEY
+    )) ?? {};
+  await runtime.setCache(PROXY_IMPLEMENTATIONS_CACHE_KEY, {
+    ...records,
+    [network]: {
+      ...records[network],
+      [address.toLowerCase()]: {
+        contractName: artifact.contractName,
+        sourceName: artifact.sourceName,
+        storageLayout: artifact.storageLayout ?? null,
+      },
+    },
+  });
+}
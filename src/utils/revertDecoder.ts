@@ -0,0 +1,293 @@
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { AbiCoder, Interface, type TransactionRequest } from 'ethers';
+import { getZkEvmProviderService, type Layer } from '../services/zkevmProvider';
+import type { ContractAbi } from './abiEncoding';
+import { getContractAbi } from './abiResolver';
+
+// Selectors of the revert payloads emitted by `require`/`revert("...")` and by compiler checks
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Hex payloads that can be revert data: empty, or a selector followed by whole bytes
+const REVERT_DATA_PATTERN = /^0x([0-9a-f]{8}([0-9a-f]{2})*)?$/i;
+
+/**
+ * Meanings of the Solidity panic codes
+ */
+export const PANIC_REASONS: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'conversion to an invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized internal function',
+};
+
+/**
+ * Custom errors of the OpenZeppelin contracts, decoded when the contract's own ABI is unknown.
+ * Both `FailedInnerCall` (5.0) and `FailedCall` (5.1 and later) are listed.
+ */
+export const WELL_KNOWN_ERRORS: string[] = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+  'error ERC721NonexistentToken(uint256 tokenId)',
+  'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+  'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+  'error ERC721InvalidReceiver(address receiver)',
+  'error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)',
+  'error ERC1155MissingApprovalForAll(address operator, address owner)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error OwnableInvalidOwner(address owner)',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error EnforcedPause()',
+  'error ExpectedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)',
+  'error AddressEmptyCode(address target)',
+  'error FailedInnerCall()',
+  'error FailedCall()',
+  'error FailedDeployment()',
+  'error InsufficientBalance(uint256 balance, uint256 needed)',
+  'error InvalidInitialization()',
+  'error NotInitializing()',
+  'error ERC1967InvalidImplementation(address implementation)',
+  'error ERC1967InvalidAdmin(address admin)',
+  'error ERC1967NonPayable()',
+  'error UUPSUnauthorizedCallContext()',
+  'error UUPSUnsupportedProxiableUUID(bytes32 slot)',
+  'error ProxyDeniedAdminAccess()',
+];
+
+export type RevertKind = 'error' | 'panic' | 'custom' | 'unknown' | 'empty';
+
+/**
+ * Why a call reverted
+ */
+export interface DecodedRevert {
+  kind: RevertKind;
+  /** Reason string, panic meaning, or the custom error with its arguments */
+  reason: string;
+  /** `Error`, `Panic` or the name of the custom error, null when unknown */
+  name: string | null;
+  args: string[];
+  /** Panic code */
+  code?: number;
+  /** Raw revert data */
+  data: string;
+}
+
+/**
+ * Fields of a sent transaction needed to replay it as a call
+ */
+export interface ReplayableTransaction {
+  from?: string | null;
+  to?: string | null;
+  data?: string | null;
+  value?: bigint | string | null;
+  gasLimit?: bigint | string | null;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  return typeof value === 'bigint' ? value.toString() : String(value);
+}
+
+/**
+ * Revert data carried by an ethers or JSON-RPC error, looked up through the nested errors that
+ * wrap it. Null when the error carries none.
+ */
+export function getRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== 'object' || depth > 5) {
+    return null;
+  }
+  const e = error as any;
+  if (typeof e.data === 'string' && REVERT_DATA_PATTERN.test(e.data)) {
+    return e.data;
+  }
+  for (const nested of [e.data, e.error, e.info?.error, e.cause]) {
+    const data = getRevertData(nested, depth + 1);
+    if (data !== null) {
+      return data;
+    }
+  }
+  // Some providers only keep the raw JSON-RPC response body
+  if (typeof e.body === 'string') {
+    try {
+      return getRevertData(JSON.parse(e.body), depth + 1);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode revert data: `Error(string)`, `Panic(uint256)`, or a custom error of the ABI or of the
+ * well-known OpenZeppelin errors
+ */
+export function decodeRevertData(data: string, abi?: ContractAbi | null): DecodedRevert {
+  if (data.length <= 2) {
+    return { kind: 'empty', reason: 'no reason given', name: null, args: [], data };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = `0x${data.slice(10)}`;
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], payload);
+      return { kind: 'error', reason, name: 'Error', args: [reason], data };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], payload);
+      return {
+        kind: 'panic',
+        reason: PANIC_REASONS[Number(code)] ?? 'unknown panic code',
+        name: 'Panic',
+        args: [code.toString()],
+        code: Number(code),
+        data,
+      };
+    }
+  } catch (error) {
+    logger.debug(
+      `[decodeRevertData] Malformed ${selector} revert data: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  for (const errors of [abi, WELL_KNOWN_ERRORS]) {
+    if (!errors) {
+      continue;
+    }
+    try {
+      const parsed = new Interface(errors).parseError(data);
+      if (parsed) {
+        const args = parsed.fragment.inputs.map((input, i) => formatValue(parsed.args[i]));
+        const described = parsed.fragment.inputs.map(
+          (input, i) => `${input.name ? `${input.name}: ` : ''}${args[i]}`
+        );
+        return {
+          kind: 'custom',
+          reason: `${parsed.name}(${described.join(', ')})`,
+          name: parsed.name,
+          args,
+          data,
+        };
+      }
+    } catch {
+      // Not an error of this ABI
+    }
+  }
+
+  return {
+    kind: 'unknown',
+    reason: `unknown custom error ${selector}`,
+    name: null,
+    args: [],
+    data,
+  };
+}
+
+/**
+ * Decoded revert of a failed call or gas estimate, null when the error is not a revert
+ */
+export function decodeRevert(error: unknown, abi?: ContractAbi | null): DecodedRevert | null {
+  const data = getRevertData(error);
+  return data === null ? null : decodeRevertData(data, abi);
+}
+
+/**
+ * One-line description of a revert, e.g. `reverted with panic 0x11 (arithmetic overflow or underflow)`
+ */
+export function formatRevert(revert: DecodedRevert): string {
+  switch (revert.kind) {
+    case 'error':
+      return `reverted with reason "${revert.reason}"`;
+    case 'panic':
+      return `reverted with panic 0x${revert.code.toString(16).padStart(2, '0')} (${revert.reason})`;
+    case 'custom':
+      return `reverted with custom error ${revert.reason}`;
+    case 'unknown':
+      return `reverted with an ${revert.reason}`;
+    default:
+      return 'reverted without a reason';
+  }
+}
+
+/**
+ * Replay a mined transaction as a call against the state before its block, which is the closest
+ * the node can get to the state it failed in. Null when the call no longer reverts; errors other
+ * than reverts are rethrown.
+ */
+export async function replayTransaction(
+  provider: { call(request: TransactionRequest): Promise<string> },
+  transaction: ReplayableTransaction,
+  blockNumber: number,
+  abi?: ContractAbi | null
+): Promise<DecodedRevert | null> {
+  try {
+    await provider.call({
+      from: transaction.from ?? undefined,
+      to: transaction.to ?? undefined,
+      data: transaction.data ?? undefined,
+      value: transaction.value ?? undefined,
+      gasLimit: transaction.gasLimit ?? undefined,
+      blockTag: Math.max(blockNumber - 1, 0),
+    });
+    return null;
+  } catch (error) {
+    const revert = decodeRevert(error, abi);
+    if (revert) {
+      return revert;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Why a transaction mined with status 0 failed - its receipt carries no revert data, so it is
+ * replayed and decoded against the given ABI or, on zkEVM, the ABI known for its target. Null when
+ * the revert cannot be reproduced.
+ */
+export async function explainFailedTransaction(
+  runtime: IAgentRuntime,
+  transaction: ReplayableTransaction,
+  blockNumber: number,
+  abi?: ContractAbi | null,
+  layer: Layer = 'l2'
+): Promise<DecodedRevert | null> {
+  try {
+    const zkevmService = getZkEvmProviderService(runtime);
+    const knownAbi =
+      abi ??
+      (layer === 'l2' && transaction.to
+        ? await getContractAbi(runtime, zkevmService.getNetwork().l2.chainId, transaction.to)
+        : null);
+    if (layer === 'l1') {
+      return await replayTransaction(
+        zkevmService.getProvider('l1'),
+        transaction,
+        blockNumber,
+        knownAbi
+      );
+    }
+    const { value } = await zkevmService.read((provider) =>
+      replayTransaction(provider, transaction, blockNumber, knownAbi)
+    );
+    return value;
+  } catch (error) {
+    logger.debug(
+      `[explainFailedTransaction] Could not replay the transaction at block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+}
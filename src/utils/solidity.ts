@@ -0,0 +1,150 @@
+import type { ContractArtifact } from './artifacts';
+
+// Polygon zkEVM does not run every opcode of later EVM versions, so default to `paris` (no PUSH0)
+const DEFAULT_EVM_VERSION = 'paris';
+const DEFAULT_OPTIMIZER_RUNS = 200;
+const DEFAULT_SOURCE_NAME = 'Contract.sol';
+
+export interface CompileOptions {
+  /** Source file name, used in diagnostics and fully qualified contract names */
+  sourceName?: string;
+  evmVersion?: string;
+  /** Optimizer runs, or `false` to disable the optimizer */
+  optimizerRuns?: number | false;
+  /** Other source files the source imports, by source unit name */
+  imports?: Record<string, string>;
+}
+
+/**
+ * Output of compiling a single Solidity source with the bundled solc-js
+ */
+export interface CompilationResult {
+  /** Bundled compiler version, e.g. `v0.8.28+commit.7893614a` */
+  compilerVersion: string;
+  /** Deployable contracts (interfaces and abstract contracts are left out) */
+  contracts: ContractArtifact[];
+  /** Formatted compiler errors - the compilation failed when not empty */
+  errors: string[];
+  /** Formatted compiler warnings */
+  warnings: string[];
+  /** Standard JSON input that produced the output, as needed for source verification */
+  input: Record<string, any>;
+}
+
+let solcModule: Promise<any> | null = null;
+
+// solc-js loads a large Emscripten build, so it is only imported on first use
+function loadSolc(): Promise<any> {
+  solcModule ??= import('solc').then((module) => module.default ?? module);
+  return solcModule;
+}
+
+/**
+ * Compile Solidity source text with the bundled (pinned, offline) solc-js. Compiler errors are
+ * returned rather than thrown; imports are only resolved from `options.imports`.
+ */
+export async function compileSolidity(
+  source: string,
+  options: CompileOptions = {}
+): Promise<CompilationResult> {
+  const solc = await loadSolc();
+  const sourceName = options.sourceName ?? DEFAULT_SOURCE_NAME;
+  const optimizerRuns = options.optimizerRuns ?? DEFAULT_OPTIMIZER_RUNS;
+
+  const input = {
+    language: 'Solidity',
+    sources: {
+      ...Object.fromEntries(
+        Object.entries(options.imports ?? {}).map(([name, content]) => [name, { content }])
+      ),
+      [sourceName]: { content: source },
+    },
+    settings: {
+      optimizer: {
+        enabled: optimizerRuns !== false,
+        runs: optimizerRuns || DEFAULT_OPTIMIZER_RUNS,
+      },
+      evmVersion: options.evmVersion ?? DEFAULT_EVM_VERSION,
+      outputSelection: {
+        '*': {
+          '*': ['abi', 'evm.bytecode.object', 'evm.bytecode.linkReferences', 'storageLayout'],
+        },
+      },
+    },
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const diagnostics: Array<{ severity: string; formattedMessage: string }> = output.errors ?? [];
+  const errors = diagnostics
+    .filter((d) => d.severity === 'error')
+    .map((d) => d.formattedMessage.trim());
+  const warnings = diagnostics
+    .filter((d) => d.severity !== 'error')
+    .map((d) => d.formattedMessage.trim());
+
+  const contracts: ContractArtifact[] = [];
+  for (const [file, fileContracts] of Object.entries<any>(output.contracts ?? {})) {
+    for (const [contractName, contract] of Object.entries<any>(fileContracts)) {
+      const bytecode: string = contract.evm?.bytecode?.object ?? '';
+      if (!bytecode) {
+        continue;
+      }
+      contracts.push({
+        contractName,
+        sourceName: file,
+        abi: contract.abi,
+        bytecode: `0x${bytecode}`,
+        linkReferences: contract.evm.bytecode.linkReferences ?? {},
+        format: 'solc',
+        path: file,
+        storageLayout: contract.storageLayout,
+      });
+    }
+  }
+
+  const version: string = solc.version();
+  return {
+    compilerVersion: `v${version.replace(/\.Emscripten.*$/, '')}`,
+    contracts,
+    errors,
+    warnings,
+    input,
+  };
+}
+
+/**
+ * Pick the contract to deploy from a compilation: the named one, otherwise the only deployable
+ * one or the last contract declared in the source (libraries and base contracts usually come first)
+ */
+export function selectCompiledContract(
+  result: CompilationResult,
+  contractName?: string
+): ContractArtifact {
+  const names = result.contracts.map((c) => c.contractName);
+  if (contractName) {
+    const contract = result.contracts.find((c) => c.contractName === contractName);
+    if (!contract) {
+      throw new Error(
+        `Contract ${contractName} not found in the compiled source (found: ${names.join(', ') || 'none'})`
+      );
+    }
+    return contract;
+  }
+  if (result.contracts.length === 0) {
+    throw new Error('The source has no deployable contract');
+  }
+  if (result.contracts.length === 1) {
+    return result.contracts[0];
+  }
+
+  const declared = Object.values<{ content: string }>(result.input.sources).flatMap(({ content }) =>
+    [...content.matchAll(/^\s*contract\s+(\w+)/gm)].map((match) => match[1])
+  );
+  const last = declared.reverse().find((name) => names.includes(name));
+  if (!last) {
+    throw new Error(
+      `The source has several deployable contracts, name the one to deploy: ${names.join(', ')}`
+    );
+  }
+  return result.contracts.find((c) => c.contractName === last);
+}
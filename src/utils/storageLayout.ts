@@ -0,0 +1,129 @@
+/**
+ * A state variable in a solc storage layout (`storageLayout` compiler output)
+ */
+export interface StorageLayoutEntry {
+  label: string;
+  /** Decimal slot number */
+  slot: string;
+  /** Byte offset inside the slot */
+  offset: number;
+  /** Type id, a key of `StorageLayout.types` */
+  type: string;
+  /** Contract declaring the variable, e.g. `contracts/Vault.sol:Vault` */
+  contract?: string;
+}
+
+export interface StorageLayoutType {
+  label: string;
+  numberOfBytes: string;
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  /** Struct members */
+  members?: StorageLayoutEntry[];
+  /** Mapping key and value types */
+  key?: string;
+  value?: string;
+  /** Array element type */
+  base?: string;
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * Outcome of comparing the storage layout of an implementation with the one replacing it
+ */
+export interface StorageLayoutReport {
+  /** Changes that corrupt existing proxy storage */
+  errors: string[];
+  /** Changes that keep storage intact but may be unintended, such as renames */
+  warnings: string[];
+}
+
+// Storage gaps reserved by upgradeable base contracts, shrunk when variables are added
+const isGap = (entry: StorageLayoutEntry) => entry.label.startsWith('__gap');
+
+/**
+ * Type of a variable without the AST ids embedded in type ids, which differ between compilations
+ */
+function describeType(
+  layout: StorageLayout,
+  typeId: string,
+  seen: Set<string> = new Set()
+): string {
+  const type = layout.types?.[typeId];
+  if (!type) {
+    return typeId.replace(/\)\d+/g, ')');
+  }
+  if (seen.has(typeId)) {
+    return type.label;
+  }
+  const nested = new Set(seen).add(typeId);
+
+  if (type.encoding === 'mapping' && type.key && type.value) {
+    return `mapping(${describeType(layout, type.key, nested)} => ${describeType(layout, type.value, nested)})`;
+  }
+  if (type.base) {
+    return `${describeType(layout, type.base, nested)}${type.label.slice(type.label.lastIndexOf('['))}`;
+  }
+  if (type.members) {
+    const members = type.members.map(
+      (m) => `${describeType(layout, m.type, nested)} ${m.label}@${m.slot}:${m.offset}`
+    );
+    return `${type.label} { ${members.join('; ')} }`;
+  }
+  return type.label;
+}
+
+function endSlot(layout: StorageLayout, entry: StorageLayoutEntry): bigint {
+  const bytes = BigInt(layout.types?.[entry.type]?.numberOfBytes ?? '32');
+  return BigInt(entry.slot) + (bytes + 31n) / 32n;
+}
+
+/**
+ * Check that an upgrade keeps every existing state variable at the same slot, offset and type.
+ * New variables may only be appended, or take space from a storage gap that keeps its end slot.
+ */
+export function compareStorageLayouts(
+  previous: StorageLayout,
+  next: StorageLayout
+): StorageLayoutReport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const position = (entry: StorageLayoutEntry) => `${BigInt(entry.slot)}:${entry.offset}`;
+  const nextByPosition = new Map(next.storage.map((entry) => [position(entry), entry]));
+
+  for (const entry of previous.storage) {
+    const name = `${entry.label} (slot ${entry.slot}, offset ${entry.offset})`;
+
+    if (isGap(entry)) {
+      // The gap may start later once variables take its first slots, but must end at the same slot
+      const end = endSlot(previous, entry);
+      const gap = next.storage.find(
+        (e) => isGap(e) && BigInt(e.slot) >= BigInt(entry.slot) && BigInt(e.slot) < end
+      );
+      if (gap && endSlot(next, gap) !== end) {
+        errors.push(
+          `${entry.label} of ${entry.contract ?? 'the contract'} must still end at slot ${end}, it now ends at slot ${endSlot(next, gap)}`
+        );
+      }
+      continue;
+    }
+
+    const current = nextByPosition.get(position(entry));
+    if (!current) {
+      errors.push(`${name} was removed or moved`);
+      continue;
+    }
+    const previousType = describeType(previous, entry.type);
+    const nextType = describeType(next, current.type);
+    if (previousType !== nextType) {
+      errors.push(`${name} changed type from ${previousType} to ${nextType}`);
+    } else if (current.label !== entry.label) {
+      warnings.push(`${name} was renamed to ${current.label}`);
+    }
+  }
+
+  return { errors, warnings };
+}
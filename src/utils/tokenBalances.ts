@@ -0,0 +1,214 @@
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { Contract, formatUnits, getAddress, isAddress, type JsonRpcProvider } from 'ethers';
+import { isEndpointError } from '../services/zkevmProvider';
+import { WELL_KNOWN_ABIS } from './abiResolver';
+import { DEFAULT_MULTICALL3_ADDRESS, multicall } from './multicall';
+
+// alchemy_getTokenBalances pages to follow before giving up on the rest
+const MAX_DISCOVERY_PAGES = 10;
+
+// ERC-20 reads per token, in this order
+const TOKEN_READS = ['balanceOf', 'decimals', 'symbol', 'name'] as const;
+
+/**
+ * ERC-20 balance of an account
+ */
+export interface TokenBalance {
+  contract: string;
+  /** Raw balance in the token's smallest unit */
+  balance: string;
+  decimals?: number;
+  symbol?: string;
+  name?: string;
+  /** Balance in whole tokens, the raw balance when the decimals are unknown */
+  balanceFormatted?: string;
+}
+
+export interface TokenBalancesResult {
+  /** Largest quantity first, then tokens with unknown decimals */
+  tokens: TokenBalance[];
+  /** Tokens whose balance could not be read */
+  failed: string[];
+}
+
+/**
+ * Token addresses to report balances of, from `ZKEVM_TOKEN_ADDRESSES` (comma-separated)
+ */
+export function getConfiguredTokenAddresses(runtime: IAgentRuntime): string[] {
+  const configured = runtime.getSetting('ZKEVM_TOKEN_ADDRESSES');
+  if (!configured) {
+    return [];
+  }
+  return String(configured)
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => {
+      if (!isAddress(address)) {
+        logger.warn(`[getConfiguredTokenAddresses] Ignoring invalid token address: ${address}`);
+        return false;
+      }
+      return true;
+    })
+    .map((address) => getAddress(address));
+}
+
+/**
+ * Tokens an account holds according to Alchemy's `alchemy_getTokenBalances`. Only Alchemy
+ * endpoints implement it.
+ */
+export async function discoverTokens(provider: JsonRpcProvider, owner: string): Promise<string[]> {
+  const tokens: string[] = [];
+  let pageKey: string | undefined;
+  for (let page = 0; page < MAX_DISCOVERY_PAGES; page++) {
+    const response = await provider.send('alchemy_getTokenBalances', [
+      owner,
+      'erc20',
+      ...(pageKey ? [{ pageKey }] : []),
+    ]);
+    for (const { contractAddress, tokenBalance } of response?.tokenBalances ?? []) {
+      if (tokenBalance && BigInt(tokenBalance) > 0n) {
+        tokens.push(getAddress(contractAddress));
+      }
+    }
+    pageKey = response?.pageKey;
+    if (!pageKey) {
+      break;
+    }
+  }
+  return tokens;
+}
+
+function toTokenBalance(
+  contract: string,
+  balance: bigint,
+  decimals?: number,
+  symbol?: string,
+  name?: string
+): TokenBalance {
+  return {
+    contract,
+    balance: balance.toString(),
+    decimals,
+    symbol,
+    name,
+    balanceFormatted: decimals === undefined ? balance.toString() : formatUnits(balance, decimals),
+  };
+}
+
+// Whether a read failed because of the endpoint, so that the caller fails over to the next one.
+// An undecodable result comes from the contract: it is missing or does not implement the call.
+function isTransportError(error: unknown): boolean {
+  return isEndpointError(error) && (error as { code?: string } | null)?.code !== 'BAD_DATA';
+}
+
+// Without Multicall3 (e.g. on a custom network) each token is read on its own
+async function readTokensOneByOne(
+  provider: JsonRpcProvider,
+  owner: string,
+  tokens: string[],
+  result: TokenBalancesResult
+): Promise<void> {
+  for (const token of tokens) {
+    const contract = new Contract(token, WELL_KNOWN_ABIS.ERC20, provider);
+    try {
+      const balance: bigint = await contract.balanceOf(owner);
+      const [decimals, symbol, name] = await Promise.all(
+        [contract.decimals(), contract.symbol(), contract.name()].map((read) =>
+          read.catch((error) => {
+            if (isTransportError(error)) {
+              throw error;
+            }
+            return undefined;
+          })
+        )
+      );
+      result.tokens.push(
+        toTokenBalance(
+          token,
+          balance,
+          decimals === undefined ? undefined : Number(decimals),
+          symbol,
+          name
+        )
+      );
+    } catch (error) {
+      if (isTransportError(error)) {
+        throw error;
+      }
+      result.failed.push(token);
+    }
+  }
+}
+
+/**
+ * Balances, decimals, symbols and names of ERC-20 tokens held by an account, read in one
+ * Multicall3 batch, or one by one where Multicall3 is missing. Endpoint errors are thrown rather
+ * than reported as failed tokens, so that reads can fail over. Sorted by quantity in whole tokens, largest first - not by value, as token
+ * prices are unknown - and tokens with unknown decimals last, as their quantity is not comparable.
+ */
+export async function getTokenBalances(
+  provider: JsonRpcProvider,
+  owner: string,
+  tokens: string[],
+  multicallAddress: string = DEFAULT_MULTICALL3_ADDRESS
+): Promise<TokenBalancesResult> {
+  const result: TokenBalancesResult = { tokens: [], failed: [] };
+  if (tokens.length === 0) {
+    return result;
+  }
+
+  let reads: Awaited<ReturnType<typeof multicall>> | null = null;
+  try {
+    reads = await multicall(
+      provider,
+      tokens.flatMap((token) =>
+        TOKEN_READS.map((method) => ({
+          target: token,
+          abi: WELL_KNOWN_ABIS.ERC20,
+          method,
+          args: method === 'balanceOf' ? [owner] : [],
+        }))
+      ),
+      { address: multicallAddress }
+    );
+  } catch (error) {
+    if (isTransportError(error)) {
+      throw error;
+    }
+    logger.debug(
+      `[getTokenBalances] Multicall3 unavailable, reading tokens one by one: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (reads) {
+    tokens.forEach((token, i) => {
+      const [balance, decimals, symbol, name] = reads.slice(
+        i * TOKEN_READS.length,
+        (i + 1) * TOKEN_READS.length
+      );
+      if (!balance.success) {
+        result.failed.push(token);
+        return;
+      }
+      result.tokens.push(
+        toTokenBalance(
+          token,
+          balance.value as bigint,
+          decimals.success ? Number(decimals.value) : undefined,
+          symbol.success ? String(symbol.value) : undefined,
+          name.success ? String(name.value) : undefined
+        )
+      );
+    });
+  } else {
+    await readTokensOneByOne(provider, owner, tokens, result);
+  }
+
+  result.tokens.sort(
+    (a, b) =>
+      Number(a.decimals === undefined) - Number(b.decimals === undefined) ||
+      Number(b.balanceFormatted) - Number(a.balanceFormatted) ||
+      (a.symbol ?? a.contract).localeCompare(b.symbol ?? b.contract)
+  );
+  return result;
+}
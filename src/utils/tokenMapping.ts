@@ -0,0 +1,116 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { Contract, ZeroAddress, getAddress, type JsonRpcProvider } from 'ethers';
+import { getZkEvmProviderService, type Layer } from '../services/zkevmProvider';
+import { getBridgeTracker } from '../services/bridgeTracker';
+
+// Polygon zkEVM Bridge token wrapper lookups
+const TOKEN_MAPPING_ABI = [
+  'function getTokenWrappedAddress(uint32 originNetwork, address originTokenAddress) external view returns (address)',
+  'function wrappedTokenToTokenInfo(address wrappedToken) external view returns (uint32 originNetwork, address originTokenAddress)',
+];
+
+const LAYERS: Layer[] = ['l1', 'l2'];
+
+/**
+ * Addresses of one bridged token on both layers of the active network profile
+ */
+export interface TokenMapping {
+  /** Bridge network ID where the token was originally deployed */
+  originNetwork: number;
+  originTokenAddress: string;
+  /** Address on Ethereum, or null when the token has not been bridged there yet */
+  l1Address: string | null;
+  /** Address on Polygon zkEVM, or null when the token has not been bridged there yet */
+  l2Address: string | null;
+}
+
+/**
+ * Map a token between Ethereum and Polygon zkEVM through the bridge's wrapped-token registry.
+ * The token is first resolved to its origin (`wrappedTokenToTokenInfo` on the layer it was given
+ * for), then looked up on the other layer with `getTokenWrappedAddress`.
+ */
+export async function getTokenMapping(
+  runtime: IAgentRuntime,
+  tokenAddress: string,
+  layer: Layer
+): Promise<TokenMapping> {
+  const token = getAddress(tokenAddress);
+  if (token === ZeroAddress) {
+    // ETH is the native token on both layers
+    return {
+      originNetwork: 0,
+      originTokenAddress: ZeroAddress,
+      l1Address: token,
+      l2Address: token,
+    };
+  }
+
+  const zkevmService = getZkEvmProviderService(runtime);
+  const network = zkevmService.getNetwork();
+
+  // L2 reads fail over across the zkEVM endpoints
+  const callBridge = async <T>(
+    target: Layer,
+    call: (bridge: Contract) => Promise<T>
+  ): Promise<T> => {
+    const connect = (provider: JsonRpcProvider) =>
+      call(new Contract(network[target].bridgeAddress, TOKEN_MAPPING_ABI, provider));
+    return target === 'l1'
+      ? connect(zkevmService.getProvider('l1'))
+      : (await zkevmService.read(connect)).value;
+  };
+
+  const info = await callBridge(layer, (bridge) => bridge.wrappedTokenToTokenInfo(token));
+  const isWrapped = info.originTokenAddress !== ZeroAddress;
+  const originNetwork = isWrapped ? Number(info.originNetwork) : network[layer].networkId;
+  const originTokenAddress = isWrapped ? getAddress(info.originTokenAddress) : token;
+
+  const addresses: Record<Layer, string | null> = { l1: null, l2: null };
+  for (const target of LAYERS) {
+    if (network[target].networkId === originNetwork) {
+      addresses[target] = originTokenAddress;
+    } else if (target === layer) {
+      addresses[target] = token;
+    } else {
+      const wrapped: string = await callBridge(target, (bridge) =>
+        bridge.getTokenWrappedAddress(originNetwork, originTokenAddress)
+      );
+      addresses[target] = wrapped === ZeroAddress ? null : getAddress(wrapped);
+    }
+  }
+
+  return {
+    originNetwork,
+    originTokenAddress,
+    l1Address: addresses.l1,
+    l2Address: addresses.l2,
+  };
+}
+
+/**
+ * zkEVM addresses of the ERC20 tokens the agent has bridged on the active network profile, in
+ * either direction. Tokens that have no zkEVM counterpart yet are left out.
+ */
+export async function getBridgedTokenAddresses(runtime: IAgentRuntime): Promise<string[]> {
+  const network = getZkEvmProviderService(runtime).getNetwork();
+  const transfers = (await getBridgeTracker(runtime).list()).filter(
+    (t) => t.networkProfile === network.name && t.tokenAddress !== ZeroAddress
+  );
+
+  const l2Addresses = new Set<string>();
+  const seen = new Set<string>();
+  for (const transfer of transfers) {
+    const layer: Layer = transfer.direction === 'deposit' ? 'l1' : 'l2';
+    const key = `${layer}:${transfer.tokenAddress.toLowerCase()}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const { l2Address } = await getTokenMapping(runtime, transfer.tokenAddress, layer);
+    if (l2Address) {
+      l2Addresses.add(l2Address);
+    }
+  }
+  return [...l2Addresses];
+}
@@ -0,0 +1,454 @@
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { Contract, getAddress, isAddress, type JsonRpcProvider, ZeroAddress } from 'ethers';
+import { getZkEvmProviderService, type Layer } from '../services/zkevmProvider';
+import { WELL_KNOWN_ABIS } from './abiResolver';
+import { getTokenMapping } from './tokenMapping';
+
+// Agent cache key holding the metadata of tokens read on chain, per chain ID
+const TOKEN_METADATA_CACHE_KEY = 'polygon-zkevm/token-metadata';
+
+// Symbols that mean the native gas token, ETH on both layers
+const NATIVE_SYMBOLS = ['ETH', 'ETHER'];
+
+/**
+ * A token in a Uniswap token list (https://tokenlists.org)
+ */
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+/**
+ * A token list in the Uniswap token list format
+ */
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenListToken[];
+}
+
+/**
+ * A token resolved on one layer of the active network profile
+ */
+export interface TokenMetadata {
+  address: string;
+  chainId: number;
+  symbol: string;
+  name: string;
+  decimals: number;
+  /** Where the metadata came from: the native token, a token list or the token contract */
+  source: 'native' | 'list' | 'chain';
+}
+
+/**
+ * Tokens bundled with the plugin, on Ethereum and Polygon zkEVM mainnet. Other tokens and networks,
+ * e.g. Sepolia and Cardona, need a list in `ZKEVM_TOKEN_LIST`. zkEVM has two USDC: Circle's native
+ * token and the bridge's wrapped Ethereum USDC.
+ */
+export const DEFAULT_TOKEN_LIST: TokenList = {
+  name: 'Polygon zkEVM',
+  timestamp: '2026-10-01T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  tokens: [
+    {
+      chainId: 1,
+      address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+    },
+    {
+      chainId: 1,
+      address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      symbol: 'USDT',
+      name: 'Tether USD',
+      decimals: 6,
+    },
+    {
+      chainId: 1,
+      address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+      symbol: 'DAI',
+      name: 'Dai Stablecoin',
+      decimals: 18,
+    },
+    {
+      chainId: 1,
+      address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+    },
+    {
+      chainId: 1,
+      address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+      symbol: 'WBTC',
+      name: 'Wrapped BTC',
+      decimals: 8,
+    },
+    {
+      chainId: 1,
+      address: '0x7D1AfA7B718fb893dB30A3aBc0Cfc608AaCfeBB0',
+      symbol: 'MATIC',
+      name: 'Matic Token',
+      decimals: 18,
+    },
+    {
+      chainId: 1,
+      address: '0x455e53CBB86018Ac2B8092FdCd39d8444aFFC3F6',
+      symbol: 'POL',
+      name: 'Polygon Ecosystem Token',
+      decimals: 18,
+    },
+    {
+      chainId: 1101,
+      address: '0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+    },
+    {
+      chainId: 1101,
+      address: '0x37eAA0eF3549a5Bb7D431be78a3D99BD360d19e5',
+      symbol: 'USDC',
+      name: 'USD Coin (bridged from Ethereum)',
+      decimals: 6,
+    },
+    {
+      chainId: 1101,
+      address: '0x1E4a5963aBFD975d8c9021ce480b42188849D41d',
+      symbol: 'USDT',
+      name: 'Tether USD',
+      decimals: 6,
+    },
+    {
+      chainId: 1101,
+      address: '0x4F9A0e7FD2Bf6067db6994CF12E4495Df938E6e9',
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+    },
+    {
+      chainId: 1101,
+      address: '0xEA034fb02eB1808C2cc3adbC15f447B93CbE08e1',
+      symbol: 'WBTC',
+      name: 'Wrapped BTC',
+      decimals: 8,
+    },
+    {
+      chainId: 1101,
+      address: '0xa2036f0538221a77A3937F1379699f44945018d0',
+      symbol: 'MATIC',
+      name: 'Matic Token',
+      decimals: 18,
+    },
+  ],
+};
+
+// Token lists loaded from `ZKEVM_TOKEN_LIST`, by path or URL
+const loadedLists = new Map<string, TokenListToken[]>();
+
+function isListToken(token: any): token is TokenListToken {
+  return (
+    Number.isInteger(token?.chainId) &&
+    typeof token.address === 'string' &&
+    isAddress(token.address) &&
+    typeof token.symbol === 'string' &&
+    Number.isInteger(token.decimals)
+  );
+}
+
+async function loadTokenList(source: string): Promise<TokenListToken[]> {
+  const cached = loadedLists.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  let list: any;
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    list = await response.json();
+  } else {
+    list = JSON.parse(await readFile(resolve(source), 'utf8'));
+  }
+  if (!Array.isArray(list?.tokens)) {
+    throw new Error('not a token list: no tokens array');
+  }
+
+  const tokens = list.tokens.filter(isListToken).map((token: TokenListToken) => ({
+    ...token,
+    address: getAddress(token.address),
+    name: token.name ?? token.symbol,
+  }));
+  if (tokens.length < list.tokens.length) {
+    logger.warn(
+      `[tokenRegistry] Skipped ${list.tokens.length - tokens.length} invalid token(s) in ${source}`
+    );
+  }
+  loadedLists.set(source, tokens);
+  return tokens;
+}
+
+/**
+ * Tokens by chain ID, from the lists in `ZKEVM_TOKEN_LIST` (comma-separated paths or URLs of
+ * Uniswap token lists) followed by the bundled list. Lists that cannot be loaded are skipped. A
+ * chain without an entry has no token list, so its symbols cannot be trusted.
+ */
+export async function getTokenRegistry(
+  runtime: IAgentRuntime
+): Promise<Map<number, TokenListToken[]>> {
+  const configured = runtime.getSetting('ZKEVM_TOKEN_LIST');
+  const sources = configured
+    ? String(configured)
+        .split(',')
+        .map((source) => source.trim())
+        .filter(Boolean)
+    : [];
+
+  const tokens: TokenListToken[] = [];
+  for (const source of sources) {
+    try {
+      tokens.push(...(await loadTokenList(source)));
+    } catch (error) {
+      logger.warn(
+        `[getTokenRegistry] Could not load token list ${source}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const registry = new Map<number, TokenListToken[]>();
+  for (const token of [...tokens, ...DEFAULT_TOKEN_LIST.tokens]) {
+    registry.set(token.chainId, [...(registry.get(token.chainId) ?? []), token]);
+  }
+  return registry;
+}
+
+// Token metadata by chain ID and lowercase address
+type TokenMetadataCache = Record<string, Record<string, TokenMetadata>>;
+
+async function loadCachedMetadata(runtime: IAgentRuntime): Promise<TokenMetadataCache> {
+  return (await runtime.getCache<TokenMetadataCache>(TOKEN_METADATA_CACHE_KEY)) ?? {};
+}
+
+/**
+ * Remember tokens read on chain, so that they are found by symbol afterwards on chains with a
+ * token list
+ */
+export async function cacheTokenMetadata(
+  runtime: IAgentRuntime,
+  tokens: TokenMetadata[]
+): Promise<void> {
+  const records = await loadCachedMetadata(runtime);
+  for (const token of tokens) {
+    records[token.chainId] = { ...records[token.chainId], [token.address.toLowerCase()]: token };
+  }
+  await runtime.setCache(TOKEN_METADATA_CACHE_KEY, records);
+}
+
+function nativeToken(chainId: number): TokenMetadata {
+  return {
+    address: ZeroAddress,
+    chainId,
+    symbol: 'ETH',
+    name: 'Ether',
+    decimals: 18,
+    source: 'native',
+  };
+}
+
+function fromList(token: TokenListToken): TokenMetadata {
+  return {
+    address: getAddress(token.address),
+    chainId: token.chainId,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    source: 'list',
+  };
+}
+
+/**
+ * A token's metadata from the token lists or the metadata cache, without reading the chain. Null
+ * when the token is unknown.
+ */
+export async function getKnownToken(
+  runtime: IAgentRuntime,
+  address: string,
+  layer: Layer
+): Promise<TokenMetadata | null> {
+  const network = getZkEvmProviderService(runtime).getNetwork();
+  const chainId = network[layer]?.chainId;
+  const token = getAddress(address);
+  if (token === ZeroAddress) {
+    return nativeToken(chainId);
+  }
+
+  const listed = (await getTokenRegistry(runtime))
+    .get(chainId)
+    ?.find((t) => t.address.toLowerCase() === token.toLowerCase());
+  if (listed) {
+    return fromList(listed);
+  }
+  return (await loadCachedMetadata(runtime))[chainId]?.[token.toLowerCase()] ?? null;
+}
+
+/**
+ * A token's symbol, name and decimals, from the token lists or else read from the token contract
+ * and cached
+ */
+export async function getTokenMetadata(
+  runtime: IAgentRuntime,
+  address: string,
+  layer: Layer
+): Promise<TokenMetadata> {
+  const known = await getKnownToken(runtime, address, layer);
+  if (known) {
+    return known;
+  }
+
+  const zkevmService = getZkEvmProviderService(runtime);
+  const network = zkevmService.getNetwork();
+  const token = getAddress(address);
+
+  // L2 reads fail over across the zkEVM endpoints
+  const readToken = async (provider: JsonRpcProvider) => {
+    const contract = new Contract(token, WELL_KNOWN_ABIS.ERC20, provider);
+    const [decimals, symbol, name] = await Promise.all([
+      contract.decimals(),
+      contract.symbol().catch(() => null),
+      contract.name().catch(() => null),
+    ]);
+    return { decimals: Number(decimals), symbol, name };
+  };
+  let read: Awaited<ReturnType<typeof readToken>>;
+  try {
+    read =
+      layer === 'l1'
+        ? await readToken(zkevmService.getProvider('l1'))
+        : (await zkevmService.read(readToken)).value;
+  } catch (error) {
+    throw new Error(
+      `${token} is not an ERC-20 token on ${network[layer].name}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const metadata: TokenMetadata = {
+    address: token,
+    chainId: network[layer].chainId,
+    symbol: read.symbol ?? token,
+    name: read.name ?? read.symbol ?? token,
+    decimals: read.decimals,
+    source: 'chain',
+  };
+  try {
+    await cacheTokenMetadata(runtime, [metadata]);
+  } catch (error) {
+    logger.warn(
+      `[getTokenMetadata] Could not cache the metadata of ${token}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return metadata;
+}
+
+// Known tokens with a symbol on a layer, one per address. Null when no token list covers the
+// chain: anyone can deploy a token with any symbol, so tokens read on chain are not enough.
+async function findBySymbol(
+  runtime: IAgentRuntime,
+  symbol: string,
+  layer: Layer
+): Promise<TokenMetadata[] | null> {
+  const chainId = getZkEvmProviderService(runtime).getNetwork()[layer].chainId;
+  const listed = (await getTokenRegistry(runtime)).get(chainId);
+  if (!listed) {
+    return null;
+  }
+
+  const query = symbol.toLowerCase();
+  const candidates = [
+    ...listed.filter((t) => t.symbol.toLowerCase() === query).map(fromList),
+    ...Object.values((await loadCachedMetadata(runtime))[chainId] ?? {}).filter(
+      (t) => t.symbol.toLowerCase() === query
+    ),
+  ];
+
+  const byAddress = new Map<string, TokenMetadata>();
+  for (const candidate of candidates) {
+    const key = candidate.address.toLowerCase();
+    if (!byAddress.has(key)) {
+      byAddress.set(key, candidate);
+    }
+  }
+  return [...byAddress.values()];
+}
+
+function ambiguous(symbol: string, layerName: string, candidates: TokenMetadata[]): Error {
+  return new Error(
+    `"${symbol}" matches ${candidates.length} tokens on ${layerName}: ${candidates.map((t) => `${t.symbol} (${t.name}) ${t.address}`).join(', ')}. Specify the token address.`
+  );
+}
+
+/**
+ * Resolve a token symbol or address on one layer of the active network profile.
+ *
+ * Addresses are looked up with `getTokenMetadata`. Symbols are matched, case-insensitively,
+ * against the token lists and the tokens read before; a symbol only known on the other layer is
+ * mapped through the bridge. A symbol shared by several tokens is an error listing them, and so is
+ * a symbol on a chain no token list covers.
+ */
+export async function resolveToken(
+  runtime: IAgentRuntime,
+  tokenOrSymbol: string,
+  layer: Layer
+): Promise<TokenMetadata> {
+  const network = getZkEvmProviderService(runtime).getNetwork();
+  const query = tokenOrSymbol.trim();
+  if (!query || NATIVE_SYMBOLS.includes(query.toUpperCase())) {
+    return nativeToken(network[layer].chainId);
+  }
+  if (isAddress(query)) {
+    return getTokenMetadata(runtime, query, layer);
+  }
+
+  const matches = await findBySymbol(runtime, query, layer);
+  if (matches === null) {
+    throw new Error(
+      `No token list covers ${network[layer].name} (chain ${network[layer].chainId}), so "${query}" cannot be resolved by symbol. Use the token address, or add a list with its tokens to ZKEVM_TOKEN_LIST.`
+    );
+  }
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw ambiguous(query, network[layer].name, matches);
+  }
+
+  const otherLayer: Layer = layer === 'l1' ? 'l2' : 'l1';
+  const otherMatches = (await findBySymbol(runtime, query, otherLayer)) ?? [];
+  if (otherMatches.length > 1) {
+    throw ambiguous(query, network[otherLayer].name, otherMatches);
+  }
+  if (otherMatches.length === 0) {
+    throw new Error(
+      `Unknown token "${query}" on ${network[layer].name}. Use the token address, or add the token to a list in ZKEVM_TOKEN_LIST.`
+    );
+  }
+
+  const mapping = await getTokenMapping(runtime, otherMatches[0].address, otherLayer);
+  const address = layer === 'l1' ? mapping.l1Address : mapping.l2Address;
+  if (!address) {
+    throw new Error(
+      `${otherMatches[0].symbol} (${otherMatches[0].address} on ${network[otherLayer].name}) has not been bridged to ${network[layer].name} yet`
+    );
+  }
+  return getTokenMetadata(runtime, address, layer);
+}
@@ -0,0 +1,256 @@
+import type { JsonRpcProvider } from 'ethers';
+import { isUnsupportedMethodError } from '../services/zkevmProvider';
+
+const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * Lifecycle of a zkEVM batch:
+ * - `trusted`: closed by the trusted sequencer, not yet sequenced on L1
+ * - `virtual`: sequenced on L1 (`sendSequencesTxHash`), waiting for a proof
+ * - `verified`: proven and verified on L1 (`verifyBatchTxHash`)
+ */
+export type BatchStatus = 'open' | 'trusted' | 'virtual' | 'verified';
+
+/**
+ * Latest batch numbers reported by the node
+ */
+export interface BatchNumbers {
+  /** `zkevm_batchNumber` - latest batch known to the node (trusted state) */
+  trusted: number;
+  /** `zkevm_virtualBatchNumber` - latest batch sequenced on L1 */
+  virtual: number;
+  /** `zkevm_verifiedBatchNumber` - latest batch verified on L1 */
+  verified: number;
+}
+
+/**
+ * A batch as returned by `zkevm_getBatchByNumber`, with quantities converted to numbers
+ */
+export interface ZkEvmBatch {
+  number: number;
+  coinbase: string;
+  stateRoot: string;
+  globalExitRoot: string;
+  mainnetExitRoot: string;
+  rollupExitRoot: string;
+  localExitRoot: string;
+  accInputHash: string;
+  timestamp: number;
+  /** L1 transaction that sequenced the batch, null while trusted */
+  sendSequencesTxHash: string | null;
+  /** L1 transaction that verified the batch, null until verified */
+  verifyBatchTxHash: string | null;
+  closed: boolean;
+  /** L2 block hashes in the batch (block objects are reduced to their hash) */
+  blocks: string[];
+  /** Transaction hashes in the batch (transaction objects are reduced to their hash) */
+  transactions: string[];
+  batchL2Data?: string;
+}
+
+function toNumber(quantity: string | number | null | undefined): number {
+  if (quantity === null || quantity === undefined) {
+    return 0;
+  }
+  return typeof quantity === 'number' ? quantity : Number(BigInt(quantity));
+}
+
+function toQuantity(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+// The node reports missing L1 transactions as null or the zero hash
+function toTxHash(hash: string | null | undefined): string | null {
+  return hash && hash !== ZERO_HASH ? hash : null;
+}
+
+function toHashes(items: unknown[] | null | undefined): string[] {
+  return (items ?? []).map((item) =>
+    typeof item === 'string' ? item : String((item as { hash: string }).hash)
+  );
+}
+
+/**
+ * Convert a raw `zkevm_getBatchByNumber` response
+ */
+export function parseBatch(raw: any): ZkEvmBatch {
+  return {
+    number: toNumber(raw.number),
+    coinbase: raw.coinbase,
+    stateRoot: raw.stateRoot,
+    globalExitRoot: raw.globalExitRoot,
+    mainnetExitRoot: raw.mainnetExitRoot,
+    rollupExitRoot: raw.rollupExitRoot,
+    localExitRoot: raw.localExitRoot,
+    accInputHash: raw.accInputHash,
+    timestamp: toNumber(raw.timestamp),
+    sendSequencesTxHash: toTxHash(raw.sendSequencesTxHash),
+    verifyBatchTxHash: toTxHash(raw.verifyBatchTxHash),
+    closed: Boolean(raw.closed),
+    blocks: toHashes(raw.blocks),
+    transactions: toHashes(raw.transactions),
+    batchL2Data: raw.batchL2Data ?? undefined,
+  };
+}
+
+/**
+ * Status of a batch from its L1 transactions
+ */
+export function getBatchStatus(batch: ZkEvmBatch): BatchStatus {
+  if (batch.verifyBatchTxHash) {
+    return 'verified';
+  }
+  if (batch.sendSequencesTxHash) {
+    return 'virtual';
+  }
+  return batch.closed ? 'trusted' : 'open';
+}
+
+/**
+ * `zkevm_batchNumber`, `zkevm_virtualBatchNumber` and `zkevm_verifiedBatchNumber` in one call
+ */
+export async function getBatchNumbers(provider: JsonRpcProvider): Promise<BatchNumbers> {
+  const [trusted, virtual, verified] = await Promise.all([
+    provider.send('zkevm_batchNumber', []),
+    provider.send('zkevm_virtualBatchNumber', []),
+    provider.send('zkevm_verifiedBatchNumber', []),
+  ]);
+  return { trusted: toNumber(trusted), virtual: toNumber(virtual), verified: toNumber(verified) };
+}
+
+/**
+ * `zkevm_batchNumberByBlockNumber` - the batch containing an L2 block, or null when the node does
+ * not know the block
+ */
+export async function getBatchNumberByBlockNumber(
+  provider: JsonRpcProvider,
+  blockNumber: number
+): Promise<number | null> {
+  const batchNumber = await provider.send('zkevm_batchNumberByBlockNumber', [
+    toQuantity(blockNumber),
+  ]);
+  return batchNumber === null || batchNumber === undefined ? null : toNumber(batchNumber);
+}
+
+/**
+ * `zkevm_getBatchByNumber`, or null when the node does not know the batch
+ */
+export async function getBatchByNumber(
+  provider: JsonRpcProvider,
+  batchNumber: number | 'latest',
+  fullTransactions = false
+): Promise<ZkEvmBatch | null> {
+  const raw = await provider.send('zkevm_getBatchByNumber', [
+    batchNumber === 'latest' ? batchNumber : toQuantity(batchNumber),
+    fullTransactions,
+  ]);
+  return raw ? parseBatch(raw) : null;
+}
+
+/**
+ * Finality of an L2 block:
+ * - `trusted`: in the trusted state of the sequencer only
+ * - `virtual`: its batch is sequenced on L1 - the data is available, the state is not proven yet
+ * - `consolidated`: its batch is verified on L1 with a validity proof - final
+ */
+export type BlockFinalityStatus = 'trusted' | 'virtual' | 'consolidated';
+
+// Finality levels from weakest to strongest
+const FINALITY_LEVELS: BlockFinalityStatus[] = ['trusted', 'virtual', 'consolidated'];
+
+/**
+ * Whether a finality status is at least as strong as the target
+ */
+export function hasReachedFinality(
+  status: BlockFinalityStatus,
+  target: BlockFinalityStatus
+): boolean {
+  return FINALITY_LEVELS.indexOf(status) >= FINALITY_LEVELS.indexOf(target);
+}
+
+export interface BlockFinality {
+  blockNumber: number;
+  status: BlockFinalityStatus;
+  batchNumber: number | null;
+  /** L1 transaction that sequenced the block's batch */
+  sendSequencesTxHash: string | null;
+  /** L1 transaction that verified the block's batch */
+  verifyBatchTxHash: string | null;
+  /** How the status was determined */
+  source: 'zkevm_isBlock' | 'batch';
+}
+
+/**
+ * `zkevm_isBlockVirtualized`
+ */
+export async function isBlockVirtualized(
+  provider: JsonRpcProvider,
+  blockNumber: number
+): Promise<boolean> {
+  return Boolean(await provider.send('zkevm_isBlockVirtualized', [toQuantity(blockNumber)]));
+}
+
+/**
+ * `zkevm_isBlockConsolidated`
+ */
+export async function isBlockConsolidated(
+  provider: JsonRpcProvider,
+  blockNumber: number
+): Promise<boolean> {
+  return Boolean(await provider.send('zkevm_isBlockConsolidated', [toQuantity(blockNumber)]));
+}
+
+/**
+ * Finality of an L2 block from `zkevm_isBlockConsolidated` / `zkevm_isBlockVirtualized`, with the
+ * L1 transactions of its batch when the node has the batch methods. Nodes without the
+ * `zkevm_isBlock*` methods are answered from the batch's L1 transactions alone. Throws when
+ * neither is available - the status is never guessed.
+ */
+export async function getBlockFinality(
+  provider: JsonRpcProvider,
+  blockNumber: number
+): Promise<BlockFinality> {
+  let batchNumber: number | null = null;
+  let batch: ZkEvmBatch | null = null;
+  try {
+    batchNumber = await getBatchNumberByBlockNumber(provider, blockNumber);
+    batch = batchNumber === null ? null : await getBatchByNumber(provider, batchNumber);
+  } catch (error) {
+    if (!isUnsupportedMethodError(error)) {
+      throw error;
+    }
+  }
+  const l1 = {
+    batchNumber,
+    sendSequencesTxHash: batch?.sendSequencesTxHash ?? null,
+    verifyBatchTxHash: batch?.verifyBatchTxHash ?? null,
+  };
+
+  try {
+    const consolidated = await isBlockConsolidated(provider, blockNumber);
+    const virtualized = consolidated || (await isBlockVirtualized(provider, blockNumber));
+    return {
+      blockNumber,
+      status: consolidated ? 'consolidated' : virtualized ? 'virtual' : 'trusted',
+      ...l1,
+      source: 'zkevm_isBlock',
+    };
+  } catch (error) {
+    if (!isUnsupportedMethodError(error) || !batch) {
+      throw error;
+    }
+  }
+
+  const batchStatus = getBatchStatus(batch);
+  return {
+    blockNumber,
+    status:
+      batchStatus === 'verified'
+        ? 'consolidated'
+        : batchStatus === 'virtual'
+          ? 'virtual'
+          : 'trusted',
+    ...l1,
+    source: 'batch',
+  };
+}
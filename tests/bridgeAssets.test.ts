@@ -4,7 +4,9 @@ import type { IAgentRuntime, Memory, State, Content } from '@elizaos/core';
 
 // Mock ethers
 vi.mock('ethers', () => ({
-  JsonRpcProvider: vi.fn().mockImplementation(() => ({
+  JsonRpcProvider: vi.fn().mockImplementation((_url: string, chainId: number) => ({
+    send: vi.fn().mockResolvedValue(`0x${chainId.toString(16)}`), // eth_chainId
+    getCode: vi.fn().mockResolvedValue('0x'),
     waitForTransaction: vi.fn().mockResolvedValue({
       status: 1,
       gasUsed: { toString: () => '150000' },
@@ -56,9 +58,16 @@ vi.mock('ethers', () => ({
     if (decimals === 'gwei') return BigInt(Math.floor(parseFloat(value) * 10 ** 9));
     return BigInt(Math.floor(parseFloat(value) * 10 ** Number(decimals)));
   }),
+  isAddress: vi.fn().mockImplementation((value) => /^0x[0-9a-fA-F]{40}$/.test(value)),
+  getAddress: vi.fn().mockImplementation((value) => value),
   formatEther: vi.fn().mockImplementation((value) => (Number(value) / 10 ** 18).toString()),
 }));
 
+// Tokens don't support permits unless a test says otherwise
+vi.mock('../src/utils/permit', () => ({
+  signBridgePermit: vi.fn().mockResolvedValue(null),
+}));
+
 // Mock the LLM helper
 vi.mock('../src/utils/llmHelpers', () => ({
   callLLMWithTimeout: vi.fn(),
@@ -250,6 +259,221 @@ describe('bridgeAssetsAction', () => {
       expect(mockCallback).toHaveBeenCalled();
     });
 
+    it('should bridge to a custom destination address', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: null,
+        amount: '2',
+        direction: 'withdraw',
+        destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      });
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result?.success).toBe(true);
+      expect(result?.text).toContain('0x742d35Cc6634C0532925a3b844Bc454e4438f44e');
+      expect(result?.data).toMatchObject({
+        destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        warnings: [],
+      });
+    });
+
+    it('should warn when the recipient is a contract missing on the destination chain', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      const { JsonRpcProvider } = await import('ethers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: null,
+        amount: '2',
+        direction: 'withdraw',
+        destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      });
+      // The Safe only exists on the zkEVM side
+      const createProvider = (JsonRpcProvider as unknown as Mock).getMockImplementation()!;
+      (JsonRpcProvider as unknown as Mock).mockImplementation((url: string, chainId: number) => ({
+        ...createProvider(url, chainId),
+        getCode: vi.fn().mockResolvedValue(chainId === 1101 ? '0x6080' : '0x'),
+      }));
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+      (JsonRpcProvider as unknown as Mock).mockImplementation(createProvider);
+
+      expect(result?.success).toBe(true);
+      expect((result?.data as any).warnings).toHaveLength(1);
+      expect(result?.text).toContain('has no code on Ethereum');
+    });
+
+    it('should report the deposit count of the bridge event as a number', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      const { JsonRpcProvider, Contract } = await import('ethers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: null,
+        amount: '0.1',
+        direction: 'deposit',
+      });
+      // ethers decodes uint32 event arguments as bigints
+      const createProvider = (JsonRpcProvider as unknown as Mock).getMockImplementation()!;
+      const createContract = (Contract as unknown as Mock).getMockImplementation()!;
+      (JsonRpcProvider as unknown as Mock).mockImplementation((url: string, chainId: number) => ({
+        ...createProvider(url, chainId),
+        waitForTransaction: vi.fn().mockResolvedValue({
+          status: 1,
+          gasUsed: { toString: () => '150000' },
+          blockNumber: 18500000,
+          logs: [{ topics: ['0x01'], data: '0x' }],
+        }),
+      }));
+      (Contract as unknown as Mock).mockImplementation((...args: unknown[]) => ({
+        ...createContract(...args),
+        interface: {
+          parseLog: vi
+            .fn()
+            .mockReturnValue({ name: 'BridgeEvent', args: { depositCount: 12345n } }),
+        },
+      }));
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+      (JsonRpcProvider as unknown as Mock).mockImplementation(createProvider);
+      (Contract as unknown as Mock).mockImplementation(createContract);
+
+      expect(result?.success).toBe(true);
+      expect(result?.data).toMatchObject({ bridgeTicketId: '0-12345', depositCount: 12345 });
+      expect(() => JSON.stringify(result?.data)).not.toThrow();
+    });
+
+    it('should fail when the bridge transaction reverts', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      const { JsonRpcProvider } = await import('ethers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: null,
+        amount: '0.1',
+        direction: 'deposit',
+      });
+      const createProvider = (JsonRpcProvider as unknown as Mock).getMockImplementation()!;
+      (JsonRpcProvider as unknown as Mock).mockImplementation((url: string, chainId: number) => ({
+        ...createProvider(url, chainId),
+        waitForTransaction: vi.fn().mockResolvedValue({
+          status: 0,
+          gasUsed: { toString: () => '50000' },
+          blockNumber: 18500000,
+          logs: [],
+        }),
+      }));
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+      (JsonRpcProvider as unknown as Mock).mockImplementation(createProvider);
+
+      const txHash = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+      expect(result?.success).toBe(false);
+      expect(result?.text).toBe(`❌ Bridge transaction ${txHash} was reverted`);
+      expect(result?.values).toMatchObject({ bridgeSucceeded: false, transactionHash: txHash });
+      expect(result?.data).toMatchObject({ transactionHash: txHash, blockNumber: 18500000 });
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ content: expect.objectContaining({ success: false }) })
+      );
+    });
+
+    it('should reject an invalid destination address', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: null,
+        amount: '2',
+        direction: 'withdraw',
+        destinationAddress: '0x1234',
+      });
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('Invalid destination address: 0x1234');
+    });
+
+    it('should bridge ERC20 tokens with a permit instead of approve', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      const { signBridgePermit } = await import('../src/utils/permit');
+      const { Contract } = await import('ethers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: '0x1234567890123456789012345678901234567890',
+        amount: '100',
+        direction: 'deposit',
+      });
+      (signBridgePermit as Mock).mockResolvedValueOnce({
+        kind: 'eip2612',
+        permitData: '0xd505accf00',
+        deadline: 1700000000,
+      });
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      const [bridgeContract, tokenContract] = (Contract as unknown as Mock).mock.results.map(
+        (r) => r.value
+      );
+      expect(result?.success).toBe(true);
+      expect((result?.data as any).approvalMethod).toBe('permit');
+      expect(tokenContract.approve).not.toHaveBeenCalled();
+      expect(bridgeContract.bridgeAsset.mock.calls[0][5]).toBe('0xd505accf00');
+    });
+
+    it('should fall back to approve when the token has no permit', async () => {
+      const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
+      const { Contract } = await import('ethers');
+      (callLLMWithTimeout as Mock).mockResolvedValue({
+        tokenAddress: '0x1234567890123456789012345678901234567890',
+        amount: '100',
+        direction: 'deposit',
+      });
+
+      const result = await bridgeAssetsAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      const [bridgeContract, tokenContract] = (Contract as unknown as Mock).mock.results.map(
+        (r) => r.value
+      );
+      expect((result?.data as any).approvalMethod).toBe('approve');
+      expect(tokenContract.approve).toHaveBeenCalled();
+      expect(bridgeContract.bridgeAsset.mock.calls[0][5]).toBe('0x');
+    });
+
     it('should throw error when LLM returns error', async () => {
       const { callLLMWithTimeout } = await import('../src/utils/llmHelpers');
       (callLLMWithTimeout as Mock).mockResolvedValue({
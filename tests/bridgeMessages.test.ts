@@ -5,15 +5,16 @@ import * as llmHelpers from '../src/utils/llmHelpers';
 
 // Mock ethers
 vi.mock('ethers', () => ({
-  JsonRpcProvider: vi.fn().mockImplementation(() => ({
+  JsonRpcProvider: vi.fn().mockImplementation((_url: string, chainId: number) => ({
     getNetwork: vi.fn().mockResolvedValue({ chainId: 1 }),
+    send: vi.fn().mockResolvedValue(`0x${chainId.toString(16)}`), // eth_chainId
   })),
   Wallet: vi.fn().mockImplementation(() => ({
     getAddress: vi.fn().mockResolvedValue('0x1234567890123456789012345678901234567890'),
     connect: vi.fn().mockReturnThis(),
   })),
   Contract: vi.fn().mockImplementation(() => ({
-    bridgeAsset: Object.assign(
+    bridgeMessage: Object.assign(
       vi.fn().mockResolvedValue({
         hash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
         wait: vi.fn().mockResolvedValue({
@@ -40,6 +41,7 @@ vi.mock('ethers', () => ({
       }),
     },
   })),
+  isAddress: vi.fn().mockImplementation((value) => /^0x[0-9a-fA-F]{40}$/.test(value)),
   parseEther: vi.fn().mockImplementation((value) => {
     // Handle string inputs properly
     const numValue = typeof value === 'string' ? parseFloat(value) : value;
@@ -342,10 +344,10 @@ describe('bridgeMessagesAction', () => {
         messageData: '0x1234',
       });
 
-      // Mock the Contract constructor to return a contract with failing bridgeAsset
+      // Mock the Contract constructor to return a contract with failing bridgeMessage
       const { Contract } = await import('ethers');
       const mockContractInstance = {
-        bridgeAsset: Object.assign(vi.fn().mockRejectedValue(new Error('Transaction failed')), {
+        bridgeMessage: Object.assign(vi.fn().mockRejectedValue(new Error('Transaction failed')), {
           estimateGas: vi.fn().mockResolvedValue(BigInt(300000)),
         }),
         interface: {
@@ -372,7 +374,7 @@ describe('bridgeMessagesAction', () => {
       // Mock the Contract constructor to return a contract with failing gas estimation
       const { Contract } = await import('ethers');
       const mockContractInstance = {
-        bridgeAsset: Object.assign(
+        bridgeMessage: Object.assign(
           vi.fn().mockResolvedValue({
             hash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
             wait: vi.fn().mockResolvedValue({
@@ -415,7 +417,7 @@ describe('bridgeMessagesAction', () => {
       // Mock the Contract constructor to return a contract with null parseLog result
       const { Contract } = await import('ethers');
       const mockContractInstance = {
-        bridgeAsset: Object.assign(
+        bridgeMessage: Object.assign(
           vi.fn().mockResolvedValue({
             hash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
             wait: vi.fn().mockResolvedValue({
@@ -448,6 +450,132 @@ describe('bridgeMessagesAction', () => {
     });
   });
 
+  describe('bridgeMessage and claimMessage', () => {
+    beforeEach(() => {
+      (mockRuntime.getSetting as Mock).mockImplementation((key: string) => {
+        if (key === 'PRIVATE_KEY') return 'test-private-key';
+        if (key === 'ALCHEMY_API_KEY') return 'test-api-key';
+        return undefined;
+      });
+    });
+
+    it('should send the message to the chosen destination contract', async () => {
+      callLLMWithTimeoutMock.mockResolvedValue({
+        destinationChain: 'ethereum',
+        destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        messageData: '0x1234567890abcdef',
+      });
+      const { Contract } = await import('ethers');
+
+      const result = await bridgeMessagesAction.handler(
+        mockRuntime,
+        mockMessage,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result?.success).toBe(true);
+      const contract = vi.mocked(Contract).mock.results[0].value;
+      expect(contract.bridgeMessage).toHaveBeenCalledWith(
+        0,
+        '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        true,
+        '0x1234567890abcdef',
+        expect.objectContaining({ gasLimit: BigInt(360000) })
+      );
+      expect(result?.data).toMatchObject({
+        destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        bridgeTicketId: '1-123',
+      });
+    });
+
+    it('should reject an invalid destination address', async () => {
+      callLLMWithTimeoutMock.mockResolvedValue({
+        destinationChain: 'ethereum',
+        destinationAddress: '0x1234',
+        messageData: '0x1234567890abcdef',
+      });
+
+      const result = await bridgeMessagesAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('Invalid destination address: 0x1234');
+    });
+
+    it('should claim a bridged message on the destination chain', async () => {
+      callLLMWithTimeoutMock.mockResolvedValue({ operation: 'claim', bridgeTicketId: '1-678' });
+      const bridgeService = {
+        getDeposit: vi.fn().mockResolvedValue({
+          leafType: 1,
+          originNetwork: 1,
+          originTokenAddress: '0x1234567890123456789012345678901234567890',
+          amount: '0',
+          destinationNetwork: 0,
+          destinationAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+          depositCount: 678,
+          networkId: 1,
+          txHash: '0xdeposit',
+          metadata: '0x1234567890abcdef',
+          readyForClaim: true,
+        }),
+        getMerkleProof: vi.fn().mockResolvedValue({
+          localExitRootProof: [],
+          rollupExitRootProof: [],
+          mainnetExitRoot: '0xmainnet',
+          rollupExitRoot: '0xrollup',
+        }),
+      };
+      (mockRuntime as any).getService = vi
+        .fn()
+        .mockImplementation((type: string) =>
+          type === 'polygon-zkevm-bridge-service' ? bridgeService : null
+        );
+      const claimContract = {
+        isClaimed: vi.fn().mockResolvedValue(false),
+        claimMessage: vi.fn().mockResolvedValue({
+          hash: '0xclaim',
+          wait: vi.fn().mockResolvedValue({ status: 1, gasUsed: BigInt(210000), blockNumber: 1 }),
+        }),
+      };
+      const { Contract } = await import('ethers');
+      vi.mocked(Contract).mockImplementationOnce(() => claimContract as any);
+
+      const result = await bridgeMessagesAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(true);
+      expect(claimContract.claimMessage).toHaveBeenCalledWith(
+        [],
+        [],
+        BigInt(678),
+        '0xmainnet',
+        '0xrollup',
+        1,
+        '0x1234567890123456789012345678901234567890',
+        0,
+        '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        '0',
+        '0x1234567890abcdef',
+        {}
+      );
+      expect(result?.data).toMatchObject({
+        operation: 'claim',
+        status: 'claimed',
+        transactionHash: '0xclaim',
+        destinationNetwork: 'Ethereum',
+      });
+    });
+
+    it('should require a bridge ticket to claim a message', async () => {
+      callLLMWithTimeoutMock.mockResolvedValue({ operation: 'claim' });
+
+      const result = await bridgeMessagesAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('bridgeTicketId is required');
+    });
+  });
+
   describe('action properties', () => {
     it('should have correct action name', () => {
       expect(bridgeMessagesAction.name).toBe('BRIDGE_MESSAGES');
@@ -465,7 +593,7 @@ describe('bridgeMessagesAction', () => {
 
     it('should have correct description', () => {
       expect(bridgeMessagesAction.description).toBe(
-        'Sends arbitrary calldata messages between Ethereum and Polygon zkEVM using the bridge contract.'
+        'Sends arbitrary calldata messages between Ethereum and Polygon zkEVM using the bridge contract, and claims bridged messages on the destination chain.'
       );
     });
   });
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { claimAssetsAction } from '../src/actions/claimAssets';
+import { callLLMWithTimeout } from '../src/utils/llmHelpers';
+import type { BridgeDeposit, BridgeServiceClient } from '../src/services/bridgeService';
+import { computeGlobalIndex, parseBridgeTicket } from '../src/services/bridgeService';
+import type { IAgentRuntime, Memory, State } from '@elizaos/core';
+
+const mockBridgeContract = {
+  isClaimed: vi.fn(),
+  claimAsset: vi.fn(),
+};
+
+// Mock ethers
+vi.mock('ethers', () => ({
+  JsonRpcProvider: vi.fn().mockImplementation((_url: string, chainId: number) => ({
+    send: vi.fn().mockResolvedValue(`0x${chainId.toString(16)}`), // eth_chainId
+  })),
+  Wallet: vi.fn().mockImplementation(() => ({
+    address: '0x1234567890123456789012345678901234567890',
+  })),
+  Contract: vi.fn().mockImplementation(() => mockBridgeContract),
+  formatUnits: vi.fn().mockReturnValue('0.5'),
+  parseUnits: vi.fn().mockImplementation((value) => BigInt(value)),
+  ZeroHash: '0x0000000000000000000000000000000000000000000000000000000000000000',
+}));
+
+vi.mock('../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const withdrawal: BridgeDeposit = {
+  leafType: 0,
+  originNetwork: 0,
+  originTokenAddress: '0x0000000000000000000000000000000000000000',
+  amount: '500000000000000000',
+  destinationNetwork: 0,
+  destinationAddress: '0x1234567890123456789012345678901234567890',
+  depositCount: 4821,
+  networkId: 1,
+  txHash: '0xdeposit',
+  metadata: '0x',
+  readyForClaim: true,
+  globalIndex: '4821',
+};
+
+const proof = {
+  localExitRootProof: Array(32).fill('0x01'),
+  rollupExitRootProof: Array(32).fill('0x02'),
+  mainnetExitRoot: '0xmainnet',
+  rollupExitRoot: '0xrollup',
+};
+
+describe('claimAssetsAction', () => {
+  let mockRuntime: IAgentRuntime;
+  let mockMessage: Memory;
+  let mockState: State;
+  let bridgeService: BridgeServiceClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    bridgeService = {
+      getDeposit: vi.fn().mockResolvedValue(withdrawal),
+      getMerkleProof: vi.fn().mockResolvedValue(proof),
+    };
+    mockBridgeContract.isClaimed.mockResolvedValue(false);
+    mockBridgeContract.claimAsset.mockResolvedValue({
+      hash: '0xclaim',
+      wait: vi.fn().mockResolvedValue({ status: 1, gasUsed: 120000n, blockNumber: 19000000 }),
+    });
+
+    mockRuntime = {
+      getSetting: vi.fn().mockImplementation((key: string) => {
+        switch (key) {
+          case 'ZKEVM_RPC_URL':
+            return 'https://zkevm-rpc.com';
+          case 'PRIVATE_KEY':
+            return '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+          default:
+            return undefined;
+        }
+      }),
+      getService: vi
+        .fn()
+        .mockImplementation((type: string) =>
+          type === 'polygon-zkevm-bridge-service' ? bridgeService : null
+        ),
+    } as unknown as IAgentRuntime;
+
+    mockMessage = { content: { text: 'Claim my withdrawal with bridge ticket 1-4821' } } as Memory;
+    mockState = {} as State;
+
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ bridgeTicketId: '1-4821' });
+  });
+
+  describe('bridge tickets', () => {
+    it('should parse a bridge ticket', () => {
+      expect(parseBridgeTicket('1-4821')).toEqual({ networkId: 1, depositCount: 4821 });
+      expect(() => parseBridgeTicket('4821')).toThrow('Invalid bridge ticket');
+    });
+
+    it('should compute global indexes for L1 and rollup deposits', () => {
+      expect(computeGlobalIndex(0, 5)).toBe(18446744073709551621n);
+      expect(computeGlobalIndex(1, 5)).toBe(5n);
+    });
+  });
+
+  describe('validate', () => {
+    it('should return true for claim requests', async () => {
+      expect(await claimAssetsAction.validate(mockRuntime, mockMessage, mockState)).toBe(true);
+    });
+
+    it('should return false when the message is not about claiming', async () => {
+      const message = { content: { text: 'What is the gas price?' } } as Memory;
+      expect(await claimAssetsAction.validate(mockRuntime, message, mockState)).toBe(false);
+    });
+  });
+
+  describe('handler', () => {
+    it('should claim a ready withdrawal on L1 with the fetched proof', async () => {
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(true);
+      expect(bridgeService.getDeposit).toHaveBeenCalledWith(1, 4821);
+      expect(bridgeService.getMerkleProof).toHaveBeenCalledWith(1, 4821);
+      expect(mockBridgeContract.isClaimed).toHaveBeenCalledWith(4821, 1);
+      expect(mockBridgeContract.claimAsset).toHaveBeenCalledWith(
+        proof.localExitRootProof,
+        proof.rollupExitRootProof,
+        '4821',
+        '0xmainnet',
+        '0xrollup',
+        0,
+        withdrawal.originTokenAddress,
+        0,
+        withdrawal.destinationAddress,
+        withdrawal.amount,
+        '0x',
+        {}
+      );
+      expect(result?.data).toMatchObject({
+        bridgeTicketId: '1-4821',
+        transactionHash: '0xclaim',
+        destinationNetwork: 'Ethereum',
+        status: 'claimed',
+        networkProfile: 'mainnet',
+      });
+    });
+
+    it('should not claim a deposit that is not ready', async () => {
+      vi.mocked(bridgeService.getDeposit).mockResolvedValue({
+        ...withdrawal,
+        readyForClaim: false,
+      });
+
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('not ready to be claimed yet');
+      expect(result?.data?.status).toBe('pending');
+      expect(mockBridgeContract.claimAsset).not.toHaveBeenCalled();
+    });
+
+    it('should report deposits that were already claimed', async () => {
+      mockBridgeContract.isClaimed.mockResolvedValue(true);
+
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(true);
+      expect(result?.values?.alreadyClaimed).toBe(true);
+      expect(bridgeService.getMerkleProof).not.toHaveBeenCalled();
+      expect(mockBridgeContract.claimAsset).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the bridge service does not know the deposit', async () => {
+      vi.mocked(bridgeService.getDeposit).mockResolvedValue(null);
+
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('was not found by the bridge service');
+    });
+
+    it('should fail on an invalid bridge ticket', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({ bridgeTicketId: 'abc' });
+
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('Invalid bridge ticket');
+    });
+
+    it('should require PRIVATE_KEY', async () => {
+      mockRuntime.getSetting = vi
+        .fn()
+        .mockImplementation((key: string) =>
+          key === 'ZKEVM_RPC_URL' ? 'https://zkevm-rpc.com' : undefined
+        );
+
+      const result = await claimAssetsAction.handler(mockRuntime, mockMessage, mockState);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('PRIVATE_KEY is required');
+    });
+  });
+});
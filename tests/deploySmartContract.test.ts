@@ -6,6 +6,7 @@ import type { IAgentRuntime, Memory, State } from '@elizaos/core';
 vi.mock('ethers', () => ({
   JsonRpcProvider: vi.fn().mockImplementation(() => ({
     estimateGas: vi.fn().mockResolvedValue(BigInt('2000000')),
+    send: vi.fn().mockResolvedValue('0x44d'), // eth_chainId 1101
     getFeeData: vi.fn().mockResolvedValue({
       maxFeePerGas: BigInt('20000000000'),
       maxPriorityFeePerGas: BigInt('2000000000'),
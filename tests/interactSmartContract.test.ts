@@ -7,6 +7,7 @@ import * as llmHelpers from '../src/utils/llmHelpers';
 vi.mock('ethers', () => ({
   JsonRpcProvider: vi.fn().mockImplementation(() => ({
     getNetwork: vi.fn().mockResolvedValue({ chainId: 1101 }),
+    send: vi.fn().mockResolvedValue('0x44d'), // eth_chainId 1101
     getFeeData: vi.fn().mockResolvedValue({
       maxFeePerGas: BigInt('30000000000'),
       maxPriorityFeePerGas: BigInt('2000000000'),
@@ -525,7 +526,7 @@ describe('interactSmartContractAction', () => {
       );
 
       expect((result as any).text).toContain('Smart contract interaction successful');
-      expect((result as any).data.method).toBe('rpc');
+      expect((result as any).data.method).toBe('rpc.polygon-zkevm.gateway.fm');
     });
 
     it('should set default args when not provided', async () => {
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AbiCoder } from 'ethers';
+import { encodeConstructorArgs } from '../../src/utils/abiEncoding';
+import { deploySmartContractAction } from '../../src/actions/deploySmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const OWNER = '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b7';
+const TOKEN_ABI = [
+  {
+    type: 'constructor',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'owner', type: 'address' },
+      { name: 'supply', type: 'uint256' },
+    ],
+  },
+  'function name() view returns (string)',
+];
+
+describe('Constructor argument encoding', () => {
+  it('should coerce addresses and decimal strings to the constructor types', () => {
+    const { signature, encodedArgs } = encodeConstructorArgs(TOKEN_ABI, [
+      'MyToken',
+      OWNER,
+      '1000000000000000000000000',
+    ]);
+
+    expect(signature).toBe('constructor(string name, address owner, uint256 supply)');
+    expect(encodedArgs).toBe(
+      AbiCoder.defaultAbiCoder().encode(
+        ['string', 'address', 'uint256'],
+        ['MyToken', OWNER, 10n ** 24n]
+      )
+    );
+  });
+
+  it('should encode arrays and tuples from a constructor signature', () => {
+    const { values } = encodeConstructorArgs(
+      '(address[] signers, uint8 threshold, (uint64 start, bool paused) config)',
+      [[OWNER], '2', { start: 1700000000, paused: 'false' }]
+    );
+
+    expect(values).toEqual([[expect.stringMatching(/^0x742d35Cc/)], 2n, [1700000000n, false]]);
+  });
+
+  it('should fail loudly on argument mismatches', () => {
+    expect(() => encodeConstructorArgs(TOKEN_ABI, ['MyToken', OWNER])).toThrow(
+      'expects 3 argument(s) but 2 were provided'
+    );
+    expect(() => encodeConstructorArgs(TOKEN_ABI, ['MyToken', '0x1234', '1'])).toThrow(
+      'constructor argument owner (address): expected an address'
+    );
+    expect(() => encodeConstructorArgs(TOKEN_ABI, ['MyToken', OWNER, '1.5'])).toThrow(
+      'expected an integer in base units'
+    );
+    expect(() => encodeConstructorArgs('uint8 decimals', [256])).toThrow('out of range');
+    expect(() => encodeConstructorArgs(['function name() view returns (string)'], [1])).toThrow(
+      'constructor() expects 0 argument(s)'
+    );
+  });
+
+  describe('deploySmartContract', () => {
+    const BYTECODE = '0x6080604052';
+    let wallet: { sendTransaction: ReturnType<typeof vi.fn> };
+    let runtime: any;
+
+    beforeEach(() => {
+      wallet = {
+        sendTransaction: vi.fn().mockResolvedValue({
+          hash: '0xabc',
+          wait: vi.fn().mockResolvedValue({ contractAddress: OWNER }),
+        }),
+      };
+      runtime = {
+        getSetting: vi.fn(
+          (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+        ),
+        getService: vi.fn((type: string) =>
+          type === 'polygon-zkevm-provider'
+            ? {
+                getEndpointName: () => 'zkevm-rpc.com',
+                getProvider: () => ({
+                  estimateGas: vi.fn().mockResolvedValue(3000000n),
+                  getFeeData: vi.fn().mockResolvedValue({ gasPrice: 1n }),
+                }),
+                getSigner: async () => wallet,
+              }
+            : null
+        ),
+      };
+    });
+
+    it('should append the encoded constructor arguments to the bytecode', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        bytecode: BYTECODE,
+        abi: TOKEN_ABI,
+        constructorArgs: ['MyToken', OWNER, '1000'],
+      });
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+      const { encodedArgs } = encodeConstructorArgs(TOKEN_ABI, ['MyToken', OWNER, '1000']);
+
+      expect(result?.success).toBe(true);
+      expect(wallet.sendTransaction.mock.calls[0][0].data).toBe(BYTECODE + encodedArgs.slice(2));
+      expect(result?.data).toMatchObject({ encodedConstructorArgs: encodedArgs });
+    });
+
+    it('should not deploy when the constructor arguments cannot be encoded', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        bytecode: BYTECODE,
+        constructorArgs: ['MyToken', 'TKN'],
+      });
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('require the contract ABI or constructor signature');
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AbiCoder, Interface } from 'ethers';
+import { isBareSignature, resolveContractAbi } from '../../src/utils/abiResolver';
+import { recordDeployedContract } from '../../src/utils/contractRegistry';
+import { interactSmartContractAction } from '../../src/actions/interactSmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const HOLDER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+const jsonAbi = (fragments: string[]) => JSON.parse(new Interface(fragments).formatJson());
+
+describe('ABI resolution', () => {
+  let root: string;
+  let cache: Map<string, unknown>;
+  let settings: Record<string, string>;
+  let runtime: any;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const resolve = (method: string, extra: Record<string, unknown> = {}) =>
+    resolveContractAbi(runtime, 1101, { address: CONTRACT, method, ...extra });
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'zkevm-abis-'));
+    cache = new Map();
+    settings = { ZKEVM_RPC_URL: 'https://zkevm-rpc.com', CONTRACT_ABI_DIR: root };
+    runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+    };
+    fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        status: '0',
+        message: 'NOTOK',
+        result: 'Contract source code not verified',
+      }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should prefer the registry, then ABI files, then well-known interfaces', async () => {
+    await writeFile(
+      join(root, `${CONTRACT}.json`),
+      JSON.stringify({ abi: jsonAbi(['function harvest() returns (uint256)']) })
+    );
+    await recordDeployedContract(runtime, {
+      name: 'FeeVault',
+      address: CONTRACT,
+      network: 'mainnet',
+      chainId: 1101,
+      transactionHash: null,
+      abi: jsonAbi(['function setFee(uint256 fee)']),
+      artifact: null,
+      constructorArgs: [],
+      encodedConstructorArgs: null,
+      deployer: null,
+      deployedAt: 1,
+    });
+
+    expect(await resolve('setFee')).toMatchObject({ source: 'registry', detail: 'FeeVault' });
+    expect(await resolve('harvest')).toMatchObject({
+      source: 'abi-file',
+      detail: join(root, `${CONTRACT}.json`),
+    });
+    expect(await resolve('deposit')).toMatchObject({ source: 'well-known', detail: 'ERC4626' });
+    expect(await resolve('balanceOf')).toMatchObject({ source: 'well-known', detail: 'ERC20' });
+    expect(await resolve('balanceOf', { standard: 'erc-721' })).toMatchObject({
+      detail: 'ERC721',
+    });
+    // Overloads are told apart by their arguments
+    expect(await resolve('safeTransferFrom', { args: [HOLDER, HOLDER, 1, 5, '0x'] })).toMatchObject(
+      { detail: 'ERC1155' }
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should only read ABI files inside the ABI directories', async () => {
+    const abisDir = join(root, 'abis');
+    await mkdir(abisDir);
+    await writeFile(
+      join(root, 'Secret.json'),
+      JSON.stringify(jsonAbi(['function harvest() returns (uint256)']))
+    );
+    settings.CONTRACT_ABI_DIR = abisDir;
+
+    expect(await resolve('harvest', { contractName: '../Secret' })).toBeNull();
+    expect(await resolve('harvest', { contractName: join(root, 'Secret') })).toBeNull();
+
+    settings.CONTRACT_ABI_DIR = root;
+    expect(await resolve('harvest', { contractName: 'Secret' })).toMatchObject({
+      source: 'abi-file',
+      detail: join(root, 'Secret.json'),
+    });
+  });
+
+  it('should fall back to the explorer, then to the function signature', async () => {
+    expect(
+      await resolve('claim', { signature: 'claim(address to) returns (uint256)' })
+    ).toMatchObject({ source: 'signature', detail: 'claim(address to) returns (uint256)' });
+    expect(await resolve('claim')).toBeNull();
+
+    const [url] = fetchMock.mock.calls[0];
+    expect(url.searchParams.get('action')).toBe('getabi');
+    expect(url.searchParams.get('address')).toBe(CONTRACT);
+
+    fetchMock.mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({
+        status: '1',
+        message: 'OK',
+        result: new Interface(['function claim(address to)']).formatJson(),
+      }),
+    }));
+    expect(await resolve('claim')).toMatchObject({ source: 'explorer' });
+  });
+
+  it('should call a well-known token function without an ABI', async () => {
+    const wallet = {
+      address: HOLDER,
+      call: vi.fn(async () => AbiCoder.defaultAbiCoder().encode(['uint256'], [1000n])),
+    };
+    runtime.getService = vi.fn((type: string) =>
+      type === 'polygon-zkevm-provider'
+        ? {
+            getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+            getEndpointName: () => 'zkevm-rpc.com',
+            getProvider: () => ({}),
+            getSigner: async () => wallet,
+          }
+        : null
+    );
+    settings.PRIVATE_KEY = '0x01';
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      contractAddress: CONTRACT,
+      methodName: 'balanceOf',
+      args: [HOLDER],
+    });
+
+    const result = await interactSmartContractAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.data).toMatchObject({
+      abiSource: 'well-known',
+      isReadOnly: true,
+      result: '1000',
+    });
+    expect(result?.text).toContain('**ABI Source:** well-known (ERC20)');
+  });
+
+  it('should read a bare function signature instead of sending a transaction', async () => {
+    const word = AbiCoder.defaultAbiCoder().encode(['uint256'], [250n]);
+    const provider = { call: vi.fn(async () => word) };
+    const wallet = { address: HOLDER, sendTransaction: vi.fn() };
+    runtime.getService = vi.fn((type: string) =>
+      type === 'polygon-zkevm-provider'
+        ? {
+            getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+            getEndpointName: () => 'zkevm-rpc.com',
+            getProvider: () => provider,
+            getSigner: async () => wallet,
+          }
+        : null
+    );
+    settings.PRIVATE_KEY = '0x01';
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      contractAddress: CONTRACT,
+      methodName: 'fee',
+      methodSignature: 'fee()',
+    });
+
+    const result = await interactSmartContractAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.data).toMatchObject({ abiSource: 'signature', isReadOnly: true, result: word });
+    expect(provider.call).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: CONTRACT,
+        data: new Interface(['function fee()']).getFunction('fee').selector,
+      })
+    );
+    expect(wallet.sendTransaction).not.toHaveBeenCalled();
+
+    expect(isBareSignature('balanceOf(address owner)')).toBe(true);
+    expect(isBareSignature('function setFee(uint256 fee) nonpayable')).toBe(false);
+    expect(isBareSignature('deposit() payable')).toBe(false);
+    expect(isBareSignature('claim(address to) returns (uint256)')).toBe(false);
+  });
+});
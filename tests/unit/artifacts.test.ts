@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { getAddress } from 'ethers';
+import { linkBytecode, loadArtifact } from '../../src/utils/artifacts';
+import { deploySmartContractAction } from '../../src/actions/deploySmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const LIBRARY = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const VAULT = '0x2a3dd3eb832af982ec71669e178424b10dca2ede';
+const PLACEHOLDER = '__$6cb3e3c1ac3ba9e1ebd0f2a1b0e0d0c0b0$__';
+// PUSH20 <library> followed by the rest of the creation code
+const LINKED_BYTECODE = `0x6080604052${'73'}${PLACEHOLDER}6000`;
+const LINK_REFERENCES = { 'contracts/lib/MathLib.sol': { MathLib: [{ start: 6, length: 20 }] } };
+const VAULT_ABI = [
+  { type: 'constructor', inputs: [{ name: 'fee', type: 'uint256' }] },
+  { type: 'function', name: 'fee', inputs: [], outputs: [{ type: 'uint256' }] },
+];
+
+describe('Contract artifacts', () => {
+  let root: string;
+  let runtime: any;
+  let cache: Map<string, unknown>;
+
+  const writeJson = async (path: string, json: unknown) => {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), JSON.stringify(json));
+  };
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'zkevm-artifacts-'));
+    await writeJson('artifacts/contracts/FeeVault.sol/FeeVault.json', {
+      _format: 'hh-sol-artifact-1',
+      contractName: 'FeeVault',
+      sourceName: 'contracts/FeeVault.sol',
+      abi: VAULT_ABI,
+      bytecode: LINKED_BYTECODE,
+      linkReferences: LINK_REFERENCES,
+    });
+    await writeJson('artifacts/contracts/Token.sol/Token.json', {
+      contractName: 'Token',
+      sourceName: 'contracts/Token.sol',
+      abi: [],
+      bytecode: '0x6080',
+      linkReferences: {},
+    });
+    await writeJson('artifacts/build-info/Token.json', { abi: [] });
+    await writeJson('Secret.json', { abi: [], bytecode: '0x6002' });
+    await writeJson('out/Token.sol/Token.json', {
+      abi: [],
+      bytecode: { object: '0x6001', linkReferences: {} },
+      metadata: { settings: { compilationTarget: { 'src/Token.sol': 'Token' } } },
+    });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    cache = new Map();
+    runtime = {
+      getSetting: vi.fn(
+        (key: string) =>
+          ({
+            CONTRACT_ARTIFACTS_DIR: `${join(root, 'artifacts')},${join(root, 'out')}`,
+            ZKEVM_RPC_URL: 'https://zkevm-rpc.com',
+            PRIVATE_KEY: '0x01',
+          })[key]
+      ),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+    };
+  });
+
+  it('should load Hardhat and Foundry artifacts by name or path', async () => {
+    const vault = await loadArtifact(runtime, 'FeeVault');
+    expect(vault).toMatchObject({
+      contractName: 'FeeVault',
+      sourceName: 'contracts/FeeVault.sol',
+      format: 'hardhat',
+      linkReferences: LINK_REFERENCES,
+    });
+
+    const foundry = await loadArtifact(runtime, 'Token.sol/Token.json');
+    expect(foundry).toMatchObject({
+      contractName: 'Token',
+      sourceName: 'src/Token.sol',
+      bytecode: '0x6001',
+      format: 'foundry',
+    });
+    expect((await loadArtifact(runtime, 'contracts/Token.sol:Token')).format).toBe('hardhat');
+  });
+
+  it('should refuse ambiguous names and paths outside the artifact directories', async () => {
+    await expect(loadArtifact(runtime, 'Token')).rejects.toThrow('is ambiguous');
+    await expect(loadArtifact(runtime, '../Secret.json')).rejects.toThrow('not found');
+    await expect(loadArtifact(runtime, 'Missing')).rejects.toThrow('not found');
+  });
+
+  it('should replace library placeholders with library addresses', async () => {
+    const vault = await loadArtifact(runtime, 'FeeVault');
+
+    const { bytecode, linkedLibraries } = linkBytecode(vault, { MathLib: LIBRARY });
+
+    expect(bytecode).toBe(`0x608060405273${LIBRARY.slice(2)}6000`);
+    expect(linkedLibraries).toEqual({ 'contracts/lib/MathLib.sol:MathLib': getAddress(LIBRARY) });
+    expect(() => linkBytecode(vault, {})).toThrow(
+      'links library contracts/lib/MathLib.sol:MathLib: deploy it first or provide its address'
+    );
+  });
+
+  it('should deploy an artifact linked against a previously deployed library', async () => {
+    const wallet = {
+      sendTransaction: vi.fn().mockResolvedValue({
+        hash: '0xabc',
+        wait: vi.fn().mockResolvedValue({ contractAddress: VAULT }),
+      }),
+    };
+    runtime.getService = vi.fn((type: string) =>
+      type === 'polygon-zkevm-provider'
+        ? {
+            getNetwork: () => ({ name: 'cardona', l2: { chainId: 2442 } }),
+            getEndpointName: () => 'zkevm-rpc.com',
+            getProvider: () => ({
+              estimateGas: vi.fn().mockResolvedValue(3000000n),
+              getFeeData: vi.fn().mockResolvedValue({ gasPrice: 1n }),
+            }),
+            getSigner: async () => wallet,
+          }
+        : null
+    );
+    cache.set('polygon-zkevm/artifact-deployments', {
+      cardona: { 'contracts/lib/MathLib.sol:MathLib': LIBRARY },
+    });
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      artifact: 'FeeVault',
+      constructorArgs: ['25'],
+    });
+
+    const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    const data: string = wallet.sendTransaction.mock.calls[0][0].data;
+    expect(data.startsWith(`0x608060405273${LIBRARY.slice(2)}6000`)).toBe(true);
+    expect(data.endsWith((25).toString(16).padStart(64, '0'))).toBe(true);
+    expect(cache.get('polygon-zkevm/artifact-deployments')).toMatchObject({
+      cardona: { FeeVault: VAULT, 'contracts/FeeVault.sol:FeeVault': VAULT },
+    });
+  });
+});
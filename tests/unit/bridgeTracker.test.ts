@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JsonRpcProvider } from 'ethers';
+import { createMockRuntime } from '../test-helpers';
+import { BridgeTrackerService } from '../../src/services/bridgeTracker';
+import { getBridgeTransfersAction } from '../../src/actions/getBridgeTransfers';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+import type { BridgeDeposit } from '../../src/services/bridgeService';
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const deposit: BridgeDeposit = {
+  leafType: 0,
+  originNetwork: 0,
+  originTokenAddress: '0x0000000000000000000000000000000000000000',
+  amount: '1000000000000000000',
+  destinationNetwork: 1,
+  destinationAddress: '0x1234567890123456789012345678901234567890',
+  depositCount: 120394,
+  networkId: 0,
+  txHash: '0xdeposit',
+  metadata: '0x',
+  readyForClaim: false,
+};
+
+const transfer = {
+  transactionHash: '0xdeposit',
+  bridgeTicketId: '0-120394',
+  depositCount: 120394,
+  networkProfile: 'mainnet' as const,
+  direction: 'deposit' as const,
+  sourceNetworkId: 0,
+  tokenAddress: '0x0000000000000000000000000000000000000000',
+  amount: '1000000000000000000',
+};
+
+describe('Bridge tracker', () => {
+  let runtime: any;
+  let cache: Map<string, unknown>;
+  let bridgeService: {
+    getDeposit: ReturnType<typeof vi.fn>;
+    getMerkleProof: ReturnType<typeof vi.fn>;
+  };
+  let tracker: BridgeTrackerService;
+
+  beforeEach(() => {
+    cache = new Map();
+    bridgeService = { getDeposit: vi.fn().mockResolvedValue(null), getMerkleProof: vi.fn() };
+    runtime = {
+      ...createMockRuntime(),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => {
+        cache.set(key, value);
+        return true;
+      }),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-bridge-service' ? bridgeService : null
+      ),
+    };
+    tracker = new BridgeTrackerService(runtime);
+  });
+
+  it('should persist recorded transfers in the agent cache', async () => {
+    await tracker.record(transfer);
+
+    const [stored] = await new BridgeTrackerService(runtime).list();
+    expect(stored).toMatchObject({ ...transfer, status: 'pending_inclusion' });
+    expect(await tracker.get('0-120394')).toEqual(stored);
+    expect(await tracker.get('0xDEPOSIT')).toEqual(stored);
+  });
+
+  it('should keep every transfer recorded concurrently', async () => {
+    await Promise.all([
+      tracker.record(transfer),
+      new BridgeTrackerService(runtime).record({
+        ...transfer,
+        transactionHash: '0xother',
+        bridgeTicketId: '0-7',
+      }),
+    ]);
+
+    expect((await tracker.list()).map((t) => t.transactionHash).sort()).toEqual([
+      '0xdeposit',
+      '0xother',
+    ]);
+  });
+
+  it('should advance a transfer through its lifecycle', async () => {
+    await tracker.record(transfer);
+
+    expect((await tracker.refreshAll())[0].status).toBe('pending_inclusion');
+
+    bridgeService.getDeposit.mockResolvedValue(deposit);
+    expect((await tracker.refreshAll())[0].status).toBe('indexed');
+
+    bridgeService.getDeposit.mockResolvedValue({ ...deposit, readyForClaim: true });
+    expect((await tracker.refreshAll())[0].status).toBe('ready_to_claim');
+
+    bridgeService.getDeposit.mockResolvedValue({ ...deposit, claimTxHash: '0xclaim' });
+    const [claimed] = await tracker.refreshAll();
+    expect(claimed).toMatchObject({ status: 'claimed', claimTransactionHash: '0xclaim' });
+
+    // Finished transfers are no longer polled
+    bridgeService.getDeposit.mockClear();
+    await tracker.refreshAll();
+    expect(bridgeService.getDeposit).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the bridge transaction before asking the bridge service', async () => {
+    (JsonRpcProvider as any).mockImplementationOnce(() => ({
+      getTransactionReceipt: vi.fn().mockResolvedValue(null),
+    }));
+    await tracker.record({ ...transfer, bridgeTicketId: null, depositCount: null });
+
+    const [pending] = await tracker.refreshAll();
+
+    expect(pending.status).toBe('pending_inclusion');
+    expect(bridgeService.getDeposit).not.toHaveBeenCalled();
+  });
+
+  it('should keep the last status when polling fails', async () => {
+    await tracker.record({ ...transfer, status: 'indexed' });
+    bridgeService.getDeposit.mockRejectedValue(new Error('bridge service unavailable'));
+
+    const [stale] = await tracker.refreshAll();
+
+    expect(stale).toMatchObject({ status: 'indexed', lastError: 'bridge service unavailable' });
+  });
+
+  it('should mark transfers claimed by the claim action', async () => {
+    await tracker.record(transfer);
+
+    await tracker.markClaimed('0-120394', '0xclaim');
+
+    expect(await tracker.get('0-120394')).toMatchObject({
+      status: 'claimed',
+      claimTransactionHash: '0xclaim',
+    });
+  });
+
+  it('should not undo a claim recorded while a refresh polls', async () => {
+    await tracker.record(transfer);
+    let answer: (value: BridgeDeposit) => void;
+    bridgeService.getDeposit.mockReturnValue(new Promise((resolve) => (answer = resolve)));
+
+    const polling = tracker.refreshAll();
+    await vi.waitFor(() => expect(bridgeService.getDeposit).toHaveBeenCalled());
+    await tracker.markClaimed('0-120394', '0xclaim');
+    answer({ ...deposit, readyForClaim: true });
+    await polling;
+
+    expect(await tracker.get('0-120394')).toMatchObject({
+      status: 'claimed',
+      claimTransactionHash: '0xclaim',
+    });
+  });
+
+  it('should list tracked transfers through the action', async () => {
+    await tracker.record(transfer);
+    await tracker.record({ ...transfer, transactionHash: '0xother', bridgeTicketId: '0-7' });
+    bridgeService.getDeposit.mockResolvedValue({ ...deposit, readyForClaim: true });
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ bridgeTicketId: '0-120394' });
+
+    const result = await getBridgeTransfersAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ transferCount: 1, readyToClaimCount: 1 });
+    expect(result?.text).toContain('0-120394');
+    expect(result?.text).toContain('Ready to claim');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AbiCoder, Interface } from 'ethers';
+import {
+  type DeployedContract,
+  findDeployedContract,
+  getDeployedContracts,
+  recordDeployedContract,
+} from '../../src/utils/contractRegistry';
+import { interactSmartContractAction } from '../../src/actions/interactSmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const DEPLOYER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const FEE_VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const FEE_VAULT_V2 = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TOKEN = '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe';
+
+const FEE_VAULT_ABI = JSON.parse(
+  new Interface([
+    'function fee() view returns (uint256)',
+    'function setFee(uint256 fee)',
+  ]).formatJson()
+);
+
+const deployment = (overrides: Partial<DeployedContract>): DeployedContract => ({
+  name: 'FeeVault',
+  address: FEE_VAULT,
+  network: 'mainnet',
+  chainId: 1101,
+  transactionHash: '0xdeploy',
+  abi: FEE_VAULT_ABI,
+  artifact: 'contracts/FeeVault.sol:FeeVault',
+  constructorArgs: [],
+  encodedConstructorArgs: null,
+  deployer: DEPLOYER,
+  deployedAt: 1_000,
+  ...overrides,
+});
+
+describe('Contract registry', () => {
+  let cache: Map<string, unknown>;
+  let runtime: any;
+  let wallet: { address: string; call: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    cache = new Map();
+    wallet = {
+      address: DEPLOYER,
+      call: vi.fn(async () => AbiCoder.defaultAbiCoder().encode(['uint256'], [250])),
+    };
+    runtime = {
+      getSetting: vi.fn(
+        (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+      ),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+              getEndpointName: () => 'zkevm-rpc.com',
+              getProvider: () => ({}),
+              getSigner: async () => wallet,
+            }
+          : null
+      ),
+    };
+  });
+
+  it('should find contracts by address, name or contract name, newest first', async () => {
+    await recordDeployedContract(runtime, deployment({}));
+    await recordDeployedContract(
+      runtime,
+      deployment({ name: 'Token', address: TOKEN, artifact: null, deployedAt: 2_000 })
+    );
+    await recordDeployedContract(runtime, deployment({ address: FEE_VAULT_V2, deployedAt: 3_000 }));
+    await recordDeployedContract(
+      runtime,
+      deployment({ network: 'cardona', chainId: 2442, deployedAt: 4_000 })
+    );
+
+    expect((await getDeployedContracts(runtime, 1101)).map((c) => c.address)).toEqual([
+      FEE_VAULT_V2,
+      TOKEN,
+      FEE_VAULT,
+    ]);
+    expect((await findDeployedContract(runtime, 1101, 'feevault'))?.address).toBe(FEE_VAULT_V2);
+    expect((await findDeployedContract(runtime, 1101, FEE_VAULT.toLowerCase()))?.name).toBe(
+      'FeeVault'
+    );
+    expect(await findDeployedContract(runtime, 1101, 'Missing')).toBeNull();
+
+    // Registering an address again replaces its entry
+    await recordDeployedContract(runtime, deployment({ name: 'OldVault' }));
+    expect(await getDeployedContracts(runtime, 1101)).toHaveLength(3);
+    expect((await findDeployedContract(runtime, 1101, FEE_VAULT))?.name).toBe('OldVault');
+    // Contract names of artifacts still match when the contract was registered under another name
+    expect((await findDeployedContract(runtime, 1101, 'FeeVault'))?.address).toBe(FEE_VAULT_V2);
+  });
+
+  it('should keep concurrent deployments and separate chains of the same profile', async () => {
+    await Promise.all([
+      recordDeployedContract(runtime, deployment({})),
+      recordDeployedContract(runtime, deployment({ name: 'Token', address: TOKEN })),
+      recordDeployedContract(
+        runtime,
+        deployment({ network: 'custom', chainId: 31337, address: FEE_VAULT_V2 })
+      ),
+      recordDeployedContract(runtime, deployment({ network: 'custom', chainId: 1337 })),
+    ]);
+
+    expect((await getDeployedContracts(runtime, 1101)).map((c) => c.name).sort()).toEqual([
+      'FeeVault',
+      'Token',
+    ]);
+    expect((await getDeployedContracts(runtime, 31337)).map((c) => c.address)).toEqual([
+      FEE_VAULT_V2,
+    ]);
+    expect((await getDeployedContracts(runtime, 1337)).map((c) => c.address)).toEqual([FEE_VAULT]);
+  });
+
+  it('should call a registered contract by name without its address and ABI', async () => {
+    await recordDeployedContract(runtime, deployment({}));
+    const message = { content: { text: 'What fee does my FeeVault charge?' } } as any;
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      contractName: 'FeeVault',
+      methodName: 'fee',
+    });
+
+    expect(await interactSmartContractAction.validate(runtime, message)).toBe(true);
+    const result = await interactSmartContractAction.handler(runtime, message, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.data).toMatchObject({
+      contractAddress: FEE_VAULT,
+      contractName: 'FeeVault',
+      methodName: 'fee',
+      result: '250',
+    });
+    expect(wallet.call.mock.calls[0][0]).toMatchObject({
+      to: FEE_VAULT,
+      data: new Interface(FEE_VAULT_ABI).encodeFunctionData('fee'),
+    });
+  });
+
+  it('should refuse a contract name that is not registered', async () => {
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      contractName: 'FeeVault',
+      methodName: 'fee',
+    });
+
+    await expect(
+      interactSmartContractAction.handler(runtime, {} as any, {} as any)
+    ).rejects.toThrow('No deployed contract named "FeeVault" in the contract registry');
+    expect(wallet.call).not.toHaveBeenCalled();
+  });
+});
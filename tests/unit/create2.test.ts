@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ZeroAddress, ZeroHash, id } from 'ethers';
+import {
+  DEFAULT_CREATE2_DEPLOYER,
+  buildCreate2Deployment,
+  toCreate2Salt,
+} from '../../src/utils/create2';
+import { deploySmartContractAction } from '../../src/actions/deploySmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const BYTECODE = '0x6080604052348015600f57600080fd5b50';
+
+describe('CREATE2 deployments', () => {
+  it('should derive 32-byte salts from hex values and labels', () => {
+    expect(toCreate2Salt(undefined)).toBe(ZeroHash);
+    expect(toCreate2Salt('0x1')).toBe(`0x${'0'.repeat(63)}1`);
+    expect(toCreate2Salt('fee-vault-v1')).toBe(id('fee-vault-v1'));
+    expect(() => toCreate2Salt(`0x${'ab'.repeat(33)}`)).toThrow('longer than 32 bytes');
+  });
+
+  it('should predict the CREATE2 address and build the deployer call', () => {
+    // First example of EIP-1014
+    expect(buildCreate2Deployment(ZeroAddress, ZeroHash, '0x00').predictedAddress).toBe(
+      '0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38'
+    );
+
+    const salt = toCreate2Salt('fee-vault-v1');
+    const { transaction } = buildCreate2Deployment(DEFAULT_CREATE2_DEPLOYER, salt, BYTECODE);
+    expect(transaction).toEqual({
+      to: DEFAULT_CREATE2_DEPLOYER,
+      data: salt + BYTECODE.slice(2),
+    });
+  });
+
+  describe('deploySmartContract', () => {
+    let code: Record<string, string>;
+    let wallet: { sendTransaction: ReturnType<typeof vi.fn> };
+    let callback: ReturnType<typeof vi.fn>;
+    let runtime: any;
+    const predicted = buildCreate2Deployment(
+      DEFAULT_CREATE2_DEPLOYER,
+      id('fee-vault-v1'),
+      BYTECODE
+    ).predictedAddress;
+
+    beforeEach(() => {
+      code = { [DEFAULT_CREATE2_DEPLOYER]: '0x7fff' };
+      callback = vi.fn();
+      wallet = {
+        sendTransaction: vi.fn().mockImplementation(async () => ({
+          hash: '0xabc',
+          wait: vi.fn().mockImplementation(async () => {
+            code[predicted] = '0x6080';
+            return { status: 1, contractAddress: null };
+          }),
+        })),
+      };
+      runtime = {
+        getSetting: vi.fn(
+          (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+        ),
+        getService: vi.fn((type: string) =>
+          type === 'polygon-zkevm-provider'
+            ? {
+                getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+                getEndpointName: () => 'zkevm-rpc.com',
+                getProvider: () => ({
+                  getCode: vi.fn(async (address: string) => code[address] ?? '0x'),
+                  estimateGas: vi.fn().mockResolvedValue(3000000n),
+                  getFeeData: vi.fn().mockResolvedValue({ gasPrice: 1n }),
+                }),
+                getSigner: async () => wallet,
+              }
+            : null
+        ),
+      };
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({ bytecode: BYTECODE, salt: 'fee-vault-v1' });
+    });
+
+    it('should show the predicted address and deploy through the deterministic deployer', async () => {
+      const result = await deploySmartContractAction.handler(
+        runtime,
+        {} as any,
+        {} as any,
+        {},
+        callback
+      );
+
+      expect(callback.mock.calls[0][0].content.predictedAddress).toBe(predicted);
+      expect(wallet.sendTransaction.mock.calls[0][0]).toMatchObject({
+        to: DEFAULT_CREATE2_DEPLOYER,
+        data: id('fee-vault-v1') + BYTECODE.slice(2),
+      });
+      expect(result?.success).toBe(true);
+      expect(result?.values).toMatchObject({ contractAddress: predicted, alreadyDeployed: false });
+    });
+
+    it('should not send anything when the contract is already at the predicted address', async () => {
+      code[predicted] = '0x6080';
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(true);
+      expect(result?.values).toMatchObject({ contractAddress: predicted, alreadyDeployed: true });
+      expect(result?.text).toContain('no transaction sent');
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the deployer does not exist on the network', async () => {
+      delete code[DEFAULT_CREATE2_DEPLOYER];
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('is not deployed on this network');
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
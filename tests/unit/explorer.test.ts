@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  type ExplorerConfig,
+  type VerificationInput,
+  getArtifactVerificationInput,
+  verifyContract,
+} from '../../src/utils/explorer';
+import type { ContractArtifact } from '../../src/utils/artifacts';
+import type { CompilationResult } from '../../src/utils/solidity';
+
+const ADDRESS = '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe';
+const LIBRARY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GUID = 'vgkxw6ghqbgj1d9p2mnwmvjrugqk7azbyqwwxyfrgxjccmd3rz';
+
+const config: ExplorerConfig = {
+  apiUrl: 'https://api.etherscan.io/v2/api',
+  apiKey: 'test-key',
+  chainId: 2442,
+};
+
+const input: VerificationInput = {
+  contractName: 'Contract.sol:Counter',
+  compilerVersion: 'v0.8.28+commit.7893614a',
+  standardJsonInput: { language: 'Solidity', sources: {}, settings: {} },
+  constructorArgs: '000000000000000000000000000000000000000000000000000000000000002a',
+};
+
+describe('Contract verification', () => {
+  let responses: { status: string; message: string; result: string }[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    responses = [];
+    fetchMock = vi.fn(async () => ({ ok: true, json: async () => responses.shift() }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should submit the standard JSON input and poll until the contract is verified', async () => {
+    responses.push(
+      { status: '1', message: 'OK', result: GUID },
+      { status: '0', message: 'NOTOK', result: 'Pending in queue' },
+      { status: '1', message: 'OK', result: 'Pass - Verified' }
+    );
+
+    const result = await verifyContract(config, ADDRESS, input, 1_000, 1);
+
+    expect(result).toEqual({
+      guid: GUID,
+      status: 'verified',
+      message: 'Pass - Verified',
+      alreadyVerified: false,
+    });
+
+    const [submitUrl, submitInit] = fetchMock.mock.calls[0];
+    expect(submitUrl.searchParams.get('chainid')).toBe('2442');
+    expect(submitInit.method).toBe('POST');
+    const body: URLSearchParams = submitInit.body;
+    expect(Object.fromEntries(body)).toMatchObject({
+      action: 'verifysourcecode',
+      contractaddress: ADDRESS,
+      codeformat: 'solidity-standard-json-input',
+      contractname: 'Contract.sol:Counter',
+      compilerversion: 'v0.8.28+commit.7893614a',
+      constructorArguements: input.constructorArgs,
+      apikey: 'test-key',
+    });
+    expect(JSON.parse(body.get('sourceCode'))).toEqual(input.standardJsonInput);
+
+    const [statusUrl] = fetchMock.mock.calls[2];
+    expect(statusUrl.searchParams.get('action')).toBe('checkverifystatus');
+    expect(statusUrl.searchParams.get('guid')).toBe(GUID);
+  });
+
+  it('should retry while the explorer has not indexed the contract yet', async () => {
+    responses.push(
+      { status: '0', message: 'NOTOK', result: 'Unable to locate ContractCode at ' + ADDRESS },
+      { status: '0', message: 'NOTOK', result: 'Contract source code already verified' }
+    );
+
+    const result = await verifyContract(config, ADDRESS, input, 1_000, 1);
+
+    expect(result).toMatchObject({ guid: null, status: 'verified', alreadyVerified: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report failures and leave slow verifications pending', async () => {
+    responses.push({ status: '0', message: 'NOTOK', result: 'Invalid API Key' });
+    await expect(verifyContract(config, ADDRESS, input, 1_000, 1)).rejects.toThrow(
+      'Explorer rejected the verification: Invalid API Key'
+    );
+
+    responses.push(
+      { status: '1', message: 'OK', result: GUID },
+      { status: '0', message: 'NOTOK', result: 'Fail - Unable to verify' }
+    );
+    expect(await verifyContract(config, ADDRESS, input, 1_000, 1)).toMatchObject({
+      status: 'failed',
+      message: 'Fail - Unable to verify',
+    });
+
+    responses.push(
+      { status: '1', message: 'OK', result: GUID },
+      { status: '0', message: 'NOTOK', result: 'Pending in queue' }
+    );
+    expect(await verifyContract(config, ADDRESS, input, 0, 1)).toMatchObject({
+      guid: GUID,
+      status: 'pending',
+    });
+  });
+
+  it('should build the input from a compilation and add linked libraries', async () => {
+    const artifact = {
+      contractName: 'Counter',
+      sourceName: 'Contract.sol',
+    } as ContractArtifact;
+    const compilation = {
+      compilerVersion: 'v0.8.28+commit.7893614a',
+      input: { language: 'Solidity', sources: {}, settings: { optimizer: { enabled: false } } },
+    } as CompilationResult;
+
+    const result = await getArtifactVerificationInput(artifact, compilation, '0x2a', {
+      'Contract.sol:MathLib': LIBRARY,
+    });
+
+    expect(result).toEqual({
+      contractName: 'Contract.sol:Counter',
+      compilerVersion: 'v0.8.28+commit.7893614a',
+      standardJsonInput: {
+        language: 'Solidity',
+        sources: {},
+        settings: {
+          optimizer: { enabled: false },
+          libraries: { 'Contract.sol': { MathLib: LIBRARY } },
+        },
+      },
+      constructorArgs: '2a',
+    });
+    // The compilation itself is left untouched
+    expect(compilation.input.settings.libraries).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AbiCoder, Interface } from 'ethers';
+import { DEFAULT_MULTICALL3_ADDRESS, multicall } from '../../src/utils/multicall';
+import { WELL_KNOWN_ABIS } from '../../src/utils/abiResolver';
+import { multicallAction } from '../../src/actions/multicall';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const TOKEN = '0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035';
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const HOLDER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+const multicall3 = new Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+const erc20 = new Interface(WELL_KNOWN_ABIS.ERC20);
+const vault = new Interface([
+  'function fee() view returns (uint256)',
+  'function limits() view returns (uint256 min, uint256 max)',
+  'function setFee(uint256 fee)',
+  'error Paused()',
+]);
+
+/**
+ * A Multicall3 that answers each call with the contract stub at its target
+ */
+function multicallProvider(contracts: Record<string, (data: string) => [boolean, string]>) {
+  return {
+    call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+      expect(to).toBe(DEFAULT_MULTICALL3_ADDRESS);
+      const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+      const results = calls.map(([target, , callData]: [string, boolean, string]) =>
+        contracts[target] ? contracts[target](callData) : [true, '0x']
+      );
+      return multicall3.encodeFunctionResult('aggregate3', [results]);
+    }),
+  };
+}
+
+const token = (callData: string): [boolean, string] => {
+  const call = erc20.parseTransaction({ data: callData });
+  const results: Record<string, () => unknown[]> = {
+    symbol: () => ['USDC'],
+    decimals: () => [6],
+    balanceOf: () => [call.args[0] === HOLDER ? 2_500_000n : 0n],
+  };
+  return [true, erc20.encodeFunctionResult(call.name, results[call.name]())];
+};
+
+describe('Multicall', () => {
+  let runtime: any;
+  let provider: ReturnType<typeof multicallProvider>;
+
+  beforeEach(() => {
+    provider = multicallProvider({
+      [TOKEN]: token,
+      [VAULT]: (callData) =>
+        vault.parseTransaction({ data: callData }).name === 'limits'
+          ? [true, vault.encodeFunctionResult('limits', [1n, 10n])]
+          : [false, vault.encodeErrorResult('Paused', [])],
+    });
+    runtime = {
+      getSetting: vi.fn((key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com' })[key]),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+              read: async (call: any) => ({ value: await call(provider), endpoints: ['rpc'] }),
+            }
+          : null
+      ),
+    };
+    // Functions outside the well-known interfaces are not on the explorer
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: true, json: async () => ({ status: '0', result: 'NOTOK' }) }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should batch calls, decode results and report failed calls', async () => {
+    const results = await multicall(
+      provider,
+      [
+        { target: TOKEN, abi: WELL_KNOWN_ABIS.ERC20, method: 'symbol' },
+        { target: TOKEN, abi: WELL_KNOWN_ABIS.ERC20, method: 'balanceOf', args: [HOLDER] },
+        { target: VAULT, abi: vault.fragments, method: 'limits' },
+        { target: VAULT, abi: vault.fragments, method: 'fee' },
+        { target: HOLDER, abi: WELL_KNOWN_ABIS.ERC20, method: 'decimals' },
+      ],
+      { batchSize: 3 }
+    );
+
+    expect(provider.call).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.success)).toEqual([true, true, true, false, false]);
+    expect(results[0]).toMatchObject({ method: 'symbol()', value: 'USDC' });
+    expect(results[1].value).toBe(2_500_000n);
+    expect([...(results[2].value as unknown[])]).toEqual([1n, 10n]);
+    expect(results[3]).toMatchObject({ error: 'Paused()', revert: { kind: 'custom' } });
+    expect(results[4].error).toContain(`${HOLDER} may not be a contract`);
+
+    const [[request]] = provider.call.mock.calls;
+    const [calls] = multicall3.decodeFunctionData('aggregate3', request.data);
+    expect(calls.map((call: any) => call.allowFailure)).toEqual([true, true, true]);
+  });
+
+  it('should read view functions resolved from well-known ABIs and signatures', async () => {
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      calls: [
+        { contractAddress: TOKEN, methodName: 'symbol' },
+        { contractAddress: TOKEN, methodName: 'balanceOf', args: [HOLDER] },
+        {
+          contractAddress: VAULT,
+          methodName: 'limits',
+          methodSignature: vault.getFunction('limits').format('full'),
+        },
+      ],
+    });
+
+    const result = await multicallAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ callCount: 3, failedCount: 0 });
+    expect(result?.data?.results.map((r: any) => r.value)).toEqual([
+      'USDC',
+      '2500000',
+      ['1', '10'],
+    ]);
+    expect(result?.text).toContain('`balanceOf(address)` → `"2500000"`');
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to batch state-changing functions', async () => {
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      calls: [
+        {
+          contractAddress: VAULT,
+          methodName: 'setFee',
+          abi: JSON.parse(vault.formatJson()),
+          args: [5],
+        },
+      ],
+    });
+
+    const result = await multicallAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(false);
+    expect(result?.text).toContain('setFee(uint256) on');
+    expect(result?.text).toContain('is not a view function');
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('should read a bare function signature and report its raw return data', async () => {
+    const word = AbiCoder.defaultAbiCoder().encode(['uint256'], [250n]);
+    provider = multicallProvider({ [VAULT]: () => [true, word] });
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      calls: [{ contractAddress: VAULT, methodName: 'fee', methodSignature: 'fee()' }],
+    });
+
+    const result = await multicallAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.data?.results).toEqual([
+      expect.objectContaining({ method: 'fee()', success: true, value: word }),
+    ]);
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+});
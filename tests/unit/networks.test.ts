@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockRuntime } from '../test-helpers';
+import {
+  NETWORK_PROFILES,
+  getNetworkLabel,
+  resolveNetworkProfile,
+  withNetworkProfile,
+} from '../../src/networks';
+import { ZkEvmProviderService } from '../../src/services/zkevmProvider';
+
+const runtimeWith = (settings: Record<string, string | undefined>) =>
+  createMockRuntime(settings as any);
+
+describe('Network profiles', () => {
+  describe('resolveNetworkProfile', () => {
+    it('should default to mainnet', () => {
+      const profile = resolveNetworkProfile(runtimeWith({}));
+
+      expect(profile).toEqual(NETWORK_PROFILES.mainnet);
+      expect(profile.l2.chainId).toBe(1101);
+      expect(profile.l2.networkId).toBe(1);
+    });
+
+    it('should select the Cardona testnet profile', () => {
+      const profile = resolveNetworkProfile(runtimeWith({ ZKEVM_NETWORK: 'Cardona' }));
+
+      expect(profile.name).toBe('cardona');
+      expect(profile.l1.chainId).toBe(11155111);
+      expect(profile.l2.chainId).toBe(2442);
+      expect(profile.l1.bridgeAddress).toBe('0x528e26b25a34a4A5d0dbDa1d57D318153d2ED582');
+    });
+
+    it('should build a custom profile from settings', () => {
+      const profile = resolveNetworkProfile(
+        runtimeWith({
+          ZKEVM_NETWORK: 'custom',
+          ZKEVM_CHAIN_ID: '123456',
+          ZKEVM_L1_CHAIN_ID: '11155111',
+          ZKEVM_L1_RPC_URL: 'https://l1.example.com',
+          ZKEVM_BRIDGE_ADDRESS: '0x1111111111111111111111111111111111111111',
+          ZKEVM_L2_BRIDGE_ADDRESS: '0x2222222222222222222222222222222222222222',
+          ZKEVM_ROLLUP_NETWORK_ID: '7',
+        })
+      );
+
+      expect(profile.l1).toMatchObject({
+        chainId: 11155111,
+        rpcUrl: 'https://l1.example.com',
+        bridgeAddress: '0x1111111111111111111111111111111111111111',
+        networkId: 0,
+      });
+      expect(profile.l2).toMatchObject({
+        chainId: 123456,
+        bridgeAddress: '0x2222222222222222222222222222222222222222',
+        networkId: 7,
+      });
+    });
+
+    it('should list the missing settings of an incomplete custom profile', () => {
+      expect(() =>
+        resolveNetworkProfile(runtimeWith({ ZKEVM_NETWORK: 'custom', ZKEVM_RPC_URL: undefined }))
+      ).toThrow(
+        'Custom zkEVM network profile is missing: ZKEVM_CHAIN_ID, ZKEVM_L1_CHAIN_ID, ' +
+          'ZKEVM_L1_RPC_URL, ZKEVM_RPC_URL, ZKEVM_BRIDGE_ADDRESS.'
+      );
+    });
+
+    it('should reject unknown network names and invalid numbers', () => {
+      expect(() => resolveNetworkProfile(runtimeWith({ ZKEVM_NETWORK: 'goerli' }))).toThrow(
+        'Unknown ZKEVM_NETWORK "goerli"'
+      );
+      expect(() => resolveNetworkProfile(runtimeWith({ ZKEVM_CHAIN_ID: 'abc' }))).toThrow(
+        'ZKEVM_CHAIN_ID must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('provider service', () => {
+    it('should connect to the Cardona endpoints', () => {
+      const service = new ZkEvmProviderService(
+        runtimeWith({ ZKEVM_NETWORK: 'cardona', ZKEVM_RPC_URL: undefined })
+      );
+
+      expect(service.getRpcUrl('l1')).toBe('https://eth-sepolia.g.alchemy.com/v2/test-alchemy-key');
+      expect(service.getEndpointHealth().map((e) => e.name)).toEqual([
+        'polygonzkevm-cardona.g.alchemy.com',
+        'rpc.cardona.zkevm-rpc.com',
+      ]);
+    });
+  });
+
+  describe('withNetworkProfile', () => {
+    it('should report the active profile in every action result', async () => {
+      const action = withNetworkProfile({
+        name: 'TEST_ACTION',
+        description: 'test',
+        similes: [],
+        examples: [],
+        validate: vi.fn(),
+        handler: vi.fn().mockResolvedValue({ success: false, data: { actionName: 'TEST_ACTION' } }),
+      });
+
+      const result = await action.handler(
+        runtimeWith({ ZKEVM_NETWORK: 'cardona' }),
+        {} as any,
+        undefined
+      );
+
+      expect(result).toEqual({
+        success: false,
+        data: { actionName: 'TEST_ACTION', networkProfile: 'cardona' },
+      });
+    });
+  });
+
+  describe('getNetworkLabel', () => {
+    it('should name the active profile in action output', () => {
+      expect(getNetworkLabel(runtimeWith({}))).toEqual({
+        network: 'polygon-zkevm',
+        displayName: 'Polygon zkEVM',
+      });
+      expect(getNetworkLabel(runtimeWith({ ZKEVM_NETWORK: 'cardona' }))).toEqual({
+        network: 'polygon-zkevm-cardona',
+        displayName: 'Polygon zkEVM Cardona',
+      });
+      expect(
+        getNetworkLabel(
+          runtimeWith({
+            ZKEVM_NETWORK: 'custom',
+            ZKEVM_CHAIN_ID: '123456',
+            ZKEVM_L1_CHAIN_ID: '11155111',
+            ZKEVM_L1_RPC_URL: 'https://l1.example.com',
+            ZKEVM_BRIDGE_ADDRESS: '0x1111111111111111111111111111111111111111',
+          })
+        )
+      ).toEqual({ network: 'polygon-zkevm-custom', displayName: 'Custom zkEVM' });
+    });
+  });
+});
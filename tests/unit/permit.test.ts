@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Contract, Interface, TypedDataEncoder, Wallet, verifyTypedData } from 'ethers';
+import { signBridgePermit } from '../../src/utils/permit';
+
+vi.mock('ethers', async () => {
+  const actual = await vi.importActual<typeof import('ethers')>('ethers');
+  return { ...actual, Contract: vi.fn() };
+});
+
+const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const BRIDGE = '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe';
+const DAI_PERMIT_TYPEHASH = '0xea2aa0a1be11a07ed86d755c93467f4f82362b452371d1ba94d1715123511acb';
+
+const permitCall = new Interface([
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+describe('signBridgePermit', () => {
+  const wallet = Wallet.createRandom();
+  let token: Record<string, ReturnType<typeof vi.fn>>;
+
+  const mockToken = (name: string, version: string, overrides = {}) => {
+    token = {
+      name: vi.fn().mockResolvedValue(name),
+      version: vi.fn().mockRejectedValue(new Error('execution reverted')),
+      eip712Domain: vi.fn().mockRejectedValue(new Error('execution reverted')),
+      nonces: vi.fn().mockResolvedValue(3n),
+      DOMAIN_SEPARATOR: vi
+        .fn()
+        .mockResolvedValue(
+          TypedDataEncoder.hashDomain({ name, version, chainId: 1, verifyingContract: TOKEN })
+        ),
+      PERMIT_TYPEHASH: vi.fn().mockRejectedValue(new Error('execution reverted')),
+      ...overrides,
+    };
+    vi.mocked(Contract).mockImplementation(() => token as any);
+  };
+
+  beforeEach(() => {
+    vi.mocked(Contract).mockReset();
+  });
+
+  it('should sign an EIP-2612 permit for the bridge', async () => {
+    mockToken('USD Coin', '2');
+
+    const permit = await signBridgePermit(wallet, TOKEN, BRIDGE, 1000n, 1);
+
+    expect(permit?.kind).toBe('eip2612');
+    const call = permitCall.parseTransaction({ data: permit!.permitData })!;
+    expect(call.selector).toBe('0xd505accf');
+    const [owner, spender, value, deadline, v, r, s] = call.args;
+    expect([owner, spender, value]).toEqual([wallet.address, BRIDGE, 1000n]);
+
+    const signer = verifyTypedData(
+      { name: 'USD Coin', version: '2', chainId: 1, verifyingContract: TOKEN },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { owner, spender, value, nonce: 3n, deadline },
+      { v, r, s }
+    );
+    expect(signer).toBe(wallet.address);
+  });
+
+  it('should sign a DAI-style permit', async () => {
+    mockToken('Dai Stablecoin', '1', {
+      PERMIT_TYPEHASH: vi.fn().mockResolvedValue(DAI_PERMIT_TYPEHASH),
+    });
+
+    const permit = await signBridgePermit(wallet, TOKEN, BRIDGE, 1000n, 1);
+
+    expect(permit?.kind).toBe('dai');
+    const call = permitCall.parseTransaction({ data: permit!.permitData })!;
+    expect(call.selector).toBe('0x8fcbaf0c');
+    expect(call.args.slice(0, 5)).toEqual([
+      wallet.address,
+      BRIDGE,
+      3n,
+      BigInt(permit!.deadline),
+      true,
+    ]);
+  });
+
+  it('should use the version reported by the token', async () => {
+    mockToken('Wrapped Token', '3', { version: vi.fn().mockResolvedValue('3') });
+
+    expect(await signBridgePermit(wallet, TOKEN, BRIDGE, 1000n, 1)).not.toBeNull();
+  });
+
+  it('should return null for tokens without permit support', async () => {
+    mockToken('Tether USD', '1', {
+      nonces: vi.fn().mockRejectedValue(new Error('execution reverted')),
+    });
+
+    expect(await signBridgePermit(wallet, TOKEN, BRIDGE, 1000n, 1)).toBeNull();
+  });
+
+  it('should return null when the EIP-712 domain cannot be reproduced', async () => {
+    mockToken('Odd Token', '7');
+
+    expect(await signBridgePermit(wallet, TOKEN, BRIDGE, 1000n, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { AbiCoder, Interface, ZeroHash, zeroPadValue } from 'ethers';
+import { type CompilationResult, compileSolidity } from '../../src/utils/solidity';
+import { compareStorageLayouts } from '../../src/utils/storageLayout';
+import { ERC1967_IMPLEMENTATION_SLOT, getProxyContracts } from '../../src/utils/proxy';
+import { deployProxyAction } from '../../src/actions/deployProxy';
+import { upgradeProxyAction } from '../../src/actions/upgradeProxy';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const OWNER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const IMPLEMENTATION = '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe';
+const PROXY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const NEW_IMPLEMENTATION = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const VAULTS_SOURCE = `pragma solidity ^0.8.20;
+
+abstract contract UUPSUpgradeable {
+    bytes32 internal constant IMPLEMENTATION_SLOT = ${ERC1967_IMPLEMENTATION_SLOT};
+
+    function proxiableUUID() external pure returns (bytes32) {
+        return IMPLEMENTATION_SLOT;
+    }
+
+    function upgradeToAndCall(address implementation, bytes calldata data) external payable {
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, implementation)
+        }
+        if (data.length > 0) {
+            (bool ok, ) = implementation.delegatecall(data);
+            require(ok);
+        }
+    }
+}
+
+contract VaultV1 is UUPSUpgradeable {
+    address public owner;
+    uint256 public fee;
+    uint256[48] private __gap;
+
+    function initialize(address owner_, uint256 fee_) external {
+        owner = owner_;
+        fee = fee_;
+    }
+}
+
+contract VaultV2 is UUPSUpgradeable {
+    address public admin;
+    uint256 public fee;
+    uint256 public cap;
+    uint256[47] private __gap;
+}
+
+contract VaultBroken is UUPSUpgradeable {
+    uint256 public fee;
+    address public owner;
+    uint256[48] private __gap;
+}
+`;
+
+// Opcodes of a bytecode, skipping PUSH data and the CBOR metadata solc appends to each contract
+function opcodes(bytecode: string): number[] {
+  const code = Buffer.from(
+    bytecode.slice(2).replace(/a264697066735822[0-9a-f]{68}64736f6c6343[0-9a-f]{6}0033/g, ''),
+    'hex'
+  );
+  const ops: number[] = [];
+  for (let i = 0; i < code.length; i++) {
+    ops.push(code[i]);
+    if (code[i] >= 0x60 && code[i] <= 0x7f) {
+      i += code[i] - 0x5f;
+    }
+  }
+  return ops;
+}
+
+describe('Upgradeable proxies', () => {
+  let vaults: CompilationResult;
+  const layout = (name: string) =>
+    vaults.contracts.find((c) => c.contractName === name).storageLayout;
+
+  beforeAll(async () => {
+    vaults = await compileSolidity(VAULTS_SOURCE);
+  });
+
+  it('should accept appended variables and flag moved or retyped ones', () => {
+    expect(compareStorageLayouts(layout('VaultV1'), layout('VaultV2'))).toEqual({
+      errors: [],
+      warnings: ['owner (slot 0, offset 0) was renamed to admin'],
+    });
+
+    const { errors } = compareStorageLayouts(layout('VaultV1'), layout('VaultBroken'));
+    expect(errors).toEqual([
+      'owner (slot 0, offset 0) changed type from address to uint256',
+      'fee (slot 1, offset 0) changed type from uint256 to address',
+    ]);
+
+    const grown = structuredClone(layout('VaultV2'));
+    grown.storage.find((e) => e.label === '__gap').slot = '4';
+    expect(compareStorageLayouts(layout('VaultV1'), grown).errors[0]).toContain(
+      'must still end at slot 50, it now ends at slot 51'
+    );
+  });
+
+  it('should compile the OpenZeppelin proxies without the PUSH0 and MCOPY opcodes', async () => {
+    const proxies = await getProxyContracts();
+
+    expect(Object.keys(proxies).sort()).toEqual([
+      'ERC1967Proxy',
+      'ProxyAdmin',
+      'TransparentUpgradeableProxy',
+    ]);
+    for (const { bytecode } of Object.values(proxies)) {
+      expect(opcodes(bytecode)).not.toContain(0x5f);
+      expect(opcodes(bytecode)).not.toContain(0x5e);
+    }
+  });
+
+  describe('actions', () => {
+    let storage: Map<string, string>;
+    let cache: Map<string, unknown>;
+    let wallet: { address: string; sendTransaction: ReturnType<typeof vi.fn> };
+    let runtime: any;
+
+    const setImplementation = (implementation: string) =>
+      storage.set(
+        `${PROXY.toLowerCase()}:${ERC1967_IMPLEMENTATION_SLOT}`,
+        zeroPadValue(implementation, 32)
+      );
+
+    const deployVaultV1 = () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        source: VAULTS_SOURCE,
+        contractName: 'VaultV1',
+        initializerArgs: [OWNER, '250'],
+      });
+      return deployProxyAction.handler(runtime, {} as any, {} as any);
+    };
+
+    beforeEach(() => {
+      storage = new Map();
+      cache = new Map();
+      const created = [IMPLEMENTATION, PROXY];
+      wallet = {
+        address: OWNER,
+        sendTransaction: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+          if (tx.to) {
+            // Upgrade call
+            setImplementation(NEW_IMPLEMENTATION);
+            return { hash: '0xupgrade', wait: async () => ({ status: 1 }) };
+          }
+          const contractAddress = created.shift() ?? NEW_IMPLEMENTATION;
+          if (contractAddress === PROXY) {
+            setImplementation(IMPLEMENTATION);
+          }
+          return {
+            hash: `0xdeploy${contractAddress}`,
+            wait: async () => ({ status: 1, contractAddress }),
+          };
+        }),
+      };
+      const provider = {
+        getStorage: vi.fn(
+          async (address: string, slot: string) =>
+            storage.get(`${address.toLowerCase()}:${slot}`) ?? ZeroHash
+        ),
+        getCode: vi.fn(async () => '0x6080'),
+        // Every contract is a UUPS implementation
+        call: vi.fn(async () => ERC1967_IMPLEMENTATION_SLOT),
+      };
+      runtime = {
+        getSetting: vi.fn(
+          (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+        ),
+        getCache: vi.fn(async (key: string) => cache.get(key)),
+        setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+        getService: vi.fn((type: string) =>
+          type === 'polygon-zkevm-provider'
+            ? {
+                getNetwork: () => ({ name: 'cardona', l2: { chainId: 2442 } }),
+                getEndpointName: () => 'zkevm-rpc.com',
+                getProvider: () => provider,
+                getSigner: async () => wallet,
+                readCritical: async (fn: (p: typeof provider) => Promise<unknown>) => ({
+                  value: await fn(provider),
+                  endpoints: ['zkevm-rpc.com'],
+                }),
+              }
+            : null
+        ),
+      };
+    });
+
+    it('should deploy the implementation behind an initialized UUPS proxy', async () => {
+      const result = await deployVaultV1();
+
+      expect(result?.success).toBe(true);
+      expect(result?.values).toMatchObject({
+        proxyAddress: PROXY,
+        implementationAddress: IMPLEMENTATION,
+        kind: 'uups',
+      });
+
+      const { ERC1967Proxy } = await getProxyContracts();
+      expect(ERC1967Proxy.sourceName).toBe(
+        '@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol'
+      );
+      const initializer = new Interface([
+        'function initialize(address,uint256)',
+      ]).encodeFunctionData('initialize', [OWNER, 250]);
+      const proxyData: string = wallet.sendTransaction.mock.calls[1][0].data;
+      expect(proxyData).toBe(
+        ERC1967Proxy.bytecode +
+          AbiCoder.defaultAbiCoder()
+            .encode(['address', 'bytes'], [IMPLEMENTATION, initializer])
+            .slice(2)
+      );
+      expect(cache.get('polygon-zkevm/proxy-implementations')).toMatchObject({
+        cardona: { [IMPLEMENTATION.toLowerCase()]: { contractName: 'VaultV1' } },
+      });
+    });
+
+    it('should refuse an upgrade that breaks the storage layout', async () => {
+      await deployVaultV1();
+      wallet.sendTransaction.mockClear();
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        proxy: PROXY,
+        source: VAULTS_SOURCE,
+        contractName: 'VaultBroken',
+      });
+
+      const result = await upgradeProxyAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('storage layout of the new implementation is incompatible');
+      expect(result?.data?.storageCheck.status).toBe('failed');
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should deploy the new implementation and upgrade through the proxy', async () => {
+      await deployVaultV1();
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        proxy: PROXY,
+        source: VAULTS_SOURCE,
+        contractName: 'VaultV2',
+      });
+
+      const result = await upgradeProxyAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(true);
+      expect(result?.values).toMatchObject({
+        previousImplementation: IMPLEMENTATION,
+        implementationAddress: NEW_IMPLEMENTATION,
+        storageCheck: 'passed',
+      });
+      expect(result?.text).toContain('was renamed to admin');
+      const upgrade = wallet.sendTransaction.mock.calls.at(-1)[0];
+      expect(upgrade.to).toBe(PROXY);
+      expect(upgrade.data).toBe(
+        new Interface(['function upgradeToAndCall(address,bytes)']).encodeFunctionData(
+          'upgradeToAndCall',
+          [NEW_IMPLEMENTATION, '0x']
+        )
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AbiCoder, Interface, ZeroHash } from 'ethers';
+import { decodeRevert, formatRevert } from '../../src/utils/revertDecoder';
+import { recordDeployedContract } from '../../src/utils/contractRegistry';
+import { interactSmartContractAction } from '../../src/actions/interactSmartContract';
+import { getTransactionReceiptAction } from '../../src/actions/getTransactionReceipt';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const SENDER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const VAULT_ABI = [
+  'function withdraw(uint256 shares)',
+  'error InsufficientShares(uint256 available, uint256 requested)',
+];
+const vault = new Interface(VAULT_ABI);
+const coder = AbiCoder.defaultAbiCoder();
+
+const callException = (data: string) =>
+  Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+
+describe('Revert decoding', () => {
+  let cache: Map<string, unknown>;
+  let runtime: any;
+  let provider: any;
+
+  beforeEach(() => {
+    cache = new Map();
+    provider = {};
+    runtime = {
+      getSetting: vi.fn(
+        (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+      ),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+              getEndpointName: () => 'zkevm-rpc.com',
+              getProvider: () => provider,
+              getSigner: async () => provider.wallet,
+              read: async (call: any) => ({ value: await call(provider), endpoints: ['rpc'] }),
+              readCritical: async (call: any) => ({
+                value: await call(provider),
+                endpoints: ['rpc'],
+              }),
+            }
+          : null
+      ),
+    };
+  });
+
+  it('should decode reason strings, panics and custom errors from nested errors', () => {
+    const reason = `0x08c379a0${coder.encode(['string'], ['Vault is paused']).slice(2)}`;
+    const panic = `0x4e487b71${coder.encode(['uint256'], [0x11]).slice(2)}`;
+    const custom = vault.encodeErrorResult('InsufficientShares', [1n, 5n]);
+    const ownable = new Interface(['error OwnableUnauthorizedAccount(address account)']);
+
+    expect(formatRevert(decodeRevert(callException(reason)))).toBe(
+      'reverted with reason "Vault is paused"'
+    );
+    // JSON-RPC errors wrapped by ethers keep the data on the inner error
+    expect(decodeRevert({ info: { error: { code: 3, data: panic } } })).toMatchObject({
+      kind: 'panic',
+      code: 0x11,
+      reason: 'arithmetic overflow or underflow',
+    });
+    expect(formatRevert(decodeRevert({ error: { data: { data: custom } } }, VAULT_ABI))).toBe(
+      'reverted with custom error InsufficientShares(available: 1, requested: 5)'
+    );
+    expect(
+      decodeRevert({
+        body: JSON.stringify({
+          error: { data: ownable.encodeErrorResult('OwnableUnauthorizedAccount', [SENDER]) },
+        }),
+      })
+    ).toMatchObject({ kind: 'custom', name: 'OwnableUnauthorizedAccount', args: [SENDER] });
+    // Errors of OpenZeppelin 5.x utilities and of the proxies this plugin deploys
+    const openZeppelin = new Interface([
+      'error FailedCall()',
+      'error UUPSUnsupportedProxiableUUID(bytes32 slot)',
+    ]);
+    expect(
+      formatRevert(decodeRevert(callException(openZeppelin.encodeErrorResult('FailedCall'))))
+    ).toBe('reverted with custom error FailedCall()');
+    expect(
+      decodeRevert(
+        callException(openZeppelin.encodeErrorResult('UUPSUnsupportedProxiableUUID', [ZeroHash]))
+      )
+    ).toMatchObject({ kind: 'custom', name: 'UUPSUnsupportedProxiableUUID', args: [ZeroHash] });
+    // Custom errors are unknown without the ABI
+    expect(decodeRevert(callException(custom))).toMatchObject({
+      kind: 'unknown',
+      reason: `unknown custom error ${custom.slice(0, 10)}`,
+    });
+    expect(formatRevert(decodeRevert(callException('0x')))).toBe('reverted without a reason');
+    expect(decodeRevert(new Error('insufficient funds for gas'))).toBeNull();
+  });
+
+  it('should not send a transaction whose gas estimate reverts', async () => {
+    provider.wallet = {
+      address: SENDER,
+      estimateGas: vi.fn(async () => {
+        throw callException(vault.encodeErrorResult('InsufficientShares', [1n, 5n]));
+      }),
+      sendTransaction: vi.fn(),
+    };
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      contractAddress: VAULT,
+      abi: JSON.parse(vault.formatJson()),
+      methodName: 'withdraw',
+      args: [5],
+    });
+
+    const result = await interactSmartContractAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(false);
+    expect(result?.text).toContain(
+      'Contract interaction reverted with custom error InsufficientShares(available: 1, requested: 5)'
+    );
+    expect(result?.data?.revert).toMatchObject({ kind: 'custom', name: 'InsufficientShares' });
+    expect(provider.wallet.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should replay a failed transaction at its block to decode the revert', async () => {
+    await recordDeployedContract(runtime, {
+      name: 'Vault',
+      address: VAULT,
+      network: 'mainnet',
+      chainId: 1101,
+      transactionHash: null,
+      abi: JSON.parse(vault.formatJson()),
+      artifact: null,
+      constructorArgs: [],
+      encodedConstructorArgs: null,
+      deployer: null,
+      deployedAt: 1,
+    });
+    const data = vault.encodeFunctionData('withdraw', [5n]);
+    provider.getTransactionReceipt = vi.fn(async () => ({
+      hash: TX_HASH,
+      status: 0,
+      blockNumber: 100,
+      from: SENDER,
+      to: VAULT,
+      gasUsed: 30_000n,
+      logs: [],
+      index: 0,
+    }));
+    provider.getTransaction = vi.fn(async () => ({
+      from: SENDER,
+      to: VAULT,
+      data,
+      value: 0n,
+      gasLimit: 60_000n,
+    }));
+    provider.call = vi.fn(async () => {
+      throw callException(vault.encodeErrorResult('InsufficientShares', [1n, 5n]));
+    });
+
+    const result = await getTransactionReceiptAction.handler(
+      runtime,
+      { content: { text: `Why did ${TX_HASH} fail?` } } as any,
+      {} as any,
+      {},
+      vi.fn()
+    );
+
+    expect(provider.call).toHaveBeenCalledWith(
+      expect.objectContaining({ from: SENDER, to: VAULT, data, gasLimit: 60_000n, blockTag: 99 })
+    );
+    expect(result?.text).toContain(
+      '🚫 Revert: reverted with custom error InsufficientShares(available: 1, requested: 5)'
+    );
+    expect(result?.data?.revert).toMatchObject({ kind: 'custom', args: ['1', '5'] });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { compileSolidity, selectCompiledContract } from '../../src/utils/solidity';
+import { deploySmartContractAction } from '../../src/actions/deploySmartContract';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const COUNTER_SOURCE = `pragma solidity ^0.8.20;
+
+interface ICounter {
+    function increment() external;
+}
+
+contract Base {
+    uint256 public count;
+}
+
+contract Counter is Base, ICounter {
+    constructor(uint256 start) {
+        count = start;
+    }
+
+    function increment() external {
+        count += 1;
+    }
+}
+`;
+
+describe('Solidity compilation', () => {
+  it('should compile source with the bundled compiler', async () => {
+    const result = await compileSolidity(COUNTER_SOURCE);
+
+    expect(result.errors).toEqual([]);
+    expect(result.compilerVersion).toMatch(/^v0\.8\.\d+\+commit\.[0-9a-f]+$/);
+    // No SPDX license identifier
+    expect(result.warnings.some((w) => w.includes('SPDX'))).toBe(true);
+    expect(result.contracts.map((c) => c.contractName).sort()).toEqual(['Base', 'Counter']);
+    expect(result.input.settings).toMatchObject({ evmVersion: 'paris' });
+
+    const counter = selectCompiledContract(result);
+    expect(counter).toMatchObject({ contractName: 'Counter', format: 'solc' });
+    expect(counter.bytecode).toMatch(/^0x60/);
+    expect(counter.abi.find((f: any) => f.type === 'constructor').inputs).toHaveLength(1);
+    expect(() => selectCompiledContract(result, 'ICounter')).toThrow('not found');
+  });
+
+  it('should return compiler errors', async () => {
+    const result = await compileSolidity('pragma solidity ^0.8.20; contract Broken { uint x = ; }');
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('ParserError');
+    expect(result.contracts).toEqual([]);
+  });
+
+  describe('deploySmartContract', () => {
+    let wallet: { sendTransaction: ReturnType<typeof vi.fn> };
+    let runtime: any;
+
+    beforeEach(() => {
+      wallet = {
+        sendTransaction: vi.fn().mockResolvedValue({
+          hash: '0xabc',
+          wait: vi.fn().mockResolvedValue({
+            contractAddress: '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe',
+          }),
+        }),
+      };
+      runtime = {
+        getSetting: vi.fn(
+          (key: string) => ({ ZKEVM_RPC_URL: 'https://zkevm-rpc.com', PRIVATE_KEY: '0x01' })[key]
+        ),
+        getCache: vi.fn().mockResolvedValue(undefined),
+        setCache: vi.fn(),
+        getService: vi.fn((type: string) =>
+          type === 'polygon-zkevm-provider'
+            ? {
+                getNetwork: () => ({ name: 'mainnet', l2: { chainId: 1101 } }),
+                getEndpointName: () => 'zkevm-rpc.com',
+                getProvider: () => ({
+                  estimateGas: vi.fn().mockResolvedValue(3000000n),
+                  getFeeData: vi.fn().mockResolvedValue({ gasPrice: 1n }),
+                }),
+                getSigner: async () => wallet,
+              }
+            : null
+        ),
+      };
+    });
+
+    it('should compile and deploy Solidity source', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        source: COUNTER_SOURCE,
+        constructorArgs: ['7'],
+      });
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(true);
+      expect(result?.text).toContain('**Compiled Contract:** `Contract.sol:Counter`');
+      expect(result?.text).toContain('**Compiler Warnings (1):**');
+      expect(wallet.sendTransaction.mock.calls[0][0].data).toMatch(/0{63}7$/);
+    });
+
+    it('should fail with the compiler errors instead of deploying', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        source:
+          'pragma solidity ^0.8.20; contract Broken { function f() public { undefinedFn(); } }',
+      });
+
+      const result = await deploySmartContractAction.handler(runtime, {} as any, {} as any);
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('Compilation failed');
+      expect(result?.data?.compilerErrors[0]).toContain('Undeclared identifier');
+      expect(wallet.sendTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
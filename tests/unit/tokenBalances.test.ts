@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Interface } from 'ethers';
+import { getTokenBalances } from '../../src/utils/tokenBalances';
+import { WELL_KNOWN_ABIS } from '../../src/utils/abiResolver';
+import { getAccountBalanceAction } from '../../src/actions/getAccountBalance';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const OWNER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const USDC = '0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035';
+const WBTC = '0xEA034fb02eB1808C2cc3adbC15f447B93CbE08e1';
+const POL = '0xa2036f0538221a77A3937F1379699f44945018d0';
+const BROKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const NO_DECIMALS = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const multicall3 = new Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+const erc20 = new Interface(WELL_KNOWN_ABIS.ERC20);
+
+const TOKENS: Record<string, { symbol: string; decimals?: number; balance: bigint }> = {
+  [USDC]: { symbol: 'USDC', decimals: 6, balance: 2_500_000n },
+  [WBTC]: { symbol: 'WBTC', decimals: 8, balance: 10_000_000n },
+  [POL]: { symbol: 'POL', decimals: 18, balance: 0n },
+  [NO_DECIMALS]: { symbol: 'RAW', balance: 5n * 10n ** 18n },
+};
+
+// A token contract read, as an eth_call would answer it
+function readToken(target: string, callData: string): string {
+  const token = TOKENS[target];
+  if (!token) {
+    throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data: '0x' });
+  }
+  const call = erc20.parseTransaction({ data: callData });
+  if (call.name === 'decimals' && token.decimals === undefined) {
+    throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data: '0x' });
+  }
+  const values: Record<string, unknown> = {
+    balanceOf: token.balance,
+    decimals: token.decimals,
+    symbol: token.symbol,
+    name: `${token.symbol} Token`,
+  };
+  return erc20.encodeFunctionResult(call.name, [values[call.name]]);
+}
+
+function tokenProvider({ multicall = true } = {}) {
+  return {
+    call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+      if (!data.startsWith(multicall3.getFunction('aggregate3').selector)) {
+        return readToken(to, data);
+      }
+      if (!multicall) {
+        // No Multicall3 deployed: calls to an address without code return nothing
+        return '0x';
+      }
+      const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+      const results = calls.map(([target, , callData]: [string, boolean, string]) => {
+        try {
+          return [true, readToken(target, callData)];
+        } catch {
+          return [false, '0x'];
+        }
+      });
+      return multicall3.encodeFunctionResult('aggregate3', [results]);
+    }),
+    send: vi.fn(),
+  };
+}
+
+describe('Token balances', () => {
+  it('should read token metadata in one batch, largest balance first', async () => {
+    const provider = tokenProvider();
+
+    const { tokens, failed } = await getTokenBalances(provider as any, OWNER, [
+      USDC,
+      POL,
+      BROKEN,
+      WBTC,
+    ]);
+
+    expect(provider.call).toHaveBeenCalledTimes(1);
+    expect(tokens.map((t) => [t.symbol, t.balanceFormatted])).toEqual([
+      ['USDC', '2.5'],
+      ['WBTC', '0.1'],
+      ['POL', '0.0'],
+    ]);
+    expect(tokens[0]).toMatchObject({ contract: USDC, decimals: 6, name: 'USDC Token' });
+    expect(failed).toEqual([BROKEN]);
+
+    // Networks without Multicall3 fall back to a call per read
+    const fallback = tokenProvider({ multicall: false });
+    expect((await getTokenBalances(fallback as any, OWNER, [WBTC, USDC])).tokens).toEqual(
+      tokens.slice(0, 2)
+    );
+  });
+
+  it('should list tokens with unknown decimals after the others', async () => {
+    const { tokens } = await getTokenBalances(tokenProvider() as any, OWNER, [
+      NO_DECIMALS,
+      POL,
+      USDC,
+    ]);
+
+    expect(tokens.map((t) => [t.symbol, t.balanceFormatted])).toEqual([
+      ['USDC', '2.5'],
+      ['POL', '0.0'],
+      ['RAW', '5000000000000000000'],
+    ]);
+    expect(tokens[2].decimals).toBeUndefined();
+  });
+
+  it('should throw endpoint errors so that the read fails over', async () => {
+    const unreachable = Object.assign(new Error('connect ECONNREFUSED'), { code: 'SERVER_ERROR' });
+    const dead = { call: vi.fn().mockRejectedValue(unreachable) };
+    await expect(getTokenBalances(dead as any, OWNER, [USDC, WBTC])).rejects.toBe(unreachable);
+    expect(dead.call).toHaveBeenCalledTimes(1);
+
+    // Without Multicall3, tokens without code are failed but endpoint errors are thrown
+    const fallback = tokenProvider({ multicall: false });
+    const readOneByOne = fallback.call.getMockImplementation();
+    fallback.call.mockImplementation(async (request) =>
+      request.to === BROKEN ? '0x' : readOneByOne(request)
+    );
+    expect((await getTokenBalances(fallback as any, OWNER, [BROKEN, USDC])).failed).toEqual([
+      BROKEN,
+    ]);
+    fallback.call.mockImplementation(async (request) => {
+      if (request.to === WBTC) {
+        throw unreachable;
+      }
+      return readOneByOne(request);
+    });
+    await expect(getTokenBalances(fallback as any, OWNER, [USDC, WBTC])).rejects.toBe(unreachable);
+  });
+
+  describe('in the account balance', () => {
+    let settings: Record<string, string>;
+    let provider: ReturnType<typeof tokenProvider>;
+    let runtime: any;
+
+    beforeEach(() => {
+      settings = { ALCHEMY_API_KEY: 'key', ZKEVM_TOKEN_ADDRESSES: `${POL}, ${USDC}` };
+      provider = tokenProvider();
+      provider.send.mockImplementation(async (method: string, params: any[]) => {
+        expect(method).toBe('alchemy_getTokenBalances');
+        return params[2]?.pageKey
+          ? { tokenBalances: [{ contractAddress: WBTC.toLowerCase(), tokenBalance: '0x989680' }] }
+          : {
+              tokenBalances: [{ contractAddress: USDC.toLowerCase(), tokenBalance: '0x2625a0' }],
+              pageKey: 'next',
+            };
+      });
+      runtime = {
+        getSetting: vi.fn((key: string) => settings[key]),
+        getCache: vi.fn(async () => undefined),
+        getService: vi.fn((type: string) =>
+          type === 'polygon-zkevm-provider'
+            ? {
+                getNetwork: () => ({ name: 'mainnet' }),
+                getEndpointName: () => 'alchemy',
+                read: async (call: any) => ({
+                  value: await call(provider),
+                  endpoints: ['alchemy'],
+                }),
+                readCritical: async () => ({ value: 10n ** 18n, endpoints: ['alchemy'] }),
+              }
+            : null
+        ),
+      };
+    });
+
+    it('should list configured and discovered tokens, hiding zero balances', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({ address: OWNER });
+
+      const result = await getAccountBalanceAction.handler(runtime, {} as any, {} as any);
+
+      expect(provider.send).toHaveBeenCalledTimes(2);
+      expect(result?.values).toMatchObject({ tokenCount: 2 });
+      expect(result?.data?.result.tokens.map((t: any) => t.contract)).toEqual([USDC, WBTC]);
+      expect(result?.text).toContain(
+        `**Tokens:**\n- 2.5 USDC (\`${USDC}\`)\n- 0.1 WBTC (\`${WBTC}\`)\n_1 token(s) with a zero balance hidden_`
+      );
+
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({
+        address: OWNER,
+        includeZeroBalances: true,
+      });
+      const withZero = await getAccountBalanceAction.handler(runtime, {} as any, {} as any);
+      expect(withZero?.data?.result.tokens.map((t: any) => t.symbol)).toEqual([
+        'USDC',
+        'WBTC',
+        'POL',
+      ]);
+    });
+
+    it('should only discover tokens through Alchemy', async () => {
+      delete settings.ALCHEMY_API_KEY;
+      settings.ZKEVM_RPC_URL = 'https://zkevm-rpc.com';
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({ address: OWNER, tokens: [WBTC] });
+
+      const result = await getAccountBalanceAction.handler(runtime, {} as any, {} as any);
+
+      expect(provider.send).not.toHaveBeenCalled();
+      expect(result?.data?.result.tokens.map((t: any) => t.symbol)).toEqual(['USDC', 'WBTC']);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Contract } from 'ethers';
+import { createMockRuntime } from '../test-helpers';
+import { getBridgedTokenAddresses, getTokenMapping } from '../../src/utils/tokenMapping';
+import { getTokenMappingAction } from '../../src/actions/getTokenMapping';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => {
+  const actual = await vi.importActual<typeof import('ethers')>('ethers');
+  return {
+    ...actual,
+    JsonRpcProvider: vi.fn().mockImplementation(() => ({})),
+    Contract: vi.fn(),
+  };
+});
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const ZERO = '0x0000000000000000000000000000000000000000';
+const USDC_L1 = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const USDC_L2 = '0x37eAA0eF3549a5Bb7D431be78a3D99BD360d19e5';
+const L1_BRIDGE = '0x2a3DD3EB832aF982ec71669E178424b10Dca2EDe';
+
+describe('Token mapping', () => {
+  let runtime: any;
+  // Bridge contracts by layer - the mainnet profile uses the same bridge address on both layers,
+  // so the layer is told apart by the runner: L1 calls get the L1 provider
+  let l1Bridge: Record<string, ReturnType<typeof vi.fn>>;
+  let l2Bridge: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    l1Bridge = {
+      wrappedTokenToTokenInfo: vi
+        .fn()
+        .mockResolvedValue({ originNetwork: 0n, originTokenAddress: ZERO }),
+      getTokenWrappedAddress: vi.fn().mockResolvedValue(ZERO),
+    };
+    l2Bridge = {
+      wrappedTokenToTokenInfo: vi
+        .fn()
+        .mockResolvedValue({ originNetwork: 0n, originTokenAddress: ZERO }),
+      getTokenWrappedAddress: vi.fn().mockResolvedValue(ZERO),
+    };
+    runtime = createMockRuntime();
+    const l1Provider = {};
+    runtime.getService = vi.fn((type: string) =>
+      type === 'polygon-zkevm-provider'
+        ? {
+            getNetwork: () => ({
+              name: 'mainnet',
+              l1: { name: 'Ethereum', networkId: 0, bridgeAddress: L1_BRIDGE },
+              l2: { name: 'Polygon zkEVM', networkId: 1, bridgeAddress: L1_BRIDGE },
+            }),
+            getProvider: () => l1Provider,
+            read: async (call: (provider: unknown) => Promise<unknown>) => ({
+              value: await call({}),
+              endpoints: ['zkevm-rpc.com'],
+            }),
+          }
+        : null
+    );
+    vi.mocked(Contract).mockImplementation(
+      (_address: any, _abi: any, provider: any) =>
+        (provider === l1Provider ? l1Bridge : l2Bridge) as any
+    );
+  });
+
+  it('should map an L1 token to its wrapped zkEVM token', async () => {
+    l2Bridge.getTokenWrappedAddress.mockResolvedValue(USDC_L2.toLowerCase());
+
+    const mapping = await getTokenMapping(runtime, USDC_L1, 'l1');
+
+    expect(l2Bridge.getTokenWrappedAddress).toHaveBeenCalledWith(0, USDC_L1);
+    expect(mapping).toEqual({
+      originNetwork: 0,
+      originTokenAddress: USDC_L1,
+      l1Address: USDC_L1,
+      l2Address: USDC_L2,
+    });
+  });
+
+  it('should map a wrapped zkEVM token back to its origin', async () => {
+    l2Bridge.wrappedTokenToTokenInfo.mockResolvedValue({
+      originNetwork: 0n,
+      originTokenAddress: USDC_L1,
+    });
+
+    const mapping = await getTokenMapping(runtime, USDC_L2, 'l2');
+
+    expect(mapping).toEqual({
+      originNetwork: 0,
+      originTokenAddress: USDC_L1,
+      l1Address: USDC_L1,
+      l2Address: USDC_L2,
+    });
+    expect(l1Bridge.getTokenWrappedAddress).not.toHaveBeenCalled();
+  });
+
+  it('should report tokens that have not been bridged yet', async () => {
+    const mapping = await getTokenMapping(runtime, USDC_L1, 'l1');
+
+    expect(mapping.l2Address).toBeNull();
+  });
+
+  it('should list the zkEVM addresses of bridged tokens', async () => {
+    l2Bridge.getTokenWrappedAddress.mockResolvedValue(USDC_L2);
+    const transfers = [
+      { networkProfile: 'mainnet', direction: 'deposit', tokenAddress: USDC_L1, createdAt: 2 },
+      { networkProfile: 'mainnet', direction: 'deposit', tokenAddress: USDC_L1, createdAt: 1 },
+      { networkProfile: 'mainnet', direction: 'deposit', tokenAddress: ZERO, createdAt: 3 },
+      { networkProfile: 'cardona', direction: 'deposit', tokenAddress: USDC_L1, createdAt: 4 },
+    ];
+    runtime.getCache = vi.fn().mockResolvedValue(transfers);
+
+    expect(await getBridgedTokenAddresses(runtime)).toEqual([USDC_L2]);
+    expect(l2Bridge.getTokenWrappedAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer token mapping questions through the action', async () => {
+    l2Bridge.getTokenWrappedAddress.mockResolvedValue(USDC_L2);
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ tokenAddress: USDC_L1, network: 'ethereum' });
+
+    const result = await getTokenMappingAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ l1Address: USDC_L1, l2Address: USDC_L2 });
+    expect(result?.text).toContain(`**Polygon zkEVM:** \`${USDC_L2}\``);
+  });
+});
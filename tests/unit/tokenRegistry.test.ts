@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Interface, ZeroAddress } from 'ethers';
+import { getTokenMetadata, resolveToken } from '../../src/utils/tokenRegistry';
+import { getTokenMapping } from '../../src/utils/tokenMapping';
+import { WELL_KNOWN_ABIS } from '../../src/utils/abiResolver';
+import { NETWORK_PROFILES } from '../../src/networks';
+import { getTokenMappingAction } from '../../src/actions/getTokenMapping';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('ethers', async () => await vi.importActual('ethers'));
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+vi.mock('../../src/utils/tokenMapping', () => ({
+  getTokenMapping: vi.fn(),
+}));
+
+const USDT_L1 = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+const USDT_L2 = '0x1E4a5963aBFD975d8c9021ce480b42188849D41d';
+const DAI_L1 = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const DAI_L2 = '0xC5015b9d9161Dca7e18e32f6f25C4aD850731Fd4';
+const QUICK_L2 = '0x68286607A1d43602d880D349187c3c48c0fD05E6';
+
+const erc20 = new Interface(WELL_KNOWN_ABIS.ERC20);
+
+// A zkEVM endpoint knowing one token contract
+function tokenProvider(address: string, symbol: string, decimals: number) {
+  return {
+    call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+      expect(to).toBe(address);
+      const call = erc20.parseTransaction({ data });
+      const values: Record<string, unknown> = { decimals, symbol, name: `${symbol} Token` };
+      return erc20.encodeFunctionResult(call.name, [values[call.name]]);
+    }),
+  };
+}
+
+describe('Token registry', () => {
+  let settings: Record<string, string>;
+  let cache: Map<string, unknown>;
+  let provider: ReturnType<typeof tokenProvider>;
+  let runtime: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    settings = { ZKEVM_RPC_URL: 'https://zkevm-rpc.com' };
+    cache = new Map();
+    provider = tokenProvider(DAI_L2, 'DAI', 18);
+    runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => cache.set(key, value)),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => NETWORK_PROFILES.mainnet,
+              read: async (call: any) => ({ value: await call(provider), endpoints: ['rpc'] }),
+            }
+          : null
+      ),
+    };
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve symbols from the token lists and refuse ambiguous ones', async () => {
+    expect(await resolveToken(runtime, 'usdt', 'l1')).toMatchObject({
+      address: USDT_L1,
+      symbol: 'USDT',
+      decimals: 6,
+      source: 'list',
+    });
+    expect((await resolveToken(runtime, 'USDT', 'l2')).address).toBe(USDT_L2);
+    expect(await resolveToken(runtime, 'eth', 'l2')).toMatchObject({
+      address: ZeroAddress,
+      decimals: 18,
+      source: 'native',
+    });
+
+    // zkEVM has Circle's USDC and the bridge's wrapped USDC
+    await expect(resolveToken(runtime, 'USDC', 'l2')).rejects.toThrow(
+      /"USDC" matches 2 tokens on zkEVM: .*0xA8CE8aee21bC2A48a5EF670afCc9274C7bbbC035.*0x37eAA0eF3549a5Bb7D431be78a3D99BD360d19e5/
+    );
+    await expect(resolveToken(runtime, 'NOPE', 'l2')).rejects.toThrow('Unknown token "NOPE"');
+
+    // Configured lists come first
+    settings.ZKEVM_TOKEN_LIST = 'https://tokens.example.com/zkevm.json';
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        name: 'Example',
+        tokens: [
+          {
+            chainId: 1101,
+            address: QUICK_L2.toLowerCase(),
+            symbol: 'QUICK',
+            name: 'Quickswap',
+            decimals: 18,
+          },
+          { chainId: 1101, address: 'not an address', symbol: 'BAD', decimals: 18 },
+        ],
+      }),
+    } as any);
+    expect(await resolveToken(runtime, 'quick', 'l2')).toMatchObject({
+      address: QUICK_L2,
+      name: 'Quickswap',
+    });
+    await expect(resolveToken(runtime, 'BAD', 'l2')).rejects.toThrow('Unknown token');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map symbols from the other chain and cache on-chain metadata', async () => {
+    vi.mocked(getTokenMapping).mockResolvedValue({
+      originNetwork: 0,
+      originTokenAddress: DAI_L1,
+      l1Address: DAI_L1,
+      l2Address: DAI_L2,
+    });
+
+    expect(await resolveToken(runtime, 'DAI', 'l2')).toMatchObject({
+      address: DAI_L2,
+      symbol: 'DAI',
+      name: 'DAI Token',
+      decimals: 18,
+      source: 'chain',
+    });
+    expect(getTokenMapping).toHaveBeenCalledWith(runtime, DAI_L1, 'l1');
+    expect(provider.call).toHaveBeenCalledTimes(3);
+
+    // Found by symbol on zkEVM, without reading the chain again
+    vi.mocked(getTokenMapping).mockClear();
+    expect((await resolveToken(runtime, 'dai', 'l2')).address).toBe(DAI_L2);
+    expect((await getTokenMetadata(runtime, DAI_L2, 'l2')).decimals).toBe(18);
+    expect(getTokenMapping).not.toHaveBeenCalled();
+    expect(provider.call).toHaveBeenCalledTimes(3);
+
+    vi.mocked(getTokenMapping).mockResolvedValue({
+      originNetwork: 0,
+      originTokenAddress: USDT_L1,
+      l1Address: USDT_L1,
+      l2Address: null,
+    });
+    await expect(resolveToken(runtime, 'POL', 'l2')).rejects.toThrow(
+      'has not been bridged to zkEVM yet'
+    );
+  });
+
+  it('should refuse symbols on chains without a token list', async () => {
+    runtime.getService.mockReturnValue({
+      getNetwork: () => NETWORK_PROFILES.cardona,
+      read: async (call: any) => ({ value: await call(provider), endpoints: ['rpc'] }),
+    });
+
+    // Mainnet USDT is listed, but not on Cardona, and tokens read on chain do not count
+    expect((await getTokenMetadata(runtime, DAI_L2, 'l2')).symbol).toBe('DAI');
+    await expect(resolveToken(runtime, 'USDT', 'l2')).rejects.toThrow(
+      'No token list covers Cardona (chain 2442), so "USDT" cannot be resolved by symbol'
+    );
+    await expect(resolveToken(runtime, 'DAI', 'l2')).rejects.toThrow('No token list covers');
+    expect(getTokenMapping).not.toHaveBeenCalled();
+    expect((await resolveToken(runtime, 'ETH', 'l2')).source).toBe('native');
+
+    settings.ZKEVM_TOKEN_LIST = 'https://tokens.example.com/cardona.json';
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        name: 'Cardona',
+        tokens: [{ chainId: 2442, address: QUICK_L2, symbol: 'QUICK', decimals: 18 }],
+      }),
+    } as any);
+    expect((await resolveToken(runtime, 'QUICK', 'l2')).address).toBe(QUICK_L2);
+    expect((await resolveToken(runtime, 'dai', 'l2')).address).toBe(DAI_L2);
+  });
+
+  it('should map a token named by symbol through the action', async () => {
+    vi.mocked(getTokenMapping).mockResolvedValue({
+      originNetwork: 0,
+      originTokenAddress: USDT_L1,
+      l1Address: USDT_L1,
+      l2Address: USDT_L2,
+    });
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ token: 'USDT', network: 'ethereum' });
+
+    const result = await getTokenMappingAction.handler(runtime, {} as any, {} as any);
+
+    expect(getTokenMapping).toHaveBeenCalledWith(runtime, USDT_L1, 'l1');
+    expect(result?.success).toBe(true);
+    expect(result?.text).toContain('🔗 **Bridged Token Mapping** - USDT (Tether USD)');
+    expect(result?.data).toMatchObject({ tokenAddress: USDT_L1, tokenSymbol: 'USDT' });
+  });
+});
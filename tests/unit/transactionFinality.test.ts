@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { hasReachedFinality } from '../../src/utils/zkevmRpc';
+import { getTransactionFinalityAction } from '../../src/actions/getTransactionFinality';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const TX_HASH = '0x9f8e7d6c5b4a39281706f5e4d3c2b1a09f8e7d6c5b4a39281706f5e4d3c2b1a0';
+const SEQUENCE_TX = '0x7777777777777777777777777777777777777777777777777777777777777777';
+const VERIFY_TX = '0x8888888888888888888888888888888888888888888888888888888888888888';
+
+describe('Transaction finality', () => {
+  let runtime: any;
+  let provider: any;
+  let node: { virtualized: boolean; consolidated: boolean };
+
+  beforeEach(() => {
+    node = { virtualized: false, consolidated: false };
+    provider = {
+      getTransactionReceipt: vi.fn().mockResolvedValue({ blockNumber: 1000, status: 1 }),
+      send: vi.fn(async (method: string) => {
+        switch (method) {
+          case 'zkevm_batchNumberByBlockNumber':
+            return '0x1f4';
+          case 'zkevm_getBatchByNumber':
+            return {
+              number: '0x1f4',
+              closed: true,
+              sendSequencesTxHash: node.virtualized ? SEQUENCE_TX : null,
+              verifyBatchTxHash: node.consolidated ? VERIFY_TX : null,
+            };
+          case 'zkevm_isBlockVirtualized':
+            return node.virtualized;
+          case 'zkevm_isBlockConsolidated':
+            return node.consolidated;
+        }
+      }),
+    };
+    runtime = {
+      getSetting: vi.fn((key: string) =>
+        key === 'ZKEVM_RPC_URL' ? 'https://zkevm-rpc.com' : undefined
+      ),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet' }),
+              readCritical: async (call: (p: unknown) => Promise<unknown>) => ({
+                value: await call(provider),
+                endpoints: ['zkevm-rpc.com'],
+              }),
+            }
+          : null
+      ),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should order finality levels from trusted to consolidated', () => {
+    expect(hasReachedFinality('virtual', 'virtual')).toBe(true);
+    expect(hasReachedFinality('consolidated', 'virtual')).toBe(true);
+    expect(hasReachedFinality('virtual', 'consolidated')).toBe(false);
+    expect(hasReachedFinality('trusted', 'virtual')).toBe(false);
+  });
+
+  it('should map the transaction to its block, batch and L1 transactions', async () => {
+    node.virtualized = true;
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ transactionHash: TX_HASH });
+
+    const result = await getTransactionFinalityAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ status: 'virtual', targetReached: false });
+    expect(result?.data).toMatchObject({
+      blockNumber: 1000,
+      batchNumber: 500,
+      sendSequencesTxHash: SEQUENCE_TX,
+      verifyBatchTxHash: null,
+      targetStatus: 'consolidated',
+      timedOut: false,
+    });
+  });
+
+  it('should report a transaction without a receipt as pending', async () => {
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ transactionHash: TX_HASH });
+
+    const result = await getTransactionFinalityAction.handler(runtime, {} as any, {} as any);
+
+    expect(result?.values).toMatchObject({ status: 'pending', targetReached: false });
+    expect(provider.send).not.toHaveBeenCalled();
+  });
+
+  it('should wait until the target finality is reached', async () => {
+    vi.useFakeTimers();
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      transactionHash: TX_HASH,
+      wait: true,
+      targetStatus: 'virtual',
+    });
+
+    const pending = getTransactionFinalityAction.handler(runtime, {} as any, {} as any);
+    await vi.advanceTimersByTimeAsync(30_000);
+    node.virtualized = true;
+    await vi.advanceTimersByTimeAsync(30_000);
+    const result = await pending;
+
+    expect(result?.values).toMatchObject({ status: 'virtual', targetReached: true });
+    expect(result?.data).toMatchObject({ timedOut: false, waitedMs: 60_000 });
+  });
+
+  it('should keep waiting through failed polls', async () => {
+    vi.useFakeTimers();
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      transactionHash: TX_HASH,
+      wait: true,
+      targetStatus: 'virtual',
+    });
+
+    const pending = getTransactionFinalityAction.handler(runtime, {} as any, {} as any);
+    await vi.advanceTimersByTimeAsync(0);
+    provider.getTransactionReceipt.mockRejectedValueOnce(new Error('connection reset'));
+    await vi.advanceTimersByTimeAsync(30_000);
+    node.virtualized = true;
+    await vi.advanceTimersByTimeAsync(30_000);
+    const result = await pending;
+
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(3);
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ status: 'virtual', targetReached: true });
+    expect(result?.data).toMatchObject({ timedOut: false, waitedMs: 60_000 });
+  });
+
+  it('should stop waiting when the timeout expires', async () => {
+    vi.useFakeTimers();
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({
+      transactionHash: TX_HASH,
+      wait: true,
+      timeoutSeconds: 45,
+    });
+
+    const pending = getTransactionFinalityAction.handler(runtime, {} as any, {} as any);
+    await vi.advanceTimersByTimeAsync(45_000);
+    const result = await pending;
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({
+      status: 'trusted',
+      targetReached: false,
+      timedOut: true,
+    });
+    expect(result?.text).toContain('Not reached after 45s');
+  });
+});
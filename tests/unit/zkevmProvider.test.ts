@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { JsonRpcProvider } from 'ethers';
 import { createMockRuntime, resetCommonMocks } from '../test-helpers';
+import { ZkEvmProviderService, getZkEvmProviderService } from '../../src/services/zkevmProvider';
+import { getBalanceAction } from '../../src/actions/getBalance';
 
 describe('zkEVM Provider', () => {
   beforeEach(() => {
@@ -40,6 +42,249 @@ describe('zkEVM Provider', () => {
     });
   });
 
+  describe('ZkEvmProviderService', () => {
+    const mockProviders = (...providers: any[]) => {
+      providers.forEach((provider) =>
+        (JsonRpcProvider as any).mockImplementationOnce(() => provider)
+      );
+    };
+
+    it('should order endpoints Alchemy first, then the direct RPC endpoints', () => {
+      const service = new ZkEvmProviderService(
+        createMockRuntime({
+          ALCHEMY_API_KEY: 'test-key',
+          ZKEVM_RPC_URL: 'https://test-rpc.com',
+          ZKEVM_RPC_URLS: 'https://backup-one.com, https://backup-two.com',
+        } as any)
+      );
+
+      expect(service.getEndpointHealth().map((e) => e.name)).toEqual([
+        'polygonzkevm-mainnet.g.alchemy.com',
+        'test-rpc.com',
+        'backup-one.com',
+        'backup-two.com',
+      ]);
+
+      service.getProvider();
+      expect(JsonRpcProvider).toHaveBeenCalledWith(
+        'https://polygonzkevm-mainnet.g.alchemy.com/v2/test-key',
+        1101,
+        { staticNetwork: true }
+      );
+    });
+
+    it('should accept ZKEVM_RPC_URLS as the only endpoint setting', async () => {
+      const runtime = createMockRuntime({
+        ALCHEMY_API_KEY: undefined,
+        ZKEVM_RPC_URL: undefined,
+        ZKEVM_RPC_URLS: 'https://backup-one.com',
+      } as any);
+
+      expect(new ZkEvmProviderService(runtime).getEndpointHealth().map((e) => e.name)).toEqual([
+        'backup-one.com',
+      ]);
+      expect(await getBalanceAction.validate(runtime, {} as any)).toBe(true);
+    });
+
+    it('should fall back to the public zkEVM RPC when no direct endpoint is configured', () => {
+      const service = new ZkEvmProviderService(
+        createMockRuntime({ ALCHEMY_API_KEY: 'test-key', ZKEVM_RPC_URL: undefined })
+      );
+
+      expect(service.getEndpointHealth().map((e) => e.name)).toEqual([
+        'polygonzkevm-mainnet.g.alchemy.com',
+        'zkevm-rpc.com',
+      ]);
+    });
+
+    it('should fail over to the next endpoint and report the one that answered', async () => {
+      mockProviders(
+        { getBlockNumber: vi.fn().mockRejectedValue(new Error('connection refused')) },
+        { getBlockNumber: vi.fn().mockResolvedValue(12345) }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime({ ALCHEMY_API_KEY: 'test-key' }));
+
+      const result = await service.read((provider) => provider.getBlockNumber());
+
+      expect(result).toEqual({ value: 12345, endpoints: ['test-zkevm-rpc.com'] });
+      const [alchemy, rpc] = service.getEndpointHealth();
+      expect(alchemy).toMatchObject({
+        healthy: false,
+        failures: 1,
+        lastError: 'connection refused',
+      });
+      expect(rpc).toMatchObject({ healthy: true, failures: 0 });
+      expect(service.getEndpointName()).toBe('test-zkevm-rpc.com');
+    });
+
+    it('should not fail over on request errors', async () => {
+      const revert = Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+      mockProviders({ estimateGas: vi.fn().mockRejectedValue(revert) });
+      const service = new ZkEvmProviderService(createMockRuntime({ ALCHEMY_API_KEY: 'test-key' }));
+
+      await expect(service.read((provider) => provider.estimateGas({}))).rejects.toThrow(
+        'execution reverted'
+      );
+      expect(service.getEndpointHealth()[0].healthy).toBe(true);
+    });
+
+    it('should fail over without penalising endpoints that lack a method', async () => {
+      // A plain JSON-RPC "Method not found" reply, as ethers v6 wraps it
+      const notFound = Object.assign(new Error('could not coalesce error'), {
+        code: 'UNKNOWN_ERROR',
+        error: { code: -32601, message: 'Method not found' },
+      });
+      mockProviders(
+        { send: vi.fn().mockRejectedValue(notFound) },
+        { send: vi.fn().mockResolvedValue('0x10') }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime({ ALCHEMY_API_KEY: 'test-key' }));
+
+      const result = await service.read((provider) => provider.send('zkevm_batchNumber', []));
+
+      expect(result.value).toBe('0x10');
+      expect(service.getEndpointHealth().map((e) => e.healthy)).toEqual([true, true]);
+    });
+
+    it('should throw when every endpoint fails', async () => {
+      mockProviders(
+        { getBlockNumber: vi.fn().mockRejectedValue(new Error('timeout')) },
+        { getBlockNumber: vi.fn().mockRejectedValue(new Error('bad gateway')) }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime({ ALCHEMY_API_KEY: 'test-key' }));
+
+      await expect(service.read((provider) => provider.getBlockNumber())).rejects.toThrow(
+        'All zkEVM endpoints failed. polygonzkevm-mainnet.g.alchemy.com: timeout; test-zkevm-rpc.com: bad gateway'
+      );
+    });
+
+    it('should report a critical read once the quorum agrees', async () => {
+      mockProviders(
+        { getBalance: vi.fn().mockResolvedValue(100n) },
+        { getBalance: vi.fn().mockResolvedValue(200n) },
+        { getBalance: vi.fn().mockResolvedValue(100n) }
+      );
+      const service = new ZkEvmProviderService(
+        createMockRuntime({ ZKEVM_RPC_URLS: 'https://backup-one.com', ZKEVM_QUORUM: '2' } as any)
+      );
+
+      const result = await service.readCritical((provider) => provider.getBalance('0x0'));
+
+      expect(result).toEqual({
+        value: 100n,
+        endpoints: ['polygonzkevm-mainnet.g.alchemy.com', 'backup-one.com'],
+      });
+    });
+
+    it('should reject a critical read when the endpoints disagree', async () => {
+      mockProviders(
+        { getBalance: vi.fn().mockResolvedValue(100n) },
+        { getBalance: vi.fn().mockResolvedValue(200n) }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime({ ZKEVM_QUORUM: '2' } as any));
+
+      await expect(service.readCritical((provider) => provider.getBalance('0x0'))).rejects.toThrow(
+        'did not reach quorum (2 required)'
+      );
+    });
+
+    it('should return the registered service from the runtime', () => {
+      const registered = new ZkEvmProviderService(createMockRuntime());
+      const runtime = { ...createMockRuntime(), getService: vi.fn().mockReturnValue(registered) };
+
+      expect(getZkEvmProviderService(runtime as any)).toBe(registered);
+      expect(runtime.getService).toHaveBeenCalledWith('polygon-zkevm-provider');
+    });
+
+    it('should reuse one standalone service per runtime without a registered one', () => {
+      const runtime = { ...createMockRuntime(), getService: vi.fn().mockReturnValue(null) };
+
+      const service = getZkEvmProviderService(runtime as any);
+
+      expect(service).toBeInstanceOf(ZkEvmProviderService);
+      expect(getZkEvmProviderService(runtime as any)).toBe(service);
+      expect(getZkEvmProviderService({ ...runtime } as any)).not.toBe(service);
+    });
+
+    it('should require a private key for signing', async () => {
+      const service = new ZkEvmProviderService(createMockRuntime({ PRIVATE_KEY: undefined }));
+
+      expect(service.hasSigner()).toBe(false);
+      await expect(service.getSigner()).rejects.toThrow('PRIVATE_KEY is required');
+    });
+
+    it('should refuse to sign when the endpoint serves another chain', async () => {
+      mockProviders({ send: vi.fn().mockResolvedValue('0x1') });
+      const service = new ZkEvmProviderService(createMockRuntime());
+
+      await expect(service.getSigner()).rejects.toThrow(
+        'Chain ID mismatch: L2 endpoint polygonzkevm-mainnet.g.alchemy.com reports chain 1, ' +
+          'but the mainnet profile expects zkEVM (chain 1101). Refusing to sign.'
+      );
+    });
+
+    it('should refuse to sign when the chain ID cannot be verified', async () => {
+      mockProviders({ send: vi.fn().mockRejectedValue(new Error('connection refused')) });
+      const service = new ZkEvmProviderService(createMockRuntime());
+
+      await expect(service.getSigner('l2')).rejects.toThrow(
+        'Could not verify the chain ID of L2 endpoint polygonzkevm-mainnet.g.alchemy.com'
+      );
+    });
+
+    it('should give up on a chain ID check the endpoint never answers', async () => {
+      vi.useFakeTimers();
+      try {
+        mockProviders({ send: vi.fn(() => new Promise(() => {})) });
+        const service = new ZkEvmProviderService(createMockRuntime());
+
+        const signer = service.getSigner('l2');
+        const assertion = expect(signer).rejects.toThrow(
+          'Timed out after 10000ms. Refusing to sign.'
+        );
+        await vi.advanceTimersByTimeAsync(10_000);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should verify the chain ID of every endpoint', async () => {
+      mockProviders(
+        { send: vi.fn().mockResolvedValue('0x44d') },
+        { send: vi.fn().mockRejectedValue(new Error('timeout')) },
+        { send: vi.fn().mockResolvedValue('0x1') }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime());
+
+      const checks = await service.verifyChainIds();
+
+      expect(checks).toEqual([
+        {
+          layer: 'l2',
+          endpoint: 'polygonzkevm-mainnet.g.alchemy.com',
+          expected: 1101,
+          actual: 1101,
+        },
+        { layer: 'l2', endpoint: 'test-zkevm-rpc.com', expected: 1101, error: 'timeout' },
+        { layer: 'l1', endpoint: 'eth-mainnet.g.alchemy.com', expected: 1, actual: 1 },
+      ]);
+    });
+
+    it('should reject endpoints whose chain ID does not match the profile', async () => {
+      mockProviders(
+        { send: vi.fn().mockResolvedValue('0x44d') },
+        { send: vi.fn().mockResolvedValue('0x98a') },
+        { send: vi.fn().mockResolvedValue('0x1') }
+      );
+      const service = new ZkEvmProviderService(createMockRuntime());
+
+      await expect(service.verifyChainIds()).rejects.toThrow(
+        'L2 endpoint test-zkevm-rpc.com reports chain 2442, but the mainnet profile expects zkEVM (chain 1101)'
+      );
+    });
+  });
+
   describe('block number formatting', () => {
     it('should format block numbers with commas', () => {
       const blockNumber = 22628395;
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getBatchByNumber,
+  getBatchNumberByBlockNumber,
+  getBatchNumbers,
+  getBatchStatus,
+  getBlockFinality,
+  parseBatch,
+} from '../../src/utils/zkevmRpc';
+import { getBatchInfoAction } from '../../src/actions/getBatchInfo';
+import { checkBlockStatusAction } from '../../src/actions/checkBlockStatus';
+import { callLLMWithTimeout } from '../../src/utils/llmHelpers';
+
+vi.mock('../../src/utils/llmHelpers', () => ({
+  callLLMWithTimeout: vi.fn(),
+}));
+
+const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+// Shape of a real zkevm_getBatchByNumber response
+const rawBatch = {
+  number: '0x1f4',
+  coinbase: '0x148ee7daf16574cd020afa34cc658f8f3fbd2800',
+  stateRoot: '0x1111111111111111111111111111111111111111111111111111111111111111',
+  globalExitRoot: '0x2222222222222222222222222222222222222222222222222222222222222222',
+  mainnetExitRoot: '0x3333333333333333333333333333333333333333333333333333333333333333',
+  rollupExitRoot: '0x4444444444444444444444444444444444444444444444444444444444444444',
+  localExitRoot: '0x5555555555555555555555555555555555555555555555555555555555555555',
+  accInputHash: '0x6666666666666666666666666666666666666666666666666666666666666666',
+  timestamp: '0x64a6b1f0',
+  sendSequencesTxHash: '0x7777777777777777777777777777777777777777777777777777777777777777',
+  verifyBatchTxHash: ZERO_HASH,
+  closed: true,
+  blocks: ['0xb1', '0xb2'],
+  transactions: [{ hash: '0xt1' }, '0xt2'],
+  batchL2Data: '0x',
+};
+
+describe('zkEVM batch RPC', () => {
+  it('should parse the batch object returned by the node', () => {
+    const batch = parseBatch(rawBatch);
+
+    expect(batch).toMatchObject({
+      number: 500,
+      timestamp: 0x64a6b1f0,
+      sendSequencesTxHash: rawBatch.sendSequencesTxHash,
+      verifyBatchTxHash: null,
+      closed: true,
+      blocks: ['0xb1', '0xb2'],
+      transactions: ['0xt1', '0xt2'],
+      globalExitRoot: rawBatch.globalExitRoot,
+      accInputHash: rawBatch.accInputHash,
+    });
+  });
+
+  it('should derive the batch status from its L1 transactions', () => {
+    const batch = parseBatch(rawBatch);
+
+    expect(getBatchStatus(batch)).toBe('virtual');
+    expect(getBatchStatus({ ...batch, verifyBatchTxHash: '0xverify' })).toBe('verified');
+    expect(getBatchStatus({ ...batch, sendSequencesTxHash: null })).toBe('trusted');
+    expect(getBatchStatus({ ...batch, sendSequencesTxHash: null, closed: false })).toBe('open');
+  });
+
+  it('should read the trusted, virtual and verified batch numbers', async () => {
+    const numbers: Record<string, string> = {
+      zkevm_batchNumber: '0x20',
+      zkevm_virtualBatchNumber: '0x1e',
+      zkevm_verifiedBatchNumber: '0x1a',
+    };
+    const provider = { send: vi.fn(async (method: string) => numbers[method]) };
+
+    expect(await getBatchNumbers(provider as any)).toEqual({
+      trusted: 32,
+      virtual: 30,
+      verified: 26,
+    });
+  });
+
+  it('should send block and batch numbers as hex quantities', async () => {
+    const provider = { send: vi.fn().mockResolvedValueOnce('0x1f4').mockResolvedValueOnce(null) };
+
+    expect(await getBatchNumberByBlockNumber(provider as any, 1000)).toBe(500);
+    expect(await getBatchByNumber(provider as any, 500)).toBeNull();
+    expect(provider.send).toHaveBeenCalledWith('zkevm_batchNumberByBlockNumber', ['0x3e8']);
+    expect(provider.send).toHaveBeenCalledWith('zkevm_getBatchByNumber', ['0x1f4', false]);
+  });
+
+  it('should report batch details through getBatchInfo', async () => {
+    vi.mocked(callLLMWithTimeout).mockResolvedValue({ batchNumber: 500 });
+    const runtime = {
+      getSetting: vi.fn((key: string) =>
+        key === 'ZKEVM_RPC_URL' ? 'https://zkevm-rpc.com' : undefined
+      ),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet' }),
+              readCritical: async (call: (provider: unknown) => Promise<unknown>) => ({
+                value: await call({ send: vi.fn().mockResolvedValue(rawBatch) }),
+                endpoints: ['zkevm-rpc.com'],
+              }),
+            }
+          : null
+      ),
+    };
+
+    const result = await getBatchInfoAction.handler(runtime as any, {} as any, {} as any);
+
+    expect(result?.success).toBe(true);
+    expect(result?.values).toMatchObject({ batchNumber: 500, batchStatus: 'virtual' });
+    expect(result?.text).toContain('**Transactions:** 2');
+    expect(result?.text).toContain(rawBatch.sendSequencesTxHash);
+  });
+
+  describe('block finality', () => {
+    const nodeWith = (responses: Record<string, unknown>) => ({
+      send: vi.fn(async (method: string) => {
+        if (!(method in responses)) {
+          throw Object.assign(new Error(`method ${method} not found`), {
+            code: 'UNSUPPORTED_OPERATION',
+          });
+        }
+        return responses[method];
+      }),
+    });
+
+    const runtimeWith = (provider: unknown) => ({
+      getSetting: vi.fn((key: string) =>
+        key === 'ZKEVM_RPC_URL' ? 'https://zkevm-rpc.com' : undefined
+      ),
+      getService: vi.fn((type: string) =>
+        type === 'polygon-zkevm-provider'
+          ? {
+              getNetwork: () => ({ name: 'mainnet' }),
+              getEndpointName: () => 'zkevm-rpc.com',
+              read: async (call: (p: unknown) => Promise<unknown>) => ({
+                value: await call(provider),
+                endpoints: ['zkevm-rpc.com'],
+              }),
+              readCritical: async (call: (p: unknown) => Promise<unknown>) => ({
+                value: await call(provider),
+                endpoints: ['zkevm-rpc.com'],
+              }),
+            }
+          : null
+      ),
+    });
+
+    it('should use zkevm_isBlockConsolidated and zkevm_isBlockVirtualized', async () => {
+      const provider = nodeWith({
+        zkevm_batchNumberByBlockNumber: '0x1f4',
+        zkevm_getBatchByNumber: rawBatch,
+        zkevm_isBlockConsolidated: false,
+        zkevm_isBlockVirtualized: true,
+      });
+
+      expect(await getBlockFinality(provider as any, 1000)).toEqual({
+        blockNumber: 1000,
+        status: 'virtual',
+        batchNumber: 500,
+        sendSequencesTxHash: rawBatch.sendSequencesTxHash,
+        verifyBatchTxHash: null,
+        source: 'zkevm_isBlock',
+      });
+      expect(provider.send).toHaveBeenCalledWith('zkevm_isBlockConsolidated', ['0x3e8']);
+    });
+
+    it('should fall back to the batch L1 transactions', async () => {
+      const provider = nodeWith({
+        zkevm_batchNumberByBlockNumber: '0x1f4',
+        zkevm_getBatchByNumber: { ...rawBatch, verifyBatchTxHash: '0xverify' },
+      });
+
+      expect(await getBlockFinality(provider as any, 1000)).toMatchObject({
+        status: 'consolidated',
+        verifyBatchTxHash: '0xverify',
+        source: 'batch',
+      });
+    });
+
+    it('should answer from zkevm_isBlock* on nodes without the batch methods', async () => {
+      const provider = nodeWith({
+        zkevm_isBlockConsolidated: true,
+      });
+
+      expect(await getBlockFinality(provider as any, 1000)).toEqual({
+        blockNumber: 1000,
+        status: 'consolidated',
+        batchNumber: null,
+        sendSequencesTxHash: null,
+        verifyBatchTxHash: null,
+        source: 'zkevm_isBlock',
+      });
+    });
+
+    it('should never take a block unknown to the node for batch 0', async () => {
+      const provider = nodeWith({
+        zkevm_batchNumberByBlockNumber: null,
+        zkevm_isBlockConsolidated: false,
+        zkevm_isBlockVirtualized: false,
+      });
+
+      expect(await getBatchNumberByBlockNumber(provider as any, 1000)).toBeNull();
+      expect(await getBlockFinality(provider as any, 1000)).toMatchObject({
+        status: 'trusted',
+        batchNumber: null,
+        sendSequencesTxHash: null,
+      });
+      expect(provider.send).not.toHaveBeenCalledWith('zkevm_getBatchByNumber', expect.anything());
+
+      // Without zkevm_isBlock* there is nothing left to answer from
+      const legacyNode = nodeWith({ zkevm_batchNumberByBlockNumber: null });
+      await expect(getBlockFinality(legacyNode as any, 1000)).rejects.toThrow(
+        'zkevm_isBlockConsolidated'
+      );
+    });
+
+    it('should report an unknown status instead of guessing', async () => {
+      vi.mocked(callLLMWithTimeout).mockResolvedValue({ blockNumber: 1000 });
+      const provider = {
+        getBlock: vi.fn().mockResolvedValue({ number: 1000, hash: '0xblock' }),
+        ...nodeWith({}),
+      };
+
+      const result = await checkBlockStatusAction.handler(
+        runtimeWith(provider) as any,
+        {} as any,
+        {} as any
+      );
+
+      expect(result?.success).toBe(false);
+      expect(result?.values).toMatchObject({ status: 'unknown', statusKnown: false });
+      expect(result?.text).toContain('UNKNOWN');
+    });
+
+    it('should keep the original status codes of checkBlockStatus', async () => {
+      const statusCodeOf = async (responses: Record<string, unknown>) => {
+        vi.mocked(callLLMWithTimeout).mockResolvedValue({ blockNumber: 1000 });
+        const provider = {
+          getBlock: vi.fn().mockResolvedValue({ number: 1000, hash: '0xblock' }),
+          ...nodeWith({ zkevm_batchNumberByBlockNumber: '0x1f4', ...responses }),
+        };
+        const result = await checkBlockStatusAction.handler(
+          runtimeWith(provider) as any,
+          {} as any,
+          {} as any
+        );
+        return result?.values?.statusCode;
+      };
+      const finality = (consolidated: boolean, virtualized: boolean) => ({
+        zkevm_getBatchByNumber: rawBatch,
+        zkevm_isBlockConsolidated: consolidated,
+        zkevm_isBlockVirtualized: virtualized,
+      });
+
+      expect(await statusCodeOf(finality(false, true))).toBe(0);
+      expect(await statusCodeOf(finality(false, false))).toBe(1);
+      expect(await statusCodeOf(finality(true, true))).toBe(2);
+    });
+  });
+});
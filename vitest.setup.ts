@@ -71,6 +71,12 @@ export const mockRuntime = {
 vi.mock('@elizaos/core', () => {
   return {
     logger: elizaOsLoggerMock,
+    Service: class {
+      runtime: any;
+      constructor(runtime?: any) {
+        this.runtime = runtime;
+      }
+    },
     parseJSONObjectFromText: vi.fn((text) => {
       try {
         return JSON.parse(text);
@@ -102,6 +108,9 @@ export const mockEthersProvider = {
     logs: [],
   }),
   send: vi.fn().mockImplementation((method: string, params: any[]) => {
+    if (method === 'eth_chainId') {
+      return Promise.resolve('0x44d'); // 1101
+    }
     if (method === 'eth_gasPrice') {
       return Promise.resolve('0x4a817c800'); // 20 gwei
     }